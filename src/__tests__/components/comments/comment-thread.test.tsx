@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+
+import { CommentThread } from '@/components/comments/comment-thread';
+import { useCommentReplies } from '@/lib/api/hooks/use-comments';
+import { render } from '../../utils/test-utils';
+import { mockUser, mockOtherUser } from '../../mocks/handlers';
+
+const mutation = { mutate: vi.fn(), mutateAsync: vi.fn(), isPending: false };
+
+vi.mock('@/lib/api/hooks/use-comments', () => ({
+  useCommentReplies: vi.fn(),
+  useCreateComment: vi.fn(() => mutation),
+  useUpdateComment: vi.fn(() => mutation),
+  useDeleteComment: vi.fn(() => mutation),
+  useLikeComment: vi.fn(() => mutation),
+}));
+
+vi.mock('@/lib/api/hooks/use-search', () => ({
+  useSearchHashtags: vi.fn(() => ({ data: undefined })),
+  useMentionSuggestions: vi.fn(() => ({ data: undefined })),
+}));
+
+const comment = {
+  id: 'c1',
+  postId: 'p1',
+  content: 'Where was this taken?',
+  author: mockOtherUser,
+  likesCount: 4,
+  repliesCount: 12,
+  isLiked: false,
+  createdAt: new Date().toISOString(),
+};
+
+const reply = {
+  ...comment,
+  id: 'r1',
+  parentId: 'c1',
+  content: 'Kazbegi road',
+  author: mockUser,
+  repliesCount: 0,
+};
+
+function mockReplies(
+  items: (typeof reply)[] = [],
+  overrides: Record<string, unknown> = {}
+) {
+  (useCommentReplies as ReturnType<typeof vi.fn>).mockReturnValue({
+    data: items.length ? { pages: [{ items }] } : undefined,
+    isLoading: false,
+    hasNextPage: false,
+    fetchNextPage: vi.fn(),
+    isFetchingNextPage: false,
+    ...overrides,
+  });
+}
+
+describe('CommentThread', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReplies();
+  });
+
+  it('does not load replies until the thread is expanded', async () => {
+    const { user } = render(
+      <CommentThread comment={comment} currentUserId={mockUser.id} />
+    );
+
+    expect(useCommentReplies).toHaveBeenLastCalledWith('p1', 'c1', false);
+
+    mockReplies([reply], { hasNextPage: true });
+    await user.click(screen.getByRole('button', { name: 'View 12 replies' }));
+
+    expect(useCommentReplies).toHaveBeenLastCalledWith('p1', 'c1', true);
+    expect(screen.getByText('Kazbegi road')).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'View 11 more replies' })
+    ).toBeInTheDocument();
+  });
+
+  it('only shows edit options on the current user’s comments', async () => {
+    mockReplies([reply]);
+    const { user } = render(
+      <CommentThread comment={comment} currentUserId={mockUser.id} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'View 12 replies' }));
+
+    // Only the reply belongs to the current user
+    expect(
+      screen.getAllByRole('button', { name: 'Comment options' })
+    ).toHaveLength(1);
+  });
+
+  it('mentions the reply author when replying to a reply', async () => {
+    const otherReply = { ...reply, author: mockOtherUser };
+    mockReplies([otherReply]);
+    const { user } = render(
+      <CommentThread comment={comment} currentUserId={mockUser.id} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'View 12 replies' }));
+    const replyButtons = screen.getAllByRole('button', { name: 'Reply' });
+    await user.click(replyButtons[1]!);
+
+    expect(screen.getByLabelText('Reply')).toHaveValue(
+      `@${mockOtherUser.username} `
+    );
+  });
+
+  it('likes a comment', async () => {
+    const { user } = render(
+      <CommentThread comment={comment} currentUserId={mockUser.id} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Like comment' }));
+
+    expect(mutation.mutate).toHaveBeenCalledWith({
+      commentId: 'c1',
+      liked: true,
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+
+import { TrendingHashtags } from '@/components/explore/trending-hashtags';
+import { useTrendingHashtags } from '@/lib/api/hooks/use-search';
+import { render } from '../../utils/test-utils';
+
+vi.mock('@/lib/api/hooks/use-search', () => ({
+  useTrendingHashtags: vi.fn(),
+}));
+
+function mockHashtags(value: Record<string, unknown>) {
+  (useTrendingHashtags as ReturnType<typeof vi.fn>).mockReturnValue({
+    data: undefined,
+    isLoading: false,
+    isError: false,
+    ...value,
+  });
+}
+
+describe('TrendingHashtags', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('links each hashtag to its page with a post count', () => {
+    mockHashtags({
+      data: {
+        hashtags: [
+          { tag: 'TrackDay', count: 1520 },
+          { tag: 'kazbegi', count: 87 },
+        ],
+      },
+    });
+
+    render(<TrendingHashtags />);
+
+    expect(screen.getByRole('link', { name: /trackday/i })).toHaveAttribute(
+      'href',
+      '/hashtag/trackday'
+    );
+    expect(screen.getByRole('link', { name: /kazbegi/i })).toHaveAttribute(
+      'href',
+      '/hashtag/kazbegi'
+    );
+    expect(screen.getByText('1.5K')).toBeInTheDocument();
+  });
+
+  it('renders nothing when there are no trending hashtags', () => {
+    mockHashtags({ data: { hashtags: [] } });
+
+    const { container } = render(<TrendingHashtags />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
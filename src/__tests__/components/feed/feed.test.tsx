@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+
+import { Feed } from '@/components/feed/feed';
+import {
+  useFeed,
+  useNewFeedPosts,
+  prependPostsToFeed,
+} from '@/lib/api/hooks/use-posts';
+import { render } from '../../utils/test-utils';
+import { mockUser, mockOtherUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/hooks/use-posts', async (importOriginal) => ({
+  isOptimisticPost: (
+    await importOriginal<typeof import('@/lib/api/hooks/use-posts')>()
+  ).isOptimisticPost,
+  useFeed: vi.fn(),
+  useNewFeedPosts: vi.fn(),
+  prependPostsToFeed: vi.fn(),
+  useLikePost: vi.fn(() => ({ mutate: vi.fn() })),
+  useBookmarkPost: vi.fn(() => ({ mutate: vi.fn() })),
+  useUpdatePost: vi.fn(() => ({ mutate: vi.fn() })),
+  useDeletePost: vi.fn(() => ({ mutateAsync: vi.fn() })),
+  useRepost: vi.fn(() => ({ mutate: vi.fn() })),
+  useNotInterested: vi.fn(() => ({ mutate: vi.fn() })),
+  useCreatePost: vi.fn(() => ({ mutate: vi.fn() })),
+  isPlainRepost: vi.fn(() => false),
+}));
+
+const createPost = (id: string, content: string, author = mockUser) => ({
+  id,
+  content,
+  author,
+  likesCount: 3,
+  commentsCount: 1,
+  createdAt: new Date().toISOString(),
+});
+
+const mockPosts = [
+  createPost('p2', 'Second ride of the season'),
+  createPost('p1', 'First post', mockOtherUser),
+];
+
+function mockFeed(overrides: Record<string, unknown> = {}) {
+  (useFeed as ReturnType<typeof vi.fn>).mockReturnValue({
+    data: { pages: [{ items: mockPosts, meta: { nextCursor: null } }] },
+    isLoading: false,
+    isError: false,
+    refetch: vi.fn(),
+    hasNextPage: false,
+    fetchNextPage: vi.fn(),
+    isFetchingNextPage: false,
+    isFetchNextPageError: false,
+    ...overrides,
+  });
+}
+
+function mockNewPosts(items: ReturnType<typeof createPost>[] = []) {
+  (useNewFeedPosts as ReturnType<typeof vi.fn>).mockReturnValue({
+    data: { items },
+  });
+}
+
+describe('Feed', () => {
+  beforeEach(() => {
+    mockFeed();
+    mockNewPosts();
+  });
+
+  it('renders posts from every loaded page', () => {
+    render(<Feed />);
+
+    expect(screen.getByText('Second ride of the season')).toBeInTheDocument();
+    expect(screen.getByText('First post')).toBeInTheDocument();
+  });
+
+  it('polls for new posts after the newest confirmed one', () => {
+    mockFeed({
+      data: {
+        pages: [
+          {
+            items: [createPost('optimistic-1', 'Just posted'), ...mockPosts],
+            meta: { nextCursor: null },
+          },
+        ],
+      },
+    });
+
+    render(<Feed />);
+
+    expect(useNewFeedPosts).toHaveBeenCalledWith('p2');
+  });
+
+  it('shows the empty state when the feed has no posts', () => {
+    mockFeed({ data: { pages: [{ items: [], meta: { nextCursor: null } }] } });
+
+    render(<Feed />);
+
+    expect(screen.getByText(/no posts yet/i)).toBeInTheDocument();
+  });
+
+  it('polls for posts newer than the first loaded post', () => {
+    render(<Feed />);
+
+    expect(useNewFeedPosts).toHaveBeenCalledWith('p2');
+  });
+
+  it('shows a banner counting only posts not already in the feed', () => {
+    mockNewPosts([
+      createPost('p3', 'Brand new'),
+      createPost('p2', 'Second ride'),
+    ]);
+
+    render(<Feed />);
+
+    expect(
+      screen.getByRole('button', { name: /1 new post/i })
+    ).toBeInTheDocument();
+  });
+
+  it('hides the banner when there are no new posts', () => {
+    render(<Feed />);
+
+    expect(
+      screen.queryByRole('button', { name: /new post/i })
+    ).not.toBeInTheDocument();
+  });
+
+  it('prepends new posts to the feed cache when the banner is clicked', async () => {
+    const newPost = createPost('p3', 'Brand new');
+    mockNewPosts([newPost]);
+
+    const { user } = render(<Feed />);
+
+    await user.click(screen.getByRole('button', { name: /1 new post/i }));
+
+    expect(prependPostsToFeed).toHaveBeenCalledWith(expect.anything(), [
+      newPost,
+    ]);
+  });
+
+  it('offers a retry when the feed fails to load', async () => {
+    const refetch = vi.fn();
+    mockFeed({ data: undefined, isError: true, refetch });
+
+    const { user } = render(<Feed />);
+
+    await user.click(screen.getByRole('button', { name: /try again/i }));
+
+    expect(refetch).toHaveBeenCalled();
+  });
+});
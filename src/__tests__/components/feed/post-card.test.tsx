@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { screen, within } from '@testing-library/react';
+
+import { PostCard } from '@/components/feed/post-card';
+import { render } from '../../utils/test-utils';
+import { mockUser, mockOtherUser } from '../../mocks/handlers';
+
+const createPost = (overrides: Record<string, unknown> = {}) => ({
+  id: 'p1',
+  content: 'Sunday ride with @otheruser #Enduro https://example.com/route',
+  author: mockUser,
+  likesCount: 4,
+  commentsCount: 2,
+  createdAt: new Date().toISOString(),
+  ...overrides,
+});
+
+describe('PostCard', () => {
+  it('links hashtags to the hashtag page', () => {
+    render(<PostCard post={createPost()} />);
+
+    expect(screen.getByRole('link', { name: '#Enduro' })).toHaveAttribute(
+      'href',
+      '/hashtag/enduro'
+    );
+  });
+
+  it('links mentions to the user profile', () => {
+    render(<PostCard post={createPost()} />);
+
+    expect(screen.getByRole('link', { name: '@otheruser' })).toHaveAttribute(
+      'href',
+      '/otheruser'
+    );
+  });
+
+  it('opens external links in a new tab', () => {
+    render(<PostCard post={createPost()} />);
+
+    const link = screen.getByRole('link', { name: 'example.com/route' });
+    expect(link).toHaveAttribute('href', 'https://example.com/route');
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', expect.stringContaining('noopener'));
+  });
+
+  it('renders markup in content as text', () => {
+    render(<PostCard post={createPost({ content: '<b>bold</b>' })} />);
+
+    expect(screen.getByText('<b>bold</b>')).toBeInTheDocument();
+  });
+
+  it('shows at most four images with a count of the rest', () => {
+    const images = Array.from(
+      { length: 6 },
+      (_, i) => `https://example.com/${i}.jpg`
+    );
+    render(<PostCard post={createPost({ images })} />);
+
+    expect(screen.getAllByRole('button', { name: /view image/i })).toHaveLength(
+      4
+    );
+    expect(screen.getByText('+2')).toBeInTheDocument();
+  });
+
+  it('opens the lightbox and navigates between images', async () => {
+    const images = ['https://example.com/a.jpg', 'https://example.com/b.jpg'];
+    const { user } = render(<PostCard post={createPost({ images })} />);
+
+    await user.click(screen.getByRole('button', { name: 'View image 1 of 2' }));
+
+    const dialog = screen.getByRole('dialog');
+    expect(within(dialog).getByText('1 / 2')).toBeInTheDocument();
+
+    await user.click(
+      within(dialog).getByRole('button', { name: 'Next image' })
+    );
+    expect(within(dialog).getByText('2 / 2')).toBeInTheDocument();
+
+    await user.keyboard('{ArrowLeft}');
+    expect(within(dialog).getByText('1 / 2')).toBeInTheDocument();
+  });
+
+  it('shows the original under a reposted line for plain reposts', () => {
+    const original = createPost({
+      id: 'p0',
+      author: mockOtherUser,
+      content: 'Original ride',
+    });
+    render(
+      <PostCard
+        post={createPost({
+          id: 'r1',
+          content: '',
+          repostOfId: 'p0',
+          repostOf: original,
+        })}
+      />
+    );
+
+    expect(
+      screen.getByRole('link', { name: 'Test User reposted' })
+    ).toHaveAttribute('href', '/testuser');
+    expect(screen.getByText('Original ride')).toBeInTheDocument();
+  });
+
+  it('embeds the quoted post below the quote', () => {
+    const original = createPost({
+      id: 'p0',
+      author: mockOtherUser,
+      content: 'Original ride',
+    });
+    render(
+      <PostCard
+        post={createPost({
+          id: 'q1',
+          content: 'Great day',
+          repostOfId: 'p0',
+          repostOf: original,
+        })}
+      />
+    );
+
+    expect(screen.getByText('Great day')).toBeInTheDocument();
+    expect(
+      screen.getByRole('link', { name: /quoted post by other user/i })
+    ).toHaveAttribute('href', '/posts/p0');
+  });
+
+  it('shows a placeholder when the quoted post was deleted', () => {
+    render(
+      <PostCard
+        post={createPost({
+          id: 'q1',
+          content: 'Great day',
+          repostOfId: 'p0',
+          repostOf: null,
+        })}
+      />
+    );
+
+    expect(
+      screen.getByText('This post is no longer available.')
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { act, screen, waitFor } from '@testing-library/react';
+
+import BikeMaintenancePage from '@/app/(main)/settings/garage/[id]/page';
+import {
+  useAddMaintenanceEntry,
+  useMaintenanceLog,
+  useMaintenanceReminders,
+  useMyGarage,
+} from '@/lib/api/hooks/use-garage';
+import { downloadFile } from '@/lib/utils';
+import { render } from '../../utils/test-utils';
+
+vi.mock('@/lib/api/hooks/use-garage', () => ({
+  useMyGarage: vi.fn(),
+  useMaintenanceLog: vi.fn(),
+  useMaintenanceReminders: vi.fn(),
+  useAddMaintenanceEntry: vi.fn(),
+  useDeleteMaintenanceEntry: vi.fn(() => ({ mutate: vi.fn() })),
+  useCreateMaintenanceReminder: vi.fn(() => ({
+    mutateAsync: vi.fn(),
+    isPending: false,
+  })),
+  useDeleteMaintenanceReminder: vi.fn(() => ({ mutate: vi.fn() })),
+}));
+
+vi.mock('@/hooks/use-image-upload', () => ({
+  useMultiImageUpload: () => ({ uploadFiles: vi.fn(), isUploading: false }),
+}));
+
+vi.mock('@/lib/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/utils')>()),
+  downloadFile: vi.fn(),
+}));
+
+const bike = {
+  id: 'b1',
+  make: 'Yamaha',
+  model: 'WR250F',
+  year: 2019,
+  mileage: 14800,
+  photos: [],
+  createdAt: new Date().toISOString(),
+};
+
+const entries = [
+  {
+    id: 'm1',
+    bikeId: 'b1',
+    type: 'oil-change' as const,
+    date: '2024-03-02',
+    odometer: 10000,
+    cost: 120,
+    currency: 'GEL',
+    notes: 'Motul 300V',
+    receipts: [],
+    createdAt: new Date().toISOString(),
+  },
+];
+
+// The page unwraps its params with use(), which suspends until they resolve
+const renderPage = () =>
+  act(async () =>
+    render(<BikeMaintenancePage params={Promise.resolve({ id: 'b1' })} />)
+  );
+
+describe('BikeMaintenancePage', () => {
+  const addEntry = vi.fn();
+
+  beforeAll(() => {
+    Element.prototype.scrollIntoView = vi.fn();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    addEntry.mockResolvedValue({});
+    vi.mocked(useMyGarage).mockReturnValue({
+      data: [bike],
+      isLoading: false,
+    } as unknown as ReturnType<typeof useMyGarage>);
+    vi.mocked(useMaintenanceLog).mockReturnValue({
+      data: entries,
+      isLoading: false,
+    } as unknown as ReturnType<typeof useMaintenanceLog>);
+    vi.mocked(useMaintenanceReminders).mockReturnValue({
+      data: [
+        {
+          id: 'r1',
+          bikeId: 'b1',
+          type: 'oil-change',
+          intervalKm: 5000,
+          intervalMonths: null,
+          createdAt: new Date().toISOString(),
+        },
+      ],
+      isLoading: false,
+    } as unknown as ReturnType<typeof useMaintenanceReminders>);
+    vi.mocked(useAddMaintenanceEntry).mockReturnValue({
+      mutateAsync: addEntry,
+      isPending: false,
+    } as unknown as ReturnType<typeof useAddMaintenanceEntry>);
+  });
+
+  it('shows the log with its total cost', async () => {
+    await renderPage();
+
+    expect(screen.getByText('1 entry · ₾120 spent')).toBeInTheDocument();
+    expect(screen.getByText('Motul 300V')).toBeInTheDocument();
+    expect(screen.getByText(/10,000 km · ₾120/)).toBeInTheDocument();
+  });
+
+  it('shows how close each reminder is to due', async () => {
+    await renderPage();
+
+    expect(screen.getByText('Due soon')).toBeInTheDocument();
+    expect(
+      screen.getByText('Every 5,000 km · Next at 15,000 km')
+    ).toBeInTheDocument();
+  });
+
+  it('exports the log as CSV', async () => {
+    const { user } = await renderPage();
+
+    await user.click(screen.getByRole('button', { name: /export csv/i }));
+
+    expect(downloadFile).toHaveBeenCalledWith(
+      '2019-yamaha-wr250f-maintenance.csv',
+      expect.stringContaining('2024-03-02,Oil change,10000,120,GEL'),
+      'text/csv;charset=utf-8'
+    );
+  });
+
+  it('logs a new entry starting from the current mileage', async () => {
+    const { user } = await renderPage();
+
+    await user.click(screen.getByRole('button', { name: /log maintenance/i }));
+    expect(screen.getByLabelText('Odometer (km)')).toHaveValue(14800);
+
+    await user.click(screen.getByRole('combobox', { name: 'Type' }));
+    await user.click(screen.getByRole('option', { name: 'Chain & sprockets' }));
+    await user.click(screen.getByRole('button', { name: 'Save entry' }));
+
+    await waitFor(() =>
+      expect(addEntry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'chain',
+          odometer: 14800,
+          currency: 'GEL',
+          notes: undefined,
+          receipts: [],
+        })
+      )
+    );
+  });
+
+  it('offers a retry when the garage fails to load', async () => {
+    const refetch = vi.fn();
+    vi.mocked(useMyGarage).mockReturnValue({
+      data: undefined,
+      isLoading: false,
+      isError: true,
+      error: new Error('Network error'),
+      refetch,
+    } as unknown as ReturnType<typeof useMyGarage>);
+    const { user } = await renderPage();
+
+    expect(screen.getByText('Network error')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Try Again' }));
+    expect(refetch).toHaveBeenCalled();
+  });
+});
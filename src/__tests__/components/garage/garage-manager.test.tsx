@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+
+import { GarageManager } from '@/components/garage';
+import {
+  useCreateBike,
+  useDeleteBike,
+  useMyGarage,
+  useUpdateBike,
+} from '@/lib/api/hooks/use-garage';
+import { render } from '../../utils/test-utils';
+import type { Bike } from '@/types/garage';
+
+vi.mock('@/lib/api/hooks/use-garage', () => ({
+  useMyGarage: vi.fn(),
+  useCreateBike: vi.fn(),
+  useUpdateBike: vi.fn(),
+  useDeleteBike: vi.fn(),
+}));
+
+vi.mock('@/hooks/use-image-upload', () => ({
+  useMultiImageUpload: () => ({ uploadFiles: vi.fn(), isUploading: false }),
+}));
+
+const bike: Bike = {
+  id: 'b1',
+  make: 'Yamaha',
+  model: 'WR250F',
+  year: 2019,
+  nickname: 'Blue',
+  vin: 'JYARJ16E09A000001',
+  mileage: 12300,
+  photos: [],
+  createdAt: new Date().toISOString(),
+};
+
+describe('GarageManager', () => {
+  const createBike = vi.fn();
+  const updateBike = vi.fn();
+  const deleteBike = vi.fn();
+
+  const mockGarage = (bikes: Bike[]) =>
+    vi.mocked(useMyGarage).mockReturnValue({
+      data: bikes,
+      isLoading: false,
+    } as unknown as ReturnType<typeof useMyGarage>);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    createBike.mockResolvedValue(bike);
+    updateBike.mockResolvedValue(bike);
+    vi.mocked(useCreateBike).mockReturnValue({
+      mutateAsync: createBike,
+      isPending: false,
+    } as unknown as ReturnType<typeof useCreateBike>);
+    vi.mocked(useUpdateBike).mockReturnValue({
+      mutateAsync: updateBike,
+      isPending: false,
+    } as unknown as ReturnType<typeof useUpdateBike>);
+    vi.mocked(useDeleteBike).mockReturnValue({
+      mutate: deleteBike,
+    } as unknown as ReturnType<typeof useDeleteBike>);
+  });
+
+  it('shows an empty state when the garage is empty', () => {
+    mockGarage([]);
+    render(<GarageManager />);
+
+    expect(screen.getByText('Your garage is empty')).toBeInTheDocument();
+  });
+
+  it('shows bikes with links to parts and selling', () => {
+    mockGarage([bike]);
+    render(<GarageManager />);
+
+    expect(screen.getByText('Blue')).toBeInTheDocument();
+    expect(screen.getByText('2019 Yamaha WR250F')).toBeInTheDocument();
+    expect(screen.getByText('12,300 km')).toBeInTheDocument();
+    expect(screen.getByText(`VIN ${bike.vin}`)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /find parts/i })).toHaveAttribute(
+      'href',
+      '/parts?make=Yamaha&model=WR250F&year=2019'
+    );
+    expect(
+      screen.getByRole('link', { name: /sell this bike/i })
+    ).toHaveAttribute('href', '/marketplace/create?bike=b1');
+  });
+
+  it('adds a bike', async () => {
+    mockGarage([]);
+    const { user } = render(<GarageManager />);
+
+    await user.click(screen.getByRole('button', { name: /add a bike/i }));
+    await user.type(screen.getByLabelText('Make'), 'Honda');
+    await user.type(screen.getByLabelText('Model'), 'CRF450R');
+    await user.type(screen.getByLabelText('Year'), '2021');
+    await user.type(screen.getByLabelText('Mileage (km)'), '800');
+    await user.type(
+      screen.getByLabelText('VIN (optional)'),
+      'jh2pe0500mk000001'
+    );
+    await user.click(screen.getByRole('button', { name: 'Add bike' }));
+
+    await waitFor(() =>
+      expect(createBike).toHaveBeenCalledWith({
+        make: 'Honda',
+        model: 'CRF450R',
+        year: 2021,
+        mileage: 800,
+        vin: 'JH2PE0500MK000001',
+        photos: [],
+        engine: undefined,
+        nickname: undefined,
+      })
+    );
+  });
+
+  it('rejects an invalid VIN', async () => {
+    mockGarage([bike]);
+    const { user } = render(<GarageManager />);
+
+    await user.click(
+      screen.getByRole('button', { name: 'Edit 2019 Yamaha WR250F' })
+    );
+    const vin = screen.getByLabelText('VIN (optional)');
+    await user.clear(vin);
+    await user.type(vin, 'OOPS');
+    await user.click(screen.getByRole('button', { name: 'Save changes' }));
+
+    expect(
+      await screen.findByText(/VIN must be 17 letters and numbers/)
+    ).toBeInTheDocument();
+    expect(updateBike).not.toHaveBeenCalled();
+  });
+
+  it('removes a bike after confirming', async () => {
+    mockGarage([bike]);
+    const { user } = render(<GarageManager />);
+
+    await user.click(
+      screen.getByRole('button', { name: 'Remove 2019 Yamaha WR250F' })
+    );
+    await user.click(screen.getByRole('button', { name: 'Remove' }));
+
+    await waitFor(() => expect(deleteBike).toHaveBeenCalledWith('b1'));
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, screen } from '@testing-library/react';
+
+import HashtagPage from '@/app/(main)/hashtag/[tag]/page';
+import { useHashtagPosts } from '@/lib/api/hooks/use-posts';
+import { render } from '../../utils/test-utils';
+
+vi.mock('@/lib/api/hooks/use-posts', () => ({
+  useHashtagPosts: vi.fn(),
+}));
+
+// The page unwraps its params with use(), which suspends until they resolve
+const renderTag = (tag: string) =>
+  act(async () => render(<HashtagPage params={Promise.resolve({ tag })} />));
+
+describe('HashtagPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useHashtagPosts).mockReturnValue({
+      data: undefined,
+      isLoading: true,
+      isError: false,
+    } as unknown as ReturnType<typeof useHashtagPosts>);
+  });
+
+  it('decodes the tag from the URL', async () => {
+    await renderTag('%23Motocross');
+
+    expect(useHashtagPosts).toHaveBeenCalledWith('motocross');
+  });
+
+  it('falls back to the raw segment when it is malformed', async () => {
+    await renderTag('%E0%A4%A');
+
+    expect(useHashtagPosts).toHaveBeenCalledWith('%e0%a4%a');
+    expect(screen.getByText(/%e0%a4%a/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+
+import FavoritesPage from '@/app/(main)/marketplace/favorites/page';
+import {
+  useFavorites,
+  useRemoveFavorite,
+} from '@/lib/api/hooks/use-marketplace';
+import { render } from '../../utils/test-utils';
+import { mockOtherUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/hooks/use-marketplace', () => ({
+  useFavorites: vi.fn(),
+  useRemoveFavorite: vi.fn(),
+}));
+
+const createListing = (id: string, title: string, price: number) => ({
+  id,
+  title,
+  description: 'Well kept',
+  price,
+  currency: 'USD',
+  images: [],
+  condition: 'good',
+  category: 'gear',
+  seller: mockOtherUser,
+  status: 'active',
+  viewsCount: 3,
+  createdAt: new Date().toISOString(),
+});
+
+const createFavorite = (
+  listing: ReturnType<typeof createListing> | null,
+  title: string,
+  priceAtFavorite: number
+) => ({
+  listingId: listing?.id ?? 'gone',
+  listing,
+  title,
+  priceAtFavorite,
+  currency: 'USD',
+  favoritedAt: new Date().toISOString(),
+});
+
+describe('FavoritesPage', () => {
+  const removeFavorite = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useFavorites).mockReturnValue({
+      data: [
+        createFavorite(null, 'Old tank bag', 60),
+        createFavorite(createListing('l1', 'Helmet', 250), 'Helmet', 250),
+        createFavorite(createListing('l2', 'Boots', 150), 'Boots', 200),
+        createFavorite(
+          { ...createListing('l3', 'Gloves', 40), status: 'sold' },
+          'Gloves',
+          40
+        ),
+      ],
+      isLoading: false,
+      isError: false,
+    } as unknown as ReturnType<typeof useFavorites>);
+    vi.mocked(useRemoveFavorite).mockReturnValue({
+      mutate: removeFavorite,
+      isPending: false,
+    } as unknown as ReturnType<typeof useRemoveFavorite>);
+  });
+
+  it('shows price drops first and unavailable listings last', () => {
+    render(<FavoritesPage />);
+
+    const titles = screen
+      .getAllByRole('heading', { level: 3 })
+      .map((heading) => heading.textContent);
+    expect(titles).toEqual(['Boots', 'Helmet', 'Old tank bag', 'Gloves']);
+    expect(screen.getByText('Price dropped by $50')).toBeInTheDocument();
+    expect(
+      screen.getByText('1 price drop since you saved them')
+    ).toBeInTheDocument();
+  });
+
+  it('greys out sold and removed listings instead of hiding them', () => {
+    render(<FavoritesPage />);
+
+    expect(screen.getByText('Sold')).toBeInTheDocument();
+    expect(screen.getByText('Removed by seller')).toBeInTheDocument();
+    // Removed listings have nowhere to link to
+    expect(
+      screen.queryByRole('link', { name: /Old tank bag/ })
+    ).not.toBeInTheDocument();
+  });
+
+  it('removes a listing from favorites', async () => {
+    const { user } = render(<FavoritesPage />);
+
+    await user.click(
+      screen.getByRole('button', { name: 'Remove Old tank bag from favorites' })
+    );
+    expect(removeFavorite).toHaveBeenCalledWith('gone');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor, within } from '@testing-library/react';
+
+import { ListingOffers } from '@/components/marketplace/listing-offers';
+import {
+  useListingOffers,
+  useMakeOffer,
+  useRespondToOffer,
+  useWithdrawOffer,
+} from '@/lib/api/hooks/use-offers';
+import { render } from '../../utils/test-utils';
+import { mockOtherUser, mockUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/hooks/use-offers', () => ({
+  useListingOffers: vi.fn(),
+  useMakeOffer: vi.fn(),
+  useRespondToOffer: vi.fn(),
+  useWithdrawOffer: vi.fn(),
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+// mockUser sells, mockOtherUser buys
+const listing = {
+  id: 'l1',
+  title: 'Yamaha WR250F',
+  description: 'Well kept',
+  price: 4000,
+  currency: 'USD',
+  images: [],
+  condition: 'good' as const,
+  category: 'bikes',
+  seller: mockUser,
+  status: 'active' as const,
+  viewsCount: 10,
+  createdAt: new Date().toISOString(),
+};
+
+const offer = {
+  id: 'o1',
+  listingId: 'l1',
+  buyer: mockOtherUser,
+  amount: 3600,
+  currency: 'USD',
+  status: 'pending' as const,
+  awaiting: 'seller' as const,
+  expiresAt: new Date(Date.now() + 24 * HOUR).toISOString(),
+  history: [
+    {
+      id: 'e1',
+      type: 'offered' as const,
+      actor: mockOtherUser,
+      amount: 3600,
+      message: 'Cash today?',
+      createdAt: new Date().toISOString(),
+    },
+  ],
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+};
+
+describe('ListingOffers', () => {
+  const makeOffer = vi.fn();
+  const respondToOffer = vi.fn();
+  const withdrawOffer = vi.fn();
+
+  const mockOffers = (offers: unknown[]) =>
+    vi.mocked(useListingOffers).mockReturnValue({
+      data: offers,
+      isLoading: false,
+    } as unknown as ReturnType<typeof useListingOffers>);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    makeOffer.mockResolvedValue(offer);
+    vi.mocked(useMakeOffer).mockReturnValue({
+      mutateAsync: makeOffer,
+      isPending: false,
+    } as unknown as ReturnType<typeof useMakeOffer>);
+    vi.mocked(useRespondToOffer).mockReturnValue({
+      mutate: respondToOffer,
+      mutateAsync: respondToOffer,
+      isPending: false,
+    } as unknown as ReturnType<typeof useRespondToOffer>);
+    vi.mocked(useWithdrawOffer).mockReturnValue({
+      mutate: withdrawOffer,
+      isPending: false,
+    } as unknown as ReturnType<typeof useWithdrawOffer>);
+  });
+
+  it('lets the seller accept an offer and shows its history', async () => {
+    mockOffers([offer]);
+    const { user } = render(
+      <ListingOffers listing={listing} currentUserId={mockUser.id} />
+    );
+
+    const history = screen.getByRole('list', { name: 'Offer history' });
+    expect(
+      within(history).getByText(mockOtherUser.fullName)
+    ).toBeInTheDocument();
+    expect(within(history).getByText('“Cash today?”')).toBeInTheDocument();
+    expect(screen.getByText(/Waiting on you/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Accept' }));
+    await user.click(screen.getByRole('button', { name: 'Accept offer' }));
+
+    expect(respondToOffer).toHaveBeenCalledWith({
+      offerId: 'o1',
+      data: { action: 'accept' },
+    });
+  });
+
+  it('lets a buyer pick a suggested amount and send an offer', async () => {
+    mockOffers([]);
+    const { user } = render(
+      <ListingOffers listing={listing} currentUserId={mockOtherUser.id} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Make an offer' }));
+    await user.click(screen.getByRole('button', { name: /\$3,600/ }));
+    await user.click(screen.getByRole('button', { name: '3 days' }));
+    await user.click(screen.getByRole('button', { name: 'Send offer' }));
+
+    await waitFor(() =>
+      expect(makeOffer).toHaveBeenCalledWith({
+        listingId: 'l1',
+        data: { amount: 3600, message: undefined, expiresInHours: 72 },
+      })
+    );
+  });
+
+  it('lets the buyer withdraw but not answer their own open offer', async () => {
+    mockOffers([offer]);
+    const { user } = render(
+      <ListingOffers listing={listing} currentUserId={mockOtherUser.id} />
+    );
+
+    expect(screen.getByText('Your offer')).toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: 'Accept' })
+    ).not.toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: 'Make an offer' })
+    ).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Withdraw' }));
+    expect(withdrawOffer).toHaveBeenCalledWith('o1');
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, screen } from '@testing-library/react';
+
+import ListingPage from '@/app/(main)/marketplace/[id]/page';
+import {
+  useFavoriteListing,
+  useListing,
+  useSellerListings,
+} from '@/lib/api/hooks/use-marketplace';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+import { render } from '../../utils/test-utils';
+import { mockUser, mockOtherUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/hooks/use-marketplace', () => ({
+  useListing: vi.fn(),
+  useSellerListings: vi.fn(),
+  useFavoriteListing: vi.fn(),
+  useUpdateListingStatus: vi.fn(() => ({ mutate: vi.fn() })),
+  useRenewListing: vi.fn(() => ({ mutate: vi.fn() })),
+  useDeleteListing: vi.fn(() => ({ mutateAsync: vi.fn() })),
+  useMarketplaceCategories: vi.fn(() => ({
+    data: [{ id: 'c1', name: 'Bikes', slug: 'bikes' }],
+  })),
+}));
+
+vi.mock('@/lib/api/hooks/use-offers', () => ({
+  useListingOffers: vi.fn(() => ({ data: [], isLoading: false })),
+  useMakeOffer: vi.fn(() => ({ mutateAsync: vi.fn(), isPending: false })),
+  useRespondToOffer: vi.fn(() => ({ mutate: vi.fn(), isPending: false })),
+  useWithdrawOffer: vi.fn(() => ({ mutate: vi.fn(), isPending: false })),
+}));
+
+vi.mock('@/lib/api/hooks/use-user', () => ({
+  useCurrentUser: vi.fn(),
+  useFollowUser: vi.fn(() => ({ mutate: vi.fn(), isPending: false })),
+  useUnfollowUser: vi.fn(() => ({ mutate: vi.fn(), isPending: false })),
+}));
+
+const createListing = (id: string, title: string) => ({
+  id,
+  title,
+  description: 'Fresh top end, new tyres.',
+  price: 4200,
+  currency: 'USD',
+  images: [
+    'https://example.com/1.jpg',
+    'https://example.com/2.jpg',
+    'https://example.com/3.jpg',
+  ],
+  condition: 'like-new',
+  category: 'bikes',
+  location: 'Tbilisi',
+  seller: mockOtherUser,
+  status: 'active',
+  isFavorited: false,
+  viewsCount: 1250,
+  createdAt: new Date().toISOString(),
+});
+
+const listing = createListing('l1', 'Yamaha WR250F');
+
+// The page unwraps its params with use(), which suspends until they resolve
+const renderPage = () =>
+  act(async () =>
+    render(<ListingPage params={Promise.resolve({ id: 'l1' })} />)
+  );
+
+describe('ListingPage', () => {
+  const favorite = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useListing).mockReturnValue({
+      data: listing,
+      isLoading: false,
+      isError: false,
+    } as unknown as ReturnType<typeof useListing>);
+    vi.mocked(useSellerListings).mockReturnValue({
+      data: [
+        listing,
+        {
+          ...createListing('l2', 'Enduro jacket'),
+          price: 180,
+          condition: 'good',
+        },
+      ],
+    } as unknown as ReturnType<typeof useSellerListings>);
+    vi.mocked(useFavoriteListing).mockReturnValue({
+      mutate: favorite,
+    } as unknown as ReturnType<typeof useFavoriteListing>);
+    vi.mocked(useCurrentUser).mockReturnValue({
+      data: mockUser,
+    } as unknown as ReturnType<typeof useCurrentUser>);
+  });
+
+  it('shows the listing with its badges, views and seller', async () => {
+    await renderPage();
+
+    expect(useListing).toHaveBeenCalledWith('l1');
+
+    expect(
+      screen.getByRole('heading', { name: 'Yamaha WR250F' })
+    ).toBeInTheDocument();
+    expect(screen.getByText('$4,200')).toBeInTheDocument();
+    // Approximate price in the default display currency
+    expect(screen.getByText('≈ ₾11,340')).toBeInTheDocument();
+    expect(screen.getByText('Like New')).toBeInTheDocument();
+    expect(screen.getByText(/1.3K/)).toBeInTheDocument();
+    expect(screen.getByText(mockOtherUser.fullName)).toBeInTheDocument();
+  });
+
+  it('switches photos from the thumbnails', async () => {
+    const { user } = await renderPage();
+
+    await user.click(screen.getByRole('button', { name: 'Show photo 3' }));
+
+    expect(screen.getByText('3 / 3')).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'Show photo 3' })
+    ).toHaveAttribute('aria-current', 'true');
+  });
+
+  it('toggles the favorite', async () => {
+    const { user } = await renderPage();
+
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(favorite).toHaveBeenCalledWith({ listingId: 'l1', favorited: true });
+  });
+
+  it("lists the seller's other listings", async () => {
+    await renderPage();
+
+    expect(screen.getByText('More from this seller')).toBeInTheDocument();
+    expect(screen.getByText('Enduro jacket')).toBeInTheDocument();
+    expect(screen.getAllByText('Yamaha WR250F')).toHaveLength(1);
+  });
+
+  it('offers an edit link instead of favoriting to the seller', async () => {
+    vi.mocked(useCurrentUser).mockReturnValue({
+      data: mockOtherUser,
+    } as unknown as ReturnType<typeof useCurrentUser>);
+
+    await renderPage();
+
+    expect(screen.getByRole('link', { name: /Edit listing/ })).toHaveAttribute(
+      'href',
+      '/marketplace/l1/edit'
+    );
+    expect(
+      screen.queryByRole('button', { name: 'Save' })
+    ).not.toBeInTheDocument();
+  });
+});
+
+describe('ListingPage status', () => {
+  beforeEach(() => {
+    vi.mocked(useSellerListings).mockReturnValue({
+      data: [],
+    } as unknown as ReturnType<typeof useSellerListings>);
+    vi.mocked(useFavoriteListing).mockReturnValue({
+      mutate: vi.fn(),
+    } as unknown as ReturnType<typeof useFavoriteListing>);
+    vi.mocked(useCurrentUser).mockReturnValue({
+      data: mockUser,
+    } as unknown as ReturnType<typeof useCurrentUser>);
+  });
+
+  it('keeps sold listings visible with a Sold ribbon', async () => {
+    vi.mocked(useListing).mockReturnValue({
+      data: { ...listing, status: 'sold' },
+      isLoading: false,
+      isError: false,
+    } as unknown as ReturnType<typeof useListing>);
+
+    await renderPage();
+
+    expect(
+      screen.getByRole('heading', { name: 'Yamaha WR250F' })
+    ).toBeInTheDocument();
+    expect(screen.getAllByText('Sold').length).toBeGreaterThan(0);
+  });
+
+  it('offers the seller a renew when the listing has expired', async () => {
+    vi.mocked(useCurrentUser).mockReturnValue({
+      data: mockOtherUser,
+    } as unknown as ReturnType<typeof useCurrentUser>);
+    vi.mocked(useListing).mockReturnValue({
+      data: { ...listing, status: 'expired' },
+      isLoading: false,
+      isError: false,
+    } as unknown as ReturnType<typeof useListing>);
+
+    await renderPage();
+
+    expect(screen.getByText(/has expired/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Renew' })).toBeInTheDocument();
+  });
+});
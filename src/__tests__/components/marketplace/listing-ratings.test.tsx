@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+
+import { ListingRatings } from '@/components/marketplace/listing-ratings';
+import {
+  useListingRatings,
+  useRateTransaction,
+} from '@/lib/api/hooks/use-ratings';
+import { render } from '../../utils/test-utils';
+import { mockOtherUser, mockUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/hooks/use-ratings', () => ({
+  useListingRatings: vi.fn(),
+  useRateTransaction: vi.fn(),
+}));
+
+// mockUser sold to mockOtherUser
+const listing = {
+  id: 'l1',
+  title: 'Yamaha WR250F',
+  description: 'Well kept',
+  price: 4000,
+  currency: 'USD',
+  images: [],
+  condition: 'good' as const,
+  category: 'bikes',
+  seller: mockUser,
+  buyer: mockOtherUser,
+  status: 'sold' as const,
+  viewsCount: 10,
+  soldAt: new Date().toISOString(),
+  createdAt: new Date().toISOString(),
+};
+
+const sellerRating = {
+  id: 'r1',
+  listingId: 'l1',
+  rater: mockUser,
+  ratee: mockOtherUser,
+  role: 'seller' as const,
+  score: 5,
+  review: 'Paid on time, easy pickup',
+  createdAt: new Date().toISOString(),
+};
+
+describe('ListingRatings', () => {
+  const rateTransaction = vi.fn();
+
+  const mockRatings = (ratings: unknown[]) =>
+    vi.mocked(useListingRatings).mockReturnValue({
+      data: ratings,
+      isLoading: false,
+    } as unknown as ReturnType<typeof useListingRatings>);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rateTransaction.mockResolvedValue({});
+    vi.mocked(useRateTransaction).mockReturnValue({
+      mutateAsync: rateTransaction,
+      isPending: false,
+    } as unknown as ReturnType<typeof useRateTransaction>);
+  });
+
+  it('lets the buyer rate the seller with a short review', async () => {
+    mockRatings([sellerRating]);
+    const { user } = render(
+      <ListingRatings listing={listing} currentUserId={mockOtherUser.id} />
+    );
+
+    expect(screen.getByText('Paid on time, easy pickup')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Rated 5 out of 5' })).toBeVisible();
+
+    await user.click(screen.getByRole('button', { name: 'Rate the seller' }));
+    await user.click(screen.getByRole('radio', { name: '4 stars' }));
+    await user.type(
+      screen.getByLabelText('Review (optional)'),
+      'Bike as described'
+    );
+    await user.click(screen.getByRole('button', { name: 'Submit rating' }));
+
+    await waitFor(() =>
+      expect(rateTransaction).toHaveBeenCalledWith({
+        listingId: 'l1',
+        data: { score: 4, review: 'Bike as described' },
+      })
+    );
+  });
+
+  it('requires a score before submitting', async () => {
+    mockRatings([]);
+    const { user } = render(
+      <ListingRatings listing={listing} currentUserId={mockOtherUser.id} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Rate the seller' }));
+    await user.click(screen.getByRole('button', { name: 'Submit rating' }));
+
+    expect(await screen.findByText('Pick a rating')).toBeInTheDocument();
+    expect(rateTransaction).not.toHaveBeenCalled();
+  });
+
+  it('only rates once per side', () => {
+    mockRatings([sellerRating]);
+    render(<ListingRatings listing={listing} currentUserId={mockUser.id} />);
+
+    expect(
+      screen.queryByRole('button', { name: 'Rate the buyer' })
+    ).not.toBeInTheDocument();
+  });
+
+  it('renders nothing for listings sold off-platform', () => {
+    mockRatings([]);
+    const { container } = render(
+      <ListingRatings
+        listing={{ ...listing, buyer: null }}
+        currentUserId={mockUser.id}
+      />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
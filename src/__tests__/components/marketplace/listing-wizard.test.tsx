@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+
+import { ListingWizard } from '@/components/marketplace/listing-wizard';
+import {
+  useCreateListing,
+  useUpdateListing,
+} from '@/lib/api/hooks/use-marketplace';
+import { render } from '../../utils/test-utils';
+
+vi.mock('@/lib/api/hooks/use-marketplace', () => ({
+  useMarketplaceCategories: vi.fn(() => ({
+    data: [
+      { id: 'c1', name: 'Bikes', slug: 'bikes' },
+      { id: 'c2', name: 'Gear', slug: 'gear' },
+    ],
+    isLoading: false,
+  })),
+  useCreateListing: vi.fn(),
+  useUpdateListing: vi.fn(),
+}));
+
+vi.mock('@/hooks/use-image-upload', () => ({
+  useMultiImageUpload: () => ({ uploadFiles: vi.fn(), isUploading: false }),
+}));
+
+const DRAFT_KEY = 'listing-draft:new';
+
+describe('ListingWizard', () => {
+  const createListing = vi.fn();
+
+  beforeEach(() => {
+    localStorage.clear();
+    createListing.mockReset();
+    vi.mocked(useCreateListing).mockReturnValue({
+      mutateAsync: createListing,
+      isPending: false,
+    } as unknown as ReturnType<typeof useCreateListing>);
+    vi.mocked(useUpdateListing).mockReturnValue({
+      mutateAsync: vi.fn(),
+      isPending: false,
+    } as unknown as ReturnType<typeof useUpdateListing>);
+  });
+
+  it('should not leave a step until its fields are valid', async () => {
+    const { user } = render(<ListingWizard />);
+
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    expect(await screen.findByText('Pick a category')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('radio', { name: 'Bikes' }));
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    expect(await screen.findByLabelText('Title')).toBeInTheDocument();
+  });
+
+  it('should autosave progress as a draft', async () => {
+    const { user } = render(<ListingWizard />);
+
+    await user.click(screen.getByRole('radio', { name: 'Gear' }));
+
+    const stored = JSON.parse(localStorage.getItem(DRAFT_KEY) ?? 'null');
+    expect(stored.data.values.category).toBe('gear');
+  });
+
+  it('should restore a saved draft and publish it', async () => {
+    localStorage.setItem(
+      DRAFT_KEY,
+      JSON.stringify({
+        savedAt: Date.now(),
+        data: {
+          step: 'preview',
+          values: {
+            category: 'bikes',
+            title: 'Yamaha WR250F 2019',
+            description: 'Fresh top end, new tyres, always garaged.',
+            price: 4200,
+            currency: 'USD',
+            condition: 'good',
+            images: ['https://example.com/bike.jpg'],
+            location: 'Tbilisi',
+          },
+        },
+      })
+    );
+    createListing.mockResolvedValue({ id: 'l1' });
+
+    const { user } = render(<ListingWizard />);
+
+    expect(
+      screen.getByText(/Restored your unsaved changes/)
+    ).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Publish listing' }));
+
+    expect(createListing).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Yamaha WR250F 2019', price: 4200 })
+    );
+    expect(localStorage.getItem(DRAFT_KEY)).toBeNull();
+  });
+});
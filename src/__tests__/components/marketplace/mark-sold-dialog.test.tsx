@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+
+import { MarkSoldDialog } from '@/components/marketplace/mark-sold-dialog';
+import { useUpdateListingStatus } from '@/lib/api/hooks/use-marketplace';
+import { useListingOffers } from '@/lib/api/hooks/use-offers';
+import { render } from '../../utils/test-utils';
+import { mockOtherUser, mockUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/hooks/use-marketplace', () => ({
+  useUpdateListingStatus: vi.fn(),
+}));
+
+vi.mock('@/lib/api/hooks/use-offers', () => ({
+  useListingOffers: vi.fn(),
+}));
+
+const listing = {
+  id: 'l1',
+  title: 'Yamaha WR250F',
+  description: 'Well kept',
+  price: 4000,
+  currency: 'USD',
+  images: [],
+  condition: 'good' as const,
+  category: 'bikes',
+  seller: mockUser,
+  status: 'reserved' as const,
+  viewsCount: 10,
+  createdAt: new Date().toISOString(),
+};
+
+describe('MarkSoldDialog', () => {
+  const updateStatus = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    updateStatus.mockResolvedValue({});
+    vi.mocked(useUpdateListingStatus).mockReturnValue({
+      mutateAsync: updateStatus,
+      isPending: false,
+    } as unknown as ReturnType<typeof useUpdateListingStatus>);
+    vi.mocked(useListingOffers).mockReturnValue({
+      data: [{ id: 'o1', status: 'accepted', buyer: mockOtherUser }],
+      isLoading: false,
+    } as unknown as ReturnType<typeof useListingOffers>);
+  });
+
+  it('marks the listing sold to a buyer who made an offer', async () => {
+    const { user } = render(
+      <MarkSoldDialog listing={listing} open onOpenChange={vi.fn()} />
+    );
+
+    await user.click(
+      screen.getByRole('radio', { name: new RegExp(mockOtherUser.fullName) })
+    );
+    await user.click(screen.getByRole('button', { name: 'Mark as sold' }));
+
+    await waitFor(() =>
+      expect(updateStatus).toHaveBeenCalledWith({
+        id: 'l1',
+        status: 'sold',
+        buyerId: mockOtherUser.id,
+      })
+    );
+  });
+
+  it('can mark it sold to someone off-platform', async () => {
+    const { user } = render(
+      <MarkSoldDialog listing={listing} open onOpenChange={vi.fn()} />
+    );
+
+    expect(screen.getByRole('radio', { name: 'Someone else' })).toBeChecked();
+    await user.click(screen.getByRole('button', { name: 'Mark as sold' }));
+
+    await waitFor(() =>
+      expect(updateStatus).toHaveBeenCalledWith({
+        id: 'l1',
+        status: 'sold',
+        buyerId: undefined,
+      })
+    );
+  });
+});
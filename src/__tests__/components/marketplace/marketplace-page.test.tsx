@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, within } from '@testing-library/react';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+import MarketplacePage from '@/app/(main)/marketplace/page';
+import { useListings } from '@/lib/api/hooks/use-marketplace';
+import { render } from '../../utils/test-utils';
+import { mockOtherUser } from '../../mocks/handlers';
+
+vi.mock('next/navigation', () => ({
+  useRouter: vi.fn(),
+  useSearchParams: vi.fn(),
+  usePathname: () => '/marketplace',
+}));
+
+vi.mock('@/lib/api/hooks/use-saved-searches', () => ({
+  useSavedSearches: vi.fn(() => ({ data: [] })),
+}));
+
+vi.mock('@/lib/api/hooks/use-marketplace', () => ({
+  useListings: vi.fn(),
+  useMarketplaceCategories: vi.fn(() => ({
+    data: [
+      { id: 'c1', name: 'Bikes', slug: 'bikes' },
+      { id: 'c2', name: 'Gear', slug: 'gear' },
+    ],
+  })),
+}));
+
+const listing = {
+  id: 'l1',
+  title: 'Yamaha WR250F',
+  description: 'Well kept',
+  price: 4200,
+  currency: 'USD',
+  images: [],
+  condition: 'good',
+  category: 'bikes',
+  location: 'Tbilisi',
+  seller: mockOtherUser,
+  viewsCount: 10,
+  createdAt: new Date().toISOString(),
+};
+
+const push = vi.fn();
+
+function renderWithUrl(query = '') {
+  (useSearchParams as ReturnType<typeof vi.fn>).mockReturnValue(
+    new URLSearchParams(query)
+  );
+  return render(<MarketplacePage />);
+}
+
+describe('MarketplacePage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (useRouter as ReturnType<typeof vi.fn>).mockReturnValue({ push });
+    (useListings as ReturnType<typeof vi.fn>).mockReturnValue({
+      data: {
+        pages: [
+          { items: [listing], meta: { page: 1, totalPages: 1, total: 1 } },
+        ],
+      },
+      isLoading: false,
+      isError: false,
+      hasNextPage: false,
+      fetchNextPage: vi.fn(),
+      isFetchingNextPage: false,
+      isFetchNextPageError: false,
+    });
+  });
+
+  it('loads listings with the filters from the URL', () => {
+    renderWithUrl('category=bikes&condition=good&maxPrice=5000');
+
+    expect(useListings).toHaveBeenCalledWith(
+      expect.objectContaining({
+        category: 'bikes',
+        condition: 'good',
+        maxPrice: 5000,
+      })
+    );
+    expect(
+      screen.getByRole('link', { name: /yamaha wr250f/i })
+    ).toHaveAttribute('href', '/marketplace/l1');
+  });
+
+  it('writes a picked category to the URL, keeping other filters', async () => {
+    const { user } = renderWithUrl('q=helmet&sort=price-asc');
+
+    await user.click(screen.getByRole('button', { name: 'Gear' }));
+
+    expect(push).toHaveBeenCalledWith(
+      '/marketplace?q=helmet&category=gear&sort=price-asc',
+      {
+        scroll: false,
+      }
+    );
+  });
+
+  it('submits the search box to the URL', async () => {
+    const { user } = renderWithUrl('category=bikes');
+
+    await user.type(
+      screen.getByRole('searchbox', { name: 'Search listings' }),
+      'wr250{Enter}'
+    );
+
+    expect(push).toHaveBeenCalledWith('/marketplace?q=wr250&category=bikes', {
+      scroll: false,
+    });
+  });
+
+  it('shows applied filters as removable chips', async () => {
+    const { user } = renderWithUrl('category=bikes&location=Batumi');
+
+    const chip = screen.getByRole('button', { name: 'Remove Batumi filter' });
+    expect(within(chip.parentElement!).getByText('Batumi')).toBeInTheDocument();
+
+    await user.click(chip);
+
+    expect(push).toHaveBeenCalledWith('/marketplace?category=bikes', {
+      scroll: false,
+    });
+  });
+});
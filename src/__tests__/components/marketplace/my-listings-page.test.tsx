@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, within } from '@testing-library/react';
+
+import MyListingsPage from '@/app/(main)/marketplace/my-listings/page';
+import {
+  useBulkListingAction,
+  useMyListings,
+} from '@/lib/api/hooks/use-marketplace';
+import { render } from '../../utils/test-utils';
+import { mockUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/hooks/use-marketplace', () => ({
+  useMyListings: vi.fn(),
+  useBulkListingAction: vi.fn(),
+  useUpdateListingStatus: vi.fn(() => ({ mutate: vi.fn() })),
+  useRenewListing: vi.fn(() => ({ mutate: vi.fn() })),
+  useDeleteListing: vi.fn(() => ({ mutateAsync: vi.fn() })),
+}));
+
+const createListing = (id: string, title: string, status: string) => ({
+  id,
+  title,
+  description: 'Well kept',
+  price: 100,
+  currency: 'USD',
+  images: [],
+  condition: 'good',
+  category: 'gear',
+  seller: mockUser,
+  status,
+  viewsCount: 3,
+  createdAt: new Date().toISOString(),
+});
+
+describe('MyListingsPage', () => {
+  const bulkAction = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    bulkAction.mockResolvedValue({ succeeded: 1, failed: 0 });
+    vi.mocked(useMyListings).mockReturnValue({
+      data: [
+        createListing('l1', 'Helmet', 'active'),
+        createListing('l2', 'Boots', 'sold'),
+        createListing('l3', 'Gloves', 'active'),
+      ],
+      isLoading: false,
+      isError: false,
+    } as unknown as ReturnType<typeof useMyListings>);
+    vi.mocked(useBulkListingAction).mockReturnValue({
+      mutateAsync: bulkAction,
+      isPending: false,
+    } as unknown as ReturnType<typeof useBulkListingAction>);
+  });
+
+  it('groups listings by status', () => {
+    render(<MyListingsPage />);
+
+    const getGroup = (status: string) =>
+      screen
+        .getByRole('checkbox', { name: `Select all ${status} listings` })
+        .closest('[data-slot="card"]') as HTMLElement;
+
+    expect(within(getGroup('active')).getByText('Helmet')).toBeInTheDocument();
+    expect(within(getGroup('active')).getByText('Gloves')).toBeInTheDocument();
+    expect(within(getGroup('sold')).getByText('Boots')).toBeInTheDocument();
+  });
+
+  it('applies bulk actions only to listings they fit', async () => {
+    const { user } = render(<MyListingsPage />);
+
+    await user.click(screen.getByRole('checkbox', { name: 'Select Helmet' }));
+    await user.click(screen.getByRole('checkbox', { name: 'Select Boots' }));
+    expect(screen.getByText('2 selected')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Mark sold' }));
+
+    expect(bulkAction).toHaveBeenCalledWith({ ids: ['l1'], action: 'sold' });
+  });
+
+  it('selects a whole group at once', async () => {
+    const { user } = render(<MyListingsPage />);
+
+    await user.click(
+      screen.getByRole('checkbox', { name: 'Select all active listings' })
+    );
+    await user.click(screen.getByRole('button', { name: 'Mark reserved' }));
+
+    expect(bulkAction).toHaveBeenCalledWith({
+      ids: ['l1', 'l3'],
+      action: 'reserved',
+    });
+  });
+});
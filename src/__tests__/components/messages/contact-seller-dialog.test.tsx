@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import { useRouter } from 'next/navigation';
+
+import { ContactSellerDialog } from '@/components/messages/contact-seller-dialog';
+import { useContactSeller } from '@/lib/api/hooks/use-messages';
+import { render } from '../../utils/test-utils';
+import { mockOtherUser } from '../../mocks/handlers';
+
+vi.mock('next/navigation', () => ({
+  useRouter: vi.fn(),
+  usePathname: () => '/marketplace/l1',
+}));
+
+vi.mock('@/lib/api/hooks/use-messages', () => ({
+  useContactSeller: vi.fn(),
+}));
+
+const listing = {
+  id: 'l1',
+  title: 'Yamaha WR250F',
+  description: 'Well kept',
+  price: 4200,
+  currency: 'USD',
+  images: [],
+  condition: 'good' as const,
+  category: 'bikes',
+  seller: mockOtherUser,
+  status: 'active' as const,
+  viewsCount: 10,
+  createdAt: new Date().toISOString(),
+};
+
+describe('ContactSellerDialog', () => {
+  const push = vi.fn();
+  const contactSeller = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useRouter).mockReturnValue({ push } as unknown as ReturnType<
+      typeof useRouter
+    >);
+    vi.mocked(useContactSeller).mockReturnValue({
+      mutateAsync: contactSeller,
+      isPending: false,
+    } as unknown as ReturnType<typeof useContactSeller>);
+  });
+
+  it('shows the listing being asked about', () => {
+    render(
+      <ContactSellerDialog listing={listing} open onOpenChange={vi.fn()} />
+    );
+
+    expect(
+      screen.getByRole('heading', { name: `Message ${mockOtherUser.fullName}` })
+    ).toBeInTheDocument();
+    expect(screen.getByText('Yamaha WR250F')).toBeInTheDocument();
+  });
+
+  it('sends a canned question and opens the conversation', async () => {
+    contactSeller.mockResolvedValue({ id: 'c1' });
+    const { user } = render(
+      <ContactSellerDialog listing={listing} open onOpenChange={vi.fn()} />
+    );
+
+    await user.click(
+      screen.getByRole('button', { name: 'Is this still available?' })
+    );
+    expect(screen.getByLabelText('Message')).toHaveValue(
+      'Is this still available?'
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Send' }));
+
+    await waitFor(() =>
+      expect(contactSeller).toHaveBeenCalledWith({
+        listingId: 'l1',
+        data: { message: 'Is this still available?' },
+      })
+    );
+    expect(push).toHaveBeenCalledWith('/messages/c1');
+  });
+});
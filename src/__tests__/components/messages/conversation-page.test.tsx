@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, screen } from '@testing-library/react';
+
+import ConversationPage from '@/app/(main)/messages/[id]/page';
+import {
+  useConversation,
+  useMarkConversationRead,
+  useMessages,
+  useSendMessage,
+} from '@/lib/api/hooks/use-messages';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+import { render } from '../../utils/test-utils';
+import { mockUser, mockOtherUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/hooks/use-messages', () => ({
+  useConversation: vi.fn(),
+  useMessages: vi.fn(),
+  useMarkConversationRead: vi.fn(),
+  useSendMessage: vi.fn(),
+}));
+
+vi.mock('@/lib/api/hooks/use-user', () => ({
+  useCurrentUser: vi.fn(),
+}));
+
+const listingContext = {
+  id: 'l1',
+  title: 'Yamaha WR250F',
+  price: 4200,
+  currency: 'USD',
+  image: null,
+  status: 'reserved' as const,
+};
+
+// The page unwraps its params with use(), which suspends until they resolve
+const renderPage = () =>
+  act(async () =>
+    render(<ConversationPage params={Promise.resolve({ id: 'c1' })} />)
+  );
+
+describe('ConversationPage', () => {
+  const markRead = vi.fn();
+  const sendMessage = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useCurrentUser).mockReturnValue({
+      data: mockOtherUser,
+    } as unknown as ReturnType<typeof useCurrentUser>);
+    vi.mocked(useConversation).mockReturnValue({
+      data: {
+        id: 'c1',
+        participants: [mockUser, mockOtherUser],
+        unreadCount: 1,
+        listing: listingContext,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      },
+      isLoading: false,
+      isError: false,
+    } as unknown as ReturnType<typeof useConversation>);
+    vi.mocked(useMessages).mockReturnValue({
+      data: {
+        pages: [
+          {
+            items: [
+              {
+                id: 'm2',
+                conversationId: 'c1',
+                sender: mockOtherUser,
+                content: 'Yes, it is!',
+                createdAt: '2024-01-01T10:05:00Z',
+              },
+              {
+                id: 'm1',
+                conversationId: 'c1',
+                sender: mockUser,
+                content: 'Is this still available?',
+                listing: listingContext,
+                createdAt: '2024-01-01T10:00:00Z',
+              },
+            ],
+            meta: { page: 1, totalPages: 1 },
+          },
+        ],
+      },
+      isLoading: false,
+      hasNextPage: false,
+    } as unknown as ReturnType<typeof useMessages>);
+    vi.mocked(useMarkConversationRead).mockReturnValue({
+      mutate: markRead,
+    } as unknown as ReturnType<typeof useMarkConversationRead>);
+    vi.mocked(useSendMessage).mockReturnValue({
+      mutate: sendMessage,
+      isPending: false,
+    } as unknown as ReturnType<typeof useSendMessage>);
+  });
+
+  it('pins the listing the conversation is about', async () => {
+    await renderPage();
+
+    expect(useConversation).toHaveBeenCalledWith('c1');
+
+    const card = screen.getByRole('link', { name: /Yamaha WR250F/ });
+    expect(card).toHaveAttribute('href', '/marketplace/l1');
+    expect(screen.getByText('Reserved')).toBeInTheDocument();
+  });
+
+  it('shows messages oldest first with the inquiry labelled', async () => {
+    await renderPage();
+
+    const question = screen.getByText('Is this still available?');
+    const answer = screen.getByText('Yes, it is!');
+    expect(
+      question.compareDocumentPosition(answer) &
+        Node.DOCUMENT_POSITION_FOLLOWING
+    ).toBeTruthy();
+    expect(screen.getAllByText('Yamaha WR250F')).toHaveLength(2);
+  });
+
+  it('marks the conversation read and sends replies', async () => {
+    const { user } = await renderPage();
+
+    expect(markRead).toHaveBeenCalledWith('c1');
+
+    await user.type(screen.getByLabelText('Message'), 'Great, see you at 5');
+    await user.click(screen.getByRole('button', { name: 'Send message' }));
+
+    expect(sendMessage).toHaveBeenCalledWith(
+      { content: 'Great, see you at 5' },
+      expect.anything()
+    );
+  });
+});
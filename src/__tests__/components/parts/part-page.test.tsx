@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, screen, within } from '@testing-library/react';
+
+import PartPage from '@/app/(main)/parts/[id]/page';
+import { usePart } from '@/lib/api/hooks/use-parts';
+import { render } from '../../utils/test-utils';
+import { mockOtherUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/hooks/use-parts', () => ({
+  usePart: vi.fn(),
+  usePartCategories: vi.fn(() => ({
+    data: [
+      { id: '1', name: 'Engine', slug: 'engine', parentId: null },
+      { id: '2', name: 'Pistons', slug: 'pistons', parentId: '1' },
+    ],
+  })),
+}));
+
+vi.mock('@/lib/api/hooks/use-user', () => ({
+  useCurrentUser: vi.fn(() => ({ data: undefined })),
+  useFollowUser: vi.fn(() => ({ mutate: vi.fn(), isPending: false })),
+  useUnfollowUser: vi.fn(() => ({ mutate: vi.fn(), isPending: false })),
+}));
+
+const part = {
+  id: 'p1',
+  name: 'Piston kit 77mm',
+  brand: 'Wössner',
+  partNumber: '8768DA',
+  description: 'Forged piston with rings and pin',
+  price: 180,
+  currency: 'USD',
+  condition: 'new',
+  images: [],
+  category: 'pistons',
+  seller: mockOtherUser,
+  fitment: [
+    { make: 'Yamaha', model: 'YZ250F', yearFrom: 2019, yearTo: 2023 },
+    { make: 'Yamaha', model: 'WR250F', yearFrom: 2020, yearTo: 2020 },
+  ],
+  createdAt: new Date().toISOString(),
+};
+
+// The page unwraps its params with use(), which suspends until they resolve
+const renderPage = () =>
+  act(async () => render(<PartPage params={Promise.resolve({ id: 'p1' })} />));
+
+const mockPart = (data: unknown) =>
+  vi.mocked(usePart).mockReturnValue({
+    data,
+    isLoading: false,
+    isError: false,
+  } as unknown as ReturnType<typeof usePart>);
+
+describe('PartPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the part with its category path and fitment table', async () => {
+    mockPart(part);
+    await renderPage();
+
+    expect(usePart).toHaveBeenCalledWith('p1');
+
+    expect(
+      screen.getByRole('heading', { name: 'Piston kit 77mm' })
+    ).toBeInTheDocument();
+    // In the details and the cross-reference card
+    expect(screen.getAllByText('8768DA')).toHaveLength(2);
+    expect(
+      within(screen.getByRole('navigation', { name: 'Breadcrumb' })).getByRole(
+        'link',
+        { name: 'Engine' }
+      )
+    ).toHaveAttribute('href', '/parts?category=engine');
+
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    // Header, then sorted by model
+    expect(rows[1]).toHaveTextContent('WR250F2020');
+    expect(rows[2]).toHaveTextContent('YZ250F2019–2023');
+  });
+
+  it('says when there is no fitment data', async () => {
+    mockPart({ ...part, fitment: [] });
+    await renderPage();
+
+    expect(screen.getByText(/No fitment data yet/)).toBeInTheDocument();
+  });
+
+  it('lists equivalent part numbers, OEM first, linking to catalog matches', async () => {
+    mockPart({
+      ...part,
+      crossReferences: [
+        { brand: 'Vertex', partNumber: '23906', source: 'aftermarket' },
+        { brand: 'Yamaha', partNumber: '1SL-11631-00', source: 'oem' },
+      ],
+    });
+    await renderPage();
+
+    const rows = within(
+      screen.getByRole('table', { name: 'Equivalent part numbers' })
+    ).getAllByRole('row');
+    expect(rows[1]).toHaveTextContent('Yamaha1SL-11631-00OEM');
+    expect(rows[2]).toHaveTextContent('Vertex23906Aftermarket');
+    expect(screen.getByRole('link', { name: '1SL-11631-00' })).toHaveAttribute(
+      'href',
+      '/parts?partNumber=1SL1163100'
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest';
+import { screen, within } from '@testing-library/react';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+import PartsPage from '@/app/(main)/parts/page';
+import { useParts } from '@/lib/api/hooks/use-parts';
+import { render } from '../../utils/test-utils';
+import { mockOtherUser } from '../../mocks/handlers';
+
+// Mock scrollIntoView for Radix Select
+beforeAll(() => {
+  Element.prototype.scrollIntoView = vi.fn();
+});
+
+vi.mock('next/navigation', () => ({
+  useRouter: vi.fn(),
+  useSearchParams: vi.fn(),
+  usePathname: () => '/parts',
+}));
+
+vi.mock('@/lib/api/hooks/use-parts', () => ({
+  useParts: vi.fn(),
+  useFitmentOptions: vi.fn((level: string) => ({
+    data:
+      level === 'make'
+        ? ['Honda', 'Yamaha']
+        : level === 'model'
+          ? ['WR250F', 'YZ250F']
+          : level === 'year'
+            ? [2019, 2020]
+            : ['250cc'],
+  })),
+  usePartCategories: vi.fn(() => ({
+    data: [
+      { id: '1', name: 'Engine', slug: 'engine', parentId: null },
+      { id: '2', name: 'Pistons', slug: 'pistons', parentId: '1' },
+      { id: '3', name: 'Rings', slug: 'piston-rings', parentId: '2' },
+      { id: '4', name: 'Brakes', slug: 'brakes', parentId: null },
+    ],
+    isLoading: false,
+  })),
+}));
+
+const part = {
+  id: 'p1',
+  name: 'Piston ring set 77mm',
+  brand: 'Wössner',
+  partNumber: '13010-0015',
+  description: 'Standard bore',
+  price: 45,
+  currency: 'USD',
+  condition: 'new',
+  images: [],
+  category: 'piston-rings',
+  seller: mockOtherUser,
+  createdAt: new Date().toISOString(),
+};
+
+const push = vi.fn();
+
+function renderWithUrl(query = '') {
+  (useSearchParams as ReturnType<typeof vi.fn>).mockReturnValue(
+    new URLSearchParams(query)
+  );
+  return render(<PartsPage />);
+}
+
+describe('PartsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (useRouter as ReturnType<typeof vi.fn>).mockReturnValue({ push });
+    (useParts as ReturnType<typeof vi.fn>).mockReturnValue({
+      data: {
+        pages: [{ items: [part], meta: { page: 1, totalPages: 1, total: 1 } }],
+      },
+      isLoading: false,
+      isError: false,
+      hasNextPage: false,
+      fetchNextPage: vi.fn(),
+      isFetchingNextPage: false,
+      isFetchNextPageError: false,
+    });
+  });
+
+  it('shows breadcrumbs and expands the tree down to the URL category', () => {
+    renderWithUrl('category=piston-rings');
+
+    expect(useParts).toHaveBeenCalledWith({
+      q: undefined,
+      category: 'piston-rings',
+    });
+
+    const breadcrumb = screen.getByRole('navigation', { name: 'Breadcrumb' });
+    expect(
+      within(breadcrumb).getByRole('link', { name: 'Pistons' })
+    ).toHaveAttribute('href', '/parts?category=pistons');
+    expect(within(breadcrumb).getByText('Rings')).toHaveAttribute(
+      'aria-current',
+      'page'
+    );
+
+    expect(
+      screen.getAllByRole('button', { name: 'Collapse Engine' })[0]
+    ).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByText('1 part in Rings')).toBeInTheDocument();
+    expect(
+      screen.getByRole('link', { name: /Piston ring set/ })
+    ).toHaveAttribute('href', '/parts/p1');
+  });
+
+  it('expands collapsed categories and filters by the one picked', async () => {
+    const { user } = renderWithUrl();
+
+    const tree = screen.getAllByRole('navigation', {
+      name: 'Part categories',
+    })[0]!;
+    expect(within(tree).queryByText('Pistons')).not.toBeInTheDocument();
+
+    await user.click(
+      within(tree).getByRole('button', { name: 'Expand Engine' })
+    );
+    await user.click(within(tree).getByRole('button', { name: 'Pistons' }));
+
+    expect(push).toHaveBeenCalledWith('/parts?category=pistons', {
+      scroll: false,
+    });
+  });
+
+  it('narrows the catalog to parts that fit the picked bike', async () => {
+    const { user } = renderWithUrl('make=Yamaha&model=WR250F&year=2019');
+
+    expect(useParts).toHaveBeenCalledWith(
+      expect.objectContaining({ make: 'Yamaha', model: 'WR250F', year: 2019 })
+    );
+    expect(
+      screen.getByText('1 part that fit 2019 Yamaha WR250F')
+    ).toBeInTheDocument();
+    // Only one engine variant, so there's nothing to pick
+    expect(
+      screen.queryByRole('combobox', { name: 'Engine' })
+    ).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('combobox', { name: 'Model' }));
+    await user.click(screen.getByRole('option', { name: 'YZ250F' }));
+
+    expect(push).toHaveBeenCalledWith('/parts?make=Yamaha&model=YZ250F', {
+      scroll: false,
+    });
+  });
+
+  it('searches part numbers when the text looks like one', async () => {
+    const { user } = renderWithUrl();
+
+    await user.type(
+      screen.getByRole('searchbox', { name: 'Search parts' }),
+      '1sl-11631-00{Enter}'
+    );
+
+    expect(push).toHaveBeenCalledWith('/parts?partNumber=1SL1163100', {
+      scroll: false,
+    });
+  });
+
+  it('offers a name search instead of the part number', async () => {
+    const { user } = renderWithUrl('partNumber=1SL1163100');
+
+    expect(
+      screen.getByText('1 part numbered 1SL1163100 or equivalent')
+    ).toBeInTheDocument();
+
+    await user.click(
+      screen.getByRole('button', {
+        name: /Search names for .1SL1163100. instead/,
+      })
+    );
+
+    expect(push).toHaveBeenCalledWith('/parts?q=1SL1163100', {
+      scroll: false,
+    });
+  });
+
+  it('keeps a part-number search when picking a bike', async () => {
+    const { user } = renderWithUrl('partNumber=1SL1163100');
+
+    await user.click(screen.getByRole('combobox', { name: 'Make' }));
+    await user.click(screen.getByRole('option', { name: 'Yamaha' }));
+
+    expect(push).toHaveBeenCalledWith(
+      '/parts?partNumber=1SL1163100&make=Yamaha',
+      { scroll: false }
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+
+import { CreatePostModal } from '@/components/posts/create-post-modal';
+import { useCreatePost } from '@/lib/api/hooks/use-posts';
+import { useUIStore } from '@/stores/ui-store';
+import { render } from '../../utils/test-utils';
+
+vi.mock('@/lib/api/hooks/use-posts', () => ({
+  useCreatePost: vi.fn(),
+}));
+
+vi.mock('@/lib/api/hooks/use-search', () => ({
+  useSearchHashtags: vi.fn(() => ({ data: undefined })),
+  useMentionSuggestions: vi.fn(() => ({ data: undefined })),
+}));
+
+const mutateAsync = vi.fn();
+
+describe('CreatePostModal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useUIStore.setState({ createPostOpen: true });
+    vi.mocked(useCreatePost).mockReturnValue({
+      mutateAsync,
+      isPending: false,
+    } as unknown as ReturnType<typeof useCreatePost>);
+  });
+
+  it('closes once the post is created', async () => {
+    mutateAsync.mockResolvedValue({});
+    const { user } = render(<CreatePostModal />);
+
+    await user.type(screen.getByLabelText('Post content'), ' First ride ');
+    await user.click(screen.getByRole('button', { name: 'Post' }));
+
+    expect(mutateAsync).toHaveBeenCalledWith({
+      content: 'First ride',
+      images: [],
+    });
+    await waitFor(() => {
+      expect(useUIStore.getState().createPostOpen).toBe(false);
+    });
+  });
+
+  it('keeps the draft open when posting fails', async () => {
+    mutateAsync.mockRejectedValue(new Error('Network error'));
+    const { user } = render(<CreatePostModal />);
+
+    await user.type(screen.getByLabelText('Post content'), 'First ride');
+    await user.click(screen.getByRole('button', { name: 'Post' }));
+
+    await waitFor(() => {
+      expect(mutateAsync).toHaveBeenCalled();
+    });
+    expect(useUIStore.getState().createPostOpen).toBe(true);
+    expect(screen.getByLabelText('Post content')).toHaveValue('First ride');
+  });
+});
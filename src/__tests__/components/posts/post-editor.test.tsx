@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { useState } from 'react';
+import { screen } from '@testing-library/react';
+
+import { PostEditor } from '@/components/posts/post-editor';
+import {
+  useSearchHashtags,
+  useMentionSuggestions,
+} from '@/lib/api/hooks/use-search';
+import { render } from '../../utils/test-utils';
+import { mockUser, mockOtherUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/hooks/use-search', () => ({
+  useSearchHashtags: vi.fn(),
+  useMentionSuggestions: vi.fn(),
+}));
+
+// Skip the debounce delay so suggestions show up immediately
+vi.mock('@/hooks/use-debounce', () => ({
+  useDebounce: <T,>(value: T) => value,
+}));
+
+function ControlledEditor({ initialValue = '' }: { initialValue?: string }) {
+  const [value, setValue] = useState(initialValue);
+  return (
+    <PostEditor value={value} onChange={setValue} aria-label="Post content" />
+  );
+}
+
+describe('PostEditor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (useSearchHashtags as ReturnType<typeof vi.fn>).mockReturnValue({
+      data: {
+        hashtags: [
+          { tag: 'motorcycle', count: 1200 },
+          { tag: 'motocross', count: 300 },
+        ],
+      },
+    });
+    (useMentionSuggestions as ReturnType<typeof vi.fn>).mockReturnValue({
+      data: { items: [mockUser, mockOtherUser] },
+    });
+  });
+
+  it('suggests hashtags while typing a #tag', async () => {
+    const { user } = render(<ControlledEditor />);
+
+    await user.type(screen.getByLabelText('Post content'), 'Sunday ride #mot');
+
+    expect(useSearchHashtags).toHaveBeenLastCalledWith('mot');
+    expect(
+      screen.getByRole('option', { name: /#motorcycle/ })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole('option', { name: /#motocross/ })
+    ).toBeInTheDocument();
+  });
+
+  it('suggests users while typing an @mention', async () => {
+    const { user } = render(<ControlledEditor />);
+
+    await user.type(screen.getByLabelText('Post content'), 'Thanks @jo');
+
+    expect(useMentionSuggestions).toHaveBeenLastCalledWith('jo');
+    expect(
+      screen.getByRole('option', { name: new RegExp(mockOtherUser.fullName) })
+    ).toBeInTheDocument();
+  });
+
+  it('inserts the highlighted suggestion with Enter', async () => {
+    const { user } = render(<ControlledEditor />);
+    const textarea = screen.getByLabelText('Post content');
+
+    await user.type(textarea, 'Sunday ride #mot');
+    await user.keyboard('{ArrowDown}{Enter}');
+
+    expect(textarea).toHaveValue('Sunday ride #motocross ');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('inserts a mention when a suggestion is clicked', async () => {
+    const { user } = render(<ControlledEditor />);
+    const textarea = screen.getByLabelText('Post content');
+
+    await user.type(textarea, 'Thanks @jo');
+    await user.click(
+      screen.getByRole('option', { name: new RegExp(mockOtherUser.fullName) })
+    );
+
+    expect(textarea).toHaveValue(`Thanks @${mockOtherUser.username} `);
+  });
+
+  it('closes suggestions on Escape', async () => {
+    const { user } = render(<ControlledEditor />);
+
+    await user.type(screen.getByLabelText('Post content'), '#mot');
+    expect(screen.getByRole('listbox')).toBeInTheDocument();
+
+    await user.keyboard('{Escape}');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('does not suggest anything for plain text', async () => {
+    const { user } = render(<ControlledEditor />);
+
+    await user.type(screen.getByLabelText('Post content'), 'email me at a@b');
+
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+});
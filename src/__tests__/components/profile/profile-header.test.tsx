@@ -94,6 +94,28 @@ describe('ProfileHeader', () => {
       expect(screen.getByText(/Joined January 2024/)).toBeInTheDocument();
     });
 
+    it('displays seller stats for users who have sold', () => {
+      render(
+        <ProfileHeader
+          user={{
+            ...mockOtherUser,
+            sellerStats: {
+              rating: 4.75,
+              ratingsCount: 12,
+              completedSales: 15,
+              responseTimeHours: 3,
+            },
+          }}
+          currentUserId={mockUser.id}
+        />
+      );
+
+      expect(screen.getByText('4.8')).toBeInTheDocument();
+      expect(screen.getByText(/12 ratings/)).toBeInTheDocument();
+      expect(screen.getByText('15 sales')).toBeInTheDocument();
+      expect(screen.getByText('Replies within 3 hours')).toBeInTheDocument();
+    });
+
     it('displays verified badge when user is verified', () => {
       render(
         <ProfileHeader
@@ -2,8 +2,10 @@ import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest';
 import { screen, waitFor, fireEvent } from '@testing-library/react';
 import { useRouter } from 'next/navigation';
 
-import { useSearchModal } from '@/components/search/search-modal';
+import { SearchModal, useSearchModal } from '@/components/search/search-modal';
+import { useGlobalSearch } from '@/lib/api/hooks/use-search';
 import { render } from '../../utils/test-utils';
+import { mockOtherUser } from '../../mocks/handlers';
 
 // Mock scrollIntoView for cmdk
 beforeAll(() => {
@@ -17,6 +19,10 @@ vi.mock('next/navigation', () => ({
   })),
 }));
 
+vi.mock('@/lib/api/hooks/use-search', () => ({
+  useGlobalSearch: vi.fn(() => ({ data: undefined, isLoading: false })),
+}));
+
 describe('useSearchModal', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -168,3 +174,70 @@ describe('useSearchModal', () => {
     expect(removeEventListenerSpy).toHaveBeenCalledWith('keydown', expect.any(Function));
   });
 });
+
+describe('SearchModal', () => {
+  const push = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useRouter).mockReturnValue({
+      push,
+    } as unknown as ReturnType<typeof useRouter>);
+  });
+
+  const paste = (text: string) =>
+    fireEvent.paste(screen.getByRole('combobox'), {
+      clipboardData: { getData: () => text },
+    });
+
+  it('jumps to catalog matches when a part number is pasted', () => {
+    render(<SearchModal open onOpenChange={vi.fn()} />);
+
+    paste(' 5TJ-14451-00 ');
+
+    expect(push).toHaveBeenCalledWith('/parts?partNumber=5TJ1445100');
+  });
+
+  it('does not jump for pasted words', () => {
+    render(<SearchModal open onOpenChange={vi.fn()} />);
+
+    paste('oil filter');
+
+    expect(push).not.toHaveBeenCalled();
+  });
+
+  it('lists parts matching a typed part number first', async () => {
+    vi.mocked(useGlobalSearch).mockReturnValue({
+      data: {
+        users: [],
+        posts: [],
+        listings: [],
+        threads: [],
+        parts: [
+          {
+            id: 'p1',
+            name: 'Oil filter',
+            brand: 'HiFlo',
+            partNumber: 'HF204',
+            description: 'Spin-on oil filter',
+            price: 12,
+            currency: 'USD',
+            condition: 'new',
+            images: [],
+            category: 'filters',
+            seller: mockOtherUser,
+            createdAt: new Date().toISOString(),
+          },
+        ],
+      },
+      isLoading: false,
+    } as unknown as ReturnType<typeof useGlobalSearch>);
+    const { user } = render(<SearchModal open onOpenChange={vi.fn()} />);
+
+    await user.type(screen.getByRole('combobox'), 'hf-204');
+
+    expect(await screen.findByText('Part number HF204')).toBeInTheDocument();
+    expect(screen.getByText('Oil filter')).toBeInTheDocument();
+    expect(screen.getByText('HiFlo · HF204')).toBeInTheDocument();
+  });
+});
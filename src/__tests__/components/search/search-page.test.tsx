@@ -4,6 +4,8 @@ import { useRouter, useSearchParams } from 'next/navigation';
 
 import SearchPage from '@/app/(main)/search/page';
 import { render } from '../../utils/test-utils';
+import { mockUser } from '../../mocks/handlers';
+import { clearMockSession, setMockSession } from '../../setup';
 
 // Mock next/navigation
 vi.mock('next/navigation', () => ({
@@ -452,6 +454,41 @@ describe('SearchPage', () => {
 
       expect(screen.getByRole('button', { name: /filters/i })).toBeInTheDocument();
     });
+
+    it('reads listing filters from the URL and lets signed-in users save the search', async () => {
+      setMockSession({
+        data: {
+          user: {
+            id: mockUser.id,
+            email: mockUser.email,
+            name: mockUser.fullName,
+            username: mockUser.username,
+          },
+        },
+        status: 'authenticated',
+      });
+      (useSearchParams as ReturnType<typeof vi.fn>).mockReturnValue({
+        get: vi.fn((key: string) => {
+          if (key === 'q') return 'bikes';
+          if (key === 'type') return 'listings';
+          if (key === 'condition') return 'good';
+          return null;
+        }),
+      });
+
+      const { user } = render(<SearchPage />);
+
+      expect(mockRouterPush).toHaveBeenCalledWith(
+        '/search?condition=good&q=bikes&type=listings',
+        { scroll: false }
+      );
+
+      await user.click(screen.getByRole('button', { name: /save search/i }));
+
+      expect(screen.getByRole('dialog')).toHaveTextContent('“bikes” · Good');
+      expect(screen.getByLabelText('Name')).toHaveValue('bikes');
+      clearMockSession();
+    });
   });
 
   describe('Search Input', () => {
@@ -81,6 +81,14 @@ describe('AccountSettingsPage', () => {
       expect(screen.getByText('Language')).toBeInTheDocument();
     });
 
+    it('renders display currency selector with the current preference', () => {
+      render(<AccountSettingsPage />);
+
+      expect(
+        screen.getByRole('combobox', { name: /display currency/i })
+      ).toHaveTextContent('Georgian lari (₾)');
+    });
+
     it('shows Save Changes button', () => {
       render(<AccountSettingsPage />);
 
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+
+import MutedPage from '@/app/(main)/settings/muted/page';
+import { render } from '../../utils/test-utils';
+import { mockOtherUser } from '../../mocks/handlers';
+
+const mockUnmuteUser = vi.fn();
+const mockUnmuteHashtag = vi.fn();
+
+vi.mock('@/lib/api/hooks/use-mutes', () => ({
+  useMutedUsers: () => ({ data: { users: [mockOtherUser] }, isLoading: false }),
+  useMutedHashtags: () => ({
+    data: { hashtags: ['enduro'] },
+    isLoading: false,
+  }),
+  useUnmuteUser: () => ({
+    mutate: mockUnmuteUser,
+    isPending: false,
+    variables: undefined,
+  }),
+  useUnmuteHashtag: () => ({
+    mutate: mockUnmuteHashtag,
+    isPending: false,
+    variables: undefined,
+  }),
+}));
+
+describe('MutedPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists muted accounts and hashtags', () => {
+    render(<MutedPage />);
+
+    expect(screen.getByText('Other User')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: '#enduro' })).toHaveAttribute(
+      'href',
+      '/hashtag/enduro'
+    );
+  });
+
+  it('unmutes users and hashtags', async () => {
+    const { user } = render(<MutedPage />);
+
+    await user.click(screen.getByRole('button', { name: 'Unmute @otheruser' }));
+    expect(mockUnmuteUser).toHaveBeenCalledWith(mockOtherUser.id);
+
+    await user.click(screen.getByRole('button', { name: 'Unmute #enduro' }));
+    expect(mockUnmuteHashtag).toHaveBeenCalledWith('enduro');
+  });
+});
@@ -105,6 +105,7 @@ describe('NotificationsSettingsPage', () => {
       expect(screen.getByText('New Messages')).toBeInTheDocument();
       expect(screen.getByText('Thread Replies')).toBeInTheDocument();
       expect(screen.getByText('Listing Inquiries')).toBeInTheDocument();
+      expect(screen.getByText('Service Reminders')).toBeInTheDocument();
     });
 
     it('shows descriptions for notification types', () => {
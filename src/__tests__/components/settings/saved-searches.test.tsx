@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+
+import SavedSearchesPage from '@/app/(main)/settings/saved-searches/page';
+import { useSavedSearches } from '@/lib/api/hooks/use-saved-searches';
+import { render } from '../../utils/test-utils';
+
+const mockUpdateSavedSearch = vi.fn();
+const mockDeleteSavedSearch = vi.fn();
+const mockMarkSeen = vi.fn();
+
+const savedSearch = {
+  id: 's1',
+  name: 'WR250F under 5k',
+  query: 'wr250f',
+  filters: { category: 'bikes', condition: 'good' as const, maxPrice: 5000 },
+  notify: false,
+  newCount: 3,
+  lastViewedAt: new Date().toISOString(),
+  createdAt: new Date().toISOString(),
+};
+
+vi.mock('@/lib/api/hooks/use-saved-searches', () => ({
+  useSavedSearches: vi.fn(),
+  useUpdateSavedSearch: () => ({ mutate: mockUpdateSavedSearch }),
+  useDeleteSavedSearch: () => ({ mutate: mockDeleteSavedSearch }),
+  useMarkSavedSearchSeen: () => ({ mutate: mockMarkSeen }),
+}));
+
+vi.mock('@/lib/api/hooks/use-marketplace', () => ({
+  useMarketplaceCategories: () => ({
+    data: [{ id: 'c1', name: 'Bikes', slug: 'bikes' }],
+  }),
+}));
+
+describe('SavedSearchesPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useSavedSearches).mockReturnValue({
+      data: [savedSearch],
+      isLoading: false,
+    } as unknown as ReturnType<typeof useSavedSearches>);
+  });
+
+  it('shows each search with its filters and new matches', () => {
+    render(<SavedSearchesPage />);
+
+    expect(screen.getByText('3 new since last visit')).toBeInTheDocument();
+    expect(
+      screen.getByText('“wr250f” · Bikes · Good · Up to 5000')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole('link', { name: /WR250F under 5k/ })
+    ).toHaveAttribute(
+      'href',
+      '/search?q=wr250f&category=bikes&condition=good&maxPrice=5000&type=listings'
+    );
+  });
+
+  it('marks a search as seen when it is opened', async () => {
+    const { user } = render(<SavedSearchesPage />);
+
+    await user.click(screen.getByRole('link', { name: /WR250F under 5k/ }));
+    expect(mockMarkSeen).toHaveBeenCalledWith('s1');
+  });
+
+  it('opts in to notifications and deletes searches', async () => {
+    const { user } = render(<SavedSearchesPage />);
+
+    await user.click(
+      screen.getByRole('switch', {
+        name: 'Notify me about new matches for WR250F under 5k',
+      })
+    );
+    expect(mockUpdateSavedSearch).toHaveBeenCalledWith({
+      id: 's1',
+      data: { notify: true },
+    });
+
+    await user.click(
+      screen.getByRole('button', { name: 'Delete WR250F under 5k' })
+    );
+    await user.click(screen.getByRole('button', { name: 'Delete' }));
+    expect(mockDeleteSavedSearch).toHaveBeenCalledWith('s1');
+  });
+
+  it('offers a retry instead of the empty state when loading fails', async () => {
+    const refetch = vi.fn();
+    vi.mocked(useSavedSearches).mockReturnValue({
+      data: undefined,
+      isLoading: false,
+      isError: true,
+      error: new Error('Network error'),
+      refetch,
+    } as unknown as ReturnType<typeof useSavedSearches>);
+    const { user } = render(<SavedSearchesPage />);
+
+    expect(screen.queryByText('No saved searches')).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Try Again' }));
+    expect(refetch).toHaveBeenCalled();
+  });
+});
@@ -44,13 +44,25 @@ describe('SettingsSidebar', () => {
         'href',
         '/settings/blocked'
       );
+      expect(screen.getByText('Muted').closest('a')).toHaveAttribute(
+        'href',
+        '/settings/muted'
+      );
+      expect(screen.getByText('Saved Searches').closest('a')).toHaveAttribute(
+        'href',
+        '/settings/saved-searches'
+      );
+      expect(screen.getByText('My Garage').closest('a')).toHaveAttribute(
+        'href',
+        '/settings/garage'
+      );
     });
 
     it('renders navigation items as links', () => {
       render(<SettingsSidebar />);
 
       const links = screen.getAllByRole('link');
-      expect(links).toHaveLength(6);
+      expect(links).toHaveLength(9);
     });
 
     it('applies custom className', () => {
@@ -77,7 +89,7 @@ describe('SettingsSidebar', () => {
       render(<SettingsMobileNav />);
 
       const links = screen.getAllByRole('link');
-      expect(links).toHaveLength(6);
+      expect(links).toHaveLength(9);
     });
 
     it('applies custom className for mobile nav', () => {
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, fireEvent, screen } from '@testing-library/react';
+
+import { StoryViewer, STORY_DURATION } from '@/components/stories/story-viewer';
+import { render } from '../../utils/test-utils';
+import { mockUser, mockOtherUser } from '../../mocks/handlers';
+
+const markViewed = vi.fn();
+const mutation = { mutate: vi.fn(), mutateAsync: vi.fn(), isPending: false };
+
+vi.mock('@/lib/api/hooks/use-stories', () => ({
+  useViewStory: vi.fn(() => ({ mutate: markViewed })),
+  useDeleteStory: vi.fn(() => mutation),
+  useStoryViewers: vi.fn(() => ({
+    data: [],
+    isLoading: false,
+    isError: false,
+  })),
+}));
+
+vi.mock('@/lib/api/hooks/use-user', () => ({
+  useCurrentUser: vi.fn(() => ({ data: mockUser })),
+}));
+
+function story(id: string, hasViewed = false) {
+  return {
+    id,
+    mediaUrl: `https://example.com/${id}.jpg`,
+    viewsCount: 3,
+    hasViewed,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+const otherGroup = {
+  user: mockOtherUser,
+  hasUnviewed: true,
+  stories: [story('s1', true), story('s2'), story('s3')],
+};
+
+const ownGroup = {
+  user: mockUser,
+  hasUnviewed: false,
+  stories: [story('own1', true)],
+};
+
+function progressValues() {
+  return screen
+    .getAllByRole('progressbar')
+    .map((bar) => Number(bar.getAttribute('aria-valuenow')));
+}
+
+describe('StoryViewer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens at the first unseen story and records a view', () => {
+    render(
+      <StoryViewer
+        groups={[otherGroup]}
+        initialGroupIndex={0}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getAllByRole('progressbar')).toHaveLength(3);
+    expect(progressValues()).toEqual([100, 0, 0]);
+    expect(markViewed).toHaveBeenCalledWith('s2');
+    expect(markViewed).not.toHaveBeenCalledWith('s1');
+  });
+
+  it('navigates with the arrow keys and closes after the last story', () => {
+    const onClose = vi.fn();
+    render(
+      <StoryViewer
+        groups={[otherGroup, ownGroup]}
+        initialGroupIndex={0}
+        onClose={onClose}
+      />
+    );
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(markViewed).toHaveBeenLastCalledWith('s3');
+
+    fireEvent.keyDown(window, { key: 'ArrowLeft' });
+    expect(progressValues()).toEqual([100, 0, 0]);
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(
+      screen.getByRole('img', { name: /story by testuser/i })
+    ).toBeInTheDocument();
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('advances on its own and pauses while held', () => {
+    vi.useFakeTimers();
+    render(
+      <StoryViewer
+        groups={[otherGroup]}
+        initialGroupIndex={0}
+        onClose={vi.fn()}
+      />
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(STORY_DURATION / 2);
+    });
+    expect(progressValues()[1]).toBe(50);
+
+    const media = screen.getByRole('img', {
+      name: /story by otheruser/i,
+    }).parentElement!;
+    fireEvent.pointerDown(media, { clientX: 100, clientY: 100 });
+    act(() => {
+      vi.advanceTimersByTime(STORY_DURATION);
+    });
+    expect(progressValues()[1]).toBe(50);
+
+    // A long press only pauses - letting go doesn't skip ahead
+    fireEvent.pointerUp(media, { clientX: 100, clientY: 100 });
+    expect(progressValues()).toEqual([100, 50, 0]);
+
+    act(() => {
+      vi.advanceTimersByTime(STORY_DURATION / 2);
+    });
+    expect(progressValues()).toEqual([100, 100, 0]);
+    expect(markViewed).toHaveBeenLastCalledWith('s3');
+  });
+
+  it('jumps to the next user on a swipe left', () => {
+    render(
+      <StoryViewer
+        groups={[otherGroup, ownGroup]}
+        initialGroupIndex={0}
+        onClose={vi.fn()}
+      />
+    );
+
+    const media = screen.getByRole('img', {
+      name: /story by otheruser/i,
+    }).parentElement!;
+    fireEvent.pointerDown(media, { clientX: 300, clientY: 100 });
+    fireEvent.pointerUp(media, { clientX: 100, clientY: 110 });
+
+    expect(
+      screen.getByRole('img', { name: /story by testuser/i })
+    ).toBeInTheDocument();
+  });
+
+  it('shows viewers and delete for your own stories without recording a view', () => {
+    render(
+      <StoryViewer
+        groups={[ownGroup]}
+        initialGroupIndex={0}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(
+      screen.getByRole('button', { name: /3 views/i })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: /delete story/i })
+    ).toBeInTheDocument();
+    expect(markViewed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { renderToString } from 'react-dom/server';
+import { renderHook } from '@testing-library/react';
+
+import { useMounted } from '@/hooks/use-mounted';
+
+function MountedText() {
+  return <p>{useMounted() ? 'mounted' : 'server'}</p>;
+}
+
+describe('useMounted', () => {
+  it('is false when rendering on the server', () => {
+    expect(renderToString(<MountedText />)).toContain('server');
+  });
+
+  it('is true once mounted in the browser', () => {
+    const { result } = renderHook(() => useMounted());
+
+    expect(result.current).toBe(true);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+import { api } from '@/lib/api/client';
+import { QUERY_KEYS } from '@/lib/api/endpoints';
+import {
+  useCreateComment,
+  useDeleteComment,
+  useLikeComment,
+} from '@/lib/api/hooks/use-comments';
+import { mockUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/client', () => ({
+  api: { get: vi.fn(), post: vi.fn(), patch: vi.fn(), delete: vi.fn() },
+}));
+
+const post = {
+  id: 'p1',
+  content: 'Morning ride',
+  author: mockUser,
+  likesCount: 0,
+  commentsCount: 5,
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+const comment = {
+  id: 'c1',
+  postId: post.id,
+  content: 'Nice bike',
+  author: mockUser,
+  likesCount: 2,
+  repliesCount: 3,
+  isLiked: false,
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+const reply = { ...comment, id: 'r1', parentId: comment.id, repliesCount: 0 };
+
+const pages = <T,>(items: T[]) => ({
+  pages: [
+    { items, meta: { page: 1, limit: 20, total: items.length, totalPages: 1 } },
+  ],
+  pageParams: [1],
+});
+
+type CachedPages<T> = { pages: { items: T[] }[] };
+
+function setup() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+
+  queryClient.setQueryData(QUERY_KEYS.post(post.id), post);
+  queryClient.setQueryData(QUERY_KEYS.feed, pages([post]));
+  queryClient.setQueryData(QUERY_KEYS.comments(post.id), pages([comment]));
+  queryClient.setQueryData(
+    QUERY_KEYS.commentReplies(post.id, comment.id),
+    pages([reply])
+  );
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  const getPost = () =>
+    queryClient.getQueryData<typeof post>(QUERY_KEYS.post(post.id));
+  const getFeedPost = () =>
+    queryClient.getQueryData<CachedPages<typeof post>>(QUERY_KEYS.feed)
+      ?.pages[0]?.items[0];
+  const getComments = () =>
+    queryClient.getQueryData<CachedPages<typeof comment>>(
+      QUERY_KEYS.comments(post.id)
+    )?.pages[0]?.items ?? [];
+  const getReplies = () =>
+    queryClient.getQueryData<CachedPages<typeof reply>>(
+      QUERY_KEYS.commentReplies(post.id, comment.id)
+    )?.pages[0]?.items ?? [];
+
+  return { wrapper, getPost, getFeedPost, getComments, getReplies };
+}
+
+describe('useCreateComment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('adds a top-level comment and bumps the post comment count everywhere', async () => {
+    const created = {
+      ...comment,
+      id: 'c2',
+      content: 'First!',
+      repliesCount: 0,
+    };
+    vi.mocked(api.post).mockResolvedValue(created);
+    const { wrapper, getPost, getFeedPost, getComments } = setup();
+    const { result } = renderHook(() => useCreateComment(post.id), { wrapper });
+
+    act(() => {
+      result.current.mutate({ content: 'First!' });
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(getComments().map((c) => c.id)).toEqual(['c2', 'c1']);
+    expect(getPost()?.commentsCount).toBe(6);
+    expect(getFeedPost()?.commentsCount).toBe(6);
+  });
+
+  it('appends a reply to the thread and bumps the parent reply count', async () => {
+    const created = { ...reply, id: 'r2', content: '@someone agreed' };
+    vi.mocked(api.post).mockResolvedValue(created);
+    const { wrapper, getPost, getComments, getReplies } = setup();
+    const { result } = renderHook(() => useCreateComment(post.id), { wrapper });
+
+    act(() => {
+      result.current.mutate({
+        content: '@someone agreed',
+        parentId: comment.id,
+      });
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(getReplies().map((r) => r.id)).toEqual(['r1', 'r2']);
+    expect(getComments()[0]?.repliesCount).toBe(4);
+    expect(getPost()?.commentsCount).toBe(6);
+  });
+});
+
+describe('useDeleteComment', () => {
+  it('removes a top-level comment along with its replies from the count', async () => {
+    vi.mocked(api.delete).mockResolvedValue({});
+    const { wrapper, getPost, getComments } = setup();
+    const { result } = renderHook(() => useDeleteComment(post.id), { wrapper });
+
+    act(() => {
+      result.current.mutate(comment);
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(getComments()).toHaveLength(0);
+    expect(getPost()?.commentsCount).toBe(1);
+  });
+
+  it('removes a reply and decrements the parent reply count', async () => {
+    vi.mocked(api.delete).mockResolvedValue({});
+    const { wrapper, getPost, getComments, getReplies } = setup();
+    const { result } = renderHook(() => useDeleteComment(post.id), { wrapper });
+
+    act(() => {
+      result.current.mutate(reply);
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(getReplies()).toHaveLength(0);
+    expect(getComments()[0]?.repliesCount).toBe(2);
+    expect(getPost()?.commentsCount).toBe(4);
+  });
+});
+
+describe('useLikeComment', () => {
+  it('likes replies optimistically and rolls back on failure', async () => {
+    let rejectRequest: (error: Error) => void = () => {};
+    vi.mocked(api.post).mockReturnValue(
+      new Promise((_, reject) => {
+        rejectRequest = reject;
+      })
+    );
+    const { wrapper, getReplies } = setup();
+    const { result } = renderHook(() => useLikeComment(post.id), { wrapper });
+
+    act(() => {
+      result.current.mutate({ commentId: reply.id, liked: true });
+    });
+
+    await waitFor(() => expect(getReplies()[0]?.isLiked).toBe(true));
+    expect(getReplies()[0]?.likesCount).toBe(3);
+
+    act(() => rejectRequest(new Error('Network error')));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(getReplies()[0]).toMatchObject({ isLiked: false, likesCount: 2 });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+import { api } from '@/lib/api/client';
+import { API_ENDPOINTS, QUERY_KEYS } from '@/lib/api/endpoints';
+import {
+  useFavoriteListing,
+  useRemoveFavorite,
+} from '@/lib/api/hooks/use-marketplace';
+import { mockOtherUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/client', () => ({
+  api: { get: vi.fn(), post: vi.fn(), patch: vi.fn(), delete: vi.fn() },
+}));
+
+const listing = {
+  id: 'l1',
+  title: 'Yamaha WR250F',
+  description: 'Well kept',
+  price: 4200,
+  currency: 'USD',
+  images: [],
+  condition: 'good',
+  category: 'bikes',
+  seller: mockOtherUser,
+  isFavorited: false,
+  viewsCount: 10,
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+type CachedListing = { isFavorited?: boolean };
+type CachedPages = { pages: { items: CachedListing[] }[] };
+
+function setup() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+
+  queryClient.setQueryData(QUERY_KEYS.listing('l1'), listing);
+  queryClient.setQueryData([...QUERY_KEYS.listings, {}], {
+    pages: [{ items: [listing], meta: { page: 1, totalPages: 1 } }],
+    pageParams: [1],
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  const getFavorited = () => [
+    queryClient.getQueryData<CachedListing>(QUERY_KEYS.listing('l1'))
+      ?.isFavorited,
+    queryClient.getQueryData<CachedPages>([...QUERY_KEYS.listings, {}])
+      ?.pages[0]?.items[0]?.isFavorited,
+  ];
+
+  return { queryClient, wrapper, getFavorited };
+}
+
+describe('useFavoriteListing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('marks every cached copy of the listing as favorited', async () => {
+    vi.mocked(api.post).mockResolvedValue({});
+    const { wrapper, getFavorited } = setup();
+
+    const { result } = renderHook(() => useFavoriteListing(), { wrapper });
+    act(() => result.current.mutate({ listingId: 'l1', favorited: true }));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(api.post).toHaveBeenCalledWith(
+      API_ENDPOINTS.MARKETPLACE.FAVORITE('l1'),
+      {}
+    );
+    expect(getFavorited()).toEqual([true, true]);
+  });
+
+  it('rolls back when unfavoriting fails', async () => {
+    vi.mocked(api.delete).mockRejectedValue(new Error('Network error'));
+    const { wrapper, getFavorited } = setup();
+
+    const { result } = renderHook(() => useFavoriteListing(), { wrapper });
+    act(() => result.current.mutate({ listingId: 'l1', favorited: false }));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(api.delete).toHaveBeenCalledWith(
+      API_ENDPOINTS.MARKETPLACE.FAVORITE('l1')
+    );
+    expect(getFavorited()).toEqual([false, false]);
+  });
+});
+
+describe('useRemoveFavorite', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('takes the listing off the favorites page and unfavorites it', async () => {
+    vi.mocked(api.delete).mockResolvedValue({});
+    const { queryClient, wrapper, getFavorited } = setup();
+    queryClient.setQueryData(QUERY_KEYS.favorites, [
+      { listingId: 'l1', listing: { ...listing, isFavorited: true } },
+      { listingId: 'l2', listing: null },
+    ]);
+
+    const { result } = renderHook(() => useRemoveFavorite(), { wrapper });
+    act(() => result.current.mutate('l1'));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(
+      queryClient.getQueryData<{ listingId: string }[]>(QUERY_KEYS.favorites)
+    ).toEqual([{ listingId: 'l2', listing: null }]);
+    expect(getFavorited()).toEqual([false, false]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+import { api } from '@/lib/api/client';
+import { API_ENDPOINTS, QUERY_KEYS } from '@/lib/api/endpoints';
+import { useMuteHashtag, useMuteUser } from '@/lib/api/hooks/use-mutes';
+import { useNotInterested } from '@/lib/api/hooks/use-posts';
+import { mockUser, mockOtherUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/client', () => ({
+  api: { get: vi.fn(), post: vi.fn(), patch: vi.fn(), delete: vi.fn() },
+}));
+
+const createPost = (id: string, content: string, author = mockUser) => ({
+  id,
+  content,
+  author,
+  likesCount: 0,
+  commentsCount: 0,
+  createdAt: '2024-01-01T00:00:00Z',
+});
+
+const mutedPost = createPost('p1', 'Trail day #Enduro', mockOtherUser);
+const ownPost = createPost('p2', 'Fixed my chain');
+const repost = {
+  ...createPost('r1', ''),
+  repostOfId: 'p1',
+  repostOf: mutedPost,
+};
+
+type CachedPages = { pages: { items: { id: string }[] }[] };
+
+function setup() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+
+  queryClient.setQueryData(QUERY_KEYS.feed, {
+    pages: [
+      { items: [repost, ownPost, mutedPost], meta: { nextCursor: null } },
+    ],
+    pageParams: [undefined],
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  const getFeedIds = () =>
+    queryClient
+      .getQueryData<CachedPages>(QUERY_KEYS.feed)
+      ?.pages.flatMap((page) => page.items.map((item) => item.id));
+
+  return { wrapper, getFeedIds };
+}
+
+describe('mute hooks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("drops a muted user's posts and reposts of them from the feed", async () => {
+    vi.mocked(api.post).mockResolvedValue({ muted: true });
+    const { wrapper, getFeedIds } = setup();
+    const { result } = renderHook(() => useMuteUser(), { wrapper });
+
+    act(() => result.current.mutate(mockOtherUser));
+
+    await waitFor(() => expect(getFeedIds()).toEqual(['p2']));
+    await waitFor(() =>
+      expect(api.post).toHaveBeenCalledWith(
+        API_ENDPOINTS.SOCIAL.MUTE(mockOtherUser.id),
+        {}
+      )
+    );
+  });
+
+  it('matches muted hashtags regardless of case', async () => {
+    vi.mocked(api.post).mockResolvedValue({ muted: true });
+    const { wrapper, getFeedIds } = setup();
+    const { result } = renderHook(() => useMuteHashtag(), { wrapper });
+
+    act(() => result.current.mutate('enduro'));
+
+    await waitFor(() => expect(getFeedIds()).toEqual(['p2']));
+  });
+
+  it('puts the post back when "Not interested" fails', async () => {
+    vi.mocked(api.post).mockRejectedValue(new Error('Network error'));
+    const { wrapper, getFeedIds } = setup();
+    const { result } = renderHook(() => useNotInterested(), { wrapper });
+
+    act(() => result.current.mutate('p2'));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(getFeedIds()).toEqual(['r1', 'p2', 'p1']);
+  });
+});
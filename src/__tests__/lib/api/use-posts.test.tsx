@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+import { api } from '@/lib/api/client';
+import { API_ENDPOINTS, QUERY_KEYS } from '@/lib/api/endpoints';
+import {
+  useBookmarkPost,
+  useDeletePost,
+  useLikePost,
+  useRepost,
+  useUpdatePost,
+  removeCachedPost,
+  updateCachedPost,
+} from '@/lib/api/hooks/use-posts';
+import { mockUser } from '../../mocks/handlers';
+
+vi.mock('@/lib/api/client', () => ({
+  api: { get: vi.fn(), post: vi.fn(), patch: vi.fn(), delete: vi.fn() },
+}));
+
+const post = {
+  id: 'p1',
+  content: 'Morning ride',
+  author: mockUser,
+  likesCount: 5,
+  commentsCount: 0,
+  isLiked: false,
+  isBookmarked: false,
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+const otherPost = { ...post, id: 'p2', likesCount: 1 };
+
+const infinitePages = (items: (typeof post)[]) => ({
+  pages: [
+    { items, meta: { page: 1, limit: 20, total: items.length, totalPages: 1 } },
+  ],
+  pageParams: [1],
+});
+
+function setup() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+
+  queryClient.setQueryData(QUERY_KEYS.feed, infinitePages([post, otherPost]));
+  queryClient.setQueryData(QUERY_KEYS.post(post.id), post);
+  queryClient.setQueryData(
+    QUERY_KEYS.userPosts(mockUser.id),
+    infinitePages([post])
+  );
+  queryClient.setQueryData(
+    [...QUERY_KEYS.search('ride', 'posts'), 'infinite'],
+    {
+      pages: [{ items: [post], total: 1, page: 1, limit: 20, hasMore: false }],
+      pageParams: [1],
+    }
+  );
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  return { queryClient, wrapper };
+}
+
+type CachedPages = { pages: { items: (typeof post)[] }[] };
+
+function getCachedCopies(queryClient: QueryClient) {
+  const feed = queryClient.getQueryData<CachedPages>(QUERY_KEYS.feed);
+  const userPosts = queryClient.getQueryData<CachedPages>(
+    QUERY_KEYS.userPosts(mockUser.id)
+  );
+  const search = queryClient.getQueryData<CachedPages>([
+    ...QUERY_KEYS.search('ride', 'posts'),
+    'infinite',
+  ]);
+
+  return [
+    feed?.pages[0]?.items[0],
+    queryClient.getQueryData<typeof post>(QUERY_KEYS.post(post.id)),
+    userPosts?.pages[0]?.items[0],
+    search?.pages[0]?.items[0],
+  ];
+}
+
+describe('updateCachedPost', () => {
+  it('returns the same reference when the post is not cached', () => {
+    const data = infinitePages([otherPost]);
+    expect(
+      updateCachedPost(data, 'missing', (p) => ({ ...p, likesCount: 0 }))
+    ).toBe(data);
+  });
+
+  it('updates posts embedded in other objects', () => {
+    const data = { posts: [post], users: [mockUser] };
+    const result = updateCachedPost(data, post.id, (p) => ({
+      ...p,
+      likesCount: 9,
+    }));
+
+    expect(result.posts[0]?.likesCount).toBe(9);
+    expect(result.users).toBe(data.users);
+  });
+});
+
+describe('removeCachedPost', () => {
+  it('removes the post from lists but keeps other posts', () => {
+    const result = removeCachedPost(infinitePages([post, otherPost]), post.id);
+    expect(result.pages[0]?.items).toEqual([otherPost]);
+  });
+
+  it('leaves a tombstone where the post was quoted', () => {
+    const quote = { ...otherPost, repostOfId: post.id, repostOf: post };
+    const result = removeCachedPost(infinitePages([quote]), post.id);
+
+    expect(result.pages[0]?.items[0]).toEqual({ ...quote, repostOf: null });
+  });
+});
+
+describe('useLikePost', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('updates every cached copy of the post at once', async () => {
+    vi.mocked(api.post).mockResolvedValue({});
+    const { queryClient, wrapper } = setup();
+    const { result } = renderHook(() => useLikePost(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ postId: post.id, liked: true });
+    });
+
+    await waitFor(() => {
+      getCachedCopies(queryClient).forEach((copy) => {
+        expect(copy).toMatchObject({ isLiked: true, likesCount: 6 });
+      });
+    });
+    expect(api.post).toHaveBeenCalledWith('/posts/p1/like', {});
+
+    // Other posts are untouched
+    const feed = queryClient.getQueryData<CachedPages>(QUERY_KEYS.feed);
+    expect(feed?.pages[0]?.items[1]).toBe(otherPost);
+  });
+
+  it('rolls back every copy when the request fails', async () => {
+    vi.mocked(api.post).mockRejectedValue(new Error('Network error'));
+    const { queryClient, wrapper } = setup();
+    const { result } = renderHook(() => useLikePost(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ postId: post.id, liked: true });
+    });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    getCachedCopies(queryClient).forEach((copy) => {
+      expect(copy).toMatchObject({ isLiked: false, likesCount: 5 });
+    });
+  });
+
+  it('calls the unlike endpoint when unliking', async () => {
+    vi.mocked(api.post).mockResolvedValue({});
+    const { wrapper } = setup();
+    const { result } = renderHook(() => useLikePost(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ postId: post.id, liked: false });
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(api.post).toHaveBeenCalledWith('/posts/p1/unlike', {});
+  });
+});
+
+describe('useBookmarkPost', () => {
+  it('marks every cached copy as bookmarked', async () => {
+    vi.mocked(api.post).mockResolvedValue({});
+    const { queryClient, wrapper } = setup();
+    const { result } = renderHook(() => useBookmarkPost(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ postId: post.id, bookmarked: true });
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    getCachedCopies(queryClient).forEach((copy) => {
+      expect(copy).toMatchObject({ isBookmarked: true, likesCount: 5 });
+    });
+    expect(api.post).toHaveBeenCalledWith('/posts/p1/bookmark', {});
+  });
+});
+
+describe('useUpdatePost', () => {
+  it('replaces every cached copy with the saved post', async () => {
+    const saved = {
+      ...post,
+      content: 'Evening ride',
+      updatedAt: '2024-01-02T00:00:00Z',
+    };
+    vi.mocked(api.patch).mockResolvedValue(saved);
+    const { queryClient, wrapper } = setup();
+    const { result } = renderHook(() => useUpdatePost(), { wrapper });
+
+    act(() => {
+      result.current.mutate({
+        id: post.id,
+        data: { content: 'Evening ride', images: [] },
+      });
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    getCachedCopies(queryClient).forEach((copy) => {
+      expect(copy).toMatchObject({
+        content: 'Evening ride',
+        updatedAt: saved.updatedAt,
+      });
+    });
+  });
+});
+
+describe('useDeletePost', () => {
+  it('evicts the post from every list cache', async () => {
+    vi.mocked(api.delete).mockResolvedValue({});
+    const { queryClient, wrapper } = setup();
+    const { result } = renderHook(() => useDeletePost(), { wrapper });
+
+    act(() => {
+      result.current.mutate(post.id);
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    const [feedCopy, single, userCopy, searchCopy] =
+      getCachedCopies(queryClient);
+    expect(feedCopy).toEqual(otherPost);
+    expect(single).toBeUndefined();
+    expect(userCopy).toBeUndefined();
+    expect(searchCopy).toBeUndefined();
+  });
+});
+
+describe('useRepost', () => {
+  it('counts the repost and adds it to the top of the feed', async () => {
+    const repost = { ...post, id: 'r1', content: '', repostOfId: post.id };
+    vi.mocked(api.post).mockResolvedValue(repost);
+    const { queryClient, wrapper } = setup();
+    const { result } = renderHook(() => useRepost(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ postId: post.id, reposted: true });
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(api.post).toHaveBeenCalledWith(
+      API_ENDPOINTS.POSTS.REPOST(post.id),
+      {}
+    );
+    const feed = queryClient.getQueryData<CachedPages>(QUERY_KEYS.feed);
+    expect(feed?.pages[0]?.items[0]?.id).toBe('r1');
+    expect(queryClient.getQueryData(QUERY_KEYS.post(post.id))).toMatchObject({
+      isReposted: true,
+      repostsCount: 1,
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+import { api } from '@/lib/api/client';
+import { API_ENDPOINTS, QUERY_KEYS } from '@/lib/api/endpoints';
+import { useViewStory, useDeleteStory } from '@/lib/api/hooks/use-stories';
+import { mockUser, mockOtherUser } from '../../mocks/handlers';
+import type { StoryGroup } from '@/types/story';
+
+vi.mock('@/lib/api/client', () => ({
+  api: { get: vi.fn(), post: vi.fn(), patch: vi.fn(), delete: vi.fn() },
+}));
+
+function story(id: string, hasViewed = false) {
+  return {
+    id,
+    mediaUrl: `https://example.com/${id}.jpg`,
+    viewsCount: 0,
+    hasViewed,
+    expiresAt: '2024-01-02T00:00:00Z',
+    createdAt: '2024-01-01T00:00:00Z',
+  };
+}
+
+function setup() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+
+  queryClient.setQueryData<StoryGroup[]>(QUERY_KEYS.storyFeed, [
+    { user: mockUser, hasUnviewed: false, stories: [story('own1', true)] },
+    {
+      user: mockOtherUser,
+      hasUnviewed: true,
+      stories: [story('s1', true), story('s2'), story('s3')],
+    },
+  ]);
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  const getFeed = () =>
+    queryClient.getQueryData<StoryGroup[]>(QUERY_KEYS.storyFeed) ?? [];
+
+  return { wrapper, getFeed };
+}
+
+describe('story hooks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('marks a story seen and clears the ring once the last one is seen', async () => {
+    vi.mocked(api.post).mockResolvedValue({});
+    const { wrapper, getFeed } = setup();
+    const { result } = renderHook(() => useViewStory(), { wrapper });
+
+    act(() => result.current.mutate('s2'));
+
+    await waitFor(() =>
+      expect(api.post).toHaveBeenCalledWith(
+        API_ENDPOINTS.STORIES.VIEW('s2'),
+        {}
+      )
+    );
+    expect(getFeed()[1]?.stories[1]?.hasViewed).toBe(true);
+    expect(getFeed()[1]?.hasUnviewed).toBe(true);
+
+    act(() => result.current.mutate('s3'));
+
+    await waitFor(() => expect(getFeed()[1]?.hasUnviewed).toBe(false));
+  });
+
+  it('keeps the story marked seen when the view request fails', async () => {
+    vi.mocked(api.post).mockRejectedValue(new Error('Network error'));
+    const { wrapper, getFeed } = setup();
+    const { result } = renderHook(() => useViewStory(), { wrapper });
+
+    act(() => result.current.mutate('s2'));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(getFeed()[1]?.stories[1]?.hasViewed).toBe(true);
+  });
+
+  it('drops a deleted story and its group once empty', async () => {
+    vi.mocked(api.delete).mockResolvedValue({});
+    const { wrapper, getFeed } = setup();
+    const { result } = renderHook(() => useDeleteStory(), { wrapper });
+
+    await act(() => result.current.mutateAsync('own1'));
+
+    expect(getFeed()).toHaveLength(1);
+    expect(getFeed()[0]?.user.id).toBe(mockOtherUser.id);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertCurrency,
+  formatConvertedPrice,
+  formatCurrency,
+  type ExchangeRateTable,
+} from '@/lib/currency';
+
+const RATES: ExchangeRateTable = {
+  base: 'USD',
+  rates: { USD: 1, EUR: 0.5, GEL: 2.5 },
+};
+
+describe('convertCurrency', () => {
+  it('should convert through the base currency', () => {
+    expect(convertCurrency(100, 'USD', 'GEL', RATES)).toBe(250);
+    expect(convertCurrency(100, 'EUR', 'GEL', RATES)).toBe(500);
+    expect(convertCurrency(250, 'GEL', 'USD', RATES)).toBe(100);
+  });
+
+  it('should return null for currencies missing from the table', () => {
+    expect(convertCurrency(100, 'USD', 'JPY', RATES)).toBeNull();
+  });
+});
+
+describe('formatCurrency', () => {
+  it('should use local symbols and whole units', () => {
+    expect(formatCurrency(1200.4, 'GEL')).toBe('₾1,200');
+    expect(formatCurrency(1200, 'EUR')).toBe('€1,200');
+    expect(formatCurrency(1200, 'USD')).toBe('$1,200');
+  });
+});
+
+describe('formatConvertedPrice', () => {
+  it('should show an approximate amount in another currency', () => {
+    expect(formatConvertedPrice(100, 'USD', 'GEL', RATES)).toBe('≈ ₾250');
+  });
+
+  it('should skip prices already in the display currency', () => {
+    expect(formatConvertedPrice(100, 'GEL', 'GEL', RATES)).toBeNull();
+    expect(formatConvertedPrice(100, 'USD', 'JPY', RATES)).toBeNull();
+  });
+});
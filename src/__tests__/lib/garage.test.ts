@@ -0,0 +1,267 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeReminderInterval,
+  findFittingBike,
+  formatMaintenanceCosts,
+  formatMileage,
+  getBikeListingValues,
+  getMaintenanceCsvFilename,
+  getReminderStatus,
+  getBikeName,
+  getBikePartsHref,
+  getSellBikeHref,
+  isBikeSelected,
+  maintenanceLogToCsv,
+} from '@/lib/garage';
+import type {
+  Bike,
+  MaintenanceEntry,
+  MaintenanceReminder,
+} from '@/types/garage';
+import type { PartFitment } from '@/types/part';
+
+const bike: Bike = {
+  id: 'b1',
+  make: 'Yamaha',
+  model: 'WR250F',
+  year: 2019,
+  engine: '250cc',
+  mileage: 12300,
+  photos: ['https://example.com/wr.jpg'],
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+const otherBike: Bike = {
+  ...bike,
+  id: 'b2',
+  make: 'Honda',
+  model: 'CRF450R',
+  year: 2021,
+  engine: undefined,
+};
+
+describe('getBikeName', () => {
+  it('should join year, make and model', () => {
+    expect(getBikeName(bike)).toBe('2019 Yamaha WR250F');
+  });
+});
+
+describe('formatMileage', () => {
+  it('should group thousands and add the unit', () => {
+    expect(formatMileage(12300)).toBe('12,300 km');
+    expect(formatMileage(0)).toBe('0 km');
+  });
+});
+
+describe('isBikeSelected', () => {
+  it('should match only the exact fitment of the bike', () => {
+    expect(
+      isBikeSelected(bike, {
+        make: 'Yamaha',
+        model: 'WR250F',
+        year: 2019,
+        engine: '250cc',
+      })
+    ).toBe(true);
+    expect(isBikeSelected(bike, { make: 'Yamaha', model: 'WR250F' })).toBe(
+      false
+    );
+  });
+});
+
+describe('garage links', () => {
+  it('should link to parts filtered to the bike', () => {
+    const href = getBikePartsHref(bike);
+    const params = new URLSearchParams(href.split('?')[1]);
+
+    expect(href.startsWith('/parts?')).toBe(true);
+    expect(Object.fromEntries(params)).toEqual({
+      make: 'Yamaha',
+      model: 'WR250F',
+      year: '2019',
+      engine: '250cc',
+    });
+  });
+
+  it('should link to a new listing for the bike', () => {
+    expect(getSellBikeHref(bike)).toBe('/marketplace/create?bike=b1');
+  });
+});
+
+describe('getBikeListingValues', () => {
+  it('should pre-fill the listing from the bike', () => {
+    expect(getBikeListingValues(bike)).toEqual({
+      category: 'bikes',
+      title: '2019 Yamaha WR250F',
+      description: 'Engine: 250cc\nMileage: 12,300 km',
+      images: ['https://example.com/wr.jpg'],
+    });
+  });
+
+  it('should leave out the engine when unknown', () => {
+    expect(getBikeListingValues(otherBike).description).toBe(
+      'Mileage: 12,300 km'
+    );
+  });
+});
+
+describe('findFittingBike', () => {
+  const fitment: PartFitment[] = [
+    { make: 'Honda', model: 'CRF450R', yearFrom: 2017, yearTo: 2020 },
+    { make: 'Yamaha', model: 'WR250F', yearFrom: 2015, yearTo: 2019 },
+  ];
+
+  it('should return the first bike the part fits', () => {
+    expect(findFittingBike([otherBike, bike], fitment)).toBe(bike);
+  });
+
+  it('should return undefined when nothing fits', () => {
+    expect(findFittingBike([otherBike], fitment)).toBeUndefined();
+    expect(findFittingBike([bike], [])).toBeUndefined();
+  });
+});
+
+const entry = (overrides: Partial<MaintenanceEntry>): MaintenanceEntry => ({
+  id: 'm1',
+  bikeId: 'b1',
+  type: 'oil-change',
+  date: '2024-01-10',
+  odometer: 10000,
+  cost: null,
+  currency: 'GEL',
+  receipts: [],
+  createdAt: '2024-01-10T00:00:00Z',
+  ...overrides,
+});
+
+const reminder = (
+  overrides: Partial<MaintenanceReminder>
+): MaintenanceReminder => ({
+  id: 'r1',
+  bikeId: 'b1',
+  type: 'oil-change',
+  intervalKm: 5000,
+  intervalMonths: 12,
+  createdAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('getReminderStatus', () => {
+  const now = new Date(2024, 5, 1);
+  const entries = [
+    entry({ id: 'm1', date: '2023-06-01', odometer: 6000 }),
+    entry({ id: 'm2', date: '2024-01-10', odometer: 10000 }),
+    entry({ id: 'm3', type: 'chain', date: '2024-05-01', odometer: 14000 }),
+  ];
+
+  it('should count from the latest entry of the same type', () => {
+    expect(
+      getReminderStatus(reminder({}), entries, { mileage: 12000 }, now)
+    ).toEqual({ state: 'ok', dueOdometer: 15000, dueDate: '2025-01-10' });
+  });
+
+  it('should be due soon close to the distance', () => {
+    expect(
+      getReminderStatus(reminder({}), entries, { mileage: 14600 }, now).state
+    ).toBe('soon');
+  });
+
+  it('should be due once either interval has passed', () => {
+    expect(
+      getReminderStatus(reminder({}), entries, { mileage: 15000 }, now).state
+    ).toBe('due');
+    expect(
+      getReminderStatus(
+        reminder({ intervalKm: null, intervalMonths: 3 }),
+        entries,
+        { mileage: 12000 },
+        now
+      )
+    ).toEqual({ state: 'due', dueOdometer: null, dueDate: '2024-04-10' });
+  });
+
+  it('should be untracked until the job has been logged', () => {
+    expect(
+      getReminderStatus(
+        reminder({ type: 'tires' }),
+        entries,
+        { mileage: 12000 },
+        now
+      )
+    ).toEqual({ state: 'untracked', dueOdometer: null, dueDate: null });
+  });
+});
+
+describe('describeReminderInterval', () => {
+  it('should list the distance and time intervals', () => {
+    expect(
+      describeReminderInterval({ intervalKm: 5000, intervalMonths: 12 })
+    ).toBe('Every 5,000 km or 12 months');
+    expect(
+      describeReminderInterval({ intervalKm: null, intervalMonths: 1 })
+    ).toBe('Every 1 month');
+  });
+});
+
+describe('maintenanceLogToCsv', () => {
+  it('should list entries oldest first with a header row', () => {
+    const csv = maintenanceLogToCsv([
+      entry({
+        id: 'm2',
+        date: '2024-03-01',
+        odometer: 12000,
+        type: 'chain',
+        cost: 45,
+        currency: 'USD',
+        notes: 'DID chain, "gold" X-ring',
+        receipts: ['https://example.com/r1.jpg', 'https://example.com/r2.jpg'],
+      }),
+      entry({ id: 'm1' }),
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'Date,Type,Odometer (km),Cost,Currency,Notes,Receipts',
+      '2024-01-10,Oil change,10000,,,,',
+      '2024-03-01,Chain & sprockets,12000,45,USD,"DID chain, ""gold"" X-ring",https://example.com/r1.jpg https://example.com/r2.jpg',
+    ]);
+  });
+
+  it('should stop spreadsheets running notes as formulas', () => {
+    const csv = maintenanceLogToCsv([
+      entry({ notes: '=HYPERLINK("http://evil.test","Receipt")' }),
+      entry({ notes: '-2 teeth on the rear sprocket' }),
+      entry({ notes: '@garage' }),
+    ]);
+
+    expect(csv.split('\r\n').slice(1)).toEqual([
+      '2024-01-10,Oil change,10000,,,"\'=HYPERLINK(""http://evil.test"",""Receipt"")",',
+      "2024-01-10,Oil change,10000,,,'-2 teeth on the rear sprocket,",
+      "2024-01-10,Oil change,10000,,,'@garage,",
+    ]);
+  });
+});
+
+describe('getMaintenanceCsvFilename', () => {
+  it('should name the file after the bike', () => {
+    expect(getMaintenanceCsvFilename(bike)).toBe(
+      '2019-yamaha-wr250f-maintenance.csv'
+    );
+  });
+});
+
+describe('formatMaintenanceCosts', () => {
+  it('should total costs per currency', () => {
+    expect(
+      formatMaintenanceCosts([
+        entry({ cost: 100, currency: 'GEL' }),
+        entry({ cost: 20, currency: 'GEL' }),
+        entry({ cost: 45, currency: 'USD' }),
+        entry({ cost: null }),
+      ])
+    ).toBe('₾120 · $45');
+  });
+
+  it('should be empty when nothing has a cost', () => {
+    expect(formatMaintenanceCosts([entry({})])).toBe('');
+  });
+});
@@ -0,0 +1,308 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canChangeStatus,
+  canRenewListing,
+  canRespondToOffer,
+  describeSavedSearchFilters,
+  formatPrice,
+  formatResponseTime,
+  getFavoriteUnavailableReason,
+  getOfferBuyers,
+  getPriceDrop,
+  getRatingRole,
+  getSavedSearchHref,
+  getSuggestedOffers,
+  isOfferOpen,
+  sortFavorites,
+  parseListingFilters,
+  serializeListingFilters,
+} from '@/lib/marketplace';
+import type {
+  Favorite,
+  Listing,
+  ListingStatus,
+  Offer,
+  OfferStatus,
+} from '@/types/marketplace';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-06-01T00:00:00Z').getTime();
+
+const createListing = (status: ListingStatus, expiresInDays?: number) =>
+  ({
+    id: 'l1',
+    status,
+    expiresAt:
+      expiresInDays === undefined
+        ? undefined
+        : new Date(NOW + expiresInDays * DAY).toISOString(),
+  }) as Listing;
+
+describe('parseListingFilters', () => {
+  it('should read every filter from the URL', () => {
+    const params = new URLSearchParams(
+      'q=helmet&category=gear&condition=like-new&minPrice=50&maxPrice=300&location=Tbilisi&sort=price-asc'
+    );
+
+    expect(parseListingFilters(params)).toEqual({
+      q: 'helmet',
+      category: 'gear',
+      condition: 'like-new',
+      minPrice: 50,
+      maxPrice: 300,
+      location: 'Tbilisi',
+      sort: 'price-asc',
+    });
+  });
+
+  it('should drop unknown conditions, sorts and bad prices', () => {
+    const params = new URLSearchParams(
+      'condition=mint&sort=cheapest&minPrice=abc&maxPrice=-5'
+    );
+
+    expect(parseListingFilters(params)).toEqual({
+      q: undefined,
+      category: undefined,
+      condition: undefined,
+      minPrice: undefined,
+      maxPrice: undefined,
+      location: undefined,
+      sort: undefined,
+    });
+  });
+});
+
+describe('serializeListingFilters', () => {
+  it('should leave out empty values and the default sort', () => {
+    expect(
+      serializeListingFilters({
+        category: 'bikes',
+        minPrice: 0,
+        sort: 'newest',
+      }).toString()
+    ).toBe('category=bikes&minPrice=0');
+  });
+
+  it('should round-trip through the URL', () => {
+    const filters = {
+      q: 'exhaust pipe',
+      condition: 'good' as const,
+      maxPrice: 800,
+      sort: 'popular' as const,
+    };
+    const params = new URLSearchParams(
+      serializeListingFilters(filters).toString()
+    );
+
+    expect(parseListingFilters(params)).toMatchObject(filters);
+  });
+});
+
+describe('formatPrice', () => {
+  it('should format whole amounts with the currency', () => {
+    expect(formatPrice(1500, 'USD')).toBe('$1,500');
+  });
+});
+
+describe('canChangeStatus', () => {
+  it('should let sellers reserve, sell and reopen listings', () => {
+    expect(canChangeStatus(createListing('active'), 'reserved')).toBe(true);
+    expect(canChangeStatus(createListing('reserved'), 'sold')).toBe(true);
+    expect(canChangeStatus(createListing('sold'), 'active')).toBe(true);
+  });
+
+  it('should not move expired listings or drafts by hand', () => {
+    expect(canChangeStatus(createListing('expired'), 'active')).toBe(false);
+    expect(canChangeStatus(createListing('draft'), 'active')).toBe(false);
+    expect(canChangeStatus(createListing('active'), 'active')).toBe(false);
+  });
+});
+
+describe('canRenewListing', () => {
+  it('should renew expired listings and ones about to expire', () => {
+    expect(canRenewListing(createListing('expired'), NOW)).toBe(true);
+    expect(canRenewListing(createListing('active', 2), NOW)).toBe(true);
+  });
+
+  it('should not renew listings with plenty of time left or that sold', () => {
+    expect(canRenewListing(createListing('active', 20), NOW)).toBe(false);
+    expect(canRenewListing(createListing('sold', 2), NOW)).toBe(false);
+  });
+});
+
+const createOffer = (
+  status: OfferStatus,
+  awaiting: Offer['awaiting'] = 'seller',
+  expiresInDays = 1
+) =>
+  ({
+    id: 'o1',
+    buyer: { id: 'buyer' },
+    status,
+    awaiting,
+    expiresAt: new Date(NOW + expiresInDays * DAY).toISOString(),
+  }) as Offer;
+
+describe('isOfferOpen', () => {
+  it('should keep pending and countered offers open until they expire', () => {
+    expect(isOfferOpen(createOffer('pending'), NOW)).toBe(true);
+    expect(isOfferOpen(createOffer('countered'), NOW)).toBe(true);
+    expect(isOfferOpen(createOffer('pending', 'seller', -1), NOW)).toBe(false);
+  });
+
+  it('should close offers that were answered', () => {
+    expect(isOfferOpen(createOffer('accepted'), NOW)).toBe(false);
+    expect(isOfferOpen(createOffer('withdrawn'), NOW)).toBe(false);
+  });
+});
+
+describe('canRespondToOffer', () => {
+  it('should let whoever the offer is waiting on respond', () => {
+    const offer = createOffer('pending', 'seller');
+    expect(canRespondToOffer(offer, 'seller', 'seller', NOW)).toBe(true);
+    expect(canRespondToOffer(offer, 'buyer', 'seller', NOW)).toBe(false);
+
+    const counter = createOffer('countered', 'buyer');
+    expect(canRespondToOffer(counter, 'buyer', 'seller', NOW)).toBe(true);
+    expect(canRespondToOffer(counter, 'seller', 'seller', NOW)).toBe(false);
+  });
+});
+
+describe('getOfferBuyers', () => {
+  it('should list each buyer once, accepted offers first', () => {
+    const offers = [
+      { status: 'declined', buyer: { id: 'a' } },
+      { status: 'pending', buyer: { id: 'b' } },
+      { status: 'accepted', buyer: { id: 'b' } },
+      { status: 'withdrawn', buyer: { id: 'a' } },
+    ] as Offer[];
+    expect(getOfferBuyers(offers).map((buyer) => buyer.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('getRatingRole', () => {
+  const sold = {
+    status: 'sold',
+    seller: { id: 'seller' },
+    buyer: { id: 'buyer' },
+  } as Listing;
+
+  it('should return the side of the sale the user was on', () => {
+    expect(getRatingRole(sold, 'seller')).toBe('seller');
+    expect(getRatingRole(sold, 'buyer')).toBe('buyer');
+    expect(getRatingRole(sold, 'someone')).toBeNull();
+    expect(getRatingRole(sold, undefined)).toBeNull();
+  });
+
+  it('should not allow rating without a sale to a known buyer', () => {
+    expect(getRatingRole({ ...sold, buyer: null }, 'seller')).toBeNull();
+    expect(getRatingRole({ ...sold, status: 'reserved' }, 'buyer')).toBeNull();
+  });
+});
+
+describe('formatResponseTime', () => {
+  it('should round to hours, then days', () => {
+    expect(formatResponseTime(0.4)).toBe('within an hour');
+    expect(formatResponseTime(1.2)).toBe('within 1 hour');
+    expect(formatResponseTime(5.6)).toBe('within 6 hours');
+    expect(formatResponseTime(30)).toBe('within 1 day');
+    expect(formatResponseTime(60)).toBe('within 3 days');
+  });
+});
+
+describe('getSuggestedOffers', () => {
+  it('should round discounts off the asking price', () => {
+    expect(getSuggestedOffers(999)).toEqual([
+      { discount: 5, amount: 949 },
+      { discount: 10, amount: 899 },
+      { discount: 15, amount: 849 },
+    ]);
+  });
+});
+
+describe('getSavedSearchHref', () => {
+  it('should open the search with its filters on the Marketplace tab', () => {
+    expect(
+      getSavedSearchHref({
+        query: 'ktm exc',
+        filters: { condition: 'like-new', minPrice: 2000 },
+      })
+    ).toBe('/search?q=ktm+exc&condition=like-new&minPrice=2000&type=listings');
+  });
+});
+
+describe('describeSavedSearchFilters', () => {
+  it('should summarize filters using category names when known', () => {
+    expect(
+      describeSavedSearchFilters(
+        { category: 'bikes', minPrice: 1000, maxPrice: 3000 },
+        { bikes: 'Bikes' }
+      )
+    ).toBe('Bikes · 1000 - 3000');
+    expect(describeSavedSearchFilters({ category: 'misc', minPrice: 50 })).toBe(
+      'misc · From 50'
+    );
+  });
+});
+
+const createFavorite = (
+  listingId: string,
+  listing: Partial<Listing> | null,
+  priceAtFavorite = 1000
+) =>
+  ({
+    listingId,
+    listing: listing && {
+      id: listingId,
+      price: 1000,
+      currency: 'USD',
+      status: 'active',
+      ...listing,
+    },
+    priceAtFavorite,
+    currency: 'USD',
+  }) as Favorite;
+
+describe('getPriceDrop', () => {
+  it('should compare the current price with the price when favorited', () => {
+    expect(getPriceDrop(createFavorite('l1', { price: 800 }))).toBe(200);
+    expect(getPriceDrop(createFavorite('l1', { price: 1200 }))).toBe(0);
+  });
+
+  it('should not compare prices across currencies or for removed listings', () => {
+    expect(
+      getPriceDrop(createFavorite('l1', { price: 800, currency: 'EUR' }))
+    ).toBe(0);
+    expect(getPriceDrop(createFavorite('l1', null))).toBe(0);
+  });
+});
+
+describe('getFavoriteUnavailableReason', () => {
+  it('should explain why sold or removed listings are unavailable', () => {
+    expect(getFavoriteUnavailableReason(createFavorite('l1', null))).toBe(
+      'Removed by seller'
+    );
+    expect(
+      getFavoriteUnavailableReason(createFavorite('l1', { status: 'sold' }))
+    ).toBe('Sold');
+    expect(getFavoriteUnavailableReason(createFavorite('l1', {}))).toBeNull();
+  });
+});
+
+describe('sortFavorites', () => {
+  it('should put price drops first and unavailable listings last', () => {
+    const favorites = [
+      createFavorite('removed', null),
+      createFavorite('same', {}),
+      createFavorite('sold', { status: 'sold', price: 500 }),
+      createFavorite('dropped', { price: 900 }),
+    ];
+
+    expect(sortFavorites(favorites).map((f) => f.listingId)).toEqual([
+      'dropped',
+      'same',
+      'removed',
+      'sold',
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCategoryTree,
+  describeFitment,
+  formatYearRange,
+  getCategoryPath,
+  getFitmentParents,
+  getPartNumberHref,
+  looksLikePartNumber,
+  matchesFitment,
+  normalizePartNumber,
+  parsePartFilters,
+  serializePartFilters,
+  setFitmentLevel,
+} from '@/lib/parts';
+import type { PartCategory, PartFitment } from '@/types/part';
+
+const categories: PartCategory[] = [
+  { id: '1', name: 'Engine', slug: 'engine', parentId: null },
+  { id: '2', name: 'Pistons', slug: 'pistons', parentId: '1' },
+  { id: '3', name: 'Rings', slug: 'piston-rings', parentId: '2' },
+  { id: '4', name: 'Brakes', slug: 'brakes', parentId: null },
+  { id: '5', name: 'Gaskets', slug: 'gaskets', parentId: '1' },
+];
+
+describe('buildCategoryTree', () => {
+  it('should nest categories under their parents in order', () => {
+    const tree = buildCategoryTree(categories);
+
+    expect(tree.map((node) => node.slug)).toEqual(['engine', 'brakes']);
+    expect(tree[0]!.children.map((node) => node.slug)).toEqual([
+      'pistons',
+      'gaskets',
+    ]);
+    expect(tree[0]!.children[0]!.children[0]!.slug).toBe('piston-rings');
+  });
+
+  it('should keep categories with an unknown parent at the top level', () => {
+    const tree = buildCategoryTree([
+      { id: '9', name: 'Orphan', slug: 'orphan', parentId: 'missing' },
+    ]);
+    expect(tree.map((node) => node.slug)).toEqual(['orphan']);
+  });
+});
+
+describe('getCategoryPath', () => {
+  it('should walk from the top level down to the category', () => {
+    expect(
+      getCategoryPath(categories, 'piston-rings').map((step) => step.name)
+    ).toEqual(['Engine', 'Pistons', 'Rings']);
+  });
+
+  it('should be empty for unknown or missing slugs', () => {
+    expect(getCategoryPath(categories, 'nope')).toEqual([]);
+    expect(getCategoryPath(categories, undefined)).toEqual([]);
+  });
+
+  it('should stop on a cycle', () => {
+    const cyclic: PartCategory[] = [
+      { id: 'a', name: 'A', slug: 'a', parentId: 'b' },
+      { id: 'b', name: 'B', slug: 'b', parentId: 'a' },
+    ];
+    expect(getCategoryPath(cyclic, 'a').map((step) => step.slug)).toEqual([
+      'b',
+      'a',
+    ]);
+  });
+});
+
+describe('parsePartFilters / serializePartFilters', () => {
+  it('should round-trip the search text and category', () => {
+    const filters = parsePartFilters(
+      new URLSearchParams('q=+ring+&category=pistons&sort=x')
+    );
+    expect(filters).toEqual({ q: 'ring', category: 'pistons' });
+    expect(serializePartFilters(filters).toString()).toBe(
+      'q=ring&category=pistons'
+    );
+  });
+
+  it('should keep fitment levels only while the earlier ones are set', () => {
+    expect(
+      parsePartFilters(
+        new URLSearchParams('make=Yamaha&model=WR250F&year=2019&engine=250cc')
+      )
+    ).toEqual({
+      make: 'Yamaha',
+      model: 'WR250F',
+      year: 2019,
+      engine: '250cc',
+    });
+    expect(
+      parsePartFilters(new URLSearchParams('make=Yamaha&year=2019'))
+    ).toEqual({ make: 'Yamaha' });
+    expect(
+      parsePartFilters(new URLSearchParams('make=KTM&model=EXC&year=abc'))
+    ).toEqual({ make: 'KTM', model: 'EXC' });
+  });
+
+  it('should normalize the part number', () => {
+    const filters = parsePartFilters(
+      new URLSearchParams('partNumber=5tj-14451 00')
+    );
+    expect(filters).toEqual({ partNumber: '5TJ1445100' });
+    expect(serializePartFilters(filters).toString()).toBe(
+      'partNumber=5TJ1445100'
+    );
+  });
+
+  it('should write fitment in selector order', () => {
+    expect(
+      serializePartFilters({
+        year: 2019,
+        make: 'Yamaha',
+        model: 'WR250F',
+      }).toString()
+    ).toBe('make=Yamaha&model=WR250F&year=2019');
+  });
+});
+
+describe('getFitmentParents', () => {
+  it('should wait for every earlier level', () => {
+    expect(getFitmentParents('make', {})).toEqual({});
+    expect(getFitmentParents('model', {})).toBeNull();
+    expect(
+      getFitmentParents('year', { make: 'Yamaha', model: 'WR250F' })
+    ).toEqual({ make: 'Yamaha', model: 'WR250F' });
+  });
+});
+
+describe('setFitmentLevel', () => {
+  it('should clear the levels after the one changed', () => {
+    const selection = {
+      make: 'Yamaha',
+      model: 'WR250F',
+      year: 2019,
+      engine: '250cc',
+    };
+    expect(setFitmentLevel(selection, 'model', 'YZ250F')).toEqual({
+      make: 'Yamaha',
+      model: 'YZ250F',
+    });
+    expect(setFitmentLevel(selection, 'make', undefined)).toEqual({
+      make: undefined,
+    });
+  });
+});
+
+describe('matchesFitment', () => {
+  const row: PartFitment = {
+    make: 'Yamaha',
+    model: 'WR250F',
+    yearFrom: 2015,
+    yearTo: 2019,
+  };
+
+  it('should match bikes inside the year range', () => {
+    expect(matchesFitment(row, { make: 'Yamaha', year: 2017 })).toBe(true);
+    expect(matchesFitment(row, { make: 'Yamaha', year: 2020 })).toBe(false);
+    expect(matchesFitment(row, { make: 'KTM' })).toBe(false);
+  });
+
+  it('should treat rows without an engine as fitting every variant', () => {
+    expect(matchesFitment(row, { make: 'Yamaha', engine: '250cc' })).toBe(true);
+    expect(
+      matchesFitment({ ...row, engine: '450cc' }, { engine: '250cc' })
+    ).toBe(false);
+  });
+});
+
+describe('describeFitment / formatYearRange', () => {
+  it('should format bikes and year ranges for display', () => {
+    expect(
+      describeFitment({
+        make: 'Yamaha',
+        model: 'WR250F',
+        year: 2019,
+        engine: '250cc',
+      })
+    ).toBe('2019 Yamaha WR250F (250cc)');
+    expect(describeFitment({ make: 'Yamaha' })).toBe('Yamaha');
+    expect(formatYearRange({ yearFrom: 2015, yearTo: 2019 })).toBe('2015–2019');
+    expect(formatYearRange({ yearFrom: 2019, yearTo: 2019 })).toBe('2019');
+  });
+});
+
+describe('normalizePartNumber', () => {
+  it('should ignore dashes, spaces and case', () => {
+    expect(normalizePartNumber(' 5tj-14451-00 ')).toBe('5TJ1445100');
+    expect(normalizePartNumber('HF 204')).toBe('HF204');
+    expect(normalizePartNumber('hf--204')).toBe(normalizePartNumber('HF204'));
+  });
+});
+
+describe('looksLikePartNumber', () => {
+  it('should accept codes with enough digits', () => {
+    expect(looksLikePartNumber('5TJ-14451-00')).toBe(true);
+    expect(looksLikePartNumber('15410-MFJ-D01')).toBe(true);
+    expect(looksLikePartNumber('5tj 14451 00')).toBe(true);
+    expect(looksLikePartNumber('HF204')).toBe(true);
+    expect(looksLikePartNumber('12345')).toBe(true);
+  });
+
+  it('should reject words and short codes', () => {
+    expect(looksLikePartNumber('oil filter')).toBe(false);
+    expect(looksLikePartNumber('HF20')).toBe(false);
+    expect(looksLikePartNumber('piston kit 77mm')).toBe(false);
+  });
+
+  it('should reject model names', () => {
+    expect(looksLikePartNumber('Yamaha WR250F')).toBe(false);
+    expect(looksLikePartNumber('WR250F piston kit')).toBe(false);
+    expect(looksLikePartNumber('2019 KTM 450')).toBe(false);
+    expect(looksLikePartNumber('CRF450R')).toBe(false);
+  });
+});
+
+describe('getPartNumberHref', () => {
+  it('should link to the catalog filtered by the normalized number', () => {
+    expect(getPartNumberHref('hf-204')).toBe('/parts?partNumber=HF204');
+  });
+});
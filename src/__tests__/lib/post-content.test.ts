@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPostHashtags,
+  parsePostContent,
+  truncatePostContent,
+} from '@/lib/post-content';
+
+describe('parsePostContent', () => {
+  it('should return plain text as a single token', () => {
+    expect(parsePostContent('Just a ride')).toEqual([
+      { type: 'text', value: 'Just a ride' },
+    ]);
+  });
+
+  it('should extract hashtags and mentions', () => {
+    expect(parsePostContent('Riding with @jane #sunday')).toEqual([
+      { type: 'text', value: 'Riding with ' },
+      { type: 'mention', value: '@jane', username: 'jane' },
+      { type: 'text', value: ' ' },
+      { type: 'hashtag', value: '#sunday', tag: 'sunday' },
+    ]);
+  });
+
+  it('should extract links and normalize www links', () => {
+    const tokens = parsePostContent(
+      'See https://example.com/a?b=1. Or www.bikes.ge'
+    );
+
+    expect(tokens).toEqual([
+      { type: 'text', value: 'See ' },
+      {
+        type: 'url',
+        value: 'https://example.com/a?b=1',
+        href: 'https://example.com/a?b=1',
+      },
+      { type: 'text', value: '. Or ' },
+      { type: 'url', value: 'www.bikes.ge', href: 'https://www.bikes.ge' },
+    ]);
+  });
+
+  it('should keep fragments and @ signs inside links', () => {
+    const tokens = parsePostContent('https://example.com/@rider#gallery');
+
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0]?.type).toBe('url');
+  });
+
+  it('should not treat email addresses as mentions', () => {
+    expect(parsePostContent('mail me at rider@example.com')).toEqual([
+      { type: 'text', value: 'mail me at rider@example.com' },
+    ]);
+  });
+
+  it('should handle tokens wrapped in punctuation', () => {
+    const tokens = parsePostContent('(#enduro)');
+
+    expect(tokens).toEqual([
+      { type: 'text', value: '(' },
+      { type: 'hashtag', value: '#enduro', tag: 'enduro' },
+      { type: 'text', value: ')' },
+    ]);
+  });
+
+  it('should leave markup as plain text', () => {
+    const content = '<script>alert(1)</script>';
+    expect(parsePostContent(content)).toEqual([
+      { type: 'text', value: content },
+    ]);
+  });
+});
+
+describe('truncatePostContent', () => {
+  it('should not change short content', () => {
+    expect(truncatePostContent('Short post', 50)).toBe('Short post');
+  });
+
+  it('should not cut a hashtag in half', () => {
+    expect(truncatePostContent('Great day #motorcycle', 14)).toBe(
+      'Great day...'
+    );
+  });
+
+  it('should cut plain text at the limit', () => {
+    expect(truncatePostContent('abcdefghij', 5)).toBe('abcde...');
+  });
+});
+
+describe('getPostHashtags', () => {
+  it('should return each hashtag once, lowercased', () => {
+    expect(getPostHashtags('#Enduro day, more #enduro and #MX')).toEqual([
+      'enduro',
+      'mx',
+    ]);
+  });
+});
@@ -12,6 +12,7 @@ import {
   throttle,
   isEmpty,
   parseSearchParams,
+  downloadFile,
 } from '@/lib/utils';
 
 describe('cn', () => {
@@ -310,3 +311,37 @@ describe('parseSearchParams', () => {
     expect(result).toEqual({ name: 'John Doe', email: 'test@example.com' });
   });
 });
+
+describe('downloadFile', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    URL.createObjectURL = vi.fn(() => 'blob:download');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should click an attached link and revoke the URL afterwards', () => {
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, 'click')
+      .mockImplementation(function (this: HTMLAnchorElement) {
+        // Firefox ignores clicks on detached links
+        expect(this.isConnected).toBe(true);
+      });
+
+    downloadFile('log.csv', 'a,b', 'text/csv');
+
+    const link = click.mock.contexts[0] as HTMLAnchorElement;
+    expect(link.download).toBe('log.csv');
+    expect(link.href).toBe('blob:download');
+    expect(link.isConnected).toBe(false);
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:download');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  listingSchema,
+  LISTING_MAX_IMAGES,
+  LISTING_TITLE_MAX_LENGTH,
+} from '@/lib/validations/listing';
+
+const validListing = {
+  category: 'bikes',
+  title: 'Yamaha WR250F 2019',
+  description: 'Fresh top end, new tyres, always garaged.',
+  price: 4200,
+  currency: 'USD',
+  condition: 'good',
+  images: ['https://example.com/bike.jpg'],
+  location: 'Tbilisi',
+};
+
+describe('listingSchema', () => {
+  it('should validate a complete listing', () => {
+    expect(listingSchema.safeParse(validListing).success).toBe(true);
+  });
+
+  it('should require a category', () => {
+    const result = listingSchema.safeParse({ ...validListing, category: '' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Pick a category');
+    }
+  });
+
+  it('should limit title length', () => {
+    const result = listingSchema.safeParse({
+      ...validListing,
+      title: 'a'.repeat(LISTING_TITLE_MAX_LENGTH + 1),
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should require a price', () => {
+    const result = listingSchema.safeParse({
+      ...validListing,
+      price: undefined,
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe('Enter a price');
+    }
+  });
+
+  it('should reject negative prices', () => {
+    const result = listingSchema.safeParse({ ...validListing, price: -1 });
+    expect(result.success).toBe(false);
+  });
+
+  it('should require between one and the maximum number of photos', () => {
+    expect(
+      listingSchema.safeParse({ ...validListing, images: [] }).success
+    ).toBe(false);
+    expect(
+      listingSchema.safeParse({
+        ...validListing,
+        images: Array.from(
+          { length: LISTING_MAX_IMAGES + 1 },
+          (_, i) => `https://example.com/${i}.jpg`
+        ),
+      }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPostSchema,
+  POST_MAX_IMAGES,
+  POST_MAX_LENGTH,
+} from '@/lib/validations/post';
+
+describe('createPostSchema', () => {
+  it('should validate a text-only post', () => {
+    const result = createPostSchema.safeParse({
+      content: 'First ride of the season #spring',
+      images: [],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should validate an image-only post', () => {
+    const result = createPostSchema.safeParse({
+      content: '',
+      images: ['https://example.com/bike.jpg'],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should require content or images', () => {
+    const result = createPostSchema.safeParse({ content: '   ', images: [] });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toBe(
+        'Write something or add a photo'
+      );
+    }
+  });
+
+  it('should limit content length', () => {
+    const result = createPostSchema.safeParse({
+      content: 'a'.repeat(POST_MAX_LENGTH + 1),
+      images: [],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should limit the number of images', () => {
+    const result = createPostSchema.safeParse({
+      content: '',
+      images: Array.from(
+        { length: POST_MAX_IMAGES + 1 },
+        (_, i) => `https://example.com/${i}.jpg`
+      ),
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -71,7 +71,7 @@ describe('Settings Mobile Navigation', () => {
       const { container } = render(<SettingsMobileNav />);
 
       const icons = container.querySelectorAll('nav a svg');
-      expect(icons.length).toBe(6);
+      expect(icons.length).toBe(9);
     });
   });
 
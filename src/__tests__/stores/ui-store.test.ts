@@ -14,6 +14,7 @@ describe('useUIStore', () => {
       searchQuery: '',
       notificationsOpen: false,
       createPostOpen: false,
+      displayCurrency: 'GEL',
     });
   });
 
@@ -201,4 +202,15 @@ describe('useUIStore', () => {
       expect(useUIStore.getState().createPostOpen).toBe(false);
     });
   });
+
+  describe('Display currency', () => {
+    it('should default to GEL and be changeable', () => {
+      const { setDisplayCurrency } = useUIStore.getState();
+
+      expect(useUIStore.getState().displayCurrency).toBe('GEL');
+
+      setDisplayCurrency('EUR');
+      expect(useUIStore.getState().displayCurrency).toBe('EUR');
+    });
+  });
 });
@@ -64,7 +64,7 @@ export default function ProfilePage({ params }: ProfilePageProps) {
 
       <Card>
         <CardContent className="p-4 sm:p-6">
-          <ProfileTabs user={user} />
+          <ProfileTabs user={user} isOwnProfile={isOwnProfile} />
         </CardContent>
       </Card>
     </div>
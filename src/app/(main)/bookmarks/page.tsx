@@ -0,0 +1,76 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+
+import { Button } from '@/components/ui/button';
+import { InfiniteScroll } from '@/components/shared/infinite-scroll';
+import { SkeletonList } from '@/components/shared/skeleton-list';
+import { EmptyState, NoBookmarks } from '@/components/shared/empty-state';
+import { PostCard } from '@/components/feed/post-card';
+import { useBookmarks } from '@/lib/api/hooks/use-posts';
+
+export default function BookmarksPage() {
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useBookmarks();
+
+  const posts = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Bookmarks</h1>
+        <p className="text-muted-foreground">
+          Posts you&apos;ve saved for later
+        </p>
+      </div>
+
+      {isLoading ? (
+        <SkeletonList count={3} />
+      ) : isError ? (
+        <EmptyState
+          title="Couldn't load your bookmarks"
+          description="Something went wrong while loading saved posts."
+          action={
+            <Button variant="outline" onClick={() => refetch()}>
+              Try again
+            </Button>
+          }
+        />
+      ) : posts.length === 0 ? (
+        <NoBookmarks
+          action={
+            <Button asChild variant="outline">
+              <Link href="/">Browse the feed</Link>
+            </Button>
+          }
+        />
+      ) : (
+        <InfiniteScroll
+          hasMore={!!hasNextPage}
+          isLoading={isFetchingNextPage}
+          isError={isFetchNextPageError}
+          onLoadMore={() => fetchNextPage()}
+          onRetry={() => fetchNextPage()}
+          loadingComponent={<SkeletonList count={2} className="w-full" />}
+          className="space-y-4"
+        >
+          {posts.map((post) => (
+            <PostCard key={post.id} post={post} />
+          ))}
+        </InfiniteScroll>
+      )}
+    </div>
+  );
+}
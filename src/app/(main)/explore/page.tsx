@@ -0,0 +1,78 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { InfiniteScroll } from '@/components/shared/infinite-scroll';
+import { SkeletonList } from '@/components/shared/skeleton-list';
+import { EmptyState, NoPosts } from '@/components/shared/empty-state';
+import { PostCard } from '@/components/feed/post-card';
+import { TrendingHashtags, SuggestedUsers } from '@/components/explore';
+import { useTrendingPosts } from '@/lib/api/hooks/use-posts';
+
+export default function ExplorePage() {
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useTrendingPosts();
+
+  const posts = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Explore</h1>
+        <p className="text-muted-foreground">
+          What riders are talking about right now
+        </p>
+      </div>
+
+      <TrendingHashtags />
+
+      <SuggestedUsers />
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold">Trending posts</h2>
+
+        {isLoading ? (
+          <SkeletonList count={3} />
+        ) : isError ? (
+          <EmptyState
+            title="Couldn't load trending posts"
+            description="Something went wrong while loading posts."
+            action={
+              <Button variant="outline" onClick={() => refetch()}>
+                Try again
+              </Button>
+            }
+          />
+        ) : posts.length === 0 ? (
+          <NoPosts />
+        ) : (
+          <InfiniteScroll
+            hasMore={!!hasNextPage}
+            isLoading={isFetchingNextPage}
+            isError={isFetchNextPageError}
+            onLoadMore={() => fetchNextPage()}
+            onRetry={() => fetchNextPage()}
+            loadingComponent={<SkeletonList count={2} className="w-full" />}
+            className="space-y-4"
+          >
+            {posts.map((post) => (
+              <PostCard key={post.id} post={post} />
+            ))}
+          </InfiniteScroll>
+        )}
+      </section>
+    </div>
+  );
+}
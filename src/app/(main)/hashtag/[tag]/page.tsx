@@ -0,0 +1,110 @@
+'use client';
+
+import { use, useMemo } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Hash } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { InfiniteScroll } from '@/components/shared/infinite-scroll';
+import { SkeletonList } from '@/components/shared/skeleton-list';
+import { EmptyState } from '@/components/shared/empty-state';
+import { PostCard } from '@/components/feed/post-card';
+import { useHashtagPosts } from '@/lib/api/hooks/use-posts';
+import { formatCompactNumber } from '@/lib/utils';
+
+interface HashtagPageProps {
+  params: Promise<{
+    tag: string;
+  }>;
+}
+
+// Malformed escapes like "%E0%A4%A" make decodeURIComponent throw
+function decodeTag(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+export default function HashtagPage({ params }: HashtagPageProps) {
+  // Unwrap params in Next.js 15+
+  const { tag: segment } = use(params);
+  const tag = decodeTag(segment).replace(/^#/, '').toLowerCase();
+
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useHashtagPosts(tag);
+
+  const posts = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+  const total = data?.pages[0]?.meta.total;
+
+  return (
+    <div className="space-y-6">
+      <Button asChild variant="ghost" size="sm" className="-ml-2 gap-2">
+        <Link href="/explore">
+          <ArrowLeft className="size-4" />
+          Explore
+        </Link>
+      </Button>
+
+      <div className="flex items-center gap-4">
+        <div className="flex size-14 shrink-0 items-center justify-center rounded-full bg-primary/10">
+          <Hash className="size-7 text-primary" />
+        </div>
+        <div className="min-w-0">
+          <h1 className="truncate text-2xl font-bold tracking-tight">#{tag}</h1>
+          {total !== undefined && (
+            <p className="text-muted-foreground">
+              {formatCompactNumber(total)} post{total !== 1 && 's'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <SkeletonList count={3} />
+      ) : isError ? (
+        <EmptyState
+          title="Couldn't load posts"
+          description={`Something went wrong while loading posts tagged #${tag}.`}
+          action={
+            <Button variant="outline" onClick={() => refetch()}>
+              Try again
+            </Button>
+          }
+        />
+      ) : posts.length === 0 ? (
+        <EmptyState
+          icon={<Hash className="h-full w-full" />}
+          title={`No posts tagged #${tag} yet`}
+          description="Be the first to use this hashtag in a post."
+        />
+      ) : (
+        <InfiniteScroll
+          hasMore={!!hasNextPage}
+          isLoading={isFetchingNextPage}
+          isError={isFetchNextPageError}
+          onLoadMore={() => fetchNextPage()}
+          onRetry={() => fetchNextPage()}
+          loadingComponent={<SkeletonList count={2} className="w-full" />}
+          className="space-y-4"
+        >
+          {posts.map((post) => (
+            <PostCard key={post.id} post={post} />
+          ))}
+        </InfiniteScroll>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { useRouter } from 'next/navigation';
 import { Header } from '@/components/layout/header';
 import { Sidebar, MobileSidebar } from '@/components/layout/sidebar';
 import { MobileNav } from '@/components/layout/mobile-nav';
+import { CreatePostModal } from '@/components/posts';
 import { Sheet, SheetContent } from '@/components/ui/sheet';
 import { Skeleton } from '@/components/ui/skeleton';
 
@@ -70,6 +71,9 @@ export default function MainLayout({
 
       {/* Mobile bottom navigation */}
       <MobileNav />
+
+      {/* Post composer */}
+      <CreatePostModal />
     </div>
   );
 }
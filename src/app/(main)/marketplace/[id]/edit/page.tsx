@@ -0,0 +1,108 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { AlertTriangle, ArrowLeft, Lock } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { EmptyState } from '@/components/shared/empty-state';
+import { ListingWizard } from '@/components/marketplace';
+import { useListing } from '@/lib/api/hooks/use-marketplace';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+
+interface EditListingPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default function EditListingPage({ params }: EditListingPageProps) {
+  // Unwrap params in Next.js 15+
+  const { id: listingId } = use(params);
+
+  const { data: currentUser, isLoading: isLoadingUser } = useCurrentUser();
+  const {
+    data: listing,
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useListing(listingId);
+
+  if (isLoading || isLoadingUser) {
+    return <EditListingSkeleton />;
+  }
+
+  if (isError) {
+    // Check if it's a 404
+    const apiError = error as { status?: number };
+    if (apiError?.status === 404) {
+      notFound();
+    }
+
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <AlertTriangle className="mb-4 size-12 text-destructive" />
+          <h2 className="mb-2 text-xl font-semibold">Something went wrong</h2>
+          <p className="mb-4 text-muted-foreground">
+            {error.message || 'Failed to load listing'}
+          </p>
+          <Button onClick={() => refetch()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!listing) {
+    notFound();
+  }
+
+  if (currentUser?.id !== listing.seller.id) {
+    return (
+      <EmptyState
+        icon={<Lock className="h-full w-full" />}
+        title="You can't edit this listing"
+        description="Only the seller can make changes to a listing."
+        action={
+          <Button asChild variant="outline">
+            <Link href={`/marketplace/${listing.id}`}>View listing</Link>
+          </Button>
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-6">
+      <div className="space-y-2">
+        <Button variant="ghost" size="sm" asChild className="-ml-2">
+          <Link href={`/marketplace/${listing.id}`}>
+            <ArrowLeft className="size-4" />
+            Back to listing
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold tracking-tight">Edit listing</h1>
+      </div>
+
+      <ListingWizard listing={listing} />
+    </div>
+  );
+}
+
+function EditListingSkeleton() {
+  return (
+    <div className="mx-auto max-w-2xl space-y-6">
+      <Skeleton className="h-8 w-48" />
+      <div className="flex gap-2">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <Skeleton key={i} className="h-1 flex-1" />
+        ))}
+      </div>
+      <Skeleton className="h-80 w-full rounded-xl" />
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { use, useState } from 'react';
+import Link from 'next/link';
+import { notFound, useRouter } from 'next/navigation';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Eye,
+  Heart,
+  MapPin,
+  MessageCircle,
+  Pencil,
+  Tag,
+} from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { UserCard } from '@/components/profile/user-card';
+import { ContactSellerDialog } from '@/components/messages';
+import {
+  ConvertedPrice,
+  FavoriteButton,
+  ListingCard,
+  ListingGallery,
+  ListingOffers,
+  ListingOwnerMenu,
+  ListingRatings,
+  ListingRenewNotice,
+  ListingStatusBadge,
+} from '@/components/marketplace';
+import {
+  useListing,
+  useMarketplaceCategories,
+  useSellerListings,
+} from '@/lib/api/hooks/use-marketplace';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+import {
+  CONDITION_COLORS,
+  CONDITION_LABELS,
+  formatPrice,
+} from '@/lib/marketplace';
+import { cn, formatCompactNumber, formatRelativeTime } from '@/lib/utils';
+import type { Listing } from '@/types/marketplace';
+
+interface ListingPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default function ListingPage({ params }: ListingPageProps) {
+  // Unwrap params in Next.js 15+
+  const { id: listingId } = use(params);
+
+  const router = useRouter();
+  const { data: currentUser } = useCurrentUser();
+  const { data: categories } = useMarketplaceCategories();
+  const {
+    data: listing,
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useListing(listingId);
+
+  if (isLoading) {
+    return <ListingPageSkeleton />;
+  }
+
+  if (isError) {
+    // Check if it's a 404
+    const apiError = error as { status?: number };
+    if (apiError?.status === 404) {
+      notFound();
+    }
+
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <AlertTriangle className="mb-4 size-12 text-destructive" />
+          <h2 className="mb-2 text-xl font-semibold">Something went wrong</h2>
+          <p className="mb-4 text-muted-foreground">
+            {error.message || 'Failed to load listing'}
+          </p>
+          <Button onClick={() => refetch()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!listing) {
+    notFound();
+  }
+
+  const isOwner = currentUser?.id === listing.seller.id;
+  const categoryName = categories?.find(
+    (category) => category.slug === listing.category
+  )?.name;
+
+  return (
+    <div className="space-y-6">
+      <BackLink />
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+        <div className="space-y-6">
+          <ListingGallery
+            images={listing.images}
+            title={listing.title}
+            isSold={listing.status === 'sold'}
+          />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Description</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="whitespace-pre-wrap break-words text-sm">
+                {listing.description}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardContent className="space-y-4 p-6">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge className="px-3 py-1 text-lg font-bold">
+                  {formatPrice(listing.price, listing.currency)}
+                </Badge>
+                <ConvertedPrice
+                  price={listing.price}
+                  currency={listing.currency}
+                  className="text-sm"
+                />
+                <Badge
+                  variant="secondary"
+                  className={cn(CONDITION_COLORS[listing.condition])}
+                >
+                  {CONDITION_LABELS[listing.condition]}
+                </Badge>
+                {listing.status !== 'active' && (
+                  <ListingStatusBadge status={listing.status} />
+                )}
+              </div>
+
+              <h1 className="text-2xl font-bold tracking-tight">
+                {listing.title}
+              </h1>
+
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                {listing.location && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="size-4" />
+                    {listing.location}
+                  </span>
+                )}
+                {categoryName && (
+                  <Link
+                    href={`/marketplace?category=${listing.category}`}
+                    className="flex items-center gap-1 hover:text-foreground"
+                  >
+                    <Tag className="size-4" />
+                    {categoryName}
+                  </Link>
+                )}
+                <span className="flex items-center gap-1">
+                  <Eye className="size-4" />
+                  {formatCompactNumber(listing.viewsCount)}{' '}
+                  {listing.viewsCount === 1 ? 'view' : 'views'}
+                </span>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Listed {formatRelativeTime(listing.createdAt)}
+                {listing.soldAt &&
+                  ` · Sold ${formatRelativeTime(listing.soldAt)}`}
+              </p>
+
+              {isOwner ? (
+                <div className="space-y-3">
+                  <ListingRenewNotice listing={listing} />
+                  <div className="flex items-center gap-2">
+                    <Button asChild className="flex-1">
+                      <Link href={`/marketplace/${listing.id}/edit`}>
+                        <Pencil className="size-4" />
+                        Edit listing
+                      </Link>
+                    </Button>
+                    <ListingOwnerMenu
+                      listing={listing}
+                      onDeleted={() => router.push('/marketplace/my-listings')}
+                    />
+                  </div>
+                </div>
+              ) : currentUser ? (
+                <BuyerActions listing={listing} />
+              ) : (
+                <Button variant="outline" asChild className="w-full">
+                  <Link
+                    href={`/login?callbackUrl=${encodeURIComponent(`/marketplace/${listing.id}`)}`}
+                  >
+                    <Heart className="size-4" />
+                    Log in to save
+                  </Link>
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {currentUser && (
+            <ListingOffers listing={listing} currentUserId={currentUser.id} />
+          )}
+
+          <ListingRatings listing={listing} currentUserId={currentUser?.id} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Seller</CardTitle>
+            </CardHeader>
+            <CardContent className="p-3 pt-0">
+              <UserCard
+                user={listing.seller}
+                currentUserId={currentUser?.id}
+                showFollowButton={!!currentUser}
+                showSellerStats
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <MoreFromSeller listing={listing} />
+    </div>
+  );
+}
+
+function BuyerActions({ listing }: { listing: Listing }) {
+  const [contactOpen, setContactOpen] = useState(false);
+  const isSold = listing.status === 'sold';
+
+  return (
+    <div className="flex gap-2">
+      {!isSold && (
+        <Button className="flex-1" onClick={() => setContactOpen(true)}>
+          <MessageCircle className="size-4" />
+          Message seller
+        </Button>
+      )}
+      <FavoriteButton listing={listing} className={cn(isSold && 'w-full')} />
+      <ContactSellerDialog
+        listing={listing}
+        open={contactOpen}
+        onOpenChange={setContactOpen}
+      />
+    </div>
+  );
+}
+
+// The seller's other listings, excluding the one being viewed
+function MoreFromSeller({ listing }: { listing: Listing }) {
+  const { data: listings = [] } = useSellerListings(listing.seller.id);
+  const others = listings.filter((item) => item.id !== listing.id);
+
+  if (others.length === 0) return null;
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">More from this seller</h2>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href={`/${listing.seller.username}`}>View profile</Link>
+        </Button>
+      </div>
+      <div className="-mx-1 flex gap-4 overflow-x-auto px-1 pb-2">
+        {others.map((item) => (
+          <ListingCard key={item.id} listing={item} className="w-56 shrink-0" />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function BackLink() {
+  return (
+    <Button variant="ghost" size="sm" asChild className="-ml-2">
+      <Link href="/marketplace">
+        <ArrowLeft className="size-4" />
+        Back to marketplace
+      </Link>
+    </Button>
+  );
+}
+
+function ListingPageSkeleton() {
+  return (
+    <div className="space-y-6">
+      <Skeleton className="h-8 w-40" />
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+        <div className="space-y-3">
+          <Skeleton className="aspect-[4/3] w-full rounded-2xl" />
+          <div className="flex gap-2">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="size-16 rounded-md" />
+            ))}
+          </div>
+        </div>
+        <div className="space-y-4">
+          <Skeleton className="h-8 w-32" />
+          <Skeleton className="h-8 w-3/4" />
+          <Skeleton className="h-4 w-1/2" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-24 w-full rounded-xl" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+import { Skeleton } from '@/components/ui/skeleton';
+import { ListingWizard } from '@/components/marketplace';
+import { useMyGarage } from '@/lib/api/hooks/use-garage';
+import { getBikeName } from '@/lib/garage';
+
+function CreateListingContent() {
+  const searchParams = useSearchParams();
+  // "Sell this bike" from the garage links here with ?bike=<id>
+  const bikeId = searchParams.get('bike');
+  const { data: garage, isLoading } = useMyGarage({ enabled: !!bikeId });
+  const bike = bikeId ? garage?.find((item) => item.id === bikeId) : undefined;
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">
+          {bike ? `Sell your ${getBikeName(bike)}` : 'Sell something'}
+        </h1>
+        <p className="text-muted-foreground">
+          Your progress is saved as you go, so you can finish later
+        </p>
+      </div>
+
+      {/* Wait for the bike so the wizard mounts with its details filled in */}
+      {bikeId && isLoading ? (
+        <Skeleton className="h-96 w-full rounded-xl" />
+      ) : (
+        <ListingWizard key={bike?.id ?? 'new'} bike={bike} />
+      )}
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary
+export default function CreateListingPage() {
+  return (
+    <Suspense fallback={<Skeleton className="mx-auto h-96 max-w-2xl" />}>
+      <CreateListingContent />
+    </Suspense>
+  );
+}
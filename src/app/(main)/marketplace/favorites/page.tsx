@@ -0,0 +1,87 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, Heart } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { EmptyState } from '@/components/shared/empty-state';
+import { GridSkeleton } from '@/components/shared/skeleton-list';
+import { FavoriteCard } from '@/components/marketplace';
+import { useFavorites } from '@/lib/api/hooks/use-marketplace';
+import { getPriceDrop, sortFavorites } from '@/lib/marketplace';
+
+export default function FavoritesPage() {
+  const { data, isLoading, isError, refetch } = useFavorites();
+  const favorites = useMemo(() => sortFavorites(data ?? []), [data]);
+  const priceDropCount = favorites.filter(
+    (favorite) => getPriceDrop(favorite) > 0
+  ).length;
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <PageHeader />
+        <GridSkeleton count={6} variant="listing" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <AlertTriangle className="mb-4 size-12 text-destructive" />
+          <h2 className="mb-2 text-xl font-semibold">Something went wrong</h2>
+          <p className="mb-4 text-muted-foreground">
+            Failed to load your favorites
+          </p>
+          <Button onClick={() => refetch()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        subtitle={
+          priceDropCount > 0
+            ? `${priceDropCount} ${priceDropCount === 1 ? 'price drop' : 'price drops'} since you saved them`
+            : undefined
+        }
+      />
+
+      {favorites.length === 0 ? (
+        <EmptyState
+          icon={<Heart className="h-full w-full" />}
+          title="No favorites yet"
+          description="Save listings you like and we'll keep track of their price for you."
+          action={
+            <Button asChild>
+              <Link href="/marketplace">Browse the marketplace</Link>
+            </Button>
+          }
+        />
+      ) : (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {favorites.map((favorite) => (
+            <FavoriteCard key={favorite.listingId} favorite={favorite} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PageHeader({ subtitle }: { subtitle?: string }) {
+  return (
+    <div>
+      <h1 className="text-2xl font-bold tracking-tight">Favorites</h1>
+      <p className="text-muted-foreground">
+        {subtitle ?? 'Listings you saved, with price drops at the top'}
+      </p>
+    </div>
+  );
+}
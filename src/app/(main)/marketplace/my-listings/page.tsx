@@ -0,0 +1,343 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { AlertTriangle, ImageIcon, Plus, ShoppingBag, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ConfirmDialog } from '@/components/shared/confirm-dialog';
+import { EmptyState } from '@/components/shared/empty-state';
+import { SkeletonList } from '@/components/shared/skeleton-list';
+import { ListingOwnerMenu, ListingStatusBadge } from '@/components/marketplace';
+import {
+  useBulkListingAction,
+  useMyListings,
+  type BulkListingAction,
+} from '@/lib/api/hooks/use-marketplace';
+import {
+  LISTING_STATUSES,
+  canChangeStatus,
+  canRenewListing,
+  formatPrice,
+} from '@/lib/marketplace';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { Listing } from '@/types/marketplace';
+
+// Bulk actions only touch the selected listings they make sense for
+const BULK_ACTIONS: {
+  action: Exclude<BulkListingAction, 'delete'>;
+  label: string;
+  appliesTo: (listing: Listing) => boolean;
+}[] = [
+  {
+    action: 'reserved',
+    label: 'Mark reserved',
+    appliesTo: (listing) => canChangeStatus(listing, 'reserved'),
+  },
+  {
+    action: 'sold',
+    label: 'Mark sold',
+    appliesTo: (listing) => canChangeStatus(listing, 'sold'),
+  },
+  {
+    action: 'active',
+    label: 'Mark available',
+    appliesTo: (listing) => canChangeStatus(listing, 'active'),
+  },
+  {
+    action: 'renew',
+    label: 'Renew',
+    appliesTo: (listing) => canRenewListing(listing),
+  },
+];
+
+export default function MyListingsPage() {
+  const { data: listings = [], isLoading, isError, refetch } = useMyListings();
+  const bulkAction = useBulkListingAction();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const groups = useMemo(
+    () =>
+      LISTING_STATUSES.map(({ value, label }) => ({
+        status: value,
+        label,
+        listings: listings.filter((listing) => listing.status === value),
+      })).filter((group) => group.listings.length > 0),
+    [listings]
+  );
+
+  // Ignore ids of listings that have since disappeared from the list
+  const selected = listings.filter((listing) => selectedIds.has(listing.id));
+
+  const setSelected = (ids: string[], isSelected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      ids.forEach((id) => (isSelected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const runBulkAction = async (
+    action: BulkListingAction,
+    targets: Listing[]
+  ) => {
+    try {
+      await bulkAction.mutateAsync({
+        ids: targets.map((listing) => listing.id),
+        action,
+      });
+      setSelectedIds(new Set());
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <PageHeader />
+        <SkeletonList count={4} />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <AlertTriangle className="mb-4 size-12 text-destructive" />
+          <h2 className="mb-2 text-xl font-semibold">Something went wrong</h2>
+          <p className="mb-4 text-muted-foreground">
+            Failed to load your listings
+          </p>
+          <Button onClick={() => refetch()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-20">
+      <PageHeader />
+
+      {groups.length === 0 ? (
+        <EmptyState
+          icon={<ShoppingBag className="h-full w-full" />}
+          title="You haven't listed anything yet"
+          description="Sell a bike, parts or gear to riders near you."
+          action={
+            <Button asChild>
+              <Link href="/marketplace/create">Create a listing</Link>
+            </Button>
+          }
+        />
+      ) : (
+        groups.map((group) => {
+          const ids = group.listings.map((listing) => listing.id);
+          const selectedCount = ids.filter((id) => selectedIds.has(id)).length;
+
+          return (
+            <Card key={group.status}>
+              <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+                <Checkbox
+                  checked={
+                    selectedCount === ids.length
+                      ? true
+                      : selectedCount > 0
+                        ? 'indeterminate'
+                        : false
+                  }
+                  onCheckedChange={(checked) =>
+                    setSelected(ids, checked === true)
+                  }
+                  aria-label={`Select all ${group.label.toLowerCase()} listings`}
+                />
+                <CardTitle className="text-base">
+                  {group.label}{' '}
+                  <span className="font-normal text-muted-foreground">
+                    ({group.listings.length})
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="divide-y p-0">
+                {group.listings.map((listing) => (
+                  <MyListingRow
+                    key={listing.id}
+                    listing={listing}
+                    isSelected={selectedIds.has(listing.id)}
+                    onSelectedChange={(isSelected) =>
+                      setSelected([listing.id], isSelected)
+                    }
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      {selected.length > 0 && (
+        <div className="fixed inset-x-0 bottom-20 z-40 mx-auto flex w-fit max-w-[calc(100%-2rem)] flex-wrap items-center gap-2 rounded-full border bg-background px-4 py-2 shadow-lg md:bottom-6">
+          <span className="text-sm font-medium">
+            {selected.length} selected
+          </span>
+          {BULK_ACTIONS.map(({ action, label, appliesTo }) => {
+            const targets = selected.filter(appliesTo);
+            return (
+              <Button
+                key={action}
+                size="sm"
+                variant="outline"
+                disabled={targets.length === 0 || bulkAction.isPending}
+                onClick={() => runBulkAction(action, targets)}
+              >
+                {label}
+              </Button>
+            );
+          })}
+          <Button
+            size="sm"
+            variant="destructive"
+            disabled={bulkAction.isPending}
+            onClick={() => setDeleteOpen(true)}
+          >
+            Delete
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="size-8"
+            onClick={() => setSelectedIds(new Set())}
+            aria-label="Clear selection"
+          >
+            <X className="size-4" />
+          </Button>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={deleteOpen}
+        onOpenChange={setDeleteOpen}
+        title={`Delete ${selected.length} ${selected.length === 1 ? 'listing' : 'listings'}?`}
+        description="This will permanently remove the selected listings. This action cannot be undone."
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={() => runBulkAction('delete', selected)}
+      />
+    </div>
+  );
+}
+
+function PageHeader() {
+  return (
+    <div className="flex items-start justify-between gap-4">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">My listings</h1>
+        <p className="text-muted-foreground">
+          Track, renew and mark your listings as sold
+        </p>
+      </div>
+      <Button asChild>
+        <Link href="/marketplace/create">
+          <Plus className="size-4" />
+          Sell
+        </Link>
+      </Button>
+    </div>
+  );
+}
+
+interface MyListingRowProps {
+  listing: Listing;
+  isSelected: boolean;
+  onSelectedChange: (isSelected: boolean) => void;
+}
+
+function MyListingRow({
+  listing,
+  isSelected,
+  onSelectedChange,
+}: MyListingRowProps) {
+  const [firstImage] = listing.images;
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-3 px-6 py-3',
+        isSelected && 'bg-muted/50'
+      )}
+    >
+      <Checkbox
+        checked={isSelected}
+        onCheckedChange={(checked) => onSelectedChange(checked === true)}
+        aria-label={`Select ${listing.title}`}
+      />
+
+      <Link
+        href={`/marketplace/${listing.id}`}
+        className="flex min-w-0 flex-1 items-center gap-3"
+      >
+        <div className="relative size-14 shrink-0 overflow-hidden rounded-md bg-muted">
+          {firstImage ? (
+            <Image
+              src={firstImage}
+              alt={listing.title}
+              fill
+              sizes="56px"
+              className={cn(
+                'object-cover',
+                listing.status === 'sold' && 'grayscale'
+              )}
+            />
+          ) : (
+            <div className="flex h-full items-center justify-center">
+              <ImageIcon className="size-5 text-muted-foreground" />
+            </div>
+          )}
+        </div>
+
+        <div className="min-w-0 flex-1">
+          <p className="truncate font-medium hover:underline">
+            {listing.title}
+          </p>
+          <p className="text-sm font-semibold text-primary">
+            {formatPrice(listing.price, listing.currency)}
+          </p>
+          <p className="truncate text-xs text-muted-foreground">
+            <ListingTimestamp listing={listing} />
+          </p>
+        </div>
+      </Link>
+
+      <ListingStatusBadge
+        status={listing.status}
+        className="hidden sm:inline-flex"
+      />
+      <ListingOwnerMenu listing={listing} />
+    </div>
+  );
+}
+
+function ListingTimestamp({ listing }: { listing: Listing }) {
+  if (listing.status === 'sold' && listing.soldAt) {
+    return <>Sold {formatRelativeTime(listing.soldAt)}</>;
+  }
+  if (listing.status === 'expired' && listing.expiresAt) {
+    return <>Expired {formatRelativeTime(listing.expiresAt)}</>;
+  }
+  if (listing.status === 'active' && listing.expiresAt) {
+    return (
+      <>
+        {listing.viewsCount} views · Expires{' '}
+        {formatRelativeTime(listing.expiresAt)}
+      </>
+    );
+  }
+  return (
+    <>Updated {formatRelativeTime(listing.updatedAt ?? listing.createdAt)}</>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { Suspense, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { BookmarkCheck, Heart, Plus, Search, ShoppingBag } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { InfiniteScroll } from '@/components/shared/infinite-scroll';
+import { GridSkeleton } from '@/components/shared/skeleton-list';
+import { EmptyState, NoListings } from '@/components/shared/empty-state';
+import {
+  ActiveListingFilters,
+  ListingCard,
+  ListingFiltersSheet,
+  countActiveFilters,
+} from '@/components/marketplace';
+import {
+  useListings,
+  useMarketplaceCategories,
+} from '@/lib/api/hooks/use-marketplace';
+import { useSavedSearches } from '@/lib/api/hooks/use-saved-searches';
+import {
+  DEFAULT_LISTING_SORT,
+  LISTING_SORTS,
+  parseListingFilters,
+  serializeListingFilters,
+} from '@/lib/marketplace';
+import { formatCompactNumber } from '@/lib/utils';
+import type { ListingFilters, ListingSort } from '@/types/marketplace';
+
+function MarketplacePageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // The URL is the single source of truth for filters, so filtered views can
+  // be shared and the back button steps through earlier filters
+  const filters = useMemo(
+    () => parseListingFilters(searchParams),
+    [searchParams]
+  );
+
+  const setFilters = useCallback(
+    (next: ListingFilters) => {
+      const params = serializeListingFilters(next).toString();
+      router.push(params ? `/marketplace?${params}` : '/marketplace', {
+        scroll: false,
+      });
+    },
+    [router]
+  );
+
+  const { data: categories = [] } = useMarketplaceCategories();
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useListings(filters);
+
+  const listings = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+  const total = data?.pages[0]?.meta.total;
+  const isFiltered = !!filters.q || countActiveFilters(filters) > 0;
+
+  const handleSearch = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const q = new FormData(event.currentTarget).get('q');
+    setFilters({
+      ...filters,
+      q: typeof q === 'string' ? q.trim() || undefined : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Marketplace</h1>
+          <p className="text-muted-foreground">
+            Bikes, parts and gear from riders near you
+          </p>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <SavedSearchesButton />
+          <Button variant="outline" asChild>
+            <Link href="/marketplace/favorites" aria-label="Favorites">
+              <Heart className="size-4" />
+              <span className="hidden sm:inline">Favorites</span>
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/marketplace/my-listings">My listings</Link>
+          </Button>
+          <Button asChild>
+            <Link href="/marketplace/create">
+              <Plus className="size-4" />
+              Sell
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {/* Category shortcuts */}
+      {categories.length > 0 && (
+        <div className="-mx-1 flex gap-2 overflow-x-auto px-1 pb-1 [scrollbar-width:none]">
+          <Button
+            size="sm"
+            variant={filters.category ? 'outline' : 'default'}
+            className="shrink-0 rounded-full"
+            onClick={() => setFilters({ ...filters, category: undefined })}
+          >
+            All
+          </Button>
+          {categories.map((category) => (
+            <Button
+              key={category.id}
+              size="sm"
+              variant={
+                filters.category === category.slug ? 'default' : 'outline'
+              }
+              className="shrink-0 rounded-full"
+              onClick={() =>
+                setFilters({ ...filters, category: category.slug })
+              }
+            >
+              {category.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3 sm:flex-row">
+        {/* Keyed on the URL value so going back restores the text */}
+        <form
+          key={filters.q ?? ''}
+          onSubmit={handleSearch}
+          className="relative flex-1"
+        >
+          <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            name="q"
+            type="search"
+            defaultValue={filters.q}
+            placeholder="Search the marketplace..."
+            aria-label="Search listings"
+            className="pl-9"
+          />
+        </form>
+        <div className="flex gap-2">
+          <Select
+            value={filters.sort ?? DEFAULT_LISTING_SORT}
+            onValueChange={(sort) =>
+              setFilters({ ...filters, sort: sort as ListingSort })
+            }
+          >
+            <SelectTrigger
+              className="w-full sm:w-48"
+              aria-label="Sort listings"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LISTING_SORTS.map((sort) => (
+                <SelectItem key={sort.value} value={sort.value}>
+                  {sort.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ListingFiltersSheet
+            filters={filters}
+            categories={categories}
+            onApply={setFilters}
+          />
+        </div>
+      </div>
+
+      <ActiveListingFilters
+        filters={filters}
+        categories={categories}
+        onChange={setFilters}
+      />
+
+      {total !== undefined && (
+        <p className="text-sm text-muted-foreground">
+          {formatCompactNumber(total)} listing{total !== 1 && 's'}
+        </p>
+      )}
+
+      {isLoading ? (
+        <GridSkeleton count={6} variant="listing" />
+      ) : isError ? (
+        <EmptyState
+          title="Couldn't load listings"
+          description="Something went wrong while loading the marketplace."
+          action={
+            <Button variant="outline" onClick={() => refetch()}>
+              Try again
+            </Button>
+          }
+        />
+      ) : listings.length === 0 ? (
+        isFiltered ? (
+          <NoListings
+            action={
+              <Button variant="outline" onClick={() => setFilters({})}>
+                Clear filters
+              </Button>
+            }
+          />
+        ) : (
+          <EmptyState
+            icon={<ShoppingBag className="h-full w-full" />}
+            title="Nothing for sale yet"
+            description="Listings from riders will show up here."
+          />
+        )
+      ) : (
+        <InfiniteScroll
+          hasMore={!!hasNextPage}
+          isLoading={isFetchingNextPage}
+          isError={isFetchNextPageError}
+          onLoadMore={() => fetchNextPage()}
+          onRetry={() => fetchNextPage()}
+          loadingComponent={
+            <GridSkeleton count={3} variant="listing" className="w-full" />
+          }
+        >
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {listings.map((listing) => (
+              <ListingCard key={listing.id} listing={listing} />
+            ))}
+          </div>
+        </InfiniteScroll>
+      )}
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary
+// Shortcut to saved searches, with how many new listings match them
+function SavedSearchesButton() {
+  const { data: session } = useSession();
+  const { data: savedSearches = [] } = useSavedSearches({
+    enabled: !!session,
+  });
+  const newCount = savedSearches.reduce(
+    (total, savedSearch) => total + savedSearch.newCount,
+    0
+  );
+
+  if (savedSearches.length === 0) return null;
+
+  return (
+    <Button variant="outline" asChild>
+      <Link href="/settings/saved-searches">
+        <BookmarkCheck className="size-4" />
+        <span className="hidden sm:inline">Saved searches</span>
+        {newCount > 0 && (
+          <Badge className="h-5 px-1.5 text-xs">
+            {newCount}
+            <span className="sr-only"> new</span>
+          </Badge>
+        )}
+      </Link>
+    </Button>
+  );
+}
+
+export default function MarketplacePage() {
+  return (
+    <Suspense fallback={<GridSkeleton count={6} variant="listing" />}>
+      <MarketplacePageContent />
+    </Suspense>
+  );
+}
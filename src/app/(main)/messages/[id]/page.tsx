@@ -0,0 +1,186 @@
+'use client';
+
+import { use, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { AlertTriangle, ArrowLeft, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import {
+  ListingContextCard,
+  MessageBubble,
+  MessageComposer,
+} from '@/components/messages';
+import {
+  useConversation,
+  useMarkConversationRead,
+  useMessages,
+} from '@/lib/api/hooks/use-messages';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+import { getOtherParticipant } from '@/lib/messages';
+
+interface ConversationPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default function ConversationPage({ params }: ConversationPageProps) {
+  // Unwrap params in Next.js 15+
+  const { id: conversationId } = use(params);
+
+  const { data: currentUser } = useCurrentUser();
+  const {
+    data: conversation,
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useConversation(conversationId);
+  const {
+    data: messagePages,
+    isLoading: isLoadingMessages,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useMessages(conversationId);
+  const { mutate: markRead } = useMarkConversationRead();
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Pages come newest first; show the oldest at the top
+  const messages = (messagePages?.pages.flatMap((page) => page.items) ?? [])
+    .slice()
+    .reverse();
+  const newestMessageId = messages[messages.length - 1]?.id;
+
+  useEffect(() => {
+    if (conversation?.unreadCount) markRead(conversation.id);
+  }, [conversation?.id, conversation?.unreadCount, markRead]);
+
+  // Keep the newest message in view as messages arrive
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView?.({ block: 'end' });
+  }, [newestMessageId]);
+
+  if (isLoading) {
+    return <ConversationSkeleton />;
+  }
+
+  if (isError) {
+    // Check if it's a 404
+    const apiError = error as { status?: number };
+    if (apiError?.status === 404) {
+      notFound();
+    }
+
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <AlertTriangle className="mb-4 size-12 text-destructive" />
+          <h2 className="mb-2 text-xl font-semibold">Something went wrong</h2>
+          <p className="mb-4 text-muted-foreground">
+            {error.message || 'Failed to load conversation'}
+          </p>
+          <Button onClick={() => refetch()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!conversation) {
+    notFound();
+  }
+
+  const otherUser = getOtherParticipant(conversation, currentUser?.id);
+
+  return (
+    <Card className="flex h-[calc(100dvh-10rem)] flex-col overflow-hidden">
+      <div className="flex items-center gap-3 border-b p-3">
+        <Button variant="ghost" size="icon" asChild className="shrink-0">
+          <Link href="/messages" aria-label="Back to messages">
+            <ArrowLeft className="size-4" />
+          </Link>
+        </Button>
+        {otherUser && (
+          <Link
+            href={`/${otherUser.username}`}
+            className="flex min-w-0 items-center gap-3"
+          >
+            <UserAvatar user={otherUser} size="md" />
+            <div className="min-w-0">
+              <p className="truncate font-semibold">{otherUser.fullName}</p>
+              <p className="truncate text-xs text-muted-foreground">
+                @{otherUser.username}
+              </p>
+            </div>
+          </Link>
+        )}
+      </div>
+
+      {conversation.listing && (
+        <div className="border-b p-3">
+          <ListingContextCard listing={conversation.listing} />
+        </div>
+      )}
+
+      <div className="flex-1 space-y-4 overflow-y-auto p-4">
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage && (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              )}
+              Load older messages
+            </Button>
+          </div>
+        )}
+        {isLoadingMessages ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          messages.map((message) => (
+            <MessageBubble
+              key={message.id}
+              message={message}
+              isOwn={message.sender.id === currentUser?.id}
+            />
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <MessageComposer
+        conversationId={conversation.id}
+        className="border-t p-3"
+      />
+    </Card>
+  );
+}
+
+function ConversationSkeleton() {
+  return (
+    <Card className="flex h-[calc(100dvh-10rem)] flex-col overflow-hidden">
+      <div className="flex items-center gap-3 border-b p-3">
+        <Skeleton className="size-10 rounded-full" />
+        <div className="space-y-2">
+          <Skeleton className="h-4 w-32" />
+          <Skeleton className="h-3 w-20" />
+        </div>
+      </div>
+      <div className="flex-1 space-y-4 p-4">
+        <Skeleton className="h-10 w-2/3 rounded-2xl" />
+        <Skeleton className="ml-auto h-10 w-1/2 rounded-2xl" />
+        <Skeleton className="h-10 w-3/5 rounded-2xl" />
+      </div>
+    </Card>
+  );
+}
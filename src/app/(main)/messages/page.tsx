@@ -0,0 +1,80 @@
+'use client';
+
+import Link from 'next/link';
+import { AlertTriangle } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { InfiniteScroll } from '@/components/shared/infinite-scroll';
+import { SkeletonList } from '@/components/shared/skeleton-list';
+import { NoMessages } from '@/components/shared/empty-state';
+import { ConversationItem } from '@/components/messages';
+import { useConversations } from '@/lib/api/hooks/use-messages';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+
+export default function MessagesPage() {
+  const { data: currentUser } = useCurrentUser();
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useConversations();
+
+  const conversations = data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Messages</h1>
+        <p className="text-muted-foreground">
+          Conversations with riders, buyers and sellers
+        </p>
+      </div>
+
+      {isLoading ? (
+        <SkeletonList count={5} />
+      ) : isError ? (
+        <Card className="mx-auto max-w-md">
+          <CardContent className="flex flex-col items-center py-12 text-center">
+            <AlertTriangle className="mb-4 size-12 text-destructive" />
+            <h2 className="mb-2 text-xl font-semibold">Something went wrong</h2>
+            <p className="mb-4 text-muted-foreground">
+              Failed to load your messages
+            </p>
+            <Button onClick={() => refetch()}>Try Again</Button>
+          </CardContent>
+        </Card>
+      ) : conversations.length === 0 ? (
+        <NoMessages
+          action={
+            <Button asChild variant="outline">
+              <Link href="/marketplace">Browse the marketplace</Link>
+            </Button>
+          }
+        />
+      ) : (
+        <Card>
+          <CardContent className="p-2">
+            <InfiniteScroll
+              hasMore={!!hasNextPage}
+              isLoading={isFetchingNextPage}
+              onLoadMore={fetchNextPage}
+            >
+              {conversations.map((conversation) => (
+                <ConversationItem
+                  key={conversation.id}
+                  conversation={conversation}
+                  currentUserId={currentUser?.id}
+                />
+              ))}
+            </InfiniteScroll>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
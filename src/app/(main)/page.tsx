@@ -1,14 +1,19 @@
 'use client';
 
-import { NoPosts } from '@/components/shared/empty-state';
+import { Feed } from '@/components/feed';
+import { CreatePostCard } from '@/components/posts';
+import { StoriesBar } from '@/components/stories';
 
 export default function FeedPage() {
   return (
     <div className="space-y-6">
       <h1 className="text-2xl font-bold tracking-tight">Feed</h1>
 
-      {/* TODO: Replace with actual feed content */}
-      <NoPosts />
+      <StoriesBar />
+
+      <CreatePostCard />
+
+      <Feed />
     </div>
   );
 }
@@ -0,0 +1,220 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { AlertTriangle, ArrowLeft, CheckCircle2, MapPin } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { UserCard } from '@/components/profile/user-card';
+import { ConvertedPrice, ListingGallery } from '@/components/marketplace';
+import {
+  CategoryBreadcrumbs,
+  CrossReferencePanel,
+  FitmentTable,
+} from '@/components/parts';
+import { useMyGarage } from '@/lib/api/hooks/use-garage';
+import { usePart, usePartCategories } from '@/lib/api/hooks/use-parts';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+import { findFittingBike, getBikeFitment, getBikeName } from '@/lib/garage';
+import { formatPrice } from '@/lib/marketplace';
+import { PART_CONDITION_COLORS, PART_CONDITION_LABELS } from '@/lib/parts';
+import { cn, formatRelativeTime } from '@/lib/utils';
+
+interface PartPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default function PartPage({ params }: PartPageProps) {
+  // Unwrap params in Next.js 15+
+  const { id: partId } = use(params);
+
+  const { data: currentUser } = useCurrentUser();
+  const { data: categories = [] } = usePartCategories();
+  const { data: part, isLoading, isError, error, refetch } = usePart(partId);
+  const { data: garage = [] } = useMyGarage({ enabled: !!currentUser });
+
+  if (isLoading) {
+    return <PartPageSkeleton />;
+  }
+
+  if (isError) {
+    // Check if it's a 404
+    const apiError = error as { status?: number };
+    if (apiError?.status === 404) {
+      notFound();
+    }
+
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <AlertTriangle className="mb-4 size-12 text-destructive" />
+          <h2 className="mb-2 text-xl font-semibold">Something went wrong</h2>
+          <p className="mb-4 text-muted-foreground">
+            {error.message || 'Failed to load part'}
+          </p>
+          <Button onClick={() => refetch()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!part) {
+    notFound();
+  }
+
+  const fittingBike = findFittingBike(garage, part.fitment ?? []);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Button variant="ghost" size="sm" asChild className="-ml-2">
+          <Link href="/parts">
+            <ArrowLeft className="size-4" />
+            Back to parts
+          </Link>
+        </Button>
+        <CategoryBreadcrumbs categories={categories} category={part.category} />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+        <div className="space-y-6">
+          <ListingGallery images={part.images} title={part.name} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Description</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="whitespace-pre-wrap break-words text-sm">
+                {part.description}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Fits these bikes</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {fittingBike && (
+                <p className="flex items-center gap-2 text-sm font-medium text-green-700 dark:text-green-400">
+                  <CheckCircle2 className="size-4" />
+                  Fits your {fittingBike.nickname || getBikeName(fittingBike)}
+                </p>
+              )}
+              {part.fitment?.length ? (
+                <FitmentTable
+                  fitment={part.fitment}
+                  selection={fittingBike && getBikeFitment(fittingBike)}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No fitment data yet. Check the part number with the seller
+                  before buying.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {(part.partNumber || !!part.crossReferences?.length) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Cross-reference</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CrossReferencePanel part={part} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardContent className="space-y-4 p-6">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge className="px-3 py-1 text-lg font-bold">
+                  {formatPrice(part.price, part.currency)}
+                </Badge>
+                <ConvertedPrice
+                  price={part.price}
+                  currency={part.currency}
+                  className="text-sm"
+                />
+                <Badge
+                  variant="secondary"
+                  className={cn(PART_CONDITION_COLORS[part.condition])}
+                >
+                  {PART_CONDITION_LABELS[part.condition]}
+                </Badge>
+              </div>
+
+              <h1 className="text-2xl font-bold tracking-tight">{part.name}</h1>
+
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                {part.brand && (
+                  <>
+                    <dt className="text-muted-foreground">Brand</dt>
+                    <dd>{part.brand}</dd>
+                  </>
+                )}
+                {part.partNumber && (
+                  <>
+                    <dt className="text-muted-foreground">Part number</dt>
+                    <dd className="font-mono">{part.partNumber}</dd>
+                  </>
+                )}
+              </dl>
+
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                {part.location && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="size-4" />
+                    {part.location}
+                  </span>
+                )}
+                <span>Listed {formatRelativeTime(part.createdAt)}</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Seller</CardTitle>
+            </CardHeader>
+            <CardContent className="p-3 pt-0">
+              <UserCard
+                user={part.seller}
+                currentUserId={currentUser?.id}
+                showFollowButton={!!currentUser}
+                showSellerStats
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PartPageSkeleton() {
+  return (
+    <div className="space-y-6">
+      <Skeleton className="h-8 w-40" />
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+        <Skeleton className="aspect-[4/3] w-full rounded-2xl" />
+        <div className="space-y-4">
+          <Skeleton className="h-8 w-32" />
+          <Skeleton className="h-8 w-3/4" />
+          <Skeleton className="h-4 w-1/2" />
+          <Skeleton className="h-24 w-full rounded-xl" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { Suspense, useCallback, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { FolderTree, Search, Wrench } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Skeleton } from '@/components/ui/skeleton';
+import { InfiniteScroll } from '@/components/shared/infinite-scroll';
+import { GridSkeleton } from '@/components/shared/skeleton-list';
+import { EmptyState } from '@/components/shared/empty-state';
+import {
+  CategoryBreadcrumbs,
+  CategoryTree,
+  FitmentSelector,
+  PartCard,
+} from '@/components/parts';
+import { GarageBikePicker } from '@/components/garage';
+import { usePartCategories, useParts } from '@/lib/api/hooks/use-parts';
+import { getBikeFitment } from '@/lib/garage';
+import {
+  describeFitment,
+  getCategoryPath,
+  hasFitment,
+  looksLikePartNumber,
+  normalizePartNumber,
+  parsePartFilters,
+  serializePartFilters,
+} from '@/lib/parts';
+import { formatCompactNumber } from '@/lib/utils';
+import type { FitmentSelection, PartFilters } from '@/types/part';
+
+function PartsPageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [categoriesOpen, setCategoriesOpen] = useState(false);
+
+  // Filters live in the URL, like the marketplace, so category pages can be
+  // linked to and the back button walks back up the tree
+  const filters = useMemo(() => parsePartFilters(searchParams), [searchParams]);
+
+  const setFilters = useCallback(
+    (next: PartFilters) => {
+      const params = serializePartFilters(next).toString();
+      router.push(params ? `/parts?${params}` : '/parts', { scroll: false });
+    },
+    [router]
+  );
+
+  const { data: categories = [], isLoading: isLoadingCategories } =
+    usePartCategories();
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useParts(filters);
+
+  const parts = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+  const total = data?.pages[0]?.meta.total;
+  const currentCategory = getCategoryPath(categories, filters.category).at(-1);
+  const isFiltered =
+    !!filters.q ||
+    !!filters.partNumber ||
+    !!filters.category ||
+    hasFitment(filters);
+
+  // Searches that look like a part number match part numbers and their
+  // cross-references instead of names
+  const handleSearch = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const value = new FormData(event.currentTarget).get('q');
+    const q = typeof value === 'string' ? value.trim() : '';
+    const isPartNumber = looksLikePartNumber(q);
+    setFilters({
+      ...filters,
+      q: (!isPartNumber && q) || undefined,
+      partNumber: isPartNumber ? normalizePartNumber(q) : undefined,
+    });
+  };
+
+  const searchNamesInstead = () => {
+    setFilters({ ...filters, q: filters.partNumber, partNumber: undefined });
+  };
+
+  const selectCategory = (category: string | undefined) => {
+    setCategoriesOpen(false);
+    setFilters({ ...filters, category });
+  };
+
+  const selectFitment = (fitment: FitmentSelection) => {
+    setFilters({
+      q: filters.q,
+      partNumber: filters.partNumber,
+      category: filters.category,
+      ...fitment,
+    });
+  };
+
+  const categoryTree = isLoadingCategories ? (
+    <div className="space-y-2">
+      {Array.from({ length: 6 }).map((_, i) => (
+        <Skeleton key={i} className="h-7 w-full" />
+      ))}
+    </div>
+  ) : (
+    <CategoryTree
+      categories={categories}
+      selected={filters.category}
+      onSelect={selectCategory}
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Parts</h1>
+        <p className="text-muted-foreground">
+          Spare parts for your bike, sorted by system
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {/* Keyed on the URL value so going back restores the text */}
+        <form
+          key={filters.q ?? filters.partNumber ?? ''}
+          onSubmit={handleSearch}
+          className="relative flex-1"
+        >
+          <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            name="q"
+            type="search"
+            defaultValue={filters.q ?? filters.partNumber}
+            placeholder="Search parts or part numbers..."
+            aria-label="Search parts"
+            className="pl-9"
+          />
+        </form>
+        <Sheet open={categoriesOpen} onOpenChange={setCategoriesOpen}>
+          <SheetTrigger asChild>
+            <Button variant="outline" className="gap-2 lg:hidden">
+              <FolderTree className="size-4" />
+              Categories
+            </Button>
+          </SheetTrigger>
+          <SheetContent
+            side="left"
+            className="w-full overflow-y-auto sm:max-w-xs"
+          >
+            <SheetHeader>
+              <SheetTitle>Categories</SheetTitle>
+              <SheetDescription>Browse parts by system</SheetDescription>
+            </SheetHeader>
+            <div className="px-4 pb-4">{categoryTree}</div>
+          </SheetContent>
+        </Sheet>
+      </div>
+
+      <div className="space-y-3">
+        <FitmentSelector value={filters} onChange={selectFitment} />
+        <GarageBikePicker
+          selection={filters}
+          onSelect={(bike) => selectFitment(getBikeFitment(bike))}
+        />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[14rem_minmax(0,1fr)]">
+        <aside className="hidden lg:block">{categoryTree}</aside>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <CategoryBreadcrumbs
+              categories={categories}
+              category={filters.category}
+            />
+            {total !== undefined && (
+              <p className="text-sm text-muted-foreground">
+                {formatCompactNumber(total)} part{total !== 1 && 's'}
+                {filters.partNumber &&
+                  ` numbered ${filters.partNumber} or equivalent`}
+                {currentCategory && ` in ${currentCategory.name}`}
+                {hasFitment(filters) && ` that fit ${describeFitment(filters)}`}
+              </p>
+            )}
+            {filters.partNumber && (
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={searchNamesInstead}
+              >
+                Search names for &ldquo;{filters.partNumber}&rdquo; instead
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <GridSkeleton count={6} variant="listing" />
+          ) : isError ? (
+            <EmptyState
+              title="Couldn't load parts"
+              description="Something went wrong while loading the catalog."
+              action={
+                <Button variant="outline" onClick={() => refetch()}>
+                  Try again
+                </Button>
+              }
+            />
+          ) : parts.length === 0 ? (
+            <EmptyState
+              icon={<Wrench className="h-full w-full" />}
+              title="No parts found"
+              description={
+                hasFitment(filters)
+                  ? `Nothing here is listed as fitting ${describeFitment(filters)} yet. Try a broader category or fewer fitment details.`
+                  : isFiltered
+                    ? 'Try another category or search term.'
+                    : 'Parts for sale will show up here.'
+              }
+              action={
+                isFiltered && (
+                  <Button variant="outline" onClick={() => setFilters({})}>
+                    Clear filters
+                  </Button>
+                )
+              }
+            />
+          ) : (
+            <InfiniteScroll
+              hasMore={!!hasNextPage}
+              isLoading={isFetchingNextPage}
+              isError={isFetchNextPageError}
+              onLoadMore={() => fetchNextPage()}
+              onRetry={() => fetchNextPage()}
+              loadingComponent={
+                <GridSkeleton count={3} variant="listing" className="w-full" />
+              }
+            >
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3">
+                {parts.map((part) => (
+                  <PartCard key={part.id} part={part} />
+                ))}
+              </div>
+            </InfiniteScroll>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary
+export default function PartsPage() {
+  return (
+    <Suspense fallback={<GridSkeleton count={6} variant="listing" />}>
+      <PartsPageContent />
+    </Suspense>
+  );
+}
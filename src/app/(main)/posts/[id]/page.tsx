@@ -0,0 +1,80 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { notFound, useRouter } from 'next/navigation';
+import { AlertTriangle, ArrowLeft } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { PostCardSkeleton } from '@/components/shared/skeleton-card';
+import { PostCard } from '@/components/feed/post-card';
+import { CommentsSection } from '@/components/comments';
+import { usePost } from '@/lib/api/hooks/use-posts';
+
+interface PostPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default function PostPage({ params }: PostPageProps) {
+  // Unwrap params in Next.js 15+
+  const { id: postId } = use(params);
+
+  const router = useRouter();
+  const { data: post, isLoading, isError, error, refetch } = usePost(postId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <BackLink />
+        <PostCardSkeleton />
+      </div>
+    );
+  }
+
+  if (isError) {
+    // Check if it's a 404
+    const apiError = error as { status?: number };
+    if (apiError?.status === 404) {
+      notFound();
+    }
+
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <AlertTriangle className="mb-4 size-12 text-destructive" />
+          <h2 className="mb-2 text-xl font-semibold">Something went wrong</h2>
+          <p className="mb-4 text-muted-foreground">
+            {error.message || 'Failed to load post'}
+          </p>
+          <Button onClick={() => refetch()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!post) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-4">
+      <BackLink />
+      <PostCard post={post} onDeleted={() => router.replace('/')} />
+      <CommentsSection postId={post.id} commentsCount={post.commentsCount} />
+    </div>
+  );
+}
+
+function BackLink() {
+  return (
+    <Button variant="ghost" size="sm" asChild className="-ml-2">
+      <Link href="/">
+        <ArrowLeft className="size-4" />
+        Back to feed
+      </Link>
+    </Button>
+  );
+}
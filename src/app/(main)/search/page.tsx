@@ -2,7 +2,9 @@
 
 import { useState, useEffect, useCallback, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import {
+  BookmarkPlus,
   Search,
   Users,
   FileText,
@@ -43,9 +45,16 @@ import {
 import { useDebounce } from '@/hooks/use-debounce';
 import { useRecentSearches } from '@/hooks/use-recent-searches';
 import { UserSearchResult } from '@/components/search/user-search-result';
-import { PostSearchResult } from '@/components/search/post-search-result';
+import { PostCard } from '@/components/feed/post-card';
 import { ListingSearchResult } from '@/components/search/listing-search-result';
 import { ThreadSearchResult } from '@/components/search/thread-search-result';
+import { SaveSearchDialog } from '@/components/search/save-search-dialog';
+import {
+  LISTING_CONDITIONS,
+  parseListingFilters,
+  serializeListingFilters,
+} from '@/lib/marketplace';
+import type { SavedSearchFilters } from '@/types/marketplace';
 import type { SearchType } from '@/types/search';
 
 const SEARCH_TABS: { value: SearchType; label: string; icon: React.ReactNode }[] = [
@@ -56,24 +65,10 @@ const SEARCH_TABS: { value: SearchType; label: string; icon: React.ReactNode }[]
   { value: 'threads', label: 'Forum', icon: <MessageSquare className="size-4" /> },
 ];
 
-const LISTING_CONDITIONS = [
-  { value: 'new', label: 'New' },
-  { value: 'like-new', label: 'Like New' },
-  { value: 'good', label: 'Good' },
-  { value: 'fair', label: 'Fair' },
-  { value: 'poor', label: 'Poor' },
-];
-
-interface ListingFilters {
-  category?: string;
-  minPrice?: number;
-  maxPrice?: number;
-  condition?: string;
-}
-
 function SearchPageContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { data: session } = useSession();
 
   // Get initial values from URL
   const initialQuery = searchParams.get('q') || '';
@@ -81,16 +76,31 @@ function SearchPageContent() {
 
   const [query, setQuery] = useState(initialQuery);
   const [activeTab, setActiveTab] = useState<SearchType>(initialType);
-  const [listingFilters, setListingFilters] = useState<ListingFilters>({});
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 10000]);
+  // Listing filters can come from the URL, e.g. when opening a saved search
+  const [listingFilters, setListingFilters] = useState<SavedSearchFilters>(
+    () => {
+      const { category, condition, minPrice, maxPrice } =
+        parseListingFilters(searchParams);
+      return { category, condition, minPrice, maxPrice };
+    }
+  );
+  const [priceRange, setPriceRange] = useState<[number, number]>([
+    listingFilters.minPrice ?? 0,
+    listingFilters.maxPrice ?? 10000,
+  ]);
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false);
 
   const debouncedQuery = useDebounce(query, 300);
   const { addSearch } = useRecentSearches();
 
   // Update URL when search params change
   const updateUrl = useCallback(
-    (q: string, type: SearchType) => {
-      const params = new URLSearchParams();
+    (q: string, type: SearchType, filters: SavedSearchFilters) => {
+      // Listing filters only apply (and only stay in the URL) on their tab
+      const params =
+        type === 'listings'
+          ? serializeListingFilters(filters)
+          : new URLSearchParams();
       if (q) params.set('q', q);
       if (type !== 'all') params.set('type', type);
       router.push(`/search?${params.toString()}`, { scroll: false });
@@ -98,12 +108,12 @@ function SearchPageContent() {
     [router]
   );
 
-  // Update URL when debounced query or tab changes
+  // Update URL when debounced query, tab or listing filters change
   useEffect(() => {
     if (debouncedQuery || activeTab !== 'all') {
-      updateUrl(debouncedQuery, activeTab);
+      updateUrl(debouncedQuery, activeTab, listingFilters);
     }
-  }, [debouncedQuery, activeTab, updateUrl]);
+  }, [debouncedQuery, activeTab, listingFilters, updateUrl]);
 
   // Add to recent searches when user performs a search
   useEffect(() => {
@@ -232,104 +242,119 @@ function SearchPageContent() {
 
           {/* Listing Filters */}
           {activeTab === 'listings' && (
-            <Sheet>
-              <SheetTrigger asChild>
-                <Button variant="outline" size="sm" className="gap-2">
-                  <SlidersHorizontal className="size-4" />
-                  Filters
-                  {hasActiveFilters && (
-                    <Badge variant="secondary" className="ml-1">
-                      {Object.values(listingFilters).filter(Boolean).length}
-                    </Badge>
-                  )}
+            <div className="flex items-center gap-2">
+              {hasQuery && session && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setSaveSearchOpen(true)}
+                >
+                  <BookmarkPlus className="size-4" />
+                  Save search
                 </Button>
-              </SheetTrigger>
-              <SheetContent>
-                <SheetHeader>
-                  <SheetTitle>Filter Listings</SheetTitle>
-                </SheetHeader>
-                <div className="mt-6 space-y-6">
-                  {/* Condition Filter */}
-                  <div className="space-y-2">
-                    <Label>Condition</Label>
-                    <Select
-                      value={listingFilters.condition || ''}
-                      onValueChange={(value) =>
-                        setListingFilters((prev) => ({
-                          ...prev,
-                          condition: value || undefined,
-                        }))
-                      }
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Any condition" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="">Any condition</SelectItem>
-                        {LISTING_CONDITIONS.map((condition) => (
-                          <SelectItem key={condition.value} value={condition.value}>
-                            {condition.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+              )}
+              <Sheet>
+                <SheetTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-2">
+                    <SlidersHorizontal className="size-4" />
+                    Filters
+                    {hasActiveFilters && (
+                      <Badge variant="secondary" className="ml-1">
+                        {Object.values(listingFilters).filter(Boolean).length}
+                      </Badge>
+                    )}
+                  </Button>
+                </SheetTrigger>
+                <SheetContent>
+                  <SheetHeader>
+                    <SheetTitle>Filter Listings</SheetTitle>
+                  </SheetHeader>
+                  <div className="mt-6 space-y-6">
+                    {/* Condition Filter */}
+                    <div className="space-y-2">
+                      <Label>Condition</Label>
+                      <Select
+                        value={listingFilters.condition || ''}
+                        onValueChange={(value) =>
+                          setListingFilters((prev) => ({
+                            ...prev,
+                            condition: LISTING_CONDITIONS.find(
+                              (condition) => condition.value === value
+                            )?.value,
+                          }))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Any condition" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="">Any condition</SelectItem>
+                          {LISTING_CONDITIONS.map((condition) => (
+                            <SelectItem key={condition.value} value={condition.value}>
+                              {condition.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
 
-                  {/* Price Range Filter */}
-                  <div className="space-y-4">
-                    <Label>Price Range</Label>
-                    <div className="px-2">
-                      <Slider
-                        value={priceRange}
-                        onValueChange={(values: number[]) => {
-                          if (values.length >= 2) {
-                            setPriceRange([values[0] ?? 0, values[1] ?? 10000]);
+                    {/* Price Range Filter */}
+                    <div className="space-y-4">
+                      <Label>Price Range</Label>
+                      <div className="px-2">
+                        <Slider
+                          value={priceRange}
+                          onValueChange={(values: number[]) => {
+                            if (values.length >= 2) {
+                              setPriceRange([values[0] ?? 0, values[1] ?? 10000]);
+                            }
+                          }}
+                          max={10000}
+                          step={100}
+                          className="w-full"
+                        />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          value={priceRange[0]}
+                          onChange={(e) =>
+                            setPriceRange([Number(e.target.value), priceRange[1]])
                           }
-                        }}
-                        max={10000}
-                        step={100}
-                        className="w-full"
-                      />
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Input
-                        type="number"
-                        value={priceRange[0]}
-                        onChange={(e) =>
-                          setPriceRange([Number(e.target.value), priceRange[1]])
-                        }
-                        className="h-8"
-                        placeholder="Min"
-                      />
-                      <span className="text-muted-foreground">-</span>
-                      <Input
-                        type="number"
-                        value={priceRange[1]}
-                        onChange={(e) =>
-                          setPriceRange([priceRange[0], Number(e.target.value)])
-                        }
-                        className="h-8"
-                        placeholder="Max"
-                      />
+                          className="h-8"
+                          placeholder="Min"
+                        />
+                        <span className="text-muted-foreground">-</span>
+                        <Input
+                          type="number"
+                          value={priceRange[1]}
+                          onChange={(e) =>
+                            setPriceRange([priceRange[0], Number(e.target.value)])
+                          }
+                          className="h-8"
+                          placeholder="Max"
+                        />
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Actions */}
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      className="flex-1"
-                      onClick={handleClearListingFilters}
-                    >
-                      Clear
-                    </Button>
-                    <Button className="flex-1" onClick={handleApplyListingFilters}>
-                      Apply
-                    </Button>
+                    {/* Actions */}
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        onClick={handleClearListingFilters}
+                      >
+                        Clear
+                      </Button>
+                      <Button className="flex-1" onClick={handleApplyListingFilters}>
+                        Apply
+                      </Button>
+                    </div>
                   </div>
-                </div>
-              </SheetContent>
-            </Sheet>
+                </SheetContent>
+              </Sheet>
+            </div>
           )}
         </div>
 
@@ -401,7 +426,7 @@ function SearchPageContent() {
                   </div>
                   <div className="space-y-2">
                     {globalSearch.data.posts.slice(0, 3).map((post) => (
-                      <PostSearchResult key={post.id} post={post} />
+                      <PostCard key={post.id} post={post} />
                     ))}
                   </div>
                 </section>
@@ -492,7 +517,7 @@ function SearchPageContent() {
             isFetchingNextPage={postsSearch.isFetchingNextPage}
             hasNextPage={postsSearch.hasNextPage}
             fetchNextPage={postsSearch.fetchNextPage}
-            renderItem={(post) => <PostSearchResult key={post.id} post={post} />}
+            renderItem={(post) => <PostCard key={post.id} post={post} />}
           />
         </TabsContent>
 
@@ -527,6 +552,13 @@ function SearchPageContent() {
           />
         </TabsContent>
       </Tabs>
+
+      <SaveSearchDialog
+        query={debouncedQuery}
+        filters={listingFilters}
+        open={saveSearchOpen}
+        onOpenChange={setSaveSearchOpen}
+      />
     </div>
   );
 }
@@ -3,7 +3,16 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Mail, Phone, Globe, Loader2, CheckCircle, AlertCircle, Trash2 } from 'lucide-react';
+import {
+  Mail,
+  Phone,
+  Globe,
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  Trash2,
+  Coins,
+} from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
@@ -35,7 +44,10 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { DeleteAccountDialog } from '@/components/settings/delete-account-dialog';
 import { useCurrentUser } from '@/lib/api/hooks/use-user';
+import { CURRENCY_LABELS } from '@/lib/currency';
+import { LISTING_CURRENCIES } from '@/lib/validations/listing';
 import { accountSchema, type AccountFormData } from '@/lib/validations/settings';
+import { useUIStore } from '@/stores/ui-store';
 
 const languages = [
   { value: 'en', label: 'English' },
@@ -47,6 +59,8 @@ export default function AccountSettingsPage() {
   const { data: user, isLoading } = useCurrentUser();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const displayCurrency = useUIStore((state) => state.displayCurrency);
+  const setDisplayCurrency = useUIStore((state) => state.setDisplayCurrency);
 
   const form = useForm<AccountFormData>({
     resolver: zodResolver(accountSchema),
@@ -54,6 +68,7 @@ export default function AccountSettingsPage() {
       email: user?.email ?? '',
       phone: '',
       language: 'en',
+      displayCurrency,
     },
   });
 
@@ -61,11 +76,13 @@ export default function AccountSettingsPage() {
     return <AccountSettingsSkeleton />;
   }
 
-  const onSubmit = async (_data: AccountFormData) => {
+  const onSubmit = async (data: AccountFormData) => {
     setIsSaving(true);
     try {
       // API call would go here
       await new Promise((resolve) => setTimeout(resolve, 1000));
+      // Display currency is a per-device preference
+      setDisplayCurrency(data.displayCurrency);
       toast.success('Account settings updated');
     } catch {
       toast.error('Failed to update settings');
@@ -185,6 +202,41 @@ export default function AccountSettingsPage() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="displayCurrency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-2">
+                      <Coins className="size-4" />
+                      Display Currency
+                    </FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a currency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {LISTING_CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {CURRENCY_LABELS[currency]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Marketplace prices in other currencies also show an
+                      approximate amount in this one.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <Button type="submit" disabled={isSaving}>
                 {isSaving ? (
                   <>
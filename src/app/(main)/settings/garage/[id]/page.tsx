@@ -0,0 +1,83 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { AlertTriangle, ArrowLeft } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  BikeCard,
+  MaintenanceLog,
+  MaintenanceReminders,
+} from '@/components/garage';
+import { useMaintenanceLog, useMyGarage } from '@/lib/api/hooks/use-garage';
+
+interface BikeMaintenancePageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default function BikeMaintenancePage({
+  params,
+}: BikeMaintenancePageProps) {
+  // Unwrap params in Next.js 15+
+  const { id: bikeId } = use(params);
+
+  const { data: garage, isLoading, isError, error, refetch } = useMyGarage();
+  const { data: entries = [], isLoading: isLoadingLog } =
+    useMaintenanceLog(bikeId);
+  const bike = garage?.find((item) => item.id === bikeId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-8 w-32" />
+        <Skeleton className="h-40 w-full rounded-xl" />
+        <Skeleton className="h-64 w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <AlertTriangle className="mb-4 size-12 text-destructive" />
+          <h2 className="mb-2 text-xl font-semibold">Something went wrong</h2>
+          <p className="mb-4 text-muted-foreground">
+            {error.message || 'Failed to load your garage'}
+          </p>
+          <Button onClick={() => refetch()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!bike) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-4">
+      <Button variant="ghost" size="sm" asChild className="-ml-2">
+        <Link href="/settings/garage">
+          <ArrowLeft className="size-4" />
+          Back to garage
+        </Link>
+      </Button>
+
+      <Card>
+        <CardContent className="p-4">
+          <BikeCard bike={bike} className="border-0 shadow-none sm:max-w-sm" />
+        </CardContent>
+      </Card>
+
+      <MaintenanceReminders bike={bike} entries={entries} />
+      <MaintenanceLog bike={bike} entries={entries} isLoading={isLoadingLog} />
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { Bike } from 'lucide-react';
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { GarageManager } from '@/components/garage';
+
+export default function GarageSettingsPage() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bike className="size-5" />
+          My Garage
+        </CardTitle>
+        <CardDescription>
+          The bikes you ride. They show on your profile and pre-fill part
+          searches and listings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <GarageManager />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import Link from 'next/link';
+import { Hash, Loader2, VolumeX } from 'lucide-react';
+
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  useMutedHashtags,
+  useMutedUsers,
+  useUnmuteHashtag,
+  useUnmuteUser,
+} from '@/lib/api/hooks/use-mutes';
+import type { User } from '@/types/auth';
+
+function getInitials(name: string): string {
+  return name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+export default function MutedPage() {
+  const { data: usersData, isLoading: isLoadingUsers } = useMutedUsers();
+  const { data: hashtagsData, isLoading: isLoadingHashtags } =
+    useMutedHashtags();
+  const unmuteUser = useUnmuteUser();
+  const unmuteHashtag = useUnmuteHashtag();
+
+  const mutedUsers = usersData?.users ?? [];
+  const mutedHashtags = hashtagsData?.hashtags ?? [];
+
+  if (isLoadingUsers || isLoadingHashtags) {
+    return <MutedSkeleton />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <VolumeX className="size-5" />
+            Muted Accounts
+          </CardTitle>
+          <CardDescription>
+            Posts from muted accounts won&apos;t show up in your feed. They
+            won&apos;t know you muted them
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {mutedUsers.length === 0 ? (
+            <EmptyState
+              icon={VolumeX}
+              title="No muted accounts"
+              description="Mute someone from the menu on any of their posts"
+            />
+          ) : (
+            <div className="space-y-2">
+              {mutedUsers.map((user) => (
+                <MutedUserCard
+                  key={user.id}
+                  user={user}
+                  onUnmute={() => unmuteUser.mutate(user.id)}
+                  isUnmuting={
+                    unmuteUser.isPending && unmuteUser.variables === user.id
+                  }
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Hash className="size-5" />
+            Muted Hashtags
+          </CardTitle>
+          <CardDescription>
+            Posts using these hashtags won&apos;t show up in your feed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {mutedHashtags.length === 0 ? (
+            <EmptyState
+              icon={Hash}
+              title="No muted hashtags"
+              description="Mute a hashtag from the menu on any post that uses it"
+            />
+          ) : (
+            <div className="space-y-2">
+              {mutedHashtags.map((tag) => (
+                <div
+                  key={tag}
+                  className="flex items-center justify-between rounded-lg border p-3"
+                >
+                  <Link
+                    href={`/hashtag/${encodeURIComponent(tag)}`}
+                    className="font-medium hover:underline"
+                  >
+                    #{tag}
+                  </Link>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => unmuteHashtag.mutate(tag)}
+                    disabled={
+                      unmuteHashtag.isPending && unmuteHashtag.variables === tag
+                    }
+                    aria-label={`Unmute #${tag}`}
+                  >
+                    {unmuteHashtag.isPending &&
+                    unmuteHashtag.variables === tag ? (
+                      <Loader2 className="size-4 animate-spin" />
+                    ) : (
+                      'Unmute'
+                    )}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+interface MutedUserCardProps {
+  user: User;
+  onUnmute: () => void;
+  isUnmuting: boolean;
+}
+
+function MutedUserCard({ user, onUnmute, isUnmuting }: MutedUserCardProps) {
+  return (
+    <div className="flex items-center justify-between rounded-lg border p-3">
+      <Link
+        href={`/${user.username}`}
+        className="flex items-center gap-3 hover:opacity-80"
+      >
+        <Avatar>
+          <AvatarImage src={user.avatarUrl} alt={user.fullName} />
+          <AvatarFallback>{getInitials(user.fullName)}</AvatarFallback>
+        </Avatar>
+        <div>
+          <p className="font-medium">{user.fullName}</p>
+          <p className="text-sm text-muted-foreground">@{user.username}</p>
+        </div>
+      </Link>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onUnmute}
+        disabled={isUnmuting}
+        aria-label={`Unmute @${user.username}`}
+      >
+        {isUnmuting ? <Loader2 className="size-4 animate-spin" /> : 'Unmute'}
+      </Button>
+    </div>
+  );
+}
+
+interface EmptyStateProps {
+  icon: typeof VolumeX;
+  title: string;
+  description: string;
+}
+
+function EmptyState({ icon: Icon, title, description }: EmptyStateProps) {
+  return (
+    <div className="flex flex-col items-center justify-center py-10 text-center">
+      <Icon className="mb-4 size-12 text-muted-foreground opacity-50" />
+      <p className="text-lg font-medium">{title}</p>
+      <p className="mt-1 text-sm text-muted-foreground">{description}</p>
+    </div>
+  );
+}
+
+function MutedSkeleton() {
+  return (
+    <div className="space-y-6">
+      {Array.from({ length: 2 }).map((_, card) => (
+        <Card key={card}>
+          <CardHeader>
+            <Skeleton className="h-6 w-36" />
+            <Skeleton className="h-4 w-64" />
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="flex items-center justify-between p-3">
+                <div className="flex items-center gap-3">
+                  <Skeleton className="size-10 rounded-full" />
+                  <Skeleton className="h-4 w-24" />
+                </div>
+                <Skeleton className="h-8 w-20" />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
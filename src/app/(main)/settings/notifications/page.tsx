@@ -1,7 +1,19 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { Bell, Mail, Smartphone, Users, Heart, MessageCircle, MessagesSquare, ShoppingBag, Loader2 } from 'lucide-react';
+import {
+  Bell,
+  Mail,
+  Smartphone,
+  Users,
+  Heart,
+  MessageCircle,
+  MessagesSquare,
+  ShoppingBag,
+  HandCoins,
+  Wrench,
+  Loader2,
+} from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Switch } from '@/components/ui/switch';
@@ -74,6 +86,22 @@ const defaultSettings: NotificationSetting[] = [
     icon: ShoppingBag,
     enabled: true,
   },
+  {
+    id: 'listingOffer',
+    label: 'Offers',
+    description:
+      'When you get an offer, or an offer you made is countered, accepted, declined or expires',
+    icon: HandCoins,
+    enabled: true,
+  },
+  {
+    id: 'maintenanceReminder',
+    label: 'Service Reminders',
+    description:
+      'When a bike in your garage is due for maintenance you set a reminder for',
+    icon: Wrench,
+    enabled: true,
+  },
 ];
 
 export default function NotificationsSettingsPage() {
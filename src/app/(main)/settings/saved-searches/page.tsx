@@ -0,0 +1,217 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, BookmarkCheck, Search, Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { ConfirmDialog } from '@/components/shared/confirm-dialog';
+import { EmptyState } from '@/components/shared/empty-state';
+import { useMarketplaceCategories } from '@/lib/api/hooks/use-marketplace';
+import {
+  useDeleteSavedSearch,
+  useMarkSavedSearchSeen,
+  useSavedSearches,
+  useUpdateSavedSearch,
+} from '@/lib/api/hooks/use-saved-searches';
+import {
+  describeSavedSearchFilters,
+  getSavedSearchHref,
+} from '@/lib/marketplace';
+import { formatRelativeTime } from '@/lib/utils';
+import type { SavedSearch } from '@/types/marketplace';
+
+export default function SavedSearchesPage() {
+  const {
+    data: savedSearches = [],
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useSavedSearches();
+  const { data: categories } = useMarketplaceCategories();
+  const [pendingDelete, setPendingDelete] = useState<SavedSearch | null>(null);
+  const deleteSavedSearch = useDeleteSavedSearch();
+
+  const categoryNames = useMemo(
+    () =>
+      Object.fromEntries(
+        (categories ?? []).map((category) => [category.slug, category.name])
+      ),
+    [categories]
+  );
+
+  if (isLoading) {
+    return <SavedSearchesSkeleton />;
+  }
+
+  if (isError) {
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <AlertTriangle className="mb-4 size-12 text-destructive" />
+          <h2 className="mb-2 text-xl font-semibold">Something went wrong</h2>
+          <p className="mb-4 text-muted-foreground">
+            {error.message || 'Failed to load saved searches'}
+          </p>
+          <Button onClick={() => refetch()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookmarkCheck className="size-5" />
+          Saved Searches
+        </CardTitle>
+        <CardDescription>
+          Re-run your marketplace searches and choose which ones notify you
+          about new listings
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {savedSearches.length === 0 ? (
+          <EmptyState
+            icon={<Search className="h-full w-full" />}
+            title="No saved searches"
+            description="Search the marketplace and save it to keep an eye on new listings."
+            action={
+              <Button asChild>
+                <Link href="/search?type=listings">Search the marketplace</Link>
+              </Button>
+            }
+            size="sm"
+          />
+        ) : (
+          <div className="space-y-2">
+            {savedSearches.map((savedSearch) => (
+              <SavedSearchRow
+                key={savedSearch.id}
+                savedSearch={savedSearch}
+                categoryNames={categoryNames}
+                onDelete={() => setPendingDelete(savedSearch)}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title={`Delete "${pendingDelete?.name}"?`}
+        description="You'll stop getting notifications for this search."
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={() => {
+          if (pendingDelete) deleteSavedSearch.mutate(pendingDelete.id);
+        }}
+      />
+    </Card>
+  );
+}
+
+interface SavedSearchRowProps {
+  savedSearch: SavedSearch;
+  categoryNames: Record<string, string>;
+  onDelete: () => void;
+}
+
+function SavedSearchRow({
+  savedSearch,
+  categoryNames,
+  onDelete,
+}: SavedSearchRowProps) {
+  const updateSavedSearch = useUpdateSavedSearch();
+  const { mutate: markSeen } = useMarkSavedSearchSeen();
+  const filterSummary = describeSavedSearchFilters(
+    savedSearch.filters,
+    categoryNames
+  );
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border p-3">
+      <Link
+        href={getSavedSearchHref(savedSearch)}
+        onClick={() => markSeen(savedSearch.id)}
+        className="min-w-0 flex-1 hover:opacity-80"
+      >
+        <div className="flex items-center gap-2">
+          <p className="truncate font-medium">{savedSearch.name}</p>
+          {savedSearch.newCount > 0 && (
+            <Badge className="shrink-0">
+              {savedSearch.newCount} new since last visit
+            </Badge>
+          )}
+        </div>
+        <p className="truncate text-sm text-muted-foreground">
+          &ldquo;{savedSearch.query}&rdquo;
+          {filterSummary && ` · ${filterSummary}`}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Last viewed {formatRelativeTime(savedSearch.lastViewedAt)}
+        </p>
+      </Link>
+
+      <div className="flex shrink-0 items-center gap-2">
+        <span className="hidden text-sm text-muted-foreground sm:inline">
+          Alerts
+        </span>
+        <Switch
+          checked={savedSearch.notify}
+          onCheckedChange={(notify) =>
+            updateSavedSearch.mutate({
+              id: savedSearch.id,
+              data: { notify },
+            })
+          }
+          aria-label={`Notify me about new matches for ${savedSearch.name}`}
+        />
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-8 shrink-0 text-muted-foreground"
+        onClick={onDelete}
+        aria-label={`Delete ${savedSearch.name}`}
+      >
+        <Trash2 className="size-4" />
+      </Button>
+    </div>
+  );
+}
+
+function SavedSearchesSkeleton() {
+  return (
+    <Card>
+      <CardHeader>
+        <Skeleton className="h-6 w-40" />
+        <Skeleton className="h-4 w-72" />
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <div key={i} className="flex items-center justify-between p-3">
+            <div className="space-y-2">
+              <Skeleton className="h-4 w-40" />
+              <Skeleton className="h-3 w-56" />
+            </div>
+            <Skeleton className="h-5 w-9 rounded-full" />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useSession } from 'next-auth/react';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { Form, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { PostEditor } from '@/components/posts/post-editor';
+import { useCreateComment } from '@/lib/api/hooks/use-comments';
+import { commentSchema, type CommentFormData } from '@/lib/validations/comment';
+import { cn } from '@/lib/utils';
+
+interface CommentFormProps {
+  postId: string;
+  // Top-level comment this is a reply to
+  parentId?: string;
+  // Pre-filled text, e.g. "@username " when replying to a reply
+  initialContent?: string;
+  autoFocus?: boolean;
+  onSubmitted?: () => void;
+  onCancel?: () => void;
+  className?: string;
+}
+
+export function CommentForm({
+  postId,
+  parentId,
+  initialContent = '',
+  autoFocus = false,
+  onSubmitted,
+  onCancel,
+  className,
+}: CommentFormProps) {
+  const { data: session } = useSession();
+  const createComment = useCreateComment(postId);
+
+  const form = useForm<CommentFormData>({
+    resolver: zodResolver(commentSchema),
+    defaultValues: {
+      content: initialContent,
+    },
+  });
+
+  const onSubmit = (data: CommentFormData) => {
+    createComment.mutate(
+      { content: data.content, parentId },
+      {
+        onSuccess: () => {
+          form.reset({ content: '' });
+          onSubmitted?.();
+        },
+      }
+    );
+  };
+
+  const user = session?.user;
+  const isReply = !!parentId;
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className={cn('flex gap-3', className)}
+      >
+        <UserAvatar
+          src={user?.image || undefined}
+          name={user?.name || undefined}
+          size={isReply ? 'xs' : 'sm'}
+          className="mt-1"
+        />
+        <div className="min-w-0 flex-1 space-y-2">
+          <FormField
+            control={form.control}
+            name="content"
+            render={({ field, fieldState }) => (
+              <FormItem>
+                <PostEditor
+                  value={field.value}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
+                  name={field.name}
+                  disableHashtags
+                  placeholder={
+                    isReply ? 'Write a reply...' : 'Write a comment...'
+                  }
+                  aria-label={isReply ? 'Reply' : 'Comment'}
+                  aria-invalid={!!fieldState.error}
+                  autoFocus={autoFocus}
+                  className="min-h-10 py-2"
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="flex justify-end gap-2">
+            {onCancel && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={onCancel}
+              >
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" size="sm" disabled={createComment.isPending}>
+              {createComment.isPending && (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              )}
+              {isReply ? 'Reply' : 'Comment'}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Heart, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ConfirmDialog } from '@/components/shared/confirm-dialog';
+import { PostContent } from '@/components/feed/post-content';
+import { PostEditor } from '@/components/posts/post-editor';
+import {
+  useDeleteComment,
+  useLikeComment,
+  useUpdateComment,
+} from '@/lib/api/hooks/use-comments';
+import { COMMENT_MAX_LENGTH } from '@/lib/validations/comment';
+import { cn, formatCompactNumber, formatRelativeTime } from '@/lib/utils';
+import type { Comment } from '@/types/comment';
+
+interface CommentItemProps {
+  comment: Comment;
+  currentUserId?: string;
+  onReply?: (comment: Comment) => void;
+  children?: React.ReactNode;
+  className?: string;
+}
+
+export function CommentItem({
+  comment,
+  currentUserId,
+  onReply,
+  children,
+  className,
+}: CommentItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.content);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const likeComment = useLikeComment(comment.postId);
+  const updateComment = useUpdateComment(comment.postId);
+  const deleteComment = useDeleteComment(comment.postId);
+
+  const isOwner = currentUserId === comment.author.id;
+  const isReply = !!comment.parentId;
+  const isEdited =
+    !!comment.updatedAt && comment.updatedAt !== comment.createdAt;
+  const trimmedDraft = draft.trim();
+
+  const startEditing = () => {
+    setDraft(comment.content);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (!trimmedDraft || trimmedDraft.length > COMMENT_MAX_LENGTH) return;
+    if (trimmedDraft === comment.content) {
+      setIsEditing(false);
+      return;
+    }
+    updateComment.mutate(
+      { commentId: comment.id, content: trimmedDraft },
+      { onSuccess: () => setIsEditing(false) }
+    );
+  };
+
+  return (
+    <div className={cn('flex gap-3', className)}>
+      <Link href={`/${comment.author.username}`} className="shrink-0">
+        <UserAvatar user={comment.author} size={isReply ? 'xs' : 'sm'} />
+      </Link>
+
+      <div className="min-w-0 flex-1">
+        {isEditing ? (
+          <div className="space-y-2">
+            <PostEditor
+              value={draft}
+              onChange={setDraft}
+              disableHashtags
+              aria-label="Edit comment"
+              autoFocus
+              className="min-h-10 py-2"
+              onKeyDown={(event) => {
+                if (event.key === 'Escape') setIsEditing(false);
+              }}
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                onClick={handleSave}
+                disabled={
+                  !trimmedDraft ||
+                  trimmedDraft.length > COMMENT_MAX_LENGTH ||
+                  updateComment.isPending
+                }
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-start gap-1">
+            <div className="min-w-0 flex-1 rounded-2xl bg-muted/60 px-3 py-2">
+              <Link
+                href={`/${comment.author.username}`}
+                className="text-sm font-semibold hover:underline"
+              >
+                {comment.author.fullName}
+              </Link>
+              <PostContent content={comment.content} className="text-sm" />
+            </div>
+
+            {isOwner && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7 shrink-0 text-muted-foreground"
+                    aria-label="Comment options"
+                  >
+                    <MoreHorizontal className="size-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={startEditing}>
+                    <Pencil className="size-4" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setDeleteOpen(true)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="size-4" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        )}
+
+        {!isEditing && (
+          <div className="mt-1 flex items-center gap-3 px-3 text-xs text-muted-foreground">
+            <span>{formatRelativeTime(comment.createdAt)}</span>
+            {isEdited && <span>edited</span>}
+            <button
+              type="button"
+              onClick={() =>
+                likeComment.mutate({
+                  commentId: comment.id,
+                  liked: !comment.isLiked,
+                })
+              }
+              aria-label={comment.isLiked ? 'Unlike comment' : 'Like comment'}
+              aria-pressed={!!comment.isLiked}
+              className={cn(
+                'flex items-center gap-1 font-medium hover:text-foreground',
+                comment.isLiked && 'text-red-500 hover:text-red-500'
+              )}
+            >
+              <Heart
+                className={cn('size-3.5', comment.isLiked && 'fill-current')}
+              />
+              {comment.likesCount > 0 &&
+                formatCompactNumber(comment.likesCount)}
+            </button>
+            {onReply && (
+              <button
+                type="button"
+                onClick={() => onReply(comment)}
+                className="font-medium hover:text-foreground"
+              >
+                Reply
+              </button>
+            )}
+          </div>
+        )}
+
+        {children}
+      </div>
+
+      {isOwner && (
+        <ConfirmDialog
+          open={deleteOpen}
+          onOpenChange={setDeleteOpen}
+          title="Delete comment?"
+          description={
+            !isReply && comment.repliesCount > 0
+              ? 'This comment and its replies will be permanently deleted.'
+              : 'This comment will be permanently deleted.'
+          }
+          confirmText="Delete"
+          variant="destructive"
+          onConfirm={async () => {
+            await deleteComment.mutateAsync(comment);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { CornerDownRight, Loader2 } from 'lucide-react';
+
+import { useCommentReplies } from '@/lib/api/hooks/use-comments';
+import type { Comment } from '@/types/comment';
+import { CommentItem } from './comment-item';
+import { CommentForm } from './comment-form';
+
+interface CommentThreadProps {
+  comment: Comment;
+  currentUserId?: string;
+}
+
+// A top-level comment with its lazily loaded replies and reply composer
+export function CommentThread({ comment, currentUserId }: CommentThreadProps) {
+  const [showReplies, setShowReplies] = useState(false);
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useCommentReplies(comment.postId, comment.id, showReplies);
+
+  const replies = data?.pages.flatMap((page) => page.items) ?? [];
+  const hiddenCount = Math.max(0, comment.repliesCount - replies.length);
+
+  // Replies stay one level deep; replying to a reply mentions its author
+  const handleReply = (target: Comment) => {
+    setReplyTo(target);
+    setShowReplies(true);
+  };
+
+  return (
+    <CommentItem
+      comment={comment}
+      currentUserId={currentUserId}
+      onReply={handleReply}
+    >
+      <div className="mt-2 space-y-3">
+        {!showReplies && comment.repliesCount > 0 && (
+          <ThreadButton onClick={() => setShowReplies(true)}>
+            View {comment.repliesCount}{' '}
+            {comment.repliesCount === 1 ? 'reply' : 'replies'}
+          </ThreadButton>
+        )}
+
+        {showReplies && (
+          <>
+            {replies.map((reply) => (
+              <CommentItem
+                key={reply.id}
+                comment={reply}
+                currentUserId={currentUserId}
+                onReply={handleReply}
+              />
+            ))}
+
+            {(isLoading || isFetchingNextPage) && (
+              <Loader2 className="ml-3 size-4 animate-spin text-muted-foreground" />
+            )}
+
+            {!isLoading && !isFetchingNextPage && hasNextPage && (
+              <ThreadButton onClick={() => fetchNextPage()}>
+                View {hiddenCount > 0 ? `${hiddenCount} more` : 'more'}{' '}
+                {hiddenCount === 1 ? 'reply' : 'replies'}
+              </ThreadButton>
+            )}
+          </>
+        )}
+
+        {replyTo && (
+          <CommentForm
+            key={replyTo.id}
+            postId={comment.postId}
+            parentId={comment.id}
+            initialContent={
+              replyTo.author.id !== currentUserId
+                ? `@${replyTo.author.username} `
+                : ''
+            }
+            autoFocus
+            onSubmitted={() => setReplyTo(null)}
+            onCancel={() => setReplyTo(null)}
+          />
+        )}
+      </div>
+    </CommentItem>
+  );
+}
+
+function ThreadButton({
+  onClick,
+  children,
+}: {
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="flex items-center gap-2 px-3 text-xs font-semibold text-muted-foreground hover:text-foreground"
+    >
+      <CornerDownRight className="size-3.5" />
+      {children}
+    </button>
+  );
+}
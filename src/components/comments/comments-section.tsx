@@ -0,0 +1,100 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CommentSkeleton } from '@/components/shared/skeleton-card';
+import { EmptyState, NoComments } from '@/components/shared/empty-state';
+import { useComments } from '@/lib/api/hooks/use-comments';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+import { formatCompactNumber } from '@/lib/utils';
+import { CommentForm } from './comment-form';
+import { CommentThread } from './comment-thread';
+
+interface CommentsSectionProps {
+  postId: string;
+  commentsCount?: number;
+}
+
+export function CommentsSection({
+  postId,
+  commentsCount,
+}: CommentsSectionProps) {
+  const { data: currentUser } = useCurrentUser();
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useComments(postId);
+
+  const comments = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+
+  return (
+    <Card id="comments" className="scroll-mt-20 gap-0 py-0">
+      <CardHeader className="px-5 pt-5">
+        <CardTitle className="text-base">
+          Comments
+          {!!commentsCount && (
+            <span className="ml-2 font-normal text-muted-foreground">
+              {formatCompactNumber(commentsCount)}
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-5 p-5">
+        <CommentForm postId={postId} />
+
+        {isLoading ? (
+          <div className="space-y-5">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <CommentSkeleton key={i} />
+            ))}
+          </div>
+        ) : isError ? (
+          <EmptyState
+            title="Couldn't load comments"
+            size="sm"
+            action={
+              <Button variant="outline" size="sm" onClick={() => refetch()}>
+                Try again
+              </Button>
+            }
+          />
+        ) : comments.length === 0 ? (
+          <NoComments />
+        ) : (
+          <div className="space-y-5">
+            {comments.map((comment) => (
+              <CommentThread
+                key={comment.id}
+                comment={comment}
+                currentUserId={currentUser?.id}
+              />
+            ))}
+
+            {hasNextPage && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? 'Loading...' : 'Load more comments'}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
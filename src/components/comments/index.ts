@@ -0,0 +1,4 @@
+export { CommentsSection } from './comments-section';
+export { CommentThread } from './comment-thread';
+export { CommentItem } from './comment-item';
+export { CommentForm } from './comment-form';
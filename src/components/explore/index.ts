@@ -0,0 +1,2 @@
+export { TrendingHashtags } from './trending-hashtags';
+export { SuggestedUsers } from './suggested-users';
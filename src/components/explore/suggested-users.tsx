@@ -0,0 +1,44 @@
+'use client';
+
+import { UserPlus } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { UserCard, UserCardSkeleton } from '@/components/profile/user-card';
+import { useCurrentUser, useUserSuggestions } from '@/lib/api/hooks/use-user';
+
+interface SuggestedUsersProps {
+  limit?: number;
+}
+
+// "Who to follow" - following someone refreshes the suggestions
+export function SuggestedUsers({ limit = 5 }: SuggestedUsersProps) {
+  const { data: currentUser } = useCurrentUser();
+  const { data, isLoading, isError } = useUserSuggestions();
+  const users = (data?.users ?? []).slice(0, limit);
+
+  if (!isLoading && (isError || users.length === 0)) return null;
+
+  return (
+    <Card className="gap-0 py-0">
+      <CardHeader className="px-5 pt-5">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <UserPlus className="size-4 text-primary" />
+          Who to follow
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-2 pb-3 pt-2">
+        {isLoading ? (
+          Array.from({ length: 3 }).map((_, i) => <UserCardSkeleton key={i} />)
+        ) : (
+          <ul>
+            {users.map((user) => (
+              <li key={user.id}>
+                <UserCard user={user} currentUserId={currentUser?.id} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import Link from 'next/link';
+import { Hash, TrendingUp } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useTrendingHashtags } from '@/lib/api/hooks/use-search';
+import { formatCompactNumber } from '@/lib/utils';
+
+export function TrendingHashtags() {
+  const { data, isLoading, isError } = useTrendingHashtags();
+  const hashtags = data?.hashtags ?? [];
+
+  // Nothing worth showing - the rest of the page still is
+  if (!isLoading && (isError || hashtags.length === 0)) return null;
+
+  return (
+    <Card className="gap-0 py-0">
+      <CardHeader className="px-5 pt-5">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <TrendingUp className="size-4 text-primary" />
+          Trending hashtags
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-5">
+        {isLoading ? (
+          <div className="flex flex-wrap gap-2">
+            {Array.from({ length: 6 }).map((_, i) => (
+              <Skeleton key={i} className="h-9 w-28 rounded-full" />
+            ))}
+          </div>
+        ) : (
+          <ol className="flex flex-wrap gap-2">
+            {hashtags.map((hashtag) => (
+              <li key={hashtag.tag}>
+                <Link
+                  href={`/hashtag/${encodeURIComponent(hashtag.tag.toLowerCase())}`}
+                  className="flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-sm transition-colors hover:border-primary hover:bg-primary/5"
+                >
+                  <Hash className="size-3.5 text-muted-foreground" />
+                  <span className="font-medium">{hashtag.tag}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatCompactNumber(hashtag.count)}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
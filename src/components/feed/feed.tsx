@@ -0,0 +1,120 @@
+'use client';
+
+import { useCallback, useLayoutEffect, useMemo, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { InfiniteScroll } from '@/components/shared/infinite-scroll';
+import { SkeletonList } from '@/components/shared/skeleton-list';
+import { EmptyState, NoPosts } from '@/components/shared/empty-state';
+import {
+  useFeed,
+  useNewFeedPosts,
+  prependPostsToFeed,
+  isOptimisticPost,
+} from '@/lib/api/hooks/use-posts';
+import { PostCard } from './post-card';
+import { NewPostsBanner } from './new-posts-banner';
+
+interface ScrollAnchor {
+  scrollY: number;
+  scrollHeight: number;
+}
+
+export function Feed() {
+  const queryClient = useQueryClient();
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useFeed();
+
+  const posts = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+
+  // Posts still being created have no id the server could poll after
+  const newestPostId = posts.find((post) => !isOptimisticPost(post))?.id;
+  const { data: newPostsData } = useNewFeedPosts(newestPostId);
+
+  // Only count posts that aren't already in the feed
+  const newPosts = useMemo(() => {
+    const loadedIds = new Set(posts.map((post) => post.id));
+    return (newPostsData?.items ?? []).filter(
+      (post) => !loadedIds.has(post.id)
+    );
+  }, [newPostsData, posts]);
+
+  // Keep the reader's place when posts are inserted above the viewport
+  const scrollAnchorRef = useRef<ScrollAnchor | null>(null);
+
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    if (!anchor) return;
+    scrollAnchorRef.current = null;
+
+    const heightDelta =
+      document.documentElement.scrollHeight - anchor.scrollHeight;
+    window.scrollTo({ top: anchor.scrollY + heightDelta });
+  }, [posts]);
+
+  const handleShowNewPosts = useCallback(() => {
+    scrollAnchorRef.current = {
+      scrollY: window.scrollY,
+      scrollHeight: document.documentElement.scrollHeight,
+    };
+    prependPostsToFeed(queryClient, newPosts);
+  }, [queryClient, newPosts]);
+
+  const handleLoadMore = useCallback(() => {
+    fetchNextPage();
+  }, [fetchNextPage]);
+
+  if (isLoading) {
+    return <SkeletonList count={4} />;
+  }
+
+  if (isError) {
+    return (
+      <EmptyState
+        title="Couldn't load your feed"
+        description="Something went wrong while loading posts."
+        action={
+          <Button variant="outline" onClick={() => refetch()}>
+            Try again
+          </Button>
+        }
+      />
+    );
+  }
+
+  if (posts.length === 0) {
+    return <NoPosts />;
+  }
+
+  return (
+    <div className="relative">
+      <NewPostsBanner count={newPosts.length} onClick={handleShowNewPosts} />
+
+      <InfiniteScroll
+        hasMore={!!hasNextPage}
+        isLoading={isFetchingNextPage}
+        isError={isFetchNextPageError}
+        onLoadMore={handleLoadMore}
+        onRetry={handleLoadMore}
+        loadingComponent={<SkeletonList count={2} className="w-full" />}
+        className="space-y-4"
+      >
+        {posts.map((post) => (
+          <PostCard key={post.id} post={post} />
+        ))}
+      </InfiniteScroll>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+export { Feed } from './feed';
+export { PostCard } from './post-card';
+export { NewPostsBanner } from './new-posts-banner';
+export { PostContent } from './post-content';
+export { PostActions } from './post-actions';
+export { PostMenu } from './post-menu';
@@ -0,0 +1,38 @@
+'use client';
+
+import { ArrowUp } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface NewPostsBannerProps {
+  count: number;
+  onClick: () => void;
+  className?: string;
+}
+
+export function NewPostsBanner({
+  count,
+  onClick,
+  className,
+}: NewPostsBannerProps) {
+  if (count <= 0) return null;
+
+  return (
+    <div
+      className={cn(
+        'pointer-events-none sticky top-20 z-30 flex justify-center',
+        className
+      )}
+    >
+      <Button
+        size="sm"
+        onClick={onClick}
+        className="pointer-events-auto gap-1.5 rounded-full shadow-lg"
+      >
+        <ArrowUp className="size-4" />
+        {count} new {count === 1 ? 'post' : 'posts'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Bookmark, Heart, MessageCircle, Repeat2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { QuotePostDialog } from '@/components/posts/quote-post-dialog';
+import { useBookmarkPost, useLikePost } from '@/lib/api/hooks/use-posts';
+import { cn, formatCompactNumber } from '@/lib/utils';
+import type { Post } from '@/types/post';
+import { ShareSheet } from './share-sheet';
+
+interface PostActionsProps {
+  post: Post;
+  className?: string;
+}
+
+export function PostActions({ post, className }: PostActionsProps) {
+  const [shareOpen, setShareOpen] = useState(false);
+  const [quoteOpen, setQuoteOpen] = useState(false);
+  const likePost = useLikePost();
+  const bookmarkPost = useBookmarkPost();
+
+  return (
+    <div
+      className={cn(
+        '-mx-2 flex items-center gap-1 text-muted-foreground',
+        className
+      )}
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() =>
+          likePost.mutate({ postId: post.id, liked: !post.isLiked })
+        }
+        aria-label={post.isLiked ? 'Unlike' : 'Like'}
+        aria-pressed={!!post.isLiked}
+        className={cn(
+          'gap-1.5',
+          post.isLiked && 'text-red-500 hover:text-red-500'
+        )}
+      >
+        <Heart className={cn('size-4', post.isLiked && 'fill-current')} />
+        {formatCompactNumber(post.likesCount)}
+      </Button>
+
+      <Button variant="ghost" size="sm" asChild className="gap-1.5">
+        <Link href={`/posts/${post.id}#comments`} aria-label="Comments">
+          <MessageCircle className="size-4" />
+          {formatCompactNumber(post.commentsCount)}
+        </Link>
+      </Button>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setShareOpen(true)}
+        aria-label="Share"
+        className={cn(
+          'gap-1.5',
+          post.isReposted && 'text-green-600 hover:text-green-600'
+        )}
+      >
+        <Repeat2 className="size-4" />
+        {!!post.repostsCount && formatCompactNumber(post.repostsCount)}
+      </Button>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() =>
+          bookmarkPost.mutate({
+            postId: post.id,
+            bookmarked: !post.isBookmarked,
+          })
+        }
+        aria-label={post.isBookmarked ? 'Remove bookmark' : 'Bookmark'}
+        aria-pressed={!!post.isBookmarked}
+        className={cn(
+          'ml-auto size-8',
+          post.isBookmarked && 'text-primary hover:text-primary'
+        )}
+      >
+        <Bookmark
+          className={cn('size-4', post.isBookmarked && 'fill-current')}
+        />
+      </Button>
+
+      <ShareSheet
+        post={post}
+        open={shareOpen}
+        onOpenChange={setShareOpen}
+        onQuote={() => setQuoteOpen(true)}
+      />
+      <QuotePostDialog
+        post={post}
+        open={quoteOpen}
+        onOpenChange={setQuoteOpen}
+      />
+    </div>
+  );
+}
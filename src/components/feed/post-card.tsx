@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { BadgeCheck, Repeat2 } from 'lucide-react';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { ImageGallery } from '@/components/posts/image-gallery';
+import { EmbeddedPost } from '@/components/posts/embedded-post';
+import { PostRevisionsDialog } from '@/components/posts/post-revisions-dialog';
+import { isPlainRepost } from '@/lib/api/hooks/use-posts';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { Post } from '@/types/post';
+import { PostContent } from './post-content';
+import { PostActions } from './post-actions';
+import { PostMenu } from './post-menu';
+
+interface PostCardProps {
+  post: Post;
+  // Called after the owner deletes the post (e.g. to leave the post page)
+  onDeleted?: () => void;
+  className?: string;
+}
+
+export function PostCard({
+  post: cardPost,
+  onDeleted,
+  className,
+}: PostCardProps) {
+  const [revisionsOpen, setRevisionsOpen] = useState(false);
+
+  // A plain repost shows the original with a "reposted" line on top
+  const isRepost = isPlainRepost(cardPost);
+  const post = isRepost ? cardPost.repostOf : cardPost;
+  const isEdited = !!post?.updatedAt && post.updatedAt !== post.createdAt;
+
+  return (
+    <Card className={cn('gap-0 py-0', className)}>
+      <CardContent className="space-y-4 p-5">
+        {isRepost && (
+          <div className="-mb-2 flex items-center gap-2 text-xs font-medium text-muted-foreground">
+            <Repeat2 className="size-4" />
+            <Link
+              href={`/${cardPost.author.username}`}
+              className="truncate hover:underline"
+            >
+              {cardPost.author.fullName} reposted
+            </Link>
+            {!post && (
+              <div className="ml-auto">
+                <PostMenu post={cardPost} onDeleted={onDeleted} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {post ? (
+          <PostBody
+            post={post}
+            onDeleted={onDeleted}
+            isEdited={isEdited}
+            onShowRevisions={() => setRevisionsOpen(true)}
+          />
+        ) : (
+          <EmbeddedPost post={null} />
+        )}
+      </CardContent>
+
+      {post && isEdited && (
+        <PostRevisionsDialog
+          post={post}
+          open={revisionsOpen}
+          onOpenChange={setRevisionsOpen}
+        />
+      )}
+    </Card>
+  );
+}
+
+interface PostBodyProps {
+  post: Post;
+  onDeleted?: () => void;
+  isEdited: boolean;
+  onShowRevisions: () => void;
+}
+
+function PostBody({
+  post,
+  onDeleted,
+  isEdited,
+  onShowRevisions,
+}: PostBodyProps) {
+  return (
+    <>
+      {/* Author */}
+      <div className="flex items-center gap-3">
+        <Link href={`/${post.author.username}`} className="shrink-0">
+          <UserAvatar user={post.author} size="md" />
+        </Link>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-1">
+            <Link
+              href={`/${post.author.username}`}
+              className="truncate font-semibold hover:underline"
+            >
+              {post.author.fullName}
+            </Link>
+            {post.author.isVerified && (
+              <BadgeCheck className="size-4 shrink-0 text-primary" />
+            )}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            <Link href={`/posts/${post.id}`} className="hover:underline">
+              @{post.author.username} · {formatRelativeTime(post.createdAt)}
+            </Link>
+            {isEdited && (
+              <>
+                {' · '}
+                <button
+                  type="button"
+                  onClick={onShowRevisions}
+                  className="hover:underline"
+                >
+                  edited
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+        <PostMenu post={post} onDeleted={onDeleted} />
+      </div>
+
+      {/* Content */}
+      {post.content && <PostContent content={post.content} />}
+
+      {post.images && post.images.length > 0 && (
+        <ImageGallery images={post.images} />
+      )}
+
+      {/* Quoted post */}
+      {post.repostOfId && <EmbeddedPost post={post.repostOf} />}
+
+      {/* Actions */}
+      <PostActions post={post} />
+    </>
+  );
+}
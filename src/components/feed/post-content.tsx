@@ -0,0 +1,73 @@
+'use client';
+
+import { Fragment, useMemo } from 'react';
+import Link from 'next/link';
+
+import { parsePostContent, truncatePostContent } from '@/lib/post-content';
+import { cn } from '@/lib/utils';
+
+interface PostContentProps {
+  content: string;
+  /** Truncate long posts to this many characters */
+  maxLength?: number;
+  className?: string;
+}
+
+const linkClassName = 'font-medium text-primary hover:underline';
+
+export function PostContent({
+  content,
+  maxLength,
+  className,
+}: PostContentProps) {
+  const tokens = useMemo(
+    () =>
+      parsePostContent(
+        maxLength ? truncatePostContent(content, maxLength) : content
+      ),
+    [content, maxLength]
+  );
+
+  return (
+    <p className={cn('whitespace-pre-wrap break-words', className)}>
+      {tokens.map((token, index) => {
+        switch (token.type) {
+          case 'hashtag':
+            return (
+              <Link
+                key={index}
+                href={`/hashtag/${encodeURIComponent(token.tag.toLowerCase())}`}
+                className={linkClassName}
+              >
+                {token.value}
+              </Link>
+            );
+          case 'mention':
+            return (
+              <Link
+                key={index}
+                href={`/${token.username}`}
+                className={linkClassName}
+              >
+                {token.value}
+              </Link>
+            );
+          case 'url':
+            return (
+              <a
+                key={index}
+                href={token.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={cn(linkClassName, 'break-all')}
+              >
+                {token.value.replace(/^https?:\/\//, '')}
+              </a>
+            );
+          default:
+            return <Fragment key={index}>{token.value}</Fragment>;
+        }
+      })}
+    </p>
+  );
+}
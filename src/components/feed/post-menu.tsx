@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  Link as LinkIcon,
+  EyeOff,
+  VolumeX,
+  Hash,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ConfirmDialog } from '@/components/shared/confirm-dialog';
+import { EditPostDialog } from '@/components/posts/edit-post-dialog';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+import { useDeletePost, useNotInterested } from '@/lib/api/hooks/use-posts';
+import { useMuteHashtag, useMuteUser } from '@/lib/api/hooks/use-mutes';
+import { getPostHashtags } from '@/lib/post-content';
+import type { Post } from '@/types/post';
+
+const MAX_MUTABLE_HASHTAGS = 3;
+
+interface PostMenuProps {
+  post: Post;
+  onDeleted?: () => void;
+}
+
+export function PostMenu({ post, onDeleted }: PostMenuProps) {
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const { data: currentUser } = useCurrentUser();
+  const deletePost = useDeletePost();
+  const notInterested = useNotInterested();
+  const muteUser = useMuteUser();
+  const muteHashtag = useMuteHashtag();
+
+  const isOwner = currentUser?.id === post.author.id;
+  // Feed tuning only makes sense for other people's posts
+  const canMute = !!currentUser && !isOwner;
+  const hashtags = canMute
+    ? getPostHashtags(post.content).slice(0, MAX_MUTABLE_HASHTAGS)
+    : [];
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/posts/${post.id}`);
+    toast.success('Link copied to clipboard');
+  };
+
+  const handleDelete = async () => {
+    await deletePost.mutateAsync(post.id);
+    onDeleted?.();
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 text-muted-foreground"
+            aria-label="Post options"
+          >
+            <MoreHorizontal className="size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuItem onClick={handleCopyLink}>
+            <LinkIcon className="size-4" />
+            Copy link
+          </DropdownMenuItem>
+          {canMute && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => notInterested.mutate(post.id)}>
+                <EyeOff className="size-4" />
+                Not interested
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => muteUser.mutate(post.author)}>
+                <VolumeX className="size-4" />
+                <span className="truncate">Mute @{post.author.username}</span>
+              </DropdownMenuItem>
+              {hashtags.map((tag) => (
+                <DropdownMenuItem
+                  key={tag}
+                  onClick={() => muteHashtag.mutate(tag)}
+                >
+                  <Hash className="size-4" />
+                  <span className="truncate">Mute #{tag}</span>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          {isOwner && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setEditOpen(true)}>
+                <Pencil className="size-4" />
+                Edit post
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setDeleteOpen(true)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="size-4" />
+                Delete post
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {isOwner && (
+        <>
+          <EditPostDialog
+            post={post}
+            open={editOpen}
+            onOpenChange={setEditOpen}
+          />
+          <ConfirmDialog
+            open={deleteOpen}
+            onOpenChange={setDeleteOpen}
+            title="Delete post?"
+            description="This will permanently delete your post along with its likes and comments. This action cannot be undone."
+            confirmText="Delete"
+            variant="destructive"
+            onConfirm={handleDelete}
+          />
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { Link as LinkIcon, Quote, Repeat2, Share2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { useRepost } from '@/lib/api/hooks/use-posts';
+import { cn } from '@/lib/utils';
+import type { Post } from '@/types/post';
+
+interface ShareSheetProps {
+  post: Post;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onQuote: () => void;
+}
+
+export function ShareSheet({
+  post,
+  open,
+  onOpenChange,
+  onQuote,
+}: ShareSheetProps) {
+  const repost = useRepost();
+  const postUrl =
+    typeof window !== 'undefined'
+      ? `${window.location.origin}/posts/${post.id}`
+      : '';
+  const canShareNatively =
+    typeof navigator !== 'undefined' && !!navigator.share;
+
+  const copyToClipboard = () => {
+    navigator.clipboard.writeText(postUrl);
+    toast.success('Link copied to clipboard');
+  };
+
+  const handleRepost = () => {
+    repost.mutate({ postId: post.id, reposted: !post.isReposted });
+    onOpenChange(false);
+  };
+
+  const handleQuote = () => {
+    onOpenChange(false);
+    onQuote();
+  };
+
+  const handleCopyLink = () => {
+    copyToClipboard();
+    onOpenChange(false);
+  };
+
+  const handleNativeShare = async () => {
+    onOpenChange(false);
+    try {
+      await navigator.share({
+        title: `Post by ${post.author.fullName}`,
+        text: post.content || undefined,
+        url: postUrl,
+      });
+    } catch (err) {
+      // User cancelled or error
+      if ((err as Error).name !== 'AbortError') {
+        copyToClipboard();
+      }
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="bottom"
+        className="mx-auto max-w-md rounded-t-2xl pb-4"
+      >
+        <SheetHeader>
+          <SheetTitle>Share post</SheetTitle>
+          <SheetDescription>
+            Post by {post.author.fullName} (@{post.author.username})
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="grid gap-1 px-2">
+          <ShareOption
+            icon={<Repeat2 className="size-5" />}
+            label={post.isReposted ? 'Undo repost' : 'Repost'}
+            description={
+              post.isReposted
+                ? 'Take it off your profile'
+                : 'Share it with your followers'
+            }
+            onClick={handleRepost}
+            className={cn(post.isReposted && 'text-green-600')}
+          />
+          <ShareOption
+            icon={<Quote className="size-5" />}
+            label="Quote post"
+            description="Repost with your own thoughts"
+            onClick={handleQuote}
+          />
+          <ShareOption
+            icon={<LinkIcon className="size-5" />}
+            label="Copy link"
+            onClick={handleCopyLink}
+          />
+          {canShareNatively && (
+            <ShareOption
+              icon={<Share2 className="size-5" />}
+              label="Share via..."
+              onClick={handleNativeShare}
+            />
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+interface ShareOptionProps {
+  icon: React.ReactNode;
+  label: string;
+  description?: string;
+  onClick: () => void;
+  className?: string;
+}
+
+function ShareOption({
+  icon,
+  label,
+  description,
+  onClick,
+  className,
+}: ShareOptionProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        'flex items-center gap-3 rounded-lg px-3 py-2.5 text-left transition-colors hover:bg-muted',
+        className
+      )}
+    >
+      <span className="flex size-10 shrink-0 items-center justify-center rounded-full bg-muted">
+        {icon}
+      </span>
+      <span className="min-w-0">
+        <span className="block text-sm font-medium">{label}</span>
+        {description && (
+          <span className="block text-xs text-muted-foreground">
+            {description}
+          </span>
+        )}
+      </span>
+    </button>
+  );
+}
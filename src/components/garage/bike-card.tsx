@@ -0,0 +1,66 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import Image from 'next/image';
+import { Bike as BikeIcon } from 'lucide-react';
+
+import { formatMileage, getBikeName } from '@/lib/garage';
+import { cn } from '@/lib/utils';
+import type { Bike } from '@/types/garage';
+
+interface BikeCardProps {
+  bike: Bike;
+  // Owner-only actions shown under the details
+  actions?: ReactNode;
+  className?: string;
+}
+
+// A garage bike as shown on profiles and in settings. The VIN is only sent to
+// the bike's owner, so it shows up wherever the API returned it.
+export function BikeCard({ bike, actions, className }: BikeCardProps) {
+  const [firstPhoto] = bike.photos;
+  const name = getBikeName(bike);
+
+  return (
+    <div
+      className={cn(
+        'overflow-hidden rounded-2xl border border-border/50 bg-card shadow-sm',
+        className
+      )}
+    >
+      <div className="relative aspect-video bg-muted">
+        {firstPhoto ? (
+          <Image
+            src={firstPhoto}
+            alt={name}
+            fill
+            sizes="(min-width: 640px) 50vw, 100vw"
+            className="object-cover"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <BikeIcon className="size-10 text-muted-foreground" />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1 p-4">
+        <h3 className="truncate font-semibold">{bike.nickname || name}</h3>
+        {bike.nickname && (
+          <p className="truncate text-sm text-muted-foreground">{name}</p>
+        )}
+        <p className="text-sm text-muted-foreground">
+          {[bike.engine, formatMileage(bike.mileage)]
+            .filter(Boolean)
+            .join(' · ')}
+        </p>
+        {bike.vin && (
+          <p className="font-mono text-xs text-muted-foreground">
+            VIN {bike.vin}
+          </p>
+        )}
+        {actions && <div className="flex flex-wrap gap-2 pt-3">{actions}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { MultiImageUpload } from '@/components/upload/multi-image-upload';
+import { useMultiImageUpload } from '@/hooks/use-image-upload';
+import { useCreateBike, useUpdateBike } from '@/lib/api/hooks/use-garage';
+import {
+  BIKE_MAX_PHOTOS,
+  bikeSchema,
+  type BikeFormData,
+} from '@/lib/validations/bike';
+import type { Bike } from '@/types/garage';
+import { numberFieldProps } from './number-field';
+
+interface BikeFormDialogProps {
+  // Editing an existing bike; omitted when adding one
+  bike?: Bike;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function toFormValues(bike?: Bike): Partial<BikeFormData> {
+  return {
+    make: bike?.make ?? '',
+    model: bike?.model ?? '',
+    year: bike?.year,
+    engine: bike?.engine ?? '',
+    nickname: bike?.nickname ?? '',
+    vin: bike?.vin ?? '',
+    mileage: bike?.mileage,
+    photos: bike?.photos ?? [],
+  };
+}
+
+export function BikeFormDialog({
+  bike,
+  open,
+  onOpenChange,
+}: BikeFormDialogProps) {
+  const createBike = useCreateBike();
+  const updateBike = useUpdateBike();
+  const { uploadFiles, isUploading } = useMultiImageUpload();
+  const isSubmitting = createBike.isPending || updateBike.isPending;
+  // Remount the image uploader after a reset so it drops its previews
+  const [uploaderKey, setUploaderKey] = useState(0);
+
+  const form = useForm<BikeFormData>({
+    resolver: zodResolver(bikeSchema),
+    defaultValues: toFormValues(bike),
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      form.reset(toFormValues(bike));
+      setUploaderKey((key) => key + 1);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const onSubmit = async (data: BikeFormData) => {
+    const payload = {
+      ...data,
+      engine: data.engine || undefined,
+      nickname: data.nickname || undefined,
+      vin: data.vin || undefined,
+    };
+
+    try {
+      if (bike) {
+        await updateBike.mutateAsync({ id: bike.id, data: payload });
+      } else {
+        await createBike.mutateAsync(payload);
+      }
+      handleOpenChange(false);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90dvh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{bike ? 'Edit bike' : 'Add a bike'}</DialogTitle>
+          <DialogDescription>
+            Bikes in your garage pre-fill part searches and listings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="make"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Make</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Yamaha" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="model"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Model</FormLabel>
+                    <FormControl>
+                      <Input placeholder="WR250F" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="year"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Year</FormLabel>
+                    <FormControl>
+                      <Input placeholder="2019" {...numberFieldProps(field)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="engine"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Engine (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="250cc" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="mileage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mileage (km)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="12000" {...numberFieldProps(field)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="nickname"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nickname (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="vin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>VIN (optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      className="font-mono uppercase"
+                      maxLength={17}
+                      autoComplete="off"
+                    />
+                  </FormControl>
+                  <FormDescription>Only you can see this.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="photos"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Photos</FormLabel>
+                  <MultiImageUpload
+                    key={uploaderKey}
+                    value={field.value}
+                    onChange={field.onChange}
+                    onUpload={uploadFiles}
+                    maxFiles={BIKE_MAX_PHOTOS}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting || isUploading}>
+                {isSubmitting && (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                )}
+                {bike ? 'Save changes' : 'Add bike'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
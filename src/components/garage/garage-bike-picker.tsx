@@ -0,0 +1,54 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { Warehouse } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { useMyGarage } from '@/lib/api/hooks/use-garage';
+import { getBikeName, isBikeSelected } from '@/lib/garage';
+import { cn } from '@/lib/utils';
+import type { Bike } from '@/types/garage';
+import type { FitmentSelection } from '@/types/part';
+
+interface GarageBikePickerProps {
+  selection: FitmentSelection;
+  onSelect: (bike: Bike) => void;
+  className?: string;
+}
+
+// One-tap shortcuts to the signed-in user's garage bikes. Renders nothing for
+// guests and empty garages.
+export function GarageBikePicker({
+  selection,
+  onSelect,
+  className,
+}: GarageBikePickerProps) {
+  const { data: session } = useSession();
+  const { data: bikes = [] } = useMyGarage({ enabled: !!session });
+
+  if (bikes.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      <span className="flex items-center gap-2 text-sm font-medium">
+        <Warehouse className="size-4" />
+        My garage
+      </span>
+      {bikes.map((bike) => {
+        const isSelected = isBikeSelected(bike, selection);
+        return (
+          <Button
+            key={bike.id}
+            variant={isSelected ? 'default' : 'outline'}
+            size="sm"
+            className="rounded-full"
+            aria-pressed={isSelected}
+            onClick={() => onSelect(bike)}
+          >
+            {bike.nickname || getBikeName(bike)}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  Bike as BikeIcon,
+  NotebookPen,
+  Pencil,
+  Plus,
+  Tag,
+  Trash2,
+  Wrench,
+} from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ConfirmDialog } from '@/components/shared/confirm-dialog';
+import { EmptyState } from '@/components/shared/empty-state';
+import { useDeleteBike, useMyGarage } from '@/lib/api/hooks/use-garage';
+import { getBikeName, getBikePartsHref, getSellBikeHref } from '@/lib/garage';
+import type { Bike } from '@/types/garage';
+import { BikeCard } from './bike-card';
+import { BikeFormDialog } from './bike-form-dialog';
+
+// The signed-in user's garage with add, edit and remove controls
+export function GarageManager() {
+  const { data: bikes = [], isLoading } = useMyGarage();
+  const deleteBike = useDeleteBike();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Bike | undefined>();
+  const [pendingDelete, setPendingDelete] = useState<Bike | null>(null);
+
+  const openForm = (bike?: Bike) => {
+    setEditing(bike);
+    setFormOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4 sm:grid-cols-2">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="h-64 rounded-2xl" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {bikes.length === 0 ? (
+        <EmptyState
+          icon={<BikeIcon className="h-full w-full" />}
+          title="Your garage is empty"
+          description="Add your bikes to find parts that fit them and list them for sale in a few clicks."
+          action={
+            <Button onClick={() => openForm()}>
+              <Plus className="size-4" />
+              Add a bike
+            </Button>
+          }
+          size="sm"
+        />
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {bikes.map((bike) => (
+              <BikeCard
+                key={bike.id}
+                bike={bike}
+                actions={
+                  <>
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={`/settings/garage/${bike.id}`}>
+                        <NotebookPen className="size-4" />
+                        Maintenance
+                      </Link>
+                    </Button>
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={getBikePartsHref(bike)}>
+                        <Wrench className="size-4" />
+                        Find parts
+                      </Link>
+                    </Button>
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={getSellBikeHref(bike)}>
+                        <Tag className="size-4" />
+                        Sell this bike
+                      </Link>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      onClick={() => openForm(bike)}
+                      aria-label={`Edit ${getBikeName(bike)}`}
+                    >
+                      <Pencil className="size-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8 text-muted-foreground"
+                      onClick={() => setPendingDelete(bike)}
+                      aria-label={`Remove ${getBikeName(bike)}`}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </>
+                }
+              />
+            ))}
+          </div>
+          <Button variant="outline" onClick={() => openForm()}>
+            <Plus className="size-4" />
+            Add a bike
+          </Button>
+        </>
+      )}
+
+      <BikeFormDialog
+        key={editing?.id ?? 'new'}
+        bike={editing}
+        open={formOpen}
+        onOpenChange={setFormOpen}
+      />
+
+      <ConfirmDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title={`Remove ${pendingDelete ? getBikeName(pendingDelete) : 'bike'}?`}
+        description="It will no longer show on your profile."
+        confirmText="Remove"
+        variant="destructive"
+        onConfirm={() => {
+          if (pendingDelete) deleteBike.mutate(pendingDelete.id);
+        }}
+      />
+    </div>
+  );
+}
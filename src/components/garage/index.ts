@@ -0,0 +1,8 @@
+export { BikeCard } from './bike-card';
+export { BikeFormDialog } from './bike-form-dialog';
+export { GarageManager } from './garage-manager';
+export { GarageBikePicker } from './garage-bike-picker';
+export { MaintenanceEntryDialog } from './maintenance-entry-dialog';
+export { MaintenanceLog } from './maintenance-log';
+export { MaintenanceReminders } from './maintenance-reminders';
+export { ReminderDialog } from './reminder-dialog';
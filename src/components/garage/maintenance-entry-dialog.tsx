@@ -0,0 +1,270 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { MultiImageUpload } from '@/components/upload/multi-image-upload';
+import { useMultiImageUpload } from '@/hooks/use-image-upload';
+import { useAddMaintenanceEntry } from '@/lib/api/hooks/use-garage';
+import { MAINTENANCE_TYPE_LABELS, getBikeName } from '@/lib/garage';
+import { LISTING_CURRENCIES } from '@/lib/validations/listing';
+import {
+  MAINTENANCE_MAX_RECEIPTS,
+  MAINTENANCE_NOTES_MAX_LENGTH,
+  MAINTENANCE_TYPES,
+  getTodayDate,
+  maintenanceEntrySchema,
+  type MaintenanceEntryFormData,
+} from '@/lib/validations/maintenance';
+import type { Bike } from '@/types/garage';
+import { numberFieldProps } from './number-field';
+
+interface MaintenanceEntryDialogProps {
+  bike: Bike;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MaintenanceEntryDialog({
+  bike,
+  open,
+  onOpenChange,
+}: MaintenanceEntryDialogProps) {
+  const addEntry = useAddMaintenanceEntry(bike.id);
+  const { uploadFiles, isUploading } = useMultiImageUpload();
+  // Remount the image uploader after a reset so it drops its previews
+  const [uploaderKey, setUploaderKey] = useState(0);
+
+  const defaultValues = (): Partial<MaintenanceEntryFormData> => ({
+    date: getTodayDate(),
+    odometer: bike.mileage,
+    currency: 'GEL',
+    notes: '',
+    receipts: [],
+  });
+
+  const form = useForm<MaintenanceEntryFormData>({
+    resolver: zodResolver(maintenanceEntrySchema),
+    defaultValues: defaultValues(),
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      form.reset(defaultValues());
+      setUploaderKey((key) => key + 1);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const onSubmit = async (data: MaintenanceEntryFormData) => {
+    try {
+      await addEntry.mutateAsync({ ...data, notes: data.notes || undefined });
+      handleOpenChange(false);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90dvh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Log maintenance</DialogTitle>
+          <DialogDescription>
+            What was done on your {getBikeName(bike)}?
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger aria-label="Type">
+                          <SelectValue placeholder="Pick one" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {MAINTENANCE_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {MAINTENANCE_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" max={getTodayDate()} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="odometer"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Odometer (km)</FormLabel>
+                    <FormControl>
+                      <Input {...numberFieldProps(field)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex gap-2">
+                <FormField
+                  control={form.control}
+                  name="cost"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Cost (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...numberFieldProps(field)}
+                          inputMode="decimal"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {LISTING_CURRENCIES.map((currency) => (
+                            <SelectItem key={currency} value={currency}>
+                              {currency}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder="Parts used, shop name..."
+                      className="min-h-20"
+                      maxLength={MAINTENANCE_NOTES_MAX_LENGTH}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="receipts"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Receipts</FormLabel>
+                  <FormDescription>
+                    Photos of receipts or invoices, handy when you sell.
+                  </FormDescription>
+                  <MultiImageUpload
+                    key={uploaderKey}
+                    value={field.value}
+                    onChange={field.onChange}
+                    onUpload={uploadFiles}
+                    maxFiles={MAINTENANCE_MAX_RECEIPTS}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={addEntry.isPending || isUploading}
+              >
+                {addEntry.isPending && (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                )}
+                Save entry
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
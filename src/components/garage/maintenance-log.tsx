@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { parseISO } from 'date-fns';
+import { Download, NotebookPen, Plus, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ConfirmDialog } from '@/components/shared/confirm-dialog';
+import { EmptyState } from '@/components/shared/empty-state';
+import { useDeleteMaintenanceEntry } from '@/lib/api/hooks/use-garage';
+import {
+  MAINTENANCE_TYPE_LABELS,
+  formatMaintenanceCosts,
+  formatMileage,
+  getMaintenanceCsvFilename,
+  maintenanceLogToCsv,
+} from '@/lib/garage';
+import { formatPrice } from '@/lib/marketplace';
+import { downloadFile, formatDate } from '@/lib/utils';
+import type { Bike, MaintenanceEntry } from '@/types/garage';
+import { MaintenanceEntryDialog } from './maintenance-entry-dialog';
+
+interface MaintenanceLogProps {
+  bike: Bike;
+  entries: MaintenanceEntry[];
+  isLoading?: boolean;
+}
+
+export function MaintenanceLog({
+  bike,
+  entries,
+  isLoading = false,
+}: MaintenanceLogProps) {
+  const deleteEntry = useDeleteMaintenanceEntry(bike.id);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<MaintenanceEntry | null>(
+    null
+  );
+  const totalCost = formatMaintenanceCosts(entries);
+
+  const handleExport = () => {
+    downloadFile(
+      getMaintenanceCsvFilename(bike),
+      maintenanceLogToCsv(entries),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <NotebookPen className="size-5" />
+            Maintenance log
+          </CardTitle>
+          <CardDescription>
+            {totalCost
+              ? `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} · ${totalCost} spent`
+              : 'Every oil change, chain adjustment and tire swap'}
+          </CardDescription>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={entries.length === 0}
+          >
+            <Download className="size-4" />
+            <span className="hidden sm:inline">Export CSV</span>
+          </Button>
+          <Button size="sm" onClick={() => setDialogOpen(true)}>
+            <Plus className="size-4" />
+            Log maintenance
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <EmptyState
+            icon={<NotebookPen className="h-full w-full" />}
+            title="Nothing logged yet"
+            description="A full service history helps when it's time to sell."
+            size="sm"
+          />
+        ) : (
+          <ul className="space-y-2">
+            {entries.map((entry) => (
+              <li key={entry.id} className="flex gap-3 rounded-lg border p-3">
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex flex-wrap items-baseline gap-x-2">
+                    <p className="font-medium">
+                      {MAINTENANCE_TYPE_LABELS[entry.type]}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(parseISO(entry.date), 'PP')} ·{' '}
+                      {formatMileage(entry.odometer)}
+                      {entry.cost !== null &&
+                        ` · ${formatPrice(entry.cost, entry.currency)}`}
+                    </p>
+                  </div>
+                  {entry.notes && (
+                    <p className="whitespace-pre-wrap break-words text-sm">
+                      {entry.notes}
+                    </p>
+                  )}
+                  {entry.receipts.length > 0 && (
+                    <div className="flex gap-2 pt-1">
+                      {entry.receipts.map((receipt, index) => (
+                        <a
+                          key={receipt}
+                          href={receipt}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="relative size-12 overflow-hidden rounded-md border"
+                        >
+                          <Image
+                            src={receipt}
+                            alt={`Receipt ${index + 1}`}
+                            fill
+                            sizes="48px"
+                            className="object-cover"
+                          />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8 shrink-0 text-muted-foreground"
+                  onClick={() => setPendingDelete(entry)}
+                  aria-label={`Delete ${MAINTENANCE_TYPE_LABELS[entry.type]} on ${entry.date}`}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <MaintenanceEntryDialog
+        bike={bike}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+      />
+
+      <ConfirmDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title="Delete this entry?"
+        description="It will be removed from the log and any exports."
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={() => {
+          if (pendingDelete) deleteEntry.mutate(pendingDelete.id);
+        }}
+      />
+    </Card>
+  );
+}
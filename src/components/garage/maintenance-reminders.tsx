@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { parseISO } from 'date-fns';
+import { BellRing, Plus, Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  useDeleteMaintenanceReminder,
+  useMaintenanceReminders,
+} from '@/lib/api/hooks/use-garage';
+import {
+  MAINTENANCE_TYPE_LABELS,
+  REMINDER_STATE_COLORS,
+  REMINDER_STATE_LABELS,
+  describeReminderInterval,
+  formatMileage,
+  getReminderStatus,
+} from '@/lib/garage';
+import { cn, formatDate } from '@/lib/utils';
+import type { Bike, MaintenanceEntry } from '@/types/garage';
+import { ReminderDialog } from './reminder-dialog';
+
+interface MaintenanceRemindersProps {
+  bike: Bike;
+  // The bike's log, which reminders count from
+  entries: MaintenanceEntry[];
+}
+
+export function MaintenanceReminders({
+  bike,
+  entries,
+}: MaintenanceRemindersProps) {
+  const { data: reminders = [], isLoading } = useMaintenanceReminders(bike.id);
+  const deleteReminder = useDeleteMaintenanceReminder(bike.id);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="size-5" />
+            Reminders
+          </CardTitle>
+          <CardDescription>
+            Get notified when a job is due by distance or time
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+          <Plus className="size-4" />
+          Add reminder
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : reminders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No reminders yet. Add one for oil changes, chain adjustments or
+            anything else you do on a schedule.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {reminders.map((reminder) => {
+              const status = getReminderStatus(reminder, entries, bike);
+              const due = [
+                status.dueOdometer !== null &&
+                  `at ${formatMileage(status.dueOdometer)}`,
+                status.dueDate &&
+                  `by ${formatDate(parseISO(status.dueDate), 'PP')}`,
+              ].filter(Boolean);
+
+              return (
+                <li
+                  key={reminder.id}
+                  className="flex items-center gap-3 rounded-lg border p-3"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-medium">
+                        {MAINTENANCE_TYPE_LABELS[reminder.type]}
+                      </p>
+                      <Badge
+                        variant="secondary"
+                        className={cn(
+                          'text-xs',
+                          REMINDER_STATE_COLORS[status.state]
+                        )}
+                      >
+                        {REMINDER_STATE_LABELS[status.state]}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {describeReminderInterval(reminder)}
+                      {due.length > 0 && ` · Next ${due.join(' or ')}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8 shrink-0 text-muted-foreground"
+                    onClick={() => deleteReminder.mutate(reminder.id)}
+                    aria-label={`Delete ${MAINTENANCE_TYPE_LABELS[reminder.type]} reminder`}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <ReminderDialog
+        bike={bike}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+      />
+    </Card>
+  );
+}
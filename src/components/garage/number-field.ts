@@ -0,0 +1,28 @@
+import type { ChangeEvent } from 'react';
+import type { RefCallBack } from 'react-hook-form';
+
+interface NumberFieldControl {
+  name: string;
+  ref: RefCallBack;
+  onBlur: () => void;
+  onChange: (value: number | undefined) => void;
+  value: number | undefined;
+}
+
+// Props for a number Input bound to a form field. An empty input is kept as
+// undefined so zod reports it as missing instead of as 0.
+export function numberFieldProps(field: NumberFieldControl) {
+  return {
+    type: 'number',
+    inputMode: 'numeric' as const,
+    min: 0,
+    name: field.name,
+    ref: field.ref,
+    onBlur: field.onBlur,
+    value: Number.isFinite(field.value) ? field.value : '',
+    onChange: (e: ChangeEvent<HTMLInputElement>) =>
+      field.onChange(
+        e.target.value === '' ? undefined : e.target.valueAsNumber
+      ),
+  };
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCreateMaintenanceReminder } from '@/lib/api/hooks/use-garage';
+import { MAINTENANCE_TYPE_LABELS } from '@/lib/garage';
+import {
+  MAINTENANCE_TYPES,
+  maintenanceReminderSchema,
+  type MaintenanceReminderFormData,
+} from '@/lib/validations/maintenance';
+import type { Bike } from '@/types/garage';
+import { numberFieldProps } from './number-field';
+
+interface ReminderDialogProps {
+  bike: Bike;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReminderDialog({
+  bike,
+  open,
+  onOpenChange,
+}: ReminderDialogProps) {
+  const createReminder = useCreateMaintenanceReminder(bike.id);
+
+  const form = useForm<MaintenanceReminderFormData>({
+    resolver: zodResolver(maintenanceReminderSchema),
+    defaultValues: {},
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) form.reset({});
+    onOpenChange(nextOpen);
+  };
+
+  const onSubmit = async (data: MaintenanceReminderFormData) => {
+    try {
+      await createReminder.mutateAsync(data);
+      handleOpenChange(false);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add a reminder</DialogTitle>
+          <DialogDescription>
+            We&apos;ll notify you when it&apos;s due, counting from the last
+            time it was logged. Set a distance, a time or both - whichever comes
+            first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger aria-label="Type">
+                        <SelectValue placeholder="Pick one" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MAINTENANCE_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {MAINTENANCE_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="intervalKm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Every (km)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="5000" {...numberFieldProps(field)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="intervalMonths"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Every (months)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="12" {...numberFieldProps(field)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createReminder.isPending}>
+                {createReminder.isPending && (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                )}
+                Save reminder
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
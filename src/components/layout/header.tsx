@@ -9,6 +9,7 @@ import {
   Menu,
   LogOut,
   User,
+  Bookmark,
   Settings,
   HelpCircle,
 } from 'lucide-react';
@@ -125,6 +126,10 @@ export function Header({ onMenuClick, className }: HeaderProps) {
               <User className="mr-2 h-4 w-4" />
               <span>Profile</span>
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => router.push('/bookmarks')}>
+              <Bookmark className="mr-2 h-4 w-4" />
+              <span>Bookmarks</span>
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={() => router.push('/settings')}>
               <Settings className="mr-2 h-4 w-4" />
               <span>Settings</span>
@@ -6,6 +6,7 @@ import { useSession } from 'next-auth/react';
 import { Home, Compass, Plus, Mail, User } from 'lucide-react';
 
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useUIStore } from '@/stores/ui-store';
 import { cn } from '@/lib/utils';
 
 const navItems = [
@@ -23,6 +24,7 @@ interface MobileNavProps {
 export function MobileNav({ className }: MobileNavProps) {
   const pathname = usePathname();
   const { data: session } = useSession();
+  const setCreatePostOpen = useUIStore((state) => state.setCreatePostOpen);
 
   const user = session?.user;
   const initials = user?.name
@@ -50,6 +52,11 @@ export function MobileNav({ className }: MobileNavProps) {
               <Link
                 key={item.href}
                 href={item.href}
+                onClick={(event) => {
+                  // Open the composer in place instead of navigating
+                  event.preventDefault();
+                  setCreatePostOpen(true);
+                }}
                 className="flex flex-col items-center justify-center"
               >
                 <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary text-primary-foreground shadow-lg">
@@ -0,0 +1,33 @@
+'use client';
+
+import { formatConvertedPrice } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+import { useUIStore } from '@/stores/ui-store';
+
+interface ConvertedPriceProps {
+  price: number;
+  currency: string;
+  className?: string;
+}
+
+// Approximate price in the viewer's display currency, shown next to the
+// original. Renders nothing when the listing is already in that currency.
+export function ConvertedPrice({
+  price,
+  currency,
+  className,
+}: ConvertedPriceProps) {
+  const displayCurrency = useUIStore((state) => state.displayCurrency);
+  const converted = formatConvertedPrice(price, currency, displayCurrency);
+
+  if (!converted) return null;
+
+  return (
+    <span
+      className={cn('text-xs font-normal text-muted-foreground', className)}
+      title={`Approximate price in ${displayCurrency}`}
+    >
+      {converted}
+    </span>
+  );
+}
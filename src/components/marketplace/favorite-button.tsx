@@ -0,0 +1,37 @@
+'use client';
+
+import { Heart } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { useFavoriteListing } from '@/lib/api/hooks/use-marketplace';
+import { cn } from '@/lib/utils';
+import type { Listing } from '@/types/marketplace';
+
+interface FavoriteButtonProps {
+  listing: Listing;
+  className?: string;
+}
+
+export function FavoriteButton({ listing, className }: FavoriteButtonProps) {
+  const favoriteListing = useFavoriteListing();
+  const isFavorited = !!listing.isFavorited;
+
+  return (
+    <Button
+      variant="outline"
+      onClick={() =>
+        favoriteListing.mutate({
+          listingId: listing.id,
+          favorited: !isFavorited,
+        })
+      }
+      aria-pressed={isFavorited}
+      className={className}
+    >
+      <Heart
+        className={cn('size-4', isFavorited && 'fill-red-500 text-red-500')}
+      />
+      {isFavorited ? 'Saved' : 'Save'}
+    </Button>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { Heart, ImageIcon, TrendingDown } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useRemoveFavorite } from '@/lib/api/hooks/use-marketplace';
+import {
+  formatPrice,
+  getFavoriteUnavailableReason,
+  getPriceDrop,
+} from '@/lib/marketplace';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { Favorite } from '@/types/marketplace';
+
+interface FavoriteCardProps {
+  favorite: Favorite;
+  className?: string;
+}
+
+// Grid card on the favorites page. Sold or removed listings stay on the page,
+// greyed out, until they're removed from favorites.
+export function FavoriteCard({ favorite, className }: FavoriteCardProps) {
+  const removeFavorite = useRemoveFavorite();
+  const { listing } = favorite;
+  const title = listing?.title ?? favorite.title;
+  const image = listing?.images[0] ?? favorite.image;
+  const unavailableReason = getFavoriteUnavailableReason(favorite);
+  const priceDrop = unavailableReason ? 0 : getPriceDrop(favorite);
+
+  const content = (
+    <>
+      <div className="relative aspect-square bg-muted">
+        {image ? (
+          <Image
+            src={image}
+            alt={title}
+            fill
+            sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+            className={cn('object-cover', unavailableReason && 'grayscale')}
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <ImageIcon className="size-10 text-muted-foreground" />
+          </div>
+        )}
+        {unavailableReason ? (
+          <Badge variant="secondary" className="absolute left-3 top-3 text-xs">
+            {unavailableReason}
+          </Badge>
+        ) : (
+          priceDrop > 0 && (
+            <Badge className="absolute left-3 top-3 gap-1 bg-green-600 text-xs text-white hover:bg-green-600">
+              <TrendingDown className="size-3" />
+              Price dropped by {formatPrice(priceDrop, favorite.currency)}
+            </Badge>
+          )
+        )}
+      </div>
+
+      <div className="space-y-1 p-4">
+        <p className="flex items-baseline gap-2">
+          <span className="text-lg font-semibold text-primary">
+            {formatPrice(
+              listing?.price ?? favorite.priceAtFavorite,
+              listing?.currency ?? favorite.currency
+            )}
+          </span>
+          {priceDrop > 0 && (
+            <span className="text-sm text-muted-foreground line-through">
+              {formatPrice(favorite.priceAtFavorite, favorite.currency)}
+            </span>
+          )}
+        </p>
+        <h3 className="truncate font-medium">{title}</h3>
+        <p className="pt-1 text-xs text-muted-foreground">
+          Saved {formatRelativeTime(favorite.favoritedAt)}
+        </p>
+      </div>
+    </>
+  );
+
+  return (
+    <div
+      className={cn(
+        'relative overflow-hidden rounded-2xl border border-border/50 bg-card shadow-sm',
+        unavailableReason && 'opacity-60',
+        className
+      )}
+    >
+      {listing ? (
+        <Link
+          href={`/marketplace/${listing.id}`}
+          className="block transition-shadow hover:shadow-md"
+        >
+          {content}
+        </Link>
+      ) : (
+        content
+      )}
+      <Button
+        variant="secondary"
+        size="icon"
+        className="absolute right-3 top-3 size-8 rounded-full shadow-sm"
+        onClick={() => removeFavorite.mutate(favorite.listingId)}
+        disabled={removeFavorite.isPending}
+        aria-label={`Remove ${title} from favorites`}
+      >
+        <Heart className="size-4 fill-red-500 text-red-500" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+export { ListingCard } from './listing-card';
+export {
+  ListingFiltersSheet,
+  ActiveListingFilters,
+  countActiveFilters,
+} from './listing-filters';
+export { ListingPreview } from './listing-preview';
+export { ListingWizard } from './listing-wizard';
+export { ListingGallery } from './listing-gallery';
+export { ZoomableImage } from './zoomable-image';
+export { FavoriteButton } from './favorite-button';
+export { ListingStatusBadge, SoldRibbon } from './listing-status';
+export { ListingOwnerMenu, ListingRenewNotice } from './listing-owner-menu';
+export { OfferDialog } from './offer-dialog';
+export { OfferTimeline } from './offer-timeline';
+export { OfferCard } from './offer-card';
+export { ListingOffers } from './listing-offers';
+export { FavoriteCard } from './favorite-card';
+export { ConvertedPrice } from './converted-price';
+export { MarkSoldDialog } from './mark-sold-dialog';
+export { StarRating, StarRatingInput } from './star-rating';
+export { RateTransactionDialog } from './rate-transaction-dialog';
+export { ListingRatings } from './listing-ratings';
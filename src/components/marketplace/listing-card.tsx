@@ -0,0 +1,95 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { ImageIcon, MapPin } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  CONDITION_COLORS,
+  CONDITION_LABELS,
+  formatPrice,
+} from '@/lib/marketplace';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { Listing } from '@/types/marketplace';
+import { ConvertedPrice } from './converted-price';
+import { ListingStatusBadge, SoldRibbon } from './listing-status';
+
+interface ListingCardProps {
+  listing: Listing;
+  className?: string;
+}
+
+// Grid card used when browsing the marketplace
+export function ListingCard({ listing, className }: ListingCardProps) {
+  const [firstImage] = listing.images ?? [];
+  const isSold = listing.status === 'sold';
+
+  return (
+    <Link
+      href={`/marketplace/${listing.id}`}
+      className={cn(
+        'group block overflow-hidden rounded-2xl border border-border/50 bg-card shadow-sm transition-shadow hover:shadow-md',
+        className
+      )}
+    >
+      <div className="relative aspect-square bg-muted">
+        {firstImage ? (
+          <Image
+            src={firstImage}
+            alt={listing.title}
+            fill
+            sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+            className={cn(
+              'object-cover transition-transform group-hover:scale-105',
+              isSold && 'grayscale'
+            )}
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <ImageIcon className="size-10 text-muted-foreground" />
+          </div>
+        )}
+        <Badge
+          variant="secondary"
+          className={cn(
+            'absolute left-3 top-3 text-xs',
+            CONDITION_COLORS[listing.condition]
+          )}
+        >
+          {CONDITION_LABELS[listing.condition]}
+        </Badge>
+        {listing.status === 'reserved' && (
+          <ListingStatusBadge
+            status="reserved"
+            className="absolute right-3 top-3"
+          />
+        )}
+        {isSold && <SoldRibbon />}
+      </div>
+
+      <div className="space-y-1 p-4">
+        <p className="flex flex-wrap items-baseline gap-x-2">
+          <span className="text-lg font-semibold text-primary">
+            {formatPrice(listing.price, listing.currency)}
+          </span>
+          <ConvertedPrice price={listing.price} currency={listing.currency} />
+        </p>
+        <h3 className="truncate font-medium">{listing.title}</h3>
+        <div className="flex items-center justify-between gap-2 pt-1 text-xs text-muted-foreground">
+          {listing.location ? (
+            <span className="flex min-w-0 items-center gap-1">
+              <MapPin className="size-3 shrink-0" />
+              <span className="truncate">{listing.location}</span>
+            </span>
+          ) : (
+            <span />
+          )}
+          <span className="shrink-0">
+            {formatRelativeTime(listing.createdAt)}
+          </span>
+        </div>
+      </div>
+    </Link>
+  );
+}
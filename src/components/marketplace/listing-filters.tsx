@@ -0,0 +1,328 @@
+'use client';
+
+import { useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { CONDITION_LABELS, LISTING_CONDITIONS } from '@/lib/marketplace';
+import type {
+  ListingCondition,
+  ListingFilters,
+  MarketplaceCategory,
+} from '@/types/marketplace';
+
+// Radix Select doesn't allow empty values, so "any" stands in for no filter
+const ANY = 'any';
+
+// The filters that live in the sheet; search and sort sit on the page itself
+type SheetFilters = Pick<
+  ListingFilters,
+  'category' | 'condition' | 'minPrice' | 'maxPrice' | 'location'
+>;
+
+const SHEET_FILTER_KEYS: (keyof SheetFilters)[] = [
+  'category',
+  'condition',
+  'minPrice',
+  'maxPrice',
+  'location',
+];
+
+export function countActiveFilters(filters: ListingFilters): number {
+  return SHEET_FILTER_KEYS.filter((key) => filters[key] !== undefined).length;
+}
+
+interface ListingFiltersSheetProps {
+  filters: ListingFilters;
+  categories: MarketplaceCategory[];
+  onApply: (filters: ListingFilters) => void;
+}
+
+export function ListingFiltersSheet({
+  filters,
+  categories,
+  onApply,
+}: ListingFiltersSheetProps) {
+  const [open, setOpen] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <SlidersHorizontal className="size-4" />
+          Filters
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="ml-1 h-5 px-1.5">
+              {activeCount}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-sm">
+        <SheetHeader>
+          <SheetTitle>Filter listings</SheetTitle>
+          <SheetDescription>
+            Narrow down what you&apos;re looking for
+          </SheetDescription>
+        </SheetHeader>
+        {/* Only mounted while open, so the draft starts from the current filters */}
+        <FiltersForm
+          filters={filters}
+          categories={categories}
+          onApply={(next) => {
+            onApply(next);
+            setOpen(false);
+          }}
+        />
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+interface FiltersFormProps {
+  filters: ListingFilters;
+  categories: MarketplaceCategory[];
+  onApply: (filters: ListingFilters) => void;
+}
+
+function FiltersForm({ filters, categories, onApply }: FiltersFormProps) {
+  const [category, setCategory] = useState(filters.category ?? ANY);
+  const [condition, setCondition] = useState<string>(filters.condition ?? ANY);
+  const [minPrice, setMinPrice] = useState(filters.minPrice?.toString() ?? '');
+  const [maxPrice, setMaxPrice] = useState(filters.maxPrice?.toString() ?? '');
+  const [location, setLocation] = useState(filters.location ?? '');
+
+  const min = minPrice === '' ? undefined : Number(minPrice);
+  const max = maxPrice === '' ? undefined : Number(maxPrice);
+  const priceError =
+    min !== undefined && max !== undefined && min > max
+      ? "Min price can't be more than max price"
+      : null;
+
+  const handleClear = () => {
+    setCategory(ANY);
+    setCondition(ANY);
+    setMinPrice('');
+    setMaxPrice('');
+    setLocation('');
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (priceError) return;
+
+    onApply({
+      ...filters,
+      category: category === ANY ? undefined : category,
+      condition:
+        condition === ANY ? undefined : (condition as ListingCondition),
+      minPrice: min,
+      maxPrice: max,
+      location: location.trim() || undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-1 flex-col">
+      <div className="flex-1 space-y-6 overflow-y-auto px-4">
+        <div className="space-y-2">
+          <Label htmlFor="filter-category">Category</Label>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger id="filter-category" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All categories</SelectItem>
+              {categories.map((item) => (
+                <SelectItem key={item.id} value={item.slug}>
+                  {item.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-condition">Condition</Label>
+          <Select value={condition} onValueChange={setCondition}>
+            <SelectTrigger id="filter-condition" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any condition</SelectItem>
+              {LISTING_CONDITIONS.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-min-price">Price</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="filter-min-price"
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={minPrice}
+              onChange={(e) => setMinPrice(e.target.value)}
+              placeholder="Min"
+              aria-label="Min price"
+            />
+            <span className="text-muted-foreground">-</span>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+              placeholder="Max"
+              aria-label="Max price"
+            />
+          </div>
+          {priceError && (
+            <p className="text-sm text-destructive">{priceError}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-location">Location</Label>
+          <Input
+            id="filter-location"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="City or region"
+          />
+        </div>
+      </div>
+
+      <SheetFooter className="flex-row">
+        <Button
+          type="button"
+          variant="outline"
+          className="flex-1"
+          onClick={handleClear}
+        >
+          Clear
+        </Button>
+        <Button type="submit" className="flex-1" disabled={!!priceError}>
+          Apply
+        </Button>
+      </SheetFooter>
+    </form>
+  );
+}
+
+interface ActiveListingFiltersProps {
+  filters: ListingFilters;
+  categories: MarketplaceCategory[];
+  onChange: (filters: ListingFilters) => void;
+}
+
+// Removable chips for each applied filter
+export function ActiveListingFilters({
+  filters,
+  categories,
+  onChange,
+}: ActiveListingFiltersProps) {
+  const chips: {
+    key: string;
+    label: string;
+    remove: Partial<ListingFilters>;
+  }[] = [];
+
+  if (filters.category) {
+    const name = categories.find(
+      (item) => item.slug === filters.category
+    )?.name;
+    chips.push({
+      key: 'category',
+      label: name ?? filters.category,
+      remove: { category: undefined },
+    });
+  }
+  if (filters.condition) {
+    chips.push({
+      key: 'condition',
+      label: CONDITION_LABELS[filters.condition],
+      remove: { condition: undefined },
+    });
+  }
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    const { minPrice, maxPrice } = filters;
+    chips.push({
+      key: 'price',
+      label:
+        minPrice !== undefined && maxPrice !== undefined
+          ? `${minPrice} - ${maxPrice}`
+          : minPrice !== undefined
+            ? `From ${minPrice}`
+            : `Up to ${maxPrice}`,
+      remove: { minPrice: undefined, maxPrice: undefined },
+    });
+  }
+  if (filters.location) {
+    chips.push({
+      key: 'location',
+      label: filters.location,
+      remove: { location: undefined },
+    });
+  }
+
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {chips.map((chip) => (
+        <Badge
+          key={chip.key}
+          variant="secondary"
+          className="gap-1 py-1 pl-2.5 pr-1"
+        >
+          {chip.label}
+          <button
+            type="button"
+            onClick={() => onChange({ ...filters, ...chip.remove })}
+            className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+            aria-label={`Remove ${chip.label} filter`}
+          >
+            <X className="size-3" />
+          </button>
+        </Badge>
+      ))}
+      {chips.length > 1 && (
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto px-1"
+          onClick={() => onChange({ q: filters.q, sort: filters.sort })}
+        >
+          Clear all
+        </Button>
+      )}
+    </div>
+  );
+}
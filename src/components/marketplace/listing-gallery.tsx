@@ -0,0 +1,280 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import { ChevronLeft, ChevronRight, Expand, ImageIcon, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { SoldRibbon } from './listing-status';
+import { ZoomableImage } from './zoomable-image';
+
+interface ListingGalleryProps {
+  images: string[];
+  title: string;
+  isSold?: boolean;
+  className?: string;
+}
+
+// Photo gallery on the listing page; opens a fullscreen zoomable viewer
+export function ListingGallery({
+  images,
+  title,
+  isSold = false,
+  className,
+}: ListingGalleryProps) {
+  const [index, setIndex] = useState(0);
+  const [isViewerOpen, setIsViewerOpen] = useState(false);
+  const currentImage = images[index];
+
+  if (!currentImage) {
+    return (
+      <div
+        className={cn(
+          'relative flex aspect-[4/3] items-center justify-center rounded-2xl bg-muted',
+          className
+        )}
+      >
+        <ImageIcon className="size-12 text-muted-foreground" />
+        {isSold && <SoldRibbon />}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="group relative aspect-[4/3] overflow-hidden rounded-2xl bg-muted">
+        <button
+          type="button"
+          onClick={() => setIsViewerOpen(true)}
+          className="absolute inset-0 cursor-zoom-in"
+          aria-label="Open fullscreen gallery"
+        >
+          <Image
+            src={currentImage}
+            alt={`${title} photo ${index + 1}`}
+            fill
+            priority
+            sizes="(min-width: 1024px) 60vw, 100vw"
+            className="object-cover"
+          />
+        </button>
+
+        {isSold && <SoldRibbon />}
+
+        <span className="pointer-events-none absolute left-3 top-3 flex items-center gap-1.5 rounded-full bg-black/50 px-2.5 py-1 text-xs text-white">
+          <Expand className="size-3.5" />
+          {index + 1} / {images.length}
+        </span>
+
+        <GalleryArrows
+          index={index}
+          count={images.length}
+          onIndexChange={setIndex}
+          className="opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100"
+        />
+      </div>
+
+      {images.length > 1 && (
+        <GalleryThumbnails
+          images={images}
+          title={title}
+          index={index}
+          onIndexChange={setIndex}
+        />
+      )}
+
+      <GalleryViewer
+        images={images}
+        title={title}
+        index={index}
+        onIndexChange={setIndex}
+        open={isViewerOpen}
+        onOpenChange={setIsViewerOpen}
+      />
+    </div>
+  );
+}
+
+interface GalleryArrowsProps {
+  index: number;
+  count: number;
+  onIndexChange: (index: number) => void;
+  className?: string;
+}
+
+function GalleryArrows({
+  index,
+  count,
+  onIndexChange,
+  className,
+}: GalleryArrowsProps) {
+  if (count < 2) return null;
+
+  return (
+    <div className={className}>
+      {index > 0 && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onIndexChange(index - 1)}
+          className="absolute left-3 top-1/2 -translate-y-1/2 rounded-full bg-black/50 text-white hover:bg-black/70 hover:text-white"
+          aria-label="Previous photo"
+        >
+          <ChevronLeft className="size-6" />
+        </Button>
+      )}
+      {index < count - 1 && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onIndexChange(index + 1)}
+          className="absolute right-3 top-1/2 -translate-y-1/2 rounded-full bg-black/50 text-white hover:bg-black/70 hover:text-white"
+          aria-label="Next photo"
+        >
+          <ChevronRight className="size-6" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface GalleryThumbnailsProps {
+  images: string[];
+  title: string;
+  index: number;
+  onIndexChange: (index: number) => void;
+  className?: string;
+}
+
+function GalleryThumbnails({
+  images,
+  title,
+  index,
+  onIndexChange,
+  className,
+}: GalleryThumbnailsProps) {
+  return (
+    <div className={cn('flex gap-2 overflow-x-auto pb-1', className)}>
+      {images.map((image, i) => (
+        <button
+          key={image}
+          type="button"
+          onClick={() => onIndexChange(i)}
+          aria-label={`Show photo ${i + 1}`}
+          aria-current={i === index ? 'true' : undefined}
+          className={cn(
+            'relative size-16 shrink-0 overflow-hidden rounded-md bg-muted opacity-60 ring-offset-background transition-opacity hover:opacity-100',
+            i === index && 'opacity-100 ring-2 ring-primary ring-offset-2'
+          )}
+        >
+          <Image
+            src={image}
+            alt={`${title} thumbnail ${i + 1}`}
+            fill
+            sizes="64px"
+            className="object-cover"
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface GalleryViewerProps {
+  images: string[];
+  title: string;
+  index: number;
+  onIndexChange: (index: number) => void;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function GalleryViewer({
+  images,
+  title,
+  index,
+  onIndexChange,
+  open,
+  onOpenChange,
+}: GalleryViewerProps) {
+  const currentImage = images[index];
+
+  const showPrevious = useCallback(() => {
+    if (index > 0) onIndexChange(index - 1);
+  }, [index, onIndexChange]);
+
+  const showNext = useCallback(() => {
+    if (index < images.length - 1) onIndexChange(index + 1);
+  }, [index, images.length, onIndexChange]);
+
+  // Arrow key navigation
+  useEffect(() => {
+    if (!open) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowLeft') showPrevious();
+      if (event.key === 'ArrowRight') showNext();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, showPrevious, showNext]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        showCloseButton={false}
+        className="flex h-[100dvh] max-w-none flex-col gap-0 rounded-none border-none bg-black/95 p-0 sm:max-w-none"
+      >
+        <DialogTitle className="sr-only">{title}</DialogTitle>
+        <DialogDescription className="sr-only">
+          Photo {index + 1} of {images.length}. Scroll, pinch or double click to
+          zoom.
+        </DialogDescription>
+
+        <div className="relative min-h-0 flex-1">
+          {currentImage && (
+            <ZoomableImage
+              key={currentImage}
+              src={currentImage}
+              alt={`${title} photo ${index + 1}`}
+            />
+          )}
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onOpenChange(false)}
+            className="absolute right-4 top-4 text-white hover:bg-white/10 hover:text-white"
+            aria-label="Close"
+          >
+            <X className="size-6" />
+          </Button>
+
+          <GalleryArrows
+            index={index}
+            count={images.length}
+            onIndexChange={onIndexChange}
+          />
+        </div>
+
+        {images.length > 1 && (
+          <GalleryThumbnails
+            images={images}
+            title={title}
+            index={index}
+            onIndexChange={onIndexChange}
+            className="justify-center p-4"
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
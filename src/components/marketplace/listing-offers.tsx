@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { HandCoins } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useListingOffers } from '@/lib/api/hooks/use-offers';
+import { isOfferOpen } from '@/lib/marketplace';
+import type { Listing } from '@/types/marketplace';
+import { OfferCard } from './offer-card';
+import { OfferDialog } from './offer-dialog';
+
+interface ListingOffersProps {
+  listing: Listing;
+  currentUserId: string;
+}
+
+// Offers section on a listing. Sellers see every offer they've received;
+// buyers see their own and can make a new one while the listing is active.
+export function ListingOffers({ listing, currentUserId }: ListingOffersProps) {
+  const { data: offers = [], isLoading } = useListingOffers(listing.id);
+  const [offerOpen, setOfferOpen] = useState(false);
+
+  const isSeller = listing.seller.id === currentUserId;
+  // Open offers first, then most recently updated
+  const sortedOffers = [...offers].sort(
+    (a, b) =>
+      Number(isOfferOpen(b)) - Number(isOfferOpen(a)) ||
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+  const canMakeOffer =
+    !isSeller &&
+    listing.status === 'active' &&
+    !offers.some((offer) => isOfferOpen(offer));
+
+  // Buyers only get the section once there's something to do or show
+  if (!isSeller && !canMakeOffer && offers.length === 0 && !isLoading) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{isSeller ? 'Offers' : 'Your offers'}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canMakeOffer && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => setOfferOpen(true)}
+          >
+            <HandCoins className="size-4" />
+            Make an offer
+          </Button>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full rounded-lg" />
+        ) : sortedOffers.length === 0 ? (
+          isSeller && (
+            <p className="text-sm text-muted-foreground">
+              No offers yet. Buyers can offer a price and you can accept,
+              decline or counter.
+            </p>
+          )
+        ) : (
+          sortedOffers.map((offer) => (
+            <OfferCard
+              key={offer.id}
+              offer={offer}
+              listing={listing}
+              currentUserId={currentUserId}
+            />
+          ))
+        )}
+
+        {!isSeller && (
+          <OfferDialog
+            listing={listing}
+            open={offerOpen}
+            onOpenChange={setOfferOpen}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  CheckCircle2,
+  Clock,
+  MoreHorizontal,
+  Pencil,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ConfirmDialog } from '@/components/shared/confirm-dialog';
+import {
+  useDeleteListing,
+  useRenewListing,
+  useUpdateListingStatus,
+} from '@/lib/api/hooks/use-marketplace';
+import {
+  LISTING_STATUSES,
+  STATUS_ACTION_LABELS,
+  canChangeStatus,
+  canRenewListing,
+} from '@/lib/marketplace';
+import { formatRelativeTime } from '@/lib/utils';
+import type { Listing, ListingStatus } from '@/types/marketplace';
+import { MarkSoldDialog } from './mark-sold-dialog';
+
+const STATUS_ICONS: Partial<Record<ListingStatus, typeof Clock>> = {
+  active: RotateCcw,
+  reserved: Clock,
+  sold: CheckCircle2,
+};
+
+interface ListingOwnerMenuProps {
+  listing: Listing;
+  onDeleted?: () => void;
+}
+
+// Status changes, renewing and deleting for the listing's seller
+export function ListingOwnerMenu({
+  listing,
+  onDeleted,
+}: ListingOwnerMenuProps) {
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [markSoldOpen, setMarkSoldOpen] = useState(false);
+  const updateStatus = useUpdateListingStatus();
+  const renewListing = useRenewListing();
+  const deleteListing = useDeleteListing();
+
+  const statuses = LISTING_STATUSES.map(({ value }) => value).filter((status) =>
+    canChangeStatus(listing, status)
+  );
+  const canRenew = canRenewListing(listing);
+
+  const handleDelete = async () => {
+    await deleteListing.mutateAsync(listing.id);
+    onDeleted?.();
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 text-muted-foreground"
+            aria-label="Listing options"
+          >
+            <MoreHorizontal className="size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuItem asChild>
+            <Link href={`/marketplace/${listing.id}/edit`}>
+              <Pencil className="size-4" />
+              {listing.status === 'draft' ? 'Continue editing' : 'Edit listing'}
+            </Link>
+          </DropdownMenuItem>
+          {canRenew && (
+            <DropdownMenuItem onClick={() => renewListing.mutate(listing.id)}>
+              <RefreshCw className="size-4" />
+              Renew
+            </DropdownMenuItem>
+          )}
+          {statuses.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              {statuses.map((status) => {
+                const Icon = STATUS_ICONS[status] ?? Clock;
+                return (
+                  <DropdownMenuItem
+                    key={status}
+                    onClick={() =>
+                      status === 'sold'
+                        ? setMarkSoldOpen(true)
+                        : updateStatus.mutate({ id: listing.id, status })
+                    }
+                  >
+                    <Icon className="size-4" />
+                    {STATUS_ACTION_LABELS[status]}
+                  </DropdownMenuItem>
+                );
+              })}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setDeleteOpen(true)}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="size-4" />
+            Delete listing
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <MarkSoldDialog
+        listing={listing}
+        open={markSoldOpen}
+        onOpenChange={setMarkSoldOpen}
+      />
+
+      <ConfirmDialog
+        open={deleteOpen}
+        onOpenChange={setDeleteOpen}
+        title="Delete listing?"
+        description="This will permanently remove your listing. If it sold, mark it as sold instead so buyers can still see it."
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+    </>
+  );
+}
+
+// Expiry warning with a renew button, shown to the seller on the listing page
+export function ListingRenewNotice({ listing }: { listing: Listing }) {
+  const renewListing = useRenewListing();
+
+  if (!canRenewListing(listing)) return null;
+
+  const isExpired = listing.status === 'expired';
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-dashed bg-muted/40 px-4 py-3 text-sm">
+      <Clock className="size-4 shrink-0 text-muted-foreground" />
+      <p className="flex-1">
+        {isExpired
+          ? 'This listing has expired and is hidden from buyers.'
+          : `This listing expires ${formatRelativeTime(listing.expiresAt!)}.`}
+      </p>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => renewListing.mutate(listing.id)}
+        disabled={renewListing.isPending}
+      >
+        Renew
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import Image from 'next/image';
+import { ImageIcon, MapPin, Tag } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  CONDITION_COLORS,
+  CONDITION_LABELS,
+  formatPrice,
+} from '@/lib/marketplace';
+import { cn } from '@/lib/utils';
+import type { ListingFormData } from '@/lib/validations/listing';
+
+interface ListingPreviewProps {
+  listing: ListingFormData;
+  categoryName?: string;
+  className?: string;
+}
+
+// How a listing will look to buyers, shown before publishing
+export function ListingPreview({
+  listing,
+  categoryName,
+  className,
+}: ListingPreviewProps) {
+  const [cover, ...rest] = listing.images;
+
+  return (
+    <div className={cn('overflow-hidden rounded-2xl border', className)}>
+      <div className="relative aspect-[4/3] bg-muted">
+        {cover ? (
+          <Image
+            src={cover}
+            alt={listing.title}
+            fill
+            sizes="(min-width: 768px) 640px, 100vw"
+            className="object-cover"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <ImageIcon className="size-10 text-muted-foreground" />
+          </div>
+        )}
+      </div>
+
+      {rest.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto p-3 pb-0">
+          {rest.map((image, index) => (
+            <div
+              key={image}
+              className="relative size-16 shrink-0 overflow-hidden rounded-md bg-muted"
+            >
+              <Image
+                src={image}
+                alt={`${listing.title} photo ${index + 2}`}
+                fill
+                sizes="64px"
+                className="object-cover"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3 p-4">
+        <div>
+          <p className="text-2xl font-bold text-primary">
+            {formatPrice(listing.price, listing.currency)}
+          </p>
+          <h2 className="text-lg font-semibold">{listing.title}</h2>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <Badge
+            variant="secondary"
+            className={CONDITION_COLORS[listing.condition]}
+          >
+            {CONDITION_LABELS[listing.condition]}
+          </Badge>
+          {categoryName && (
+            <span className="flex items-center gap-1">
+              <Tag className="size-3.5" />
+              {categoryName}
+            </span>
+          )}
+          <span className="flex items-center gap-1">
+            <MapPin className="size-3.5" />
+            {listing.location}
+          </span>
+        </div>
+
+        <p className="whitespace-pre-wrap break-words text-sm">
+          {listing.description}
+        </p>
+      </div>
+    </div>
+  );
+}
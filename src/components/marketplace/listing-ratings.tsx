@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { useListingRatings } from '@/lib/api/hooks/use-ratings';
+import { getRatingRole } from '@/lib/marketplace';
+import { formatRelativeTime } from '@/lib/utils';
+import type { Listing, TransactionRating } from '@/types/marketplace';
+import { RateTransactionDialog } from './rate-transaction-dialog';
+import { StarRating } from './star-rating';
+
+interface ListingRatingsProps {
+  listing: Listing;
+  currentUserId?: string;
+}
+
+// Ratings the buyer and seller left each other once a listing sold. Either
+// side gets a button to rate the other until they have.
+export function ListingRatings({
+  listing,
+  currentUserId,
+}: ListingRatingsProps) {
+  const [rateOpen, setRateOpen] = useState(false);
+  const isRateable = listing.status === 'sold' && !!listing.buyer;
+  const { data: ratings = [], isLoading } = useListingRatings(listing.id, {
+    enabled: isRateable,
+  });
+
+  const role = getRatingRole(listing, currentUserId);
+  const hasRated = ratings.some((rating) => rating.rater.id === currentUserId);
+  const canRate = !!role && !isLoading && !hasRated;
+  const ratee = role === 'buyer' ? listing.seller : listing.buyer;
+
+  if (!isRateable || (!role && !isLoading && ratings.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ratings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canRate && ratee && (
+          <>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setRateOpen(true)}
+            >
+              <Star className="size-4" />
+              Rate the {role === 'buyer' ? 'seller' : 'buyer'}
+            </Button>
+            <RateTransactionDialog
+              listing={listing}
+              role={role}
+              ratee={ratee}
+              open={rateOpen}
+              onOpenChange={setRateOpen}
+            />
+          </>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-20 w-full rounded-lg" />
+        ) : ratings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No ratings yet. Ratings count towards each other&apos;s reputation
+            on the marketplace.
+          </p>
+        ) : (
+          ratings.map((rating) => (
+            <RatingItem key={rating.id} rating={rating} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RatingItem({ rating }: { rating: TransactionRating }) {
+  return (
+    <div className="flex gap-3">
+      <UserAvatar user={rating.rater} size="sm" linkToProfile />
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className="text-sm">
+          <span className="font-medium">{rating.rater.fullName}</span>{' '}
+          <span className="text-muted-foreground">
+            rated the {rating.role === 'buyer' ? 'seller' : 'buyer'} ·{' '}
+            {formatRelativeTime(rating.createdAt)}
+          </span>
+        </p>
+        <StarRating value={rating.score} />
+        {rating.review && (
+          <p className="whitespace-pre-wrap break-words text-sm">
+            {rating.review}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
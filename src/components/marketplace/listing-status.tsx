@@ -0,0 +1,39 @@
+import { Badge } from '@/components/ui/badge';
+import { STATUS_COLORS, STATUS_LABELS } from '@/lib/marketplace';
+import { cn } from '@/lib/utils';
+import type { ListingStatus } from '@/types/marketplace';
+
+interface ListingStatusBadgeProps {
+  status: ListingStatus;
+  className?: string;
+}
+
+export function ListingStatusBadge({
+  status,
+  className,
+}: ListingStatusBadgeProps) {
+  return (
+    <Badge
+      variant="secondary"
+      className={cn('text-xs', STATUS_COLORS[status], className)}
+    >
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+// Corner ribbon over a sold listing's photo. The parent must be `relative`.
+export function SoldRibbon({ className }: { className?: string }) {
+  return (
+    <div
+      className={cn(
+        'pointer-events-none absolute inset-0 overflow-hidden',
+        className
+      )}
+    >
+      <span className="absolute right-[-40px] top-5 w-40 rotate-45 bg-red-600 py-1 text-center text-xs font-bold uppercase tracking-widest text-white shadow-md">
+        Sold
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,558 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm, type FieldErrors } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Check, History, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { MultiImageUpload } from '@/components/upload/multi-image-upload';
+import { useDraft } from '@/hooks/use-draft';
+import { useMounted } from '@/hooks/use-mounted';
+import { useMultiImageUpload } from '@/hooks/use-image-upload';
+import {
+  useCreateListing,
+  useMarketplaceCategories,
+  useUpdateListing,
+} from '@/lib/api/hooks/use-marketplace';
+import { getBikeListingValues } from '@/lib/garage';
+import { LISTING_CONDITIONS } from '@/lib/marketplace';
+import {
+  LISTING_CURRENCIES,
+  LISTING_DESCRIPTION_MAX_LENGTH,
+  LISTING_MAX_IMAGES,
+  LISTING_STEP_FIELDS,
+  listingSchema,
+  type ListingFormData,
+  type ListingStep,
+} from '@/lib/validations/listing';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { Bike } from '@/types/garage';
+import type { Listing } from '@/types/marketplace';
+import { ListingPreview } from './listing-preview';
+
+const STEPS: { id: ListingStep; label: string }[] = [
+  { id: 'category', label: 'Category' },
+  { id: 'details', label: 'Details' },
+  { id: 'photos', label: 'Photos' },
+  { id: 'location', label: 'Location' },
+  { id: 'preview', label: 'Preview' },
+];
+
+interface ListingDraft {
+  values: Partial<ListingFormData>;
+  step: ListingStep;
+}
+
+function toFormValues(listing?: Listing): Partial<ListingFormData> {
+  if (!listing) {
+    return {
+      category: '',
+      title: '',
+      description: '',
+      currency: 'GEL',
+      images: [],
+      location: '',
+    };
+  }
+
+  return {
+    category: listing.category,
+    title: listing.title,
+    description: listing.description,
+    price: listing.price,
+    currency:
+      LISTING_CURRENCIES.find((currency) => currency === listing.currency) ??
+      'GEL',
+    condition: listing.condition,
+    images: listing.images,
+    location: listing.location ?? '',
+  };
+}
+
+interface ListingWizardProps {
+  // Editing an existing listing; omitted when creating one
+  listing?: Listing;
+  // Garage bike being sold, used to pre-fill a new listing
+  bike?: Bike;
+}
+
+export function ListingWizard(props: ListingWizardProps) {
+  const isMounted = useMounted();
+
+  // The form starts from a localStorage draft, which the server can't see
+  if (!isMounted) return null;
+
+  return <ListingWizardForm {...props} />;
+}
+
+function ListingWizardForm({ listing, bike }: ListingWizardProps) {
+  const router = useRouter();
+  const isEditing = !!listing;
+  const initialValues = {
+    ...toFormValues(listing),
+    ...(!listing && bike && getBikeListingValues(bike)),
+  };
+
+  const { restoredDraft, saveDraft, clearDraft } = useDraft<ListingDraft>(
+    `listing-draft:${listing?.id ?? (bike ? `bike-${bike.id}` : 'new')}`
+  );
+  const [step, setStep] = useState<ListingStep>(
+    () => restoredDraft?.data.step ?? 'category'
+  );
+  const stepRef = useRef(step);
+  // Remount the image uploader after a reset so it drops its previews
+  const [uploaderKey, setUploaderKey] = useState(0);
+
+  const { data: categories, isLoading: isLoadingCategories } =
+    useMarketplaceCategories();
+  const { uploadFiles, isUploading } = useMultiImageUpload();
+  const createListing = useCreateListing();
+  const updateListing = useUpdateListing();
+  const isSubmitting = createListing.isPending || updateListing.isPending;
+
+  const form = useForm<ListingFormData>({
+    resolver: zodResolver(listingSchema),
+    defaultValues: {
+      ...initialValues,
+      ...restoredDraft?.data.values,
+    },
+  });
+
+  // Autosave every change along with the current step
+  useEffect(() => {
+    const subscription = form.watch((values) =>
+      saveDraft({
+        values: values as Partial<ListingFormData>,
+        step: stepRef.current,
+      })
+    );
+    return () => subscription.unsubscribe();
+  }, [form, saveDraft]);
+
+  const stepIndex = STEPS.findIndex((item) => item.id === step);
+
+  const goTo = (next: ListingStep) => {
+    stepRef.current = next;
+    setStep(next);
+    if (form.formState.isDirty) {
+      saveDraft({ values: form.getValues(), step: next });
+    }
+    window.scrollTo({ top: 0 });
+  };
+
+  const handleNext = async () => {
+    const isValid = await form.trigger([...LISTING_STEP_FIELDS[step]]);
+    const next = STEPS[stepIndex + 1];
+    if (isValid && next) goTo(next.id);
+  };
+
+  const handleBack = () => {
+    const previous = STEPS[stepIndex - 1];
+    if (previous) goTo(previous.id);
+  };
+
+  const handleDiscardDraft = () => {
+    clearDraft();
+    form.reset(initialValues);
+    setUploaderKey((key) => key + 1);
+    stepRef.current = 'category';
+    setStep('category');
+  };
+
+  const onSubmit = async (data: ListingFormData) => {
+    try {
+      const saved = listing
+        ? await updateListing.mutateAsync({ id: listing.id, data })
+        : await createListing.mutateAsync(data);
+      clearDraft();
+      router.push(`/marketplace/${saved.id}`);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  // A restored draft can fail on an earlier step - send the user back there
+  const onInvalid = (errors: FieldErrors<ListingFormData>) => {
+    const invalidStep = STEPS.find(({ id }) =>
+      LISTING_STEP_FIELDS[id].some((field) => field in errors)
+    );
+    if (invalidStep) goTo(invalidStep.id);
+  };
+
+  const values = form.watch();
+  const categoryName = categories?.find(
+    (item) => item.slug === values.category
+  )?.name;
+
+  return (
+    <div className="space-y-6">
+      <StepIndicator
+        current={stepIndex}
+        onSelect={(index) => goTo(STEPS[index]!.id)}
+      />
+
+      {restoredDraft && (
+        <div className="flex items-center gap-3 rounded-lg border border-dashed bg-muted/40 px-4 py-3 text-sm">
+          <History className="size-4 shrink-0 text-muted-foreground" />
+          <p className="flex-1">
+            Restored your unsaved changes from{' '}
+            {formatRelativeTime(new Date(restoredDraft.savedAt))}.
+          </p>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={handleDiscardDraft}
+          >
+            Discard
+          </Button>
+        </div>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit, onInvalid)}>
+          <Card>
+            <CardContent className="space-y-6 p-6">
+              {step === 'category' && (
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-base">
+                        What are you selling?
+                      </FormLabel>
+                      {isLoadingCategories ? (
+                        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                          {Array.from({ length: 6 }).map((_, i) => (
+                            <Skeleton key={i} className="h-14 rounded-lg" />
+                          ))}
+                        </div>
+                      ) : (
+                        <div
+                          role="radiogroup"
+                          aria-label="Category"
+                          className="grid grid-cols-2 gap-3 sm:grid-cols-3"
+                        >
+                          {categories?.map((category) => {
+                            const isSelected = field.value === category.slug;
+                            return (
+                              <button
+                                key={category.id}
+                                type="button"
+                                role="radio"
+                                aria-checked={isSelected}
+                                onClick={() => field.onChange(category.slug)}
+                                className={cn(
+                                  'flex h-14 items-center justify-between rounded-lg border px-4 text-left text-sm font-medium transition-colors hover:bg-muted',
+                                  isSelected && 'border-primary bg-primary/5'
+                                )}
+                              >
+                                {category.name}
+                                {isSelected && (
+                                  <Check className="size-4 text-primary" />
+                                )}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {step === 'details' && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Title</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g. Yamaha WR250F 2019"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Description</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="Mileage, service history, what's included..."
+                            className="min-h-32"
+                            maxLength={LISTING_DESCRIPTION_MAX_LENGTH}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-[1fr_auto] gap-3">
+                    <FormField
+                      control={form.control}
+                      name="price"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Price</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              inputMode="decimal"
+                              min={0}
+                              placeholder="0"
+                              name={field.name}
+                              ref={field.ref}
+                              onBlur={field.onBlur}
+                              value={
+                                Number.isFinite(field.value) ? field.value : ''
+                              }
+                              onChange={(e) =>
+                                field.onChange(
+                                  e.target.value === ''
+                                    ? undefined
+                                    : e.target.valueAsNumber
+                                )
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="currency"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Currency</FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={field.onChange}
+                          >
+                            <FormControl>
+                              <SelectTrigger className="w-24">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {LISTING_CURRENCIES.map((currency) => (
+                                <SelectItem key={currency} value={currency}>
+                                  {currency}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="condition"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Condition</FormLabel>
+                        <Select
+                          value={field.value ?? ''}
+                          onValueChange={field.onChange}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue placeholder="Select condition" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {LISTING_CONDITIONS.map((condition) => (
+                              <SelectItem
+                                key={condition.value}
+                                value={condition.value}
+                              >
+                                {condition.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              {step === 'photos' && (
+                <FormField
+                  control={form.control}
+                  name="images"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-base">Photos</FormLabel>
+                      <FormDescription>
+                        Add up to {LISTING_MAX_IMAGES} photos. Drag to reorder -
+                        the first one is the cover.
+                      </FormDescription>
+                      <MultiImageUpload
+                        key={uploaderKey}
+                        value={field.value}
+                        onChange={field.onChange}
+                        onUpload={uploadFiles}
+                        maxFiles={LISTING_MAX_IMAGES}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {step === 'location' && (
+                <FormField
+                  control={form.control}
+                  name="location"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-base">Where is it?</FormLabel>
+                      <FormControl>
+                        <Input placeholder="City or region" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Buyers use this to find listings near them.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {step === 'preview' && (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    This is how buyers will see your listing.
+                  </p>
+                  <ListingPreview
+                    listing={values as ListingFormData}
+                    categoryName={categoryName}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="mt-6 flex items-center justify-between gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleBack}
+              disabled={stepIndex === 0 || isSubmitting}
+            >
+              Back
+            </Button>
+            {step === 'preview' ? (
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                    {isEditing ? 'Saving...' : 'Publishing...'}
+                  </>
+                ) : isEditing ? (
+                  'Save changes'
+                ) : (
+                  'Publish listing'
+                )}
+              </Button>
+            ) : (
+              <Button type="button" onClick={handleNext} disabled={isUploading}>
+                {isUploading ? (
+                  <>
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                    Uploading...
+                  </>
+                ) : (
+                  'Next'
+                )}
+              </Button>
+            )}
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
+
+interface StepIndicatorProps {
+  current: number;
+  onSelect: (index: number) => void;
+}
+
+// Earlier steps can be revisited; later ones unlock by passing validation
+function StepIndicator({ current, onSelect }: StepIndicatorProps) {
+  return (
+    <nav aria-label="Listing steps">
+      <ol className="flex items-center gap-2">
+        {STEPS.map((item, index) => {
+          const isDone = index < current;
+          const isCurrent = index === current;
+          return (
+            <li key={item.id} className="flex flex-1 flex-col gap-1.5">
+              <div
+                className={cn(
+                  'h-1 rounded-full bg-muted',
+                  (isDone || isCurrent) && 'bg-primary'
+                )}
+              />
+              <button
+                type="button"
+                onClick={() => onSelect(index)}
+                disabled={!isDone}
+                aria-current={isCurrent ? 'step' : undefined}
+                className={cn(
+                  'truncate text-left text-xs text-muted-foreground',
+                  isCurrent && 'font-medium text-foreground',
+                  isDone && 'hover:text-foreground'
+                )}
+              >
+                {item.label}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
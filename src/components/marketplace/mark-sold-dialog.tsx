@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Loader2, UserX } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { useUpdateListingStatus } from '@/lib/api/hooks/use-marketplace';
+import { useListingOffers } from '@/lib/api/hooks/use-offers';
+import { getOfferBuyers } from '@/lib/marketplace';
+import { cn } from '@/lib/utils';
+import type { Listing } from '@/types/marketplace';
+
+interface MarkSoldDialogProps {
+  listing: Listing;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Asks who bought the listing before marking it sold. Naming a buyer lets the
+// two of them rate each other; selling off-platform skips that.
+export function MarkSoldDialog({
+  listing,
+  open,
+  onOpenChange,
+}: MarkSoldDialogProps) {
+  const { data: offers = [], isLoading } = useListingOffers(listing.id, {
+    enabled: open,
+  });
+  const updateStatus = useUpdateListingStatus();
+  // Undefined means sold to someone who isn't on here
+  const [buyerId, setBuyerId] = useState<string>();
+
+  const buyers = getOfferBuyers(offers);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setBuyerId(undefined);
+    onOpenChange(nextOpen);
+  };
+
+  const handleConfirm = async () => {
+    try {
+      await updateStatus.mutateAsync({
+        id: listing.id,
+        status: 'sold',
+        buyerId,
+      });
+      handleOpenChange(false);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Who bought it?</DialogTitle>
+          <DialogDescription>
+            Pick the buyer so you can rate each other. Ratings build trust for
+            both of you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div role="radiogroup" aria-label="Buyer" className="space-y-2">
+          {isLoading ? (
+            <>
+              <Skeleton className="h-14 w-full rounded-lg" />
+              <Skeleton className="h-14 w-full rounded-lg" />
+            </>
+          ) : (
+            buyers.map((buyer) => (
+              <BuyerOption
+                key={buyer.id}
+                isSelected={buyerId === buyer.id}
+                onSelect={() => setBuyerId(buyer.id)}
+              >
+                <UserAvatar user={buyer} size="sm" />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate font-medium">
+                    {buyer.fullName}
+                  </span>
+                  <span className="block truncate text-xs text-muted-foreground">
+                    @{buyer.username}
+                  </span>
+                </span>
+              </BuyerOption>
+            ))
+          )}
+          <BuyerOption
+            isSelected={buyerId === undefined}
+            onSelect={() => setBuyerId(undefined)}
+          >
+            <span className="flex size-8 items-center justify-center rounded-full bg-muted">
+              <UserX className="size-4 text-muted-foreground" />
+            </span>
+            <span className="flex-1 font-medium">Someone else</span>
+          </BuyerOption>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={updateStatus.isPending}>
+            {updateStatus.isPending && (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            )}
+            Mark as sold
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface BuyerOptionProps {
+  isSelected: boolean;
+  onSelect: () => void;
+  children: React.ReactNode;
+}
+
+function BuyerOption({ isSelected, onSelect, children }: BuyerOptionProps) {
+  return (
+    <button
+      type="button"
+      role="radio"
+      aria-checked={isSelected}
+      onClick={onSelect}
+      className={cn(
+        'flex w-full items-center gap-3 rounded-lg border p-3 text-left text-sm transition-colors hover:bg-muted/50',
+        isSelected && 'border-primary bg-primary/5'
+      )}
+    >
+      {children}
+      {isSelected && <Check className="size-4 shrink-0 text-primary" />}
+    </button>
+  );
+}
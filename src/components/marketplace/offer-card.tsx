@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowLeftRight, Check, Clock, X } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { ConfirmDialog } from '@/components/shared/confirm-dialog';
+import {
+  useRespondToOffer,
+  useWithdrawOffer,
+} from '@/lib/api/hooks/use-offers';
+import {
+  OFFER_STATUS_COLORS,
+  OFFER_STATUS_LABELS,
+  canRespondToOffer,
+  formatPrice,
+  isOfferOpen,
+} from '@/lib/marketplace';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { Listing, Offer } from '@/types/marketplace';
+import { OfferDialog } from './offer-dialog';
+import { OfferTimeline } from './offer-timeline';
+
+interface OfferCardProps {
+  offer: Offer;
+  listing: Listing;
+  currentUserId?: string;
+  className?: string;
+}
+
+export function OfferCard({
+  offer,
+  listing,
+  currentUserId,
+  className,
+}: OfferCardProps) {
+  const respondToOffer = useRespondToOffer();
+  const withdrawOffer = useWithdrawOffer();
+  const [counterOpen, setCounterOpen] = useState(false);
+  const [acceptOpen, setAcceptOpen] = useState(false);
+
+  const isBuyer = offer.buyer.id === currentUserId;
+  const isOpen = isOfferOpen(offer);
+  const canRespond = canRespondToOffer(offer, currentUserId, listing.seller.id);
+  const isPending = respondToOffer.isPending || withdrawOffer.isPending;
+  // Past its deadline but not yet swept up by the server
+  const isLapsed =
+    !isOpen && (offer.status === 'pending' || offer.status === 'countered');
+  const status = isLapsed ? 'expired' : offer.status;
+
+  const respond = (action: 'accept' | 'decline') =>
+    respondToOffer.mutate({ offerId: offer.id, data: { action } });
+
+  return (
+    <div className={cn('space-y-4 rounded-lg border p-4', className)}>
+      <div className="flex items-start gap-3">
+        {isBuyer ? (
+          <div className="min-w-0 flex-1">
+            <p className="font-medium">Your offer</p>
+          </div>
+        ) : (
+          <div className="flex min-w-0 flex-1 items-center gap-2">
+            <UserAvatar user={offer.buyer} size="sm" />
+            <p className="truncate font-medium">{offer.buyer.fullName}</p>
+          </div>
+        )}
+        <Badge
+          variant="secondary"
+          className={cn('text-xs', OFFER_STATUS_COLORS[status])}
+        >
+          {OFFER_STATUS_LABELS[status]}
+        </Badge>
+      </div>
+
+      <div>
+        <p className="text-2xl font-bold">
+          {formatPrice(offer.amount, offer.currency)}
+        </p>
+        {isOpen && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Clock className="size-3.5" />
+            {canRespond
+              ? 'Waiting on you'
+              : `Waiting on the ${offer.awaiting}`}{' '}
+            · Expires {formatRelativeTime(offer.expiresAt)}
+          </p>
+        )}
+      </div>
+
+      {(canRespond || (isBuyer && isOpen)) && (
+        <div className="flex flex-wrap gap-2">
+          {canRespond && (
+            <>
+              <Button
+                size="sm"
+                onClick={() => setAcceptOpen(true)}
+                disabled={isPending}
+              >
+                <Check className="size-4" />
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setCounterOpen(true)}
+                disabled={isPending}
+              >
+                <ArrowLeftRight className="size-4" />
+                Counter
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => respond('decline')}
+                disabled={isPending}
+              >
+                <X className="size-4" />
+                Decline
+              </Button>
+            </>
+          )}
+          {isBuyer && isOpen && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => withdrawOffer.mutate(offer.id)}
+              disabled={isPending}
+            >
+              Withdraw
+            </Button>
+          )}
+        </div>
+      )}
+
+      <OfferTimeline
+        events={offer.history}
+        currency={offer.currency}
+        currentUserId={currentUserId}
+        className="border-t pt-4"
+      />
+
+      <OfferDialog
+        listing={listing}
+        offer={offer}
+        open={counterOpen}
+        onOpenChange={setCounterOpen}
+      />
+      <ConfirmDialog
+        open={acceptOpen}
+        onOpenChange={setAcceptOpen}
+        title={`Accept ${formatPrice(offer.amount, offer.currency)}?`}
+        description={
+          isBuyer
+            ? "The seller's counter-offer will be accepted and the listing reserved for you."
+            : 'The listing will be reserved for this buyer and your other open offers on it will be declined.'
+        }
+        confirmText="Accept offer"
+        onConfirm={() => respond('accept')}
+      />
+    </div>
+  );
+}
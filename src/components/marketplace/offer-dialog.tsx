@@ -0,0 +1,221 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useMakeOffer, useRespondToOffer } from '@/lib/api/hooks/use-offers';
+import { formatPrice, getSuggestedOffers } from '@/lib/marketplace';
+import {
+  DEFAULT_OFFER_EXPIRY_HOURS,
+  OFFER_EXPIRY_OPTIONS,
+  OFFER_MESSAGE_MAX_LENGTH,
+  offerSchema,
+  type OfferFormData,
+} from '@/lib/validations/offer';
+import type { Listing, Offer } from '@/types/marketplace';
+
+interface OfferDialogProps {
+  listing: Listing;
+  // When set, the dialog sends a counter to this offer instead of a new one
+  offer?: Offer;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function OfferDialog({
+  listing,
+  offer,
+  open,
+  onOpenChange,
+}: OfferDialogProps) {
+  const makeOffer = useMakeOffer();
+  const respondToOffer = useRespondToOffer();
+  const isCounter = !!offer;
+  const isPending = makeOffer.isPending || respondToOffer.isPending;
+
+  const form = useForm<OfferFormData>({
+    resolver: zodResolver(offerSchema),
+    defaultValues: {
+      amount: undefined,
+      message: '',
+      expiresInHours: DEFAULT_OFFER_EXPIRY_HOURS,
+    },
+  });
+
+  const amount = form.watch('amount');
+  const expiresInHours = form.watch('expiresInHours');
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) form.reset();
+    onOpenChange(nextOpen);
+  };
+
+  const onSubmit = async (data: OfferFormData) => {
+    const values = { ...data, message: data.message || undefined };
+    try {
+      if (offer) {
+        await respondToOffer.mutateAsync({
+          offerId: offer.id,
+          data: { action: 'counter', ...values },
+        });
+      } else {
+        await makeOffer.mutateAsync({ listingId: listing.id, data: values });
+      }
+      handleOpenChange(false);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {isCounter ? 'Counter offer' : 'Make an offer'}
+          </DialogTitle>
+          <DialogDescription>
+            {offer
+              ? `Current offer is ${formatPrice(offer.amount, offer.currency)}. Asking price is ${formatPrice(listing.price, listing.currency)}.`
+              : `Asking price is ${formatPrice(listing.price, listing.currency)}. The seller can accept, decline or counter.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {!isCounter && (
+              <div className="flex flex-wrap gap-2">
+                {getSuggestedOffers(listing.price).map((suggestion) => (
+                  <Button
+                    key={suggestion.discount}
+                    type="button"
+                    variant={
+                      amount === suggestion.amount ? 'default' : 'outline'
+                    }
+                    size="sm"
+                    className="rounded-full"
+                    onClick={() =>
+                      form.setValue('amount', suggestion.amount, {
+                        shouldValidate: true,
+                      })
+                    }
+                  >
+                    {formatPrice(suggestion.amount, listing.currency)}
+                    <span className="text-xs opacity-70">
+                      -{suggestion.discount}%
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Your offer ({listing.currency})</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      placeholder={String(listing.price)}
+                      name={field.name}
+                      ref={field.ref}
+                      onBlur={field.onBlur}
+                      value={Number.isFinite(field.value) ? field.value : ''}
+                      onChange={(e) =>
+                        field.onChange(
+                          e.target.value === ''
+                            ? undefined
+                            : e.target.valueAsNumber
+                        )
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder="Add a note for the other side..."
+                      className="min-h-20"
+                      maxLength={OFFER_MESSAGE_MAX_LENGTH}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Offer expires after</p>
+              <div className="flex gap-2">
+                {OFFER_EXPIRY_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    type="button"
+                    variant={
+                      expiresInHours === option.value ? 'default' : 'outline'
+                    }
+                    size="sm"
+                    aria-pressed={expiresInHours === option.value}
+                    onClick={() =>
+                      form.setValue('expiresInHours', option.value)
+                    }
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Loader2 className="mr-2 size-4 animate-spin" />}
+                {isCounter ? 'Send counter' : 'Send offer'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+import {
+  ArrowLeftRight,
+  Check,
+  Clock,
+  HandCoins,
+  Undo2,
+  X,
+  type LucideIcon,
+} from 'lucide-react';
+
+import { formatPrice } from '@/lib/marketplace';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { OfferEvent, OfferEventType } from '@/types/marketplace';
+
+const EVENT_ICONS: Record<OfferEventType, LucideIcon> = {
+  offered: HandCoins,
+  countered: ArrowLeftRight,
+  accepted: Check,
+  declined: X,
+  expired: Clock,
+  withdrawn: Undo2,
+};
+
+const EVENT_VERBS: Record<OfferEventType, string> = {
+  offered: 'offered',
+  countered: 'countered with',
+  accepted: 'accepted',
+  declined: 'declined',
+  expired: 'expired',
+  withdrawn: 'withdrew the offer',
+};
+
+interface OfferTimelineProps {
+  events: OfferEvent[];
+  currency: string;
+  currentUserId?: string;
+  className?: string;
+}
+
+export function OfferTimeline({
+  events,
+  currency,
+  currentUserId,
+  className,
+}: OfferTimelineProps) {
+  return (
+    <ol className={cn('space-y-3', className)} aria-label="Offer history">
+      {events.map((event) => {
+        const Icon = EVENT_ICONS[event.type];
+        const actorName = !event.actor
+          ? 'Offer'
+          : event.actor.id === currentUserId
+            ? 'You'
+            : event.actor.fullName;
+
+        return (
+          <li key={event.id} className="flex gap-3 text-sm">
+            <span
+              className={cn(
+                'flex size-6 shrink-0 items-center justify-center rounded-full bg-muted text-muted-foreground',
+                event.type === 'accepted' &&
+                  'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100'
+              )}
+            >
+              <Icon className="size-3.5" />
+            </span>
+            <div className="min-w-0 flex-1">
+              <p>
+                <span className="font-medium">{actorName}</span>{' '}
+                {EVENT_VERBS[event.type]}
+                {event.amount !== undefined && (
+                  <>
+                    {' '}
+                    <span className="font-semibold">
+                      {formatPrice(event.amount, currency)}
+                    </span>
+                  </>
+                )}
+              </p>
+              {event.message && (
+                <p className="mt-0.5 whitespace-pre-wrap break-words text-muted-foreground">
+                  &ldquo;{event.message}&rdquo;
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {formatRelativeTime(event.createdAt)}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
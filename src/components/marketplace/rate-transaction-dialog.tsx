@@ -0,0 +1,145 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { useRateTransaction } from '@/lib/api/hooks/use-ratings';
+import {
+  RATING_REVIEW_MAX_LENGTH,
+  ratingSchema,
+  type RatingFormData,
+} from '@/lib/validations/rating';
+import type { User } from '@/types/auth';
+import type { Listing, RatingRole } from '@/types/marketplace';
+import { StarRatingInput } from './star-rating';
+
+interface RateTransactionDialogProps {
+  listing: Listing;
+  // The rater's side of the sale
+  role: RatingRole;
+  ratee: User;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RateTransactionDialog({
+  listing,
+  role,
+  ratee,
+  open,
+  onOpenChange,
+}: RateTransactionDialogProps) {
+  const rateTransaction = useRateTransaction();
+
+  const form = useForm<RatingFormData>({
+    resolver: zodResolver(ratingSchema),
+    defaultValues: { score: 0, review: '' },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) form.reset();
+    onOpenChange(nextOpen);
+  };
+
+  const onSubmit = async (data: RatingFormData) => {
+    try {
+      await rateTransaction.mutateAsync({
+        listingId: listing.id,
+        data: { score: data.score, review: data.review || undefined },
+      });
+      handleOpenChange(false);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            Rate the {role === 'buyer' ? 'seller' : 'buyer'}
+          </DialogTitle>
+          <DialogDescription>
+            How did the sale of &quot;{listing.title}&quot; go with{' '}
+            {ratee.fullName}?
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="score"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <StarRatingInput
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="review"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Review (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder="Was it as described? Easy to deal with?"
+                      className="min-h-20"
+                      maxLength={RATING_REVIEW_MAX_LENGTH}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={rateTransaction.isPending}>
+                {rateTransaction.isPending && (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                )}
+                Submit rating
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { Star } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+
+const STARS = [1, 2, 3, 4, 5];
+
+interface StarRatingProps {
+  value: number;
+  className?: string;
+}
+
+// Read-only stars, rounded to the nearest whole star
+export function StarRating({ value, className }: StarRatingProps) {
+  const filled = Math.round(value);
+
+  return (
+    <span
+      role="img"
+      aria-label={`Rated ${value} out of 5`}
+      className={cn('inline-flex items-center gap-0.5', className)}
+    >
+      {STARS.map((star) => (
+        <Star
+          key={star}
+          className={cn(
+            'size-4',
+            star <= filled
+              ? 'fill-amber-400 text-amber-400'
+              : 'text-muted-foreground/40'
+          )}
+        />
+      ))}
+    </span>
+  );
+}
+
+interface StarRatingInputProps {
+  value: number | undefined;
+  onChange: (value: number) => void;
+  className?: string;
+}
+
+export function StarRatingInput({
+  value = 0,
+  onChange,
+  className,
+}: StarRatingInputProps) {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Rating"
+      className={cn('flex items-center gap-1', className)}
+    >
+      {STARS.map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} ${star === 1 ? 'star' : 'stars'}`}
+          onClick={() => onChange(star)}
+          className="rounded-sm p-0.5 transition-transform hover:scale-110 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        >
+          <Star
+            className={cn(
+              'size-7',
+              star <= value
+                ? 'fill-amber-400 text-amber-400'
+                : 'text-muted-foreground/40'
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const DOUBLE_CLICK_SCALE = 2.5;
+const WHEEL_STEP = 1.15;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+function clampScale(scale: number) {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+function distance(a: Point, b: Point) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+interface ZoomableImageProps {
+  src: string;
+  alt: string;
+  className?: string;
+}
+
+/**
+ * Image that zooms with the scroll wheel, pinch, double click or the zoom
+ * buttons, and pans by dragging once zoomed in. Key it by `src` so switching
+ * images starts back at 1x.
+ */
+export function ZoomableImage({ src, alt, className }: ZoomableImageProps) {
+  const [scale, setScale] = useState(MIN_SCALE);
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });
+  const pointers = useRef(new Map<number, Point>());
+  const pinchDistance = useRef<number | null>(null);
+
+  const zoomTo = (next: number) => {
+    const clamped = clampScale(next);
+    setScale(clamped);
+    // Zooming back out recentres the image
+    if (clamped === MIN_SCALE) setOffset({ x: 0, y: 0 });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointers.current.set(event.pointerId, {
+      x: event.clientX,
+      y: event.clientY,
+    });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const previous = pointers.current.get(event.pointerId);
+    if (!previous) return;
+
+    const current = { x: event.clientX, y: event.clientY };
+    pointers.current.set(event.pointerId, current);
+
+    const [first, second] = [...pointers.current.values()];
+    if (first && second) {
+      const next = distance(first, second);
+      if (pinchDistance.current) {
+        zoomTo(scale * (next / pinchDistance.current));
+      }
+      pinchDistance.current = next;
+      return;
+    }
+
+    if (scale > MIN_SCALE) {
+      setOffset((value) => ({
+        x: value.x + current.x - previous.x,
+        y: value.y + current.y - previous.y,
+      }));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    pointers.current.delete(event.pointerId);
+    if (pointers.current.size < 2) pinchDistance.current = null;
+  };
+
+  return (
+    <div className={cn('relative size-full overflow-hidden', className)}>
+      <div
+        data-testid="zoomable-image"
+        className={cn(
+          'relative size-full touch-none select-none',
+          scale > MIN_SCALE
+            ? 'cursor-grab active:cursor-grabbing'
+            : 'cursor-zoom-in'
+        )}
+        style={{
+          transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
+        }}
+        onWheel={(event) =>
+          zoomTo(event.deltaY < 0 ? scale * WHEEL_STEP : scale / WHEEL_STEP)
+        }
+        onDoubleClick={() =>
+          zoomTo(scale > MIN_SCALE ? MIN_SCALE : DOUBLE_CLICK_SCALE)
+        }
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <Image
+          src={src}
+          alt={alt}
+          fill
+          sizes="100vw"
+          draggable={false}
+          className="object-contain"
+        />
+      </div>
+
+      <div className="absolute bottom-4 left-1/2 flex -translate-x-1/2 items-center gap-1 rounded-full bg-black/50 p-1 text-white">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => zoomTo(scale / WHEEL_STEP ** 2)}
+          disabled={scale === MIN_SCALE}
+          className="rounded-full hover:bg-white/10 hover:text-white"
+          aria-label="Zoom out"
+        >
+          <ZoomOut className="size-5" />
+        </Button>
+        <span className="w-12 text-center text-sm tabular-nums">
+          {Math.round(scale * 100)}%
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => zoomTo(scale * WHEEL_STEP ** 2)}
+          disabled={scale === MAX_SCALE}
+          className="rounded-full hover:bg-white/10 hover:text-white"
+          aria-label="Zoom in"
+        >
+          <ZoomIn className="size-5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
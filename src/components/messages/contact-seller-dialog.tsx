@@ -0,0 +1,152 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { useContactSeller } from '@/lib/api/hooks/use-messages';
+import { toListingContext } from '@/lib/messages';
+import {
+  messageSchema,
+  MESSAGE_MAX_LENGTH,
+  SELLER_QUESTIONS,
+  type MessageFormData,
+} from '@/lib/validations/message';
+import { cn } from '@/lib/utils';
+import type { Listing } from '@/types/marketplace';
+import { ListingContextCard } from './listing-context-card';
+
+interface ContactSellerDialogProps {
+  listing: Listing;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ContactSellerDialog({
+  listing,
+  open,
+  onOpenChange,
+}: ContactSellerDialogProps) {
+  const router = useRouter();
+  const contactSeller = useContactSeller();
+
+  const form = useForm<MessageFormData>({
+    resolver: zodResolver(messageSchema),
+    defaultValues: { content: '' },
+  });
+
+  const content = form.watch('content');
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) form.reset();
+    onOpenChange(nextOpen);
+  };
+
+  const onSubmit = async (data: MessageFormData) => {
+    try {
+      const conversation = await contactSeller.mutateAsync({
+        listingId: listing.id,
+        data: { message: data.content },
+      });
+      handleOpenChange(false);
+      router.push(`/messages/${conversation.id}`);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Message {listing.seller.fullName}</DialogTitle>
+          <DialogDescription>
+            Ask about this listing. Your conversation will show up in Messages.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ListingContextCard listing={toListingContext(listing)} />
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {SELLER_QUESTIONS.map((question) => (
+                <Button
+                  key={question}
+                  type="button"
+                  variant={content === question ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-auto whitespace-normal rounded-full py-1.5 text-left"
+                  onClick={() =>
+                    form.setValue('content', question, { shouldValidate: true })
+                  }
+                >
+                  {question}
+                </Button>
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="content"
+              render={({ field }) => (
+                <FormItem>
+                  <Textarea
+                    {...field}
+                    placeholder="Write a message..."
+                    aria-label="Message"
+                    className="min-h-24"
+                    maxLength={MESSAGE_MAX_LENGTH}
+                  />
+                  <div className="flex items-start justify-between gap-2">
+                    <FormMessage />
+                    <span
+                      className={cn(
+                        'ml-auto text-xs text-muted-foreground',
+                        content.length >= MESSAGE_MAX_LENGTH &&
+                          'text-destructive'
+                      )}
+                    >
+                      {content.length}/{MESSAGE_MAX_LENGTH}
+                    </span>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!content.trim() || contactSeller.isPending}
+              >
+                {contactSeller.isPending && (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                )}
+                Send
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import Link from 'next/link';
+
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { getOtherParticipant } from '@/lib/messages';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { Conversation } from '@/types/message';
+import { ListingContextLabel } from './listing-context-card';
+
+interface ConversationItemProps {
+  conversation: Conversation;
+  currentUserId?: string;
+}
+
+// Inbox row. Marketplace inquiries show which listing they're about.
+export function ConversationItem({
+  conversation,
+  currentUserId,
+}: ConversationItemProps) {
+  const otherUser = getOtherParticipant(conversation, currentUserId);
+  const { lastMessage, listing } = conversation;
+  const isUnread = conversation.unreadCount > 0;
+  const isOwnLastMessage = lastMessage?.sender.id === currentUserId;
+
+  return (
+    <Link
+      href={`/messages/${conversation.id}`}
+      className="flex items-center gap-3 rounded-lg p-3 transition-colors hover:bg-muted/50"
+    >
+      <UserAvatar user={otherUser} size="lg" />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center justify-between gap-2">
+          <p
+            className={cn(
+              'truncate',
+              isUnread ? 'font-semibold' : 'font-medium'
+            )}
+          >
+            {otherUser?.fullName ?? 'Unknown user'}
+          </p>
+          <span className="shrink-0 text-xs text-muted-foreground">
+            {formatRelativeTime(
+              lastMessage?.createdAt ?? conversation.updatedAt
+            )}
+          </span>
+        </div>
+        {listing && <ListingContextLabel listing={listing} />}
+        <div className="flex items-center justify-between gap-2">
+          <p
+            className={cn(
+              'truncate text-sm',
+              isUnread ? 'text-foreground' : 'text-muted-foreground'
+            )}
+          >
+            {isOwnLastMessage && 'You: '}
+            {lastMessage?.content}
+          </p>
+          {isUnread && (
+            <span className="flex h-5 min-w-5 shrink-0 items-center justify-center rounded-full bg-primary px-1.5 text-xs font-medium text-primary-foreground">
+              {conversation.unreadCount}
+            </span>
+          )}
+        </div>
+      </div>
+    </Link>
+  );
+}
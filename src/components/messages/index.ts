@@ -0,0 +1,8 @@
+export { ContactSellerDialog } from './contact-seller-dialog';
+export { ConversationItem } from './conversation-item';
+export {
+  ListingContextCard,
+  ListingContextLabel,
+} from './listing-context-card';
+export { MessageBubble } from './message-bubble';
+export { MessageComposer } from './message-composer';
@@ -0,0 +1,75 @@
+import Link from 'next/link';
+import Image from 'next/image';
+import { ImageIcon, ShoppingBag } from 'lucide-react';
+
+import { ListingStatusBadge } from '@/components/marketplace/listing-status';
+import { formatPrice } from '@/lib/marketplace';
+import { cn } from '@/lib/utils';
+import type { ListingContext } from '@/types/message';
+
+interface ListingContextCardProps {
+  listing: ListingContext;
+  className?: string;
+}
+
+// The listing a conversation is about, pinned above the messages
+export function ListingContextCard({
+  listing,
+  className,
+}: ListingContextCardProps) {
+  return (
+    <Link
+      href={`/marketplace/${listing.id}`}
+      className={cn(
+        'flex items-center gap-3 rounded-xl border bg-muted/30 p-3 transition-colors hover:bg-muted/60',
+        className
+      )}
+    >
+      <div className="relative size-14 shrink-0 overflow-hidden rounded-md bg-muted">
+        {listing.image ? (
+          <Image
+            src={listing.image}
+            alt={listing.title}
+            fill
+            sizes="56px"
+            className={cn(
+              'object-cover',
+              listing.status === 'sold' && 'grayscale'
+            )}
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <ImageIcon className="size-5 text-muted-foreground" />
+          </div>
+        )}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate font-medium">{listing.title}</p>
+        <p className="text-sm font-semibold text-primary">
+          {formatPrice(listing.price, listing.currency)}
+        </p>
+      </div>
+      {listing.status !== 'active' && (
+        <ListingStatusBadge status={listing.status} />
+      )}
+    </Link>
+  );
+}
+
+// One-line "About: <listing>" label for inbox rows and message bubbles
+export function ListingContextLabel({
+  listing,
+  className,
+}: ListingContextCardProps) {
+  return (
+    <span
+      className={cn(
+        'flex min-w-0 items-center gap-1 text-xs text-muted-foreground',
+        className
+      )}
+    >
+      <ShoppingBag className="size-3 shrink-0" />
+      <span className="truncate">{listing.title}</span>
+    </span>
+  );
+}
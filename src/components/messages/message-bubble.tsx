@@ -0,0 +1,41 @@
+import { format } from 'date-fns';
+
+import { cn } from '@/lib/utils';
+import type { Message } from '@/types/message';
+import { ListingContextLabel } from './listing-context-card';
+
+interface MessageBubbleProps {
+  message: Message;
+  isOwn: boolean;
+}
+
+export function MessageBubble({ message, isOwn }: MessageBubbleProps) {
+  return (
+    <div
+      className={cn('flex flex-col gap-1', isOwn ? 'items-end' : 'items-start')}
+    >
+      {message.listing && (
+        <ListingContextLabel
+          listing={message.listing}
+          className="max-w-[75%] px-1"
+        />
+      )}
+      <div
+        className={cn(
+          'max-w-[75%] whitespace-pre-wrap break-words rounded-2xl px-4 py-2 text-sm',
+          isOwn
+            ? 'rounded-br-sm bg-primary text-primary-foreground'
+            : 'rounded-bl-sm bg-muted'
+        )}
+      >
+        {message.content}
+      </div>
+      <time
+        dateTime={message.createdAt}
+        className="px-1 text-[11px] text-muted-foreground"
+      >
+        {format(new Date(message.createdAt), 'MMM d, HH:mm')}
+      </time>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Send } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Form, FormField, FormItem } from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { useSendMessage } from '@/lib/api/hooks/use-messages';
+import {
+  messageSchema,
+  MESSAGE_MAX_LENGTH,
+  type MessageFormData,
+} from '@/lib/validations/message';
+import { cn } from '@/lib/utils';
+
+interface MessageComposerProps {
+  conversationId: string;
+  className?: string;
+}
+
+export function MessageComposer({
+  conversationId,
+  className,
+}: MessageComposerProps) {
+  const sendMessage = useSendMessage(conversationId);
+
+  const form = useForm<MessageFormData>({
+    resolver: zodResolver(messageSchema),
+    defaultValues: { content: '' },
+  });
+
+  const content = form.watch('content');
+
+  const onSubmit = (data: MessageFormData) => {
+    sendMessage.mutate(
+      { content: data.content },
+      { onSuccess: () => form.reset({ content: '' }) }
+    );
+  };
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className={cn('flex items-end gap-2', className)}
+      >
+        <FormField
+          control={form.control}
+          name="content"
+          render={({ field }) => (
+            <FormItem className="flex-1">
+              <Textarea
+                {...field}
+                placeholder="Write a message..."
+                aria-label="Message"
+                rows={1}
+                maxLength={MESSAGE_MAX_LENGTH}
+                className="max-h-40 min-h-10 resize-none"
+                onKeyDown={(event) => {
+                  // Enter sends, Shift+Enter adds a new line
+                  if (event.key === 'Enter' && !event.shiftKey) {
+                    event.preventDefault();
+                    form.handleSubmit(onSubmit)();
+                  }
+                }}
+              />
+            </FormItem>
+          )}
+        />
+        <Button
+          type="submit"
+          size="icon"
+          disabled={!content.trim() || sendMessage.isPending}
+          aria-label="Send message"
+        >
+          {sendMessage.isPending ? (
+            <Loader2 className="size-4 animate-spin" />
+          ) : (
+            <Send className="size-4" />
+          )}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,70 @@
+import Link from 'next/link';
+import { ChevronRight } from 'lucide-react';
+
+import { getCategoryPath, serializePartFilters } from '@/lib/parts';
+import type { PartCategory } from '@/types/part';
+
+interface CategoryBreadcrumbsProps {
+  categories: PartCategory[];
+  category?: string;
+  className?: string;
+}
+
+function getCategoryHref(slug?: string) {
+  const params = serializePartFilters({ category: slug }).toString();
+  return params ? `/parts?${params}` : '/parts';
+}
+
+// "All parts › Engine › Pistons › Rings", each step linking to that category
+export function CategoryBreadcrumbs({
+  categories,
+  category,
+  className,
+}: CategoryBreadcrumbsProps) {
+  const path = getCategoryPath(categories, category);
+
+  return (
+    <nav aria-label="Breadcrumb" className={className}>
+      <ol className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
+        <li>
+          <Crumb href={getCategoryHref()} isCurrent={path.length === 0}>
+            All parts
+          </Crumb>
+        </li>
+        {path.map((step, index) => (
+          <li key={step.id} className="flex items-center gap-1">
+            <ChevronRight className="size-3.5" aria-hidden />
+            <Crumb
+              href={getCategoryHref(step.slug)}
+              isCurrent={index === path.length - 1}
+            >
+              {step.name}
+            </Crumb>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
+
+interface CrumbProps {
+  href: string;
+  isCurrent: boolean;
+  children: React.ReactNode;
+}
+
+function Crumb({ href, isCurrent, children }: CrumbProps) {
+  if (isCurrent) {
+    return (
+      <span aria-current="page" className="font-medium text-foreground">
+        {children}
+      </span>
+    );
+  }
+
+  return (
+    <Link href={href} className="hover:text-foreground">
+      {children}
+    </Link>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+
+import { buildCategoryTree, getCategoryPath } from '@/lib/parts';
+import { cn, formatCompactNumber } from '@/lib/utils';
+import type { PartCategory, PartCategoryNode } from '@/types/part';
+
+interface CategoryTreeProps {
+  categories: PartCategory[];
+  // Slug of the selected category; undefined means all parts
+  selected?: string;
+  onSelect: (slug: string | undefined) => void;
+  className?: string;
+}
+
+// Collapsible category navigation for the parts catalog. The selected
+// category's ancestors start expanded so it's always visible.
+export function CategoryTree({
+  categories,
+  selected,
+  onSelect,
+  className,
+}: CategoryTreeProps) {
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const selectedPath = useMemo(
+    () => getCategoryPath(categories, selected).map((category) => category.id),
+    [categories, selected]
+  );
+  // Only holds categories the user expanded or collapsed by hand
+  const [toggled, setToggled] = useState<Record<string, boolean>>({});
+
+  const isExpanded = (id: string) => toggled[id] ?? selectedPath.includes(id);
+
+  const renderNodes = (nodes: PartCategoryNode[], depth: number) => (
+    <ul className="space-y-0.5">
+      {nodes.map((node) => {
+        const hasChildren = node.children.length > 0;
+        const expanded = hasChildren && isExpanded(node.id);
+
+        return (
+          <li key={node.id}>
+            <div
+              className="flex items-center"
+              style={{ paddingLeft: `${depth * 0.75}rem` }}
+            >
+              {hasChildren ? (
+                <button
+                  type="button"
+                  onClick={() =>
+                    setToggled((current) => ({
+                      ...current,
+                      [node.id]: !expanded,
+                    }))
+                  }
+                  aria-expanded={expanded}
+                  aria-label={`${expanded ? 'Collapse' : 'Expand'} ${node.name}`}
+                  className="flex size-6 shrink-0 items-center justify-center rounded text-muted-foreground hover:bg-muted"
+                >
+                  <ChevronRight
+                    className={cn(
+                      'size-4 transition-transform',
+                      expanded && 'rotate-90'
+                    )}
+                  />
+                </button>
+              ) : (
+                <span className="size-6 shrink-0" />
+              )}
+              <CategoryButton
+                isSelected={selected === node.slug}
+                onClick={() => onSelect(node.slug)}
+              >
+                <span className="truncate">{node.name}</span>
+                {node.partsCount !== undefined && (
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground">
+                    {formatCompactNumber(node.partsCount)}
+                  </span>
+                )}
+              </CategoryButton>
+            </div>
+            {expanded && renderNodes(node.children, depth + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <nav aria-label="Part categories" className={cn('text-sm', className)}>
+      <CategoryButton
+        isSelected={!selected}
+        onClick={() => onSelect(undefined)}
+        className="mb-1"
+      >
+        All parts
+      </CategoryButton>
+      {renderNodes(tree, 0)}
+    </nav>
+  );
+}
+
+interface CategoryButtonProps {
+  isSelected: boolean;
+  onClick: () => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+function CategoryButton({
+  isSelected,
+  onClick,
+  className,
+  children,
+}: CategoryButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-current={isSelected ? 'page' : undefined}
+      className={cn(
+        'flex min-w-0 flex-1 items-center rounded-md px-2 py-1.5 text-left transition-colors hover:bg-muted',
+        isSelected && 'bg-primary/10 font-medium text-primary',
+        className
+      )}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,88 @@
+import Link from 'next/link';
+
+import { Badge } from '@/components/ui/badge';
+import { getPartNumberHref } from '@/lib/parts';
+import { cn } from '@/lib/utils';
+import type { Part, PartNumberSource } from '@/types/part';
+
+const SOURCE_LABELS: Record<PartNumberSource, string> = {
+  oem: 'OEM',
+  aftermarket: 'Aftermarket',
+};
+
+interface CrossReferencePanelProps {
+  part: Pick<Part, 'brand' | 'partNumber' | 'crossReferences'>;
+  className?: string;
+}
+
+// The part's own number and its known equivalents, OEM first. Each number
+// links to every catalog part sold under it.
+export function CrossReferencePanel({
+  part,
+  className,
+}: CrossReferencePanelProps) {
+  const references = [...(part.crossReferences ?? [])].sort(
+    (a, b) =>
+      Number(a.source === 'aftermarket') - Number(b.source === 'aftermarket') ||
+      a.brand.localeCompare(b.brand)
+  );
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {part.partNumber && (
+        <p className="text-sm">
+          <span className="text-muted-foreground">This part: </span>
+          <span className="font-mono font-medium">{part.partNumber}</span>
+          {part.brand && (
+            <span className="text-muted-foreground"> ({part.brand})</span>
+          )}
+        </p>
+      )}
+
+      {references.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No equivalent part numbers known yet.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table
+            className="w-full text-sm"
+            aria-label="Equivalent part numbers"
+          >
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Brand</th>
+                <th className="py-2 pr-4 font-medium">Part number</th>
+                <th className="py-2 font-medium">Type</th>
+              </tr>
+            </thead>
+            <tbody>
+              {references.map((reference) => (
+                <tr
+                  key={`${reference.brand}-${reference.partNumber}`}
+                  className="border-b last:border-0"
+                >
+                  <td className="py-2 pr-4">{reference.brand}</td>
+                  <td className="py-2 pr-4">
+                    <Link
+                      href={getPartNumberHref(reference.partNumber)}
+                      className="font-mono text-primary hover:underline"
+                      title={`Find parts numbered ${reference.partNumber}`}
+                    >
+                      {reference.partNumber}
+                    </Link>
+                  </td>
+                  <td className="py-2">
+                    <Badge variant="secondary" className="text-xs">
+                      {SOURCE_LABELS[reference.source]}
+                    </Badge>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { Bike, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useFitmentOptions } from '@/lib/api/hooks/use-parts';
+import {
+  FITMENT_LEVELS,
+  getFitmentParents,
+  hasFitment,
+  setFitmentLevel,
+} from '@/lib/parts';
+import { cn } from '@/lib/utils';
+import type { FitmentLevel, FitmentSelection } from '@/types/part';
+
+// Select items can't have an empty value
+const ANY = 'any';
+
+interface FitmentSelectorProps {
+  value: FitmentSelection;
+  onChange: (value: FitmentSelection) => void;
+  className?: string;
+}
+
+// Cascading make → model → year → engine picker. Each step unlocks once the
+// one before it is picked; engine only shows up for bikes that have variants.
+export function FitmentSelector({
+  value,
+  onChange,
+  className,
+}: FitmentSelectorProps) {
+  return (
+    <div
+      className={cn(
+        'flex flex-col gap-2 sm:flex-row sm:items-center',
+        className
+      )}
+    >
+      <span className="flex shrink-0 items-center gap-2 text-sm font-medium">
+        <Bike className="size-4" />
+        Fits my bike
+      </span>
+      <div className="grid flex-1 grid-cols-2 gap-2 md:grid-cols-4">
+        {FITMENT_LEVELS.map(({ value: level, label }) => (
+          <FitmentLevelSelect
+            key={level}
+            level={level}
+            label={label}
+            selection={value}
+            onChange={(option) =>
+              onChange(setFitmentLevel(value, level, option))
+            }
+          />
+        ))}
+      </div>
+      {hasFitment(value) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="shrink-0 self-start sm:self-auto"
+          onClick={() => onChange({})}
+        >
+          <X className="size-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface FitmentLevelSelectProps {
+  level: FitmentLevel;
+  label: string;
+  selection: FitmentSelection;
+  onChange: (value: string | number | undefined) => void;
+}
+
+function FitmentLevelSelect({
+  level,
+  label,
+  selection,
+  onChange,
+}: FitmentLevelSelectProps) {
+  const { data: options = [] } = useFitmentOptions(level, selection);
+  const isLocked = getFitmentParents(level, selection) === null;
+  const selected = selection[level];
+
+  // Most bikes have a single engine, so skip the step unless there's a choice
+  if (level === 'engine' && (isLocked || options.length < 2)) return null;
+
+  return (
+    <Select
+      value={selected === undefined ? ANY : String(selected)}
+      onValueChange={(next) => {
+        if (next === ANY) return onChange(undefined);
+        onChange(level === 'year' ? Number(next) : next);
+      }}
+      disabled={isLocked}
+    >
+      <SelectTrigger className="w-full" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any {label.toLowerCase()}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option} value={String(option)}>
+            {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,75 @@
+import { CheckCircle2 } from 'lucide-react';
+
+import { formatYearRange, matchesFitment } from '@/lib/parts';
+import { cn } from '@/lib/utils';
+import type { FitmentSelection, PartFitment } from '@/types/part';
+
+interface FitmentTableProps {
+  fitment: PartFitment[];
+  // Rows covering this bike get highlighted
+  selection?: FitmentSelection;
+  className?: string;
+}
+
+// Compatible bikes for a part, grouped by make then model
+export function FitmentTable({
+  fitment,
+  selection,
+  className,
+}: FitmentTableProps) {
+  const rows = [...fitment].sort(
+    (a, b) =>
+      a.make.localeCompare(b.make) ||
+      a.model.localeCompare(b.model) ||
+      a.yearFrom - b.yearFrom
+  );
+  const hasEngines = rows.some((row) => row.engine);
+
+  return (
+    <div className={cn('overflow-x-auto', className)}>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-2 pr-4 font-medium">Make</th>
+            <th className="py-2 pr-4 font-medium">Model</th>
+            <th className="py-2 pr-4 font-medium">Years</th>
+            {hasEngines && <th className="py-2 pr-4 font-medium">Engine</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => {
+            const isMatch = !!selection?.make && matchesFitment(row, selection);
+            return (
+              <tr
+                key={index}
+                className={cn(
+                  'border-b last:border-0',
+                  isMatch && 'bg-green-50 dark:bg-green-950'
+                )}
+              >
+                <td className="py-2 pr-4">
+                  <span className="flex items-center gap-1.5">
+                    {isMatch && (
+                      <CheckCircle2
+                        className="size-4 text-green-600"
+                        aria-label="Fits your bike"
+                      />
+                    )}
+                    {row.make}
+                  </span>
+                </td>
+                <td className="py-2 pr-4">{row.model}</td>
+                <td className="py-2 pr-4 tabular-nums">
+                  {formatYearRange(row)}
+                </td>
+                {hasEngines && (
+                  <td className="py-2 pr-4">{row.engine ?? 'All'}</td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
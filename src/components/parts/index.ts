@@ -0,0 +1,6 @@
+export { PartCard } from './part-card';
+export { CategoryTree } from './category-tree';
+export { CategoryBreadcrumbs } from './category-breadcrumbs';
+export { FitmentSelector } from './fitment-selector';
+export { FitmentTable } from './fitment-table';
+export { CrossReferencePanel } from './cross-reference-panel';
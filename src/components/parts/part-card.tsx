@@ -0,0 +1,72 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { ImageIcon } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { ConvertedPrice } from '@/components/marketplace/converted-price';
+import { formatPrice } from '@/lib/marketplace';
+import { PART_CONDITION_COLORS, PART_CONDITION_LABELS } from '@/lib/parts';
+import { cn } from '@/lib/utils';
+import type { Part } from '@/types/part';
+
+interface PartCardProps {
+  part: Part;
+  className?: string;
+}
+
+// Grid card used when browsing the parts catalog
+export function PartCard({ part, className }: PartCardProps) {
+  const [firstImage] = part.images ?? [];
+
+  return (
+    <Link
+      href={`/parts/${part.id}`}
+      className={cn(
+        'group block overflow-hidden rounded-2xl border border-border/50 bg-card shadow-sm transition-shadow hover:shadow-md',
+        className
+      )}
+    >
+      <div className="relative aspect-square bg-muted">
+        {firstImage ? (
+          <Image
+            src={firstImage}
+            alt={part.name}
+            fill
+            sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+            className="object-cover transition-transform group-hover:scale-105"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <ImageIcon className="size-10 text-muted-foreground" />
+          </div>
+        )}
+        <Badge
+          variant="secondary"
+          className={cn(
+            'absolute left-3 top-3 text-xs',
+            PART_CONDITION_COLORS[part.condition]
+          )}
+        >
+          {PART_CONDITION_LABELS[part.condition]}
+        </Badge>
+      </div>
+
+      <div className="space-y-1 p-4">
+        <p className="flex flex-wrap items-baseline gap-x-2">
+          <span className="text-lg font-semibold text-primary">
+            {formatPrice(part.price, part.currency)}
+          </span>
+          <ConvertedPrice price={part.price} currency={part.currency} />
+        </p>
+        <h3 className="truncate font-medium">{part.name}</h3>
+        {(part.brand || part.partNumber) && (
+          <p className="truncate text-xs text-muted-foreground">
+            {[part.brand, part.partNumber].filter(Boolean).join(' · ')}
+          </p>
+        )}
+      </div>
+    </Link>
+  );
+}
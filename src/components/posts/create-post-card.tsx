@@ -0,0 +1,42 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { ImagePlus } from 'lucide-react';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { useUIStore } from '@/stores/ui-store';
+
+// Feed prompt that opens the post composer
+export function CreatePostCard() {
+  const { data: session } = useSession();
+  const setCreatePostOpen = useUIStore((state) => state.setCreatePostOpen);
+
+  const user = session?.user;
+
+  return (
+    <Card className="gap-0 py-0">
+      <CardContent className="flex items-center gap-3 p-4">
+        <UserAvatar
+          src={user?.image || undefined}
+          name={user?.name || undefined}
+        />
+        <button
+          type="button"
+          onClick={() => setCreatePostOpen(true)}
+          className="flex-1 rounded-full border bg-muted/50 px-4 py-2 text-left text-sm text-muted-foreground transition-colors hover:bg-muted"
+        >
+          What&apos;s on your mind?
+        </button>
+        <button
+          type="button"
+          onClick={() => setCreatePostOpen(true)}
+          aria-label="Add photos"
+          className="rounded-full p-2 text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+        >
+          <ImagePlus className="size-5" />
+        </button>
+      </CardContent>
+    </Card>
+  );
+}
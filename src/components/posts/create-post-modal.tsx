@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { MultiImageUpload } from '@/components/upload/multi-image-upload';
+import { DiscardChangesDialog } from '@/components/shared/confirm-dialog';
+import { useMultiImageUpload } from '@/hooks/use-image-upload';
+import { useCreatePost } from '@/lib/api/hooks/use-posts';
+import {
+  createPostSchema,
+  POST_MAX_IMAGES,
+  POST_MAX_LENGTH,
+  type CreatePostFormData,
+} from '@/lib/validations/post';
+import { useUIStore } from '@/stores/ui-store';
+import { cn } from '@/lib/utils';
+import { PostEditor } from './post-editor';
+
+export function CreatePostModal() {
+  const open = useUIStore((state) => state.createPostOpen);
+  const setOpen = useUIStore((state) => state.setCreatePostOpen);
+  const [showDiscard, setShowDiscard] = useState(false);
+  // Remount the image uploader after a reset so it drops its previews
+  const [uploaderKey, setUploaderKey] = useState(0);
+
+  const createPost = useCreatePost();
+  const { uploadFiles, isUploading } = useMultiImageUpload();
+
+  const form = useForm<CreatePostFormData>({
+    resolver: zodResolver(createPostSchema),
+    defaultValues: {
+      content: '',
+      images: [],
+    },
+  });
+
+  const content = form.watch('content');
+  const isDirty = content.trim().length > 0 || form.watch('images').length > 0;
+
+  const close = useCallback(() => {
+    form.reset();
+    setUploaderKey((key) => key + 1);
+    setOpen(false);
+  }, [form, setOpen]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setOpen(true);
+    } else if (isDirty) {
+      setShowDiscard(true);
+    } else {
+      close();
+    }
+  };
+
+  const onSubmit = async (data: CreatePostFormData) => {
+    try {
+      await createPost.mutateAsync({
+        content: data.content.trim(),
+        images: data.images,
+      });
+      close();
+    } catch {
+      // Error handled by mutation; keep the draft so it can be retried
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Create post</DialogTitle>
+            <DialogDescription>
+              Use # to add hashtags and @ to mention people.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="content"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <PostEditor
+                      value={field.value}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                      name={field.name}
+                      placeholder="What's on your mind?"
+                      aria-label="Post content"
+                      aria-invalid={!!fieldState.error}
+                      className="min-h-32"
+                      autoFocus
+                    />
+                    <div className="flex items-start justify-between gap-2">
+                      <FormMessage />
+                      <span
+                        className={cn(
+                          'ml-auto text-xs text-muted-foreground',
+                          content.length > POST_MAX_LENGTH && 'text-destructive'
+                        )}
+                      >
+                        {content.length}/{POST_MAX_LENGTH}
+                      </span>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="images"
+                render={({ field }) => (
+                  <FormItem>
+                    <MultiImageUpload
+                      key={uploaderKey}
+                      value={field.value}
+                      onChange={field.onChange}
+                      onUpload={uploadFiles}
+                      maxFiles={POST_MAX_IMAGES}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleOpenChange(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={!isDirty || isUploading || createPost.isPending}
+                >
+                  {isUploading ? (
+                    <>
+                      <Loader2 className="mr-2 size-4 animate-spin" />
+                      Uploading...
+                    </>
+                  ) : createPost.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 size-4 animate-spin" />
+                      Posting...
+                    </>
+                  ) : (
+                    'Post'
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <DiscardChangesDialog
+        open={showDiscard}
+        onOpenChange={setShowDiscard}
+        onDiscard={close}
+      />
+    </>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { MultiImageUpload } from '@/components/upload/multi-image-upload';
+import { useMultiImageUpload } from '@/hooks/use-image-upload';
+import { useUpdatePost } from '@/lib/api/hooks/use-posts';
+import {
+  createPostSchema,
+  POST_MAX_IMAGES,
+  POST_MAX_LENGTH,
+  type CreatePostFormData,
+} from '@/lib/validations/post';
+import { cn } from '@/lib/utils';
+import type { Post } from '@/types/post';
+import { PostEditor } from './post-editor';
+
+interface EditPostDialogProps {
+  post: Post;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function EditPostDialog({
+  post,
+  open,
+  onOpenChange,
+}: EditPostDialogProps) {
+  const updatePost = useUpdatePost();
+  const { uploadFiles, isUploading } = useMultiImageUpload();
+
+  const form = useForm<CreatePostFormData>({
+    resolver: zodResolver(createPostSchema),
+    values: {
+      content: post.content,
+      images: post.images ?? [],
+    },
+  });
+
+  const content = form.watch('content');
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) form.reset();
+    onOpenChange(nextOpen);
+  };
+
+  const onSubmit = (data: CreatePostFormData) => {
+    updatePost.mutate(
+      {
+        id: post.id,
+        data: { content: data.content.trim(), images: data.images },
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit post</DialogTitle>
+          <DialogDescription>
+            Earlier versions stay visible in the post&apos;s edit history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="content"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <PostEditor
+                    value={field.value}
+                    onChange={field.onChange}
+                    onBlur={field.onBlur}
+                    name={field.name}
+                    aria-label="Post content"
+                    aria-invalid={!!fieldState.error}
+                    className="min-h-32"
+                    autoFocus
+                  />
+                  <div className="flex items-start justify-between gap-2">
+                    <FormMessage />
+                    <span
+                      className={cn(
+                        'ml-auto text-xs text-muted-foreground',
+                        content.length > POST_MAX_LENGTH && 'text-destructive'
+                      )}
+                    >
+                      {content.length}/{POST_MAX_LENGTH}
+                    </span>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="images"
+              render={({ field }) => (
+                <FormItem>
+                  <MultiImageUpload
+                    value={field.value}
+                    onChange={field.onChange}
+                    onUpload={uploadFiles}
+                    maxFiles={POST_MAX_IMAGES}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={updatePost.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={
+                  !form.formState.isDirty || isUploading || updatePost.isPending
+                }
+              >
+                {updatePost.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { Trash2 } from 'lucide-react';
+
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { truncatePostContent } from '@/lib/post-content';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { Post } from '@/types/post';
+
+interface EmbeddedPostProps {
+  // null when the original post has been deleted
+  post: Post | null | undefined;
+  /** Link to the original (off for previews, e.g. in the quote dialog) */
+  linkToPost?: boolean;
+  className?: string;
+}
+
+// Compact preview of a quoted post
+export function EmbeddedPost({
+  post,
+  linkToPost = true,
+  className,
+}: EmbeddedPostProps) {
+  if (!post) {
+    return (
+      <div
+        className={cn(
+          'flex items-center gap-2 rounded-lg border border-dashed bg-muted/40 px-4 py-3 text-sm text-muted-foreground',
+          className
+        )}
+      >
+        <Trash2 className="size-4 shrink-0" />
+        This post is no longer available.
+      </div>
+    );
+  }
+
+  const [firstImage] = post.images ?? [];
+  const cardClassName = cn('block space-y-2 rounded-lg border p-3', className);
+
+  const preview = (
+    <>
+      <div className="flex items-center gap-2 text-sm">
+        <UserAvatar user={post.author} size="xs" />
+        <span className="truncate font-semibold">{post.author.fullName}</span>
+        <span className="shrink-0 text-xs text-muted-foreground">
+          @{post.author.username} · {formatRelativeTime(post.createdAt)}
+        </span>
+      </div>
+
+      {post.content && (
+        <p className="whitespace-pre-wrap break-words text-sm">
+          {truncatePostContent(post.content, 280)}
+        </p>
+      )}
+
+      {firstImage && (
+        <div className="relative aspect-video overflow-hidden rounded-md bg-muted">
+          <Image
+            src={firstImage}
+            alt={`Photo by ${post.author.username}`}
+            fill
+            sizes="(min-width: 768px) 600px, 100vw"
+            className="object-cover"
+          />
+          {post.images!.length > 1 && (
+            <span className="absolute bottom-2 right-2 rounded-full bg-black/60 px-2 py-0.5 text-xs text-white">
+              +{post.images!.length - 1}
+            </span>
+          )}
+        </div>
+      )}
+    </>
+  );
+
+  if (!linkToPost) {
+    return <div className={cardClassName}>{preview}</div>;
+  }
+
+  // The text above has no hashtag/mention links so the whole preview can be one link
+  return (
+    <Link
+      href={`/posts/${post.id}`}
+      aria-label={`Quoted post by ${post.author.fullName}`}
+      className={cn(cardClassName, 'transition-colors hover:bg-muted/40')}
+    >
+      {preview}
+    </Link>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+
+import { cn } from '@/lib/utils';
+import { ImageLightbox } from './image-lightbox';
+
+interface ImageGalleryProps {
+  images: string[];
+  alt?: string;
+  className?: string;
+}
+
+// Grid shows up to 4 images; the rest are reachable through the lightbox
+const MAX_VISIBLE = 4;
+
+export function ImageGallery({
+  images,
+  alt = 'Post image',
+  className,
+}: ImageGalleryProps) {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  if (images.length === 0) return null;
+
+  const visibleImages = images.slice(0, MAX_VISIBLE);
+  const hiddenCount = images.length - visibleImages.length;
+  const count = visibleImages.length;
+
+  return (
+    <>
+      <div
+        className={cn(
+          'grid gap-1 overflow-hidden rounded-xl',
+          count === 1 ? 'grid-cols-1' : 'grid-cols-2',
+          count > 2 && 'grid-rows-2',
+          count === 1 ? 'aspect-video' : 'aspect-[4/3]',
+          className
+        )}
+      >
+        {visibleImages.map((image, index) => {
+          const isLastVisible = index === count - 1;
+
+          return (
+            <button
+              key={`${image}-${index}`}
+              type="button"
+              onClick={() => setLightboxIndex(index)}
+              className={cn(
+                'relative overflow-hidden bg-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                // With three images the first one takes the full left column
+                count === 3 && index === 0 && 'row-span-2'
+              )}
+              aria-label={`View image ${index + 1} of ${images.length}`}
+            >
+              <Image
+                src={image}
+                alt={`${alt} ${index + 1}`}
+                fill
+                sizes="(max-width: 768px) 100vw, 50vw"
+                className="object-cover transition-transform hover:scale-105"
+              />
+              {isLastVisible && hiddenCount > 0 && (
+                <span className="absolute inset-0 flex items-center justify-center bg-black/50 text-2xl font-semibold text-white">
+                  +{hiddenCount}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <ImageLightbox
+        images={images}
+        index={lightboxIndex ?? 0}
+        open={lightboxIndex !== null}
+        onOpenChange={(open) => !open && setLightboxIndex(null)}
+        onIndexChange={setLightboxIndex}
+        alt={alt}
+      />
+    </>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ImageLightboxProps {
+  images: string[];
+  index: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onIndexChange: (index: number) => void;
+  alt?: string;
+}
+
+export function ImageLightbox({
+  images,
+  index,
+  open,
+  onOpenChange,
+  onIndexChange,
+  alt = 'Image',
+}: ImageLightboxProps) {
+  const hasPrevious = index > 0;
+  const hasNext = index < images.length - 1;
+  const currentImage = images[index];
+
+  const showPrevious = useCallback(() => {
+    if (hasPrevious) onIndexChange(index - 1);
+  }, [hasPrevious, index, onIndexChange]);
+
+  const showNext = useCallback(() => {
+    if (hasNext) onIndexChange(index + 1);
+  }, [hasNext, index, onIndexChange]);
+
+  // Arrow key navigation
+  useEffect(() => {
+    if (!open) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowLeft') showPrevious();
+      if (event.key === 'ArrowRight') showNext();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, showPrevious, showNext]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        showCloseButton={false}
+        className="h-[100dvh] max-w-none gap-0 rounded-none border-none bg-black/95 p-0 sm:max-w-none"
+      >
+        <DialogTitle className="sr-only">{alt}</DialogTitle>
+        <DialogDescription className="sr-only">
+          Image {index + 1} of {images.length}
+        </DialogDescription>
+
+        <div className="relative size-full">
+          {currentImage && (
+            <Image
+              src={currentImage}
+              alt={`${alt} ${index + 1}`}
+              fill
+              sizes="100vw"
+              className="object-contain"
+            />
+          )}
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onOpenChange(false)}
+            className="absolute right-4 top-4 text-white hover:bg-white/10 hover:text-white"
+            aria-label="Close"
+          >
+            <X className="size-6" />
+          </Button>
+
+          {images.length > 1 && (
+            <>
+              <span className="absolute left-1/2 top-5 -translate-x-1/2 rounded-full bg-black/50 px-3 py-1 text-sm text-white">
+                {index + 1} / {images.length}
+              </span>
+
+              {hasPrevious && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={showPrevious}
+                  className="absolute left-4 top-1/2 -translate-y-1/2 rounded-full bg-black/50 text-white hover:bg-black/70 hover:text-white"
+                  aria-label="Previous image"
+                >
+                  <ChevronLeft className="size-6" />
+                </Button>
+              )}
+
+              {hasNext && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={showNext}
+                  className="absolute right-4 top-1/2 -translate-y-1/2 rounded-full bg-black/50 text-white hover:bg-black/70 hover:text-white"
+                  aria-label="Next image"
+                >
+                  <ChevronRight className="size-6" />
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,9 @@
+export { CreatePostModal } from './create-post-modal';
+export { CreatePostCard } from './create-post-card';
+export { PostEditor } from './post-editor';
+export { ImageGallery } from './image-gallery';
+export { ImageLightbox } from './image-lightbox';
+export { EditPostDialog } from './edit-post-dialog';
+export { PostRevisionsDialog } from './post-revisions-dialog';
+export { EmbeddedPost } from './embedded-post';
+export { QuotePostDialog } from './quote-post-dialog';
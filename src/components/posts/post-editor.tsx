@@ -0,0 +1,235 @@
+'use client';
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Hash } from 'lucide-react';
+
+import { Textarea } from '@/components/ui/textarea';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { useDebounce } from '@/hooks/use-debounce';
+import {
+  useSearchHashtags,
+  useMentionSuggestions,
+} from '@/lib/api/hooks/use-search';
+import { cn } from '@/lib/utils';
+
+interface Suggestion {
+  key: string;
+  insert: string;
+  label: string;
+  description?: string;
+  avatar?: { name: string; avatarUrl?: string };
+}
+
+interface ActiveToken {
+  trigger: '#' | '@';
+  query: string;
+  start: number;
+  end: number;
+}
+
+// Matches a #hashtag or @mention being typed right before the caret
+const TOKEN_PATTERN = /(^|\s)([#@])(\w*)$/;
+
+function getActiveToken(value: string, caret: number): ActiveToken | null {
+  const match = TOKEN_PATTERN.exec(value.slice(0, caret));
+  if (!match) return null;
+
+  const trigger = match[2] as '#' | '@';
+  const query = match[3] ?? '';
+
+  return {
+    trigger,
+    query,
+    start: caret - query.length - 1,
+    end: caret,
+  };
+}
+
+interface PostEditorProps extends Omit<
+  React.ComponentProps<'textarea'>,
+  'value' | 'onChange'
+> {
+  value: string;
+  onChange: (value: string) => void;
+  /** Disable #hashtag suggestions (e.g. for comments) */
+  disableHashtags?: boolean;
+}
+
+export function PostEditor({
+  value,
+  onChange,
+  disableHashtags = false,
+  className,
+  onKeyDown,
+  onBlur,
+  ...props
+}: PostEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingCaretRef = useRef<number | null>(null);
+  const [token, setToken] = useState<ActiveToken | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  const debouncedQuery = useDebounce(token?.query ?? '', 200);
+  const hashtagQuery =
+    token?.trigger === '#' && !disableHashtags ? debouncedQuery : '';
+  const mentionQuery = token?.trigger === '@' ? debouncedQuery : '';
+
+  const { data: hashtagData } = useSearchHashtags(hashtagQuery);
+  const { data: mentionData } = useMentionSuggestions(mentionQuery);
+
+  const suggestions: Suggestion[] =
+    token?.trigger === '#' && hashtagQuery
+      ? (hashtagData?.hashtags ?? []).slice(0, 5).map((hashtag) => ({
+          key: hashtag.tag,
+          insert: `#${hashtag.tag}`,
+          label: `#${hashtag.tag}`,
+          description: `${hashtag.count.toLocaleString()} posts`,
+        }))
+      : token?.trigger === '@' && mentionQuery
+        ? (mentionData?.items ?? []).map((user) => ({
+            key: user.id,
+            insert: `@${user.username}`,
+            label: user.fullName,
+            description: `@${user.username}`,
+            avatar: { name: user.fullName, avatarUrl: user.avatarUrl },
+          }))
+        : [];
+
+  const isOpen = !!token && suggestions.length > 0;
+
+  // Restore the caret after inserting a suggestion
+  useEffect(() => {
+    const caret = pendingCaretRef.current;
+    if (caret === null || !textareaRef.current) return;
+    pendingCaretRef.current = null;
+    textareaRef.current.setSelectionRange(caret, caret);
+  }, [value]);
+
+  const updateToken = useCallback((element: HTMLTextAreaElement) => {
+    setToken(getActiveToken(element.value, element.selectionStart));
+    setHighlightedIndex(0);
+  }, []);
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    if (!token) return;
+
+    const before = value.slice(0, token.start);
+    const after = value.slice(token.end).replace(/^\s*/, '');
+    const inserted = `${suggestion.insert} `;
+
+    pendingCaretRef.current = before.length + inserted.length;
+    onChange(`${before}${inserted}${after}`);
+    setToken(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isOpen) {
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault();
+          setHighlightedIndex((index) => (index + 1) % suggestions.length);
+          return;
+        case 'ArrowUp':
+          event.preventDefault();
+          setHighlightedIndex(
+            (index) => (index - 1 + suggestions.length) % suggestions.length
+          );
+          return;
+        case 'Enter':
+        case 'Tab': {
+          const suggestion = suggestions[highlightedIndex];
+          if (suggestion) {
+            event.preventDefault();
+            selectSuggestion(suggestion);
+            return;
+          }
+          break;
+        }
+        case 'Escape':
+          event.preventDefault();
+          event.stopPropagation();
+          setToken(null);
+          return;
+      }
+    }
+
+    onKeyDown?.(event);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          updateToken(event.target);
+        }}
+        onClick={(event) => updateToken(event.currentTarget)}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(event) => {
+          if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+            updateToken(event.currentTarget);
+          }
+        }}
+        onBlur={(event) => {
+          setToken(null);
+          onBlur?.(event);
+        }}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+        aria-controls={isOpen ? 'post-editor-suggestions' : undefined}
+        className={cn('resize-none', className)}
+        {...props}
+      />
+
+      {isOpen && (
+        <ul
+          id="post-editor-suggestions"
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-50 mt-1 overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.key}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              // Keep focus in the textarea while picking a suggestion
+              onMouseDown={(event) => {
+                event.preventDefault();
+                selectSuggestion(suggestion);
+              }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={cn(
+                'flex cursor-pointer items-center gap-3 rounded-sm px-2 py-1.5 text-sm',
+                index === highlightedIndex && 'bg-accent text-accent-foreground'
+              )}
+            >
+              {suggestion.avatar ? (
+                <UserAvatar
+                  src={suggestion.avatar.avatarUrl}
+                  name={suggestion.avatar.name}
+                  size="sm"
+                />
+              ) : (
+                <div className="flex size-8 items-center justify-center rounded-full bg-muted">
+                  <Hash className="size-4 text-muted-foreground" />
+                </div>
+              )}
+              <div className="min-w-0">
+                <p className="truncate font-medium">{suggestion.label}</p>
+                {suggestion.description && (
+                  <p className="truncate text-xs text-muted-foreground">
+                    {suggestion.description}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
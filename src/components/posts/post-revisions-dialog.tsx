@@ -0,0 +1,98 @@
+'use client';
+
+import { History } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { EmptyState } from '@/components/shared/empty-state';
+import { PostContent } from '@/components/feed/post-content';
+import { usePostRevisions } from '@/lib/api/hooks/use-posts';
+import { formatDate } from '@/lib/utils';
+import type { Post } from '@/types/post';
+
+interface PostRevisionsDialogProps {
+  post: Post;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PostRevisionsDialog({
+  post,
+  open,
+  onOpenChange,
+}: PostRevisionsDialogProps) {
+  const {
+    data: revisions,
+    isLoading,
+    isError,
+  } = usePostRevisions(post.id, open);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            {post.updatedAt
+              ? `Last edited ${formatDate(post.updatedAt, 'PPp')}`
+              : 'Previous versions of this post'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="space-y-2">
+                <Skeleton className="h-4 w-32" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            ))}
+          </div>
+        ) : isError || !revisions?.length ? (
+          <EmptyState
+            icon={<History className="h-full w-full" />}
+            title={
+              isError ? "Couldn't load edit history" : 'No earlier versions'
+            }
+            size="sm"
+          />
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <ol className="space-y-4 pr-3">
+              {revisions.map((revision) => (
+                <li key={revision.id} className="space-y-1 border-l-2 pl-4">
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(revision.createdAt, 'PPp')}
+                  </p>
+                  {revision.content ? (
+                    <PostContent
+                      content={revision.content}
+                      className="text-sm"
+                    />
+                  ) : (
+                    <p className="text-sm italic text-muted-foreground">
+                      No text
+                    </p>
+                  )}
+                  {!!revision.images?.length && (
+                    <p className="text-xs text-muted-foreground">
+                      {revision.images.length} photo
+                      {revision.images.length !== 1 && 's'}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
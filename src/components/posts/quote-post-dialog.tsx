@@ -0,0 +1,124 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { useCreatePost } from '@/lib/api/hooks/use-posts';
+import {
+  quotePostSchema,
+  POST_MAX_LENGTH,
+  type QuotePostFormData,
+} from '@/lib/validations/post';
+import { cn } from '@/lib/utils';
+import type { Post } from '@/types/post';
+import { PostEditor } from './post-editor';
+import { EmbeddedPost } from './embedded-post';
+
+interface QuotePostDialogProps {
+  post: Post;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function QuotePostDialog({
+  post,
+  open,
+  onOpenChange,
+}: QuotePostDialogProps) {
+  const createPost = useCreatePost();
+
+  const form = useForm<QuotePostFormData>({
+    resolver: zodResolver(quotePostSchema),
+    defaultValues: { content: '' },
+  });
+
+  const content = form.watch('content');
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) form.reset();
+    onOpenChange(nextOpen);
+  };
+
+  const onSubmit = (data: QuotePostFormData) => {
+    // Shows up in the feed right away, like any new post
+    createPost.mutate({
+      content: data.content,
+      images: [],
+      repostOfId: post.id,
+    });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Quote post</DialogTitle>
+          <DialogDescription>
+            Share this post to your feed with your own thoughts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="content"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <PostEditor
+                    value={field.value}
+                    onChange={field.onChange}
+                    onBlur={field.onBlur}
+                    name={field.name}
+                    placeholder="Add a comment..."
+                    aria-label="Quote content"
+                    aria-invalid={!!fieldState.error}
+                    className="min-h-24"
+                    autoFocus
+                  />
+                  <div className="flex items-start justify-between gap-2">
+                    <FormMessage />
+                    <span
+                      className={cn(
+                        'ml-auto text-xs text-muted-foreground',
+                        content.length > POST_MAX_LENGTH && 'text-destructive'
+                      )}
+                    >
+                      {content.length}/{POST_MAX_LENGTH}
+                    </span>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <EmbeddedPost post={post} linkToPost={false} />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!content.trim()}>
+                Post
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
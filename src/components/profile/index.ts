@@ -6,4 +6,5 @@ export { ProfileActions } from './profile-actions';
 export { ProfileHeader } from './profile-header';
 export { ProfileStats } from './profile-stats';
 export { ProfileTabs } from './profile-tabs';
+export { SellerReputation } from './seller-reputation';
 export { UserCard, UserCardSkeleton } from './user-card';
@@ -8,6 +8,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { ProfileStats } from './profile-stats';
 import { ProfileActions } from './profile-actions';
+import { SellerReputation } from './seller-reputation';
 import { useUploadAvatar, useUploadCover } from '@/lib/api/hooks/use-user';
 import { cn } from '@/lib/utils';
 import type { User } from '@/types/auth';
@@ -185,6 +186,8 @@ export function ProfileHeader({
               </span>
             </div>
 
+            <SellerReputation stats={user.sellerStats} className="mt-2" />
+
             {/* Stats */}
             <ProfileStats
               username={user.username}
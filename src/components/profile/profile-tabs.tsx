@@ -1,13 +1,27 @@
 'use client';
 
+import { useState } from 'react';
 import { FileText, ShoppingBag, Wrench, User } from 'lucide-react';
 
+import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { InfiniteScroll } from '@/components/shared/infinite-scroll';
+import { GridSkeleton, SkeletonList } from '@/components/shared/skeleton-list';
+import { PostCard } from '@/components/feed/post-card';
+import { ListingCard } from '@/components/marketplace/listing-card';
+import { PartCard } from '@/components/parts/part-card';
+import { BikeCard, GarageManager } from '@/components/garage';
+import { useUserGarage } from '@/lib/api/hooks/use-garage';
+import { useUserListings } from '@/lib/api/hooks/use-marketplace';
+import { useParts } from '@/lib/api/hooks/use-parts';
+import { useUserPosts } from '@/lib/api/hooks/use-posts';
 import { cn } from '@/lib/utils';
 import type { User as UserType } from '@/types/auth';
 
 interface ProfileTabsProps {
   user: UserType;
+  // The owner manages their garage from the About tab
+  isOwnProfile?: boolean;
   defaultTab?: string;
   className?: string;
 }
@@ -27,6 +41,7 @@ const tabs: TabConfig[] = [
 
 export function ProfileTabs({
   user,
+  isOwnProfile = false,
   defaultTab = 'posts',
   className,
 }: ProfileTabsProps) {
@@ -58,46 +73,185 @@ export function ProfileTabs({
       </TabsContent>
 
       <TabsContent value="about" className="mt-4">
-        <AboutTabContent user={user} />
+        <AboutTabContent user={user} isOwnProfile={isOwnProfile} />
       </TabsContent>
     </Tabs>
   );
 }
 
-// Tab content components - placeholders for now
-// These will be implemented when we build the respective features
+// Tab content components
+
+function PostsTabContent({ userId }: { userId: string }) {
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useUserPosts(userId);
+
+  const posts = data?.pages.flatMap((page) => page.items) ?? [];
+
+  if (isLoading) {
+    return <SkeletonList count={3} />;
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        <FileText className="mx-auto mb-2 size-12 opacity-50" />
+        <p>No posts yet</p>
+        <p className="text-sm">Posts will appear here</p>
+      </div>
+    );
+  }
 
-function PostsTabContent({ userId: _userId }: { userId: string }) {
   return (
-    <div className="py-8 text-center text-muted-foreground">
-      <FileText className="mx-auto mb-2 size-12 opacity-50" />
-      <p>No posts yet</p>
-      <p className="text-sm">Posts will appear here</p>
-    </div>
+    <InfiniteScroll
+      hasMore={!!hasNextPage}
+      isLoading={isFetchingNextPage}
+      isError={isFetchNextPageError}
+      onLoadMore={() => fetchNextPage()}
+      onRetry={() => fetchNextPage()}
+      loadingComponent={<SkeletonList count={2} className="w-full" />}
+      className="space-y-4"
+    >
+      {posts.map((post) => (
+        <PostCard key={post.id} post={post} />
+      ))}
+    </InfiniteScroll>
   );
 }
 
-function ListingsTabContent({ userId: _userId }: { userId: string }) {
+const LISTING_FILTERS = [
+  { value: 'active', label: 'Active' },
+  { value: 'sold', label: 'Sold' },
+] as const;
+
+function ListingsTabContent({ userId }: { userId: string }) {
+  const [status, setStatus] =
+    useState<(typeof LISTING_FILTERS)[number]['value']>('active');
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useUserListings(userId, status);
+
+  const listings = data?.pages.flatMap((page) => page.items) ?? [];
+
   return (
-    <div className="py-8 text-center text-muted-foreground">
-      <ShoppingBag className="mx-auto mb-2 size-12 opacity-50" />
-      <p>No listings yet</p>
-      <p className="text-sm">Marketplace listings will appear here</p>
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {LISTING_FILTERS.map((filter) => (
+          <Button
+            key={filter.value}
+            variant={status === filter.value ? 'default' : 'outline'}
+            size="sm"
+            className="rounded-full"
+            aria-pressed={status === filter.value}
+            onClick={() => setStatus(filter.value)}
+          >
+            {filter.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <GridSkeleton count={3} variant="listing" />
+      ) : listings.length === 0 ? (
+        <div className="py-8 text-center text-muted-foreground">
+          <ShoppingBag className="mx-auto mb-2 size-12 opacity-50" />
+          <p>{status === 'active' ? 'No listings yet' : 'Nothing sold yet'}</p>
+          <p className="text-sm">
+            {status === 'active'
+              ? 'Marketplace listings will appear here'
+              : 'Completed sales will appear here'}
+          </p>
+        </div>
+      ) : (
+        <InfiniteScroll
+          hasMore={!!hasNextPage}
+          isLoading={isFetchingNextPage}
+          isError={isFetchNextPageError}
+          onLoadMore={() => fetchNextPage()}
+          onRetry={() => fetchNextPage()}
+          loadingComponent={
+            <GridSkeleton count={3} variant="listing" className="w-full" />
+          }
+        >
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {listings.map((listing) => (
+              <ListingCard key={listing.id} listing={listing} />
+            ))}
+          </div>
+        </InfiniteScroll>
+      )}
     </div>
   );
 }
 
-function PartsTabContent({ userId: _userId }: { userId: string }) {
+function PartsTabContent({ userId }: { userId: string }) {
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useParts({ sellerId: userId });
+
+  const parts = data?.pages.flatMap((page) => page.items) ?? [];
+
+  if (isLoading) {
+    return <GridSkeleton count={3} variant="listing" />;
+  }
+
+  if (parts.length === 0) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        <Wrench className="mx-auto mb-2 size-12 opacity-50" />
+        <p>No parts listed</p>
+        <p className="text-sm">Parts for sale will appear here</p>
+      </div>
+    );
+  }
+
   return (
-    <div className="py-8 text-center text-muted-foreground">
-      <Wrench className="mx-auto mb-2 size-12 opacity-50" />
-      <p>No parts listed</p>
-      <p className="text-sm">Parts for sale will appear here</p>
-    </div>
+    <InfiniteScroll
+      hasMore={!!hasNextPage}
+      isLoading={isFetchingNextPage}
+      isError={isFetchNextPageError}
+      onLoadMore={() => fetchNextPage()}
+      onRetry={() => fetchNextPage()}
+      loadingComponent={
+        <GridSkeleton count={3} variant="listing" className="w-full" />
+      }
+    >
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {parts.map((part) => (
+          <PartCard key={part.id} part={part} />
+        ))}
+      </div>
+    </InfiniteScroll>
   );
 }
 
-function AboutTabContent({ user }: { user: UserType }) {
+function AboutTabContent({
+  user,
+  isOwnProfile,
+}: {
+  user: UserType;
+  isOwnProfile: boolean;
+}) {
+  const { data: bikes = [] } = useUserGarage(
+    isOwnProfile ? undefined : user.id
+  );
+  const hasGarage = isOwnProfile || bikes.length > 0;
+
   return (
     <div className="space-y-6">
       {user.bio && (
@@ -151,7 +305,22 @@ function AboutTabContent({ user }: { user: UserType }) {
         </div>
       </div>
 
-      {!user.bio && !user.location && !user.website && (
+      {hasGarage && (
+        <div>
+          <h3 className="mb-3 font-semibold">Garage</h3>
+          {isOwnProfile ? (
+            <GarageManager />
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2">
+              {bikes.map((bike) => (
+                <BikeCard key={bike.id} bike={bike} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {!user.bio && !user.location && !user.website && !hasGarage && (
         <div className="py-8 text-center text-muted-foreground">
           <User className="mx-auto mb-2 size-12 opacity-50" />
           <p>No additional information</p>
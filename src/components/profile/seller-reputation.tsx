@@ -0,0 +1,55 @@
+'use client';
+
+import { Clock, ShoppingBag, Star } from 'lucide-react';
+
+import { formatRating, formatResponseTime } from '@/lib/marketplace';
+import { cn, formatCompactNumber } from '@/lib/utils';
+import type { SellerStats } from '@/types/auth';
+
+interface SellerReputationProps {
+  stats: SellerStats | undefined;
+  className?: string;
+}
+
+// Rating, completed sales and response time for anyone who has sold on the
+// marketplace. Renders nothing for users who haven't.
+export function SellerReputation({ stats, className }: SellerReputationProps) {
+  if (!stats || (stats.completedSales === 0 && stats.ratingsCount === 0)) {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn(
+        'flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground',
+        className
+      )}
+    >
+      <span className="flex items-center gap-1">
+        <Star className="size-4 fill-amber-400 text-amber-400" />
+        {stats.rating !== null ? (
+          <>
+            <span className="font-semibold text-foreground">
+              {formatRating(stats.rating)}
+            </span>
+            ({formatCompactNumber(stats.ratingsCount)}{' '}
+            {stats.ratingsCount === 1 ? 'rating' : 'ratings'})
+          </>
+        ) : (
+          'No ratings yet'
+        )}
+      </span>
+      <span className="flex items-center gap-1">
+        <ShoppingBag className="size-4" />
+        {formatCompactNumber(stats.completedSales)}{' '}
+        {stats.completedSales === 1 ? 'sale' : 'sales'}
+      </span>
+      {stats.responseTimeHours !== null && (
+        <span className="flex items-center gap-1">
+          <Clock className="size-4" />
+          Replies {formatResponseTime(stats.responseTimeHours)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { BadgeCheck } from 'lucide-react';
 
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { FollowButton } from './follow-button';
+import { SellerReputation } from './seller-reputation';
 import { cn } from '@/lib/utils';
 import type { User } from '@/types/auth';
 
@@ -13,6 +14,8 @@ interface UserCardProps {
   currentUserId?: string;
   showBio?: boolean;
   showFollowButton?: boolean;
+  // Marketplace rating and sales, for seller cards on listings
+  showSellerStats?: boolean;
   mutualFollowers?: User[];
   className?: string;
 }
@@ -31,6 +34,7 @@ export function UserCard({
   currentUserId,
   showBio = true,
   showFollowButton = true,
+  showSellerStats = false,
   mutualFollowers,
   className,
 }: UserCardProps) {
@@ -76,6 +80,10 @@ export function UserCard({
           </p>
         )}
 
+        {showSellerStats && (
+          <SellerReputation stats={user.sellerStats} className="mt-1.5" />
+        )}
+
         {mutualFollowers && mutualFollowers.length > 0 && (
           <MutualFollowersIndicator mutualFollowers={mutualFollowers} />
         )}
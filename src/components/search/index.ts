@@ -5,3 +5,5 @@ export { UserSearchResult, UserSearchResultCompact } from './user-search-result'
 export { PostSearchResult, PostSearchResultCompact } from './post-search-result';
 export { ListingSearchResult, ListingSearchResultCompact } from './listing-search-result';
 export { ThreadSearchResult, ThreadSearchResultCompact } from './thread-search-result';
+export { PartSearchResultCompact } from './part-search-result';
+export { SaveSearchDialog } from './save-search-dialog';
@@ -5,6 +5,8 @@ import Image from 'next/image';
 import { MapPin, ImageIcon } from 'lucide-react';
 
 import { Badge } from '@/components/ui/badge';
+import { ConvertedPrice } from '@/components/marketplace/converted-price';
+import { CONDITION_COLORS, CONDITION_LABELS, formatPrice } from '@/lib/marketplace';
 import { cn } from '@/lib/utils';
 import type { Listing } from '@/types/search';
 
@@ -14,30 +16,6 @@ interface ListingSearchResultProps {
   className?: string;
 }
 
-const conditionLabels: Record<Listing['condition'], string> = {
-  new: 'New',
-  'like-new': 'Like New',
-  good: 'Good',
-  fair: 'Fair',
-  poor: 'Poor',
-};
-
-const conditionColors: Record<Listing['condition'], string> = {
-  new: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
-  'like-new': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100',
-  good: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100',
-  fair: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-100',
-  poor: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100',
-};
-
-function formatPrice(price: number, currency: string): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-    maximumFractionDigits: 0,
-  }).format(price);
-}
-
 export function ListingSearchResult({
   listing,
   onClick,
@@ -75,16 +53,19 @@ export function ListingSearchResult({
       <div className="min-w-0 flex-1">
         <h3 className="truncate font-medium">{listing.title}</h3>
 
-        <p className="mt-1 text-lg font-semibold text-primary">
-          {formatPrice(listing.price, listing.currency)}
+        <p className="mt-1 flex flex-wrap items-baseline gap-x-2">
+          <span className="text-lg font-semibold text-primary">
+            {formatPrice(listing.price, listing.currency)}
+          </span>
+          <ConvertedPrice price={listing.price} currency={listing.currency} />
         </p>
 
         <div className="mt-2 flex flex-wrap items-center gap-2">
           <Badge
             variant="secondary"
-            className={cn('text-xs', conditionColors[listing.condition])}
+            className={cn('text-xs', CONDITION_COLORS[listing.condition])}
           >
-            {conditionLabels[listing.condition]}
+            {CONDITION_LABELS[listing.condition]}
           </Badge>
 
           {listing.location && (
@@ -135,16 +116,23 @@ export function ListingSearchResultCompact({
 
       <div className="min-w-0 flex-1">
         <p className="truncate text-sm font-medium">{listing.title}</p>
-        <p className="text-xs font-semibold text-primary">
-          {formatPrice(listing.price, listing.currency)}
+        <p className="text-xs">
+          <span className="font-semibold text-primary">
+            {formatPrice(listing.price, listing.currency)}
+          </span>{' '}
+          <ConvertedPrice
+            price={listing.price}
+            currency={listing.currency}
+            className="text-[10px]"
+          />
         </p>
       </div>
 
       <Badge
         variant="secondary"
-        className={cn('flex-shrink-0 text-[10px]', conditionColors[listing.condition])}
+        className={cn('flex-shrink-0 text-[10px]', CONDITION_COLORS[listing.condition])}
       >
-        {conditionLabels[listing.condition]}
+        {CONDITION_LABELS[listing.condition]}
       </Badge>
     </Link>
   );
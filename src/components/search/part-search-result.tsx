@@ -0,0 +1,62 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { ImageIcon } from 'lucide-react';
+
+import { formatPrice } from '@/lib/marketplace';
+import { cn } from '@/lib/utils';
+import type { Part } from '@/types/part';
+
+interface PartSearchResultProps {
+  part: Part;
+  onClick?: () => void;
+  className?: string;
+}
+
+// One-line part result for the search modal, led by the part number since
+// that's usually what was searched for
+export function PartSearchResultCompact({
+  part,
+  onClick,
+  className,
+}: PartSearchResultProps) {
+  const firstImage = part.images?.[0];
+
+  return (
+    <Link
+      href={`/parts/${part.id}`}
+      onClick={onClick}
+      className={cn(
+        'flex items-center gap-3 rounded-md px-2 py-1.5 transition-colors',
+        className
+      )}
+    >
+      <div className="relative size-10 flex-shrink-0 overflow-hidden rounded bg-muted">
+        {firstImage ? (
+          <Image
+            src={firstImage}
+            alt={part.name}
+            fill
+            className="object-cover"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <ImageIcon className="size-4 text-muted-foreground" />
+          </div>
+        )}
+      </div>
+
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium">{part.name}</p>
+        <p className="truncate text-xs text-muted-foreground">
+          {[part.brand, part.partNumber].filter(Boolean).join(' · ')}
+        </p>
+      </div>
+
+      <span className="flex-shrink-0 text-xs font-semibold text-primary">
+        {formatPrice(part.price, part.currency)}
+      </span>
+    </Link>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useCreateSavedSearch } from '@/lib/api/hooks/use-saved-searches';
+import { describeSavedSearchFilters } from '@/lib/marketplace';
+import {
+  SAVED_SEARCH_NAME_MAX_LENGTH,
+  savedSearchSchema,
+  type SavedSearchFormData,
+} from '@/lib/validations/saved-search';
+import type { SavedSearchFilters } from '@/types/marketplace';
+
+interface SaveSearchDialogProps {
+  query: string;
+  filters: SavedSearchFilters;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SaveSearchDialog({
+  query,
+  filters,
+  open,
+  onOpenChange,
+}: SaveSearchDialogProps) {
+  const createSavedSearch = useCreateSavedSearch();
+  const filterSummary = describeSavedSearchFilters(filters);
+
+  const form = useForm<SavedSearchFormData>({
+    resolver: zodResolver(savedSearchSchema),
+    values: { name: query, notify: false },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) form.reset();
+    onOpenChange(nextOpen);
+  };
+
+  const onSubmit = async (data: SavedSearchFormData) => {
+    try {
+      await createSavedSearch.mutateAsync({ ...data, query, filters });
+      handleOpenChange(false);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save search</DialogTitle>
+          <DialogDescription>
+            &ldquo;{query}&rdquo;
+            {filterSummary && ` · ${filterSummary}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      maxLength={SAVED_SEARCH_NAME_MAX_LENGTH}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notify"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel>Notify me about new matches</FormLabel>
+                    <FormDescription>
+                      Get a notification when a new listing matches this search
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createSavedSearch.isPending}>
+                {createSavedSearch.isPending && (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                )}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,6 +12,7 @@ import {
   X,
   Loader2,
   ArrowRight,
+  Wrench,
 } from 'lucide-react';
 
 import {
@@ -27,10 +28,16 @@ import { Button } from '@/components/ui/button';
 import { useGlobalSearch } from '@/lib/api/hooks/use-search';
 import { useRecentSearches } from '@/hooks/use-recent-searches';
 import { useDebounce } from '@/hooks/use-debounce';
+import {
+  getPartNumberHref,
+  looksLikePartNumber,
+  normalizePartNumber,
+} from '@/lib/parts';
 import { UserSearchResultCompact } from './user-search-result';
 import { PostSearchResultCompact } from './post-search-result';
 import { ListingSearchResultCompact } from './listing-search-result';
 import { ThreadSearchResultCompact } from './thread-search-result';
+import { PartSearchResultCompact } from './part-search-result';
 import type { SearchType } from '@/types/search';
 
 interface SearchModalProps {
@@ -86,6 +93,21 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
     [query, addSearch, handleOpenChange, router]
   );
 
+  // A part number pasted into an empty search goes straight to the catalog
+  // parts sold under it or an equivalent number
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent<HTMLInputElement>) => {
+      const pasted = e.clipboardData.getData('text').trim();
+      if (query.trim() || !looksLikePartNumber(pasted)) return;
+
+      e.preventDefault();
+      addSearch(pasted);
+      handleOpenChange(false);
+      router.push(getPartNumberHref(pasted));
+    },
+    [query, addSearch, handleOpenChange, router]
+  );
+
   const handleRecentSearch = useCallback(
     (recentQuery: string, type: SearchType) => {
       addSearch(recentQuery, type);
@@ -100,9 +122,11 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
     [addSearch, handleOpenChange, router]
   );
 
+  const parts = data?.parts ?? [];
   const hasResults =
     data &&
-    (data.users.length > 0 ||
+    (parts.length > 0 ||
+      data.users.length > 0 ||
       data.posts.length > 0 ||
       data.listings.length > 0 ||
       data.threads.length > 0);
@@ -112,9 +136,10 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
   return (
     <CommandDialog open={open} onOpenChange={handleOpenChange}>
       <CommandInput
-        placeholder="Search users, posts, listings, forum..."
+        placeholder="Search users, posts, listings, part numbers..."
         value={query}
         onValueChange={setQuery}
+        onPaste={handlePaste}
       />
       <CommandList>
         {/* Loading State */}
@@ -187,6 +212,44 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
         {/* Search Results */}
         {!isLoading && hasResults && (
           <>
+            {/* Parts matching a part number. The server matched on the
+                normalized number, so the typed spelling mustn't filter them */}
+            {parts.length > 0 && (
+              <CommandGroup
+                heading={`Part number ${normalizePartNumber(debouncedQuery)}`}
+                forceMount
+              >
+                {parts.slice(0, 3).map((part) => (
+                  <CommandItem
+                    key={part.id}
+                    value={`part-${part.id}`}
+                    forceMount
+                    onSelect={() => handleSelect(`/parts/${part.id}`)}
+                  >
+                    <PartSearchResultCompact part={part} />
+                  </CommandItem>
+                ))}
+                {parts.length > 3 && (
+                  <CommandItem
+                    forceMount
+                    onSelect={() =>
+                      handleSelect(getPartNumberHref(debouncedQuery))
+                    }
+                    className="justify-center text-primary"
+                  >
+                    <span className="flex items-center gap-1 text-sm">
+                      View all {parts.length} matching parts
+                      <ArrowRight className="size-3" />
+                    </span>
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            )}
+
+            {parts.length > 0 && data.users.length > 0 && (
+              <CommandSeparator />
+            )}
+
             {/* Users */}
             {data.users.length > 0 && (
               <CommandGroup heading="Users">
@@ -342,6 +405,10 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
               <ShoppingBag className="mr-2 size-4" />
               <span>Search Marketplace</span>
             </CommandItem>
+            <CommandItem onSelect={() => handleSelect('/parts')}>
+              <Wrench className="mr-2 size-4" />
+              <span>Search Parts</span>
+            </CommandItem>
             <CommandItem onSelect={() => handleSelect('/search?type=threads')}>
               <MessageSquare className="mr-2 size-4" />
               <span>Search Forum</span>
@@ -9,6 +9,9 @@ import {
   Bell,
   Lock,
   Ban,
+  VolumeX,
+  BookmarkCheck,
+  Bike,
 } from 'lucide-react';
 
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -51,6 +54,24 @@ const settingsNav = [
     icon: Ban,
     description: 'Manage blocked accounts',
   },
+  {
+    title: 'Muted',
+    href: '/settings/muted',
+    icon: VolumeX,
+    description: 'Manage muted accounts and hashtags',
+  },
+  {
+    title: 'Saved Searches',
+    href: '/settings/saved-searches',
+    icon: BookmarkCheck,
+    description: 'Manage saved marketplace searches and alerts',
+  },
+  {
+    title: 'My Garage',
+    href: '/settings/garage',
+    icon: Bike,
+    description: 'Manage the bikes you ride',
+  },
 ];
 
 interface SettingsSidebarProps {
@@ -64,7 +85,8 @@ export function SettingsSidebar({ className }: SettingsSidebarProps) {
     <ScrollArea className={cn('h-full', className)}>
       <nav className="flex flex-col gap-1 p-2">
         {settingsNav.map((item) => {
-          const isActive = pathname === item.href;
+          const isActive =
+            pathname === item.href || pathname.startsWith(`${item.href}/`);
           return (
             <Link
               key={item.href}
@@ -95,7 +117,8 @@ export function SettingsMobileNav({ className }: SettingsSidebarProps) {
     <ScrollArea className={cn('w-full', className)}>
       <nav className="flex gap-1 p-1">
         {settingsNav.map((item) => {
-          const isActive = pathname === item.href;
+          const isActive =
+            pathname === item.href || pathname.startsWith(`${item.href}/`);
           return (
             <Link
               key={item.href}
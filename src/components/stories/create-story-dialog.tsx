@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { ImagePlus, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { ImageCropper } from '@/components/upload/image-cropper';
+import { useImageUpload } from '@/hooks/use-image-upload';
+import { useCreateStory } from '@/lib/api/hooks/use-stories';
+import { createImagePreview, validateImage } from '@/lib/upload-utils';
+import { cn } from '@/lib/utils';
+
+export const STORY_CAPTION_MAX_LENGTH = 200;
+
+interface CreateStoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CreateStoryDialog({
+  open,
+  onOpenChange,
+}: CreateStoryDialogProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [imageToCrop, setImageToCrop] = useState<string | null>(null);
+  const [croppedImage, setCroppedImage] = useState<Blob | null>(null);
+  const [caption, setCaption] = useState('');
+
+  const { upload, isUploading } = useImageUpload({
+    onError: (error) => toast.error(error),
+  });
+  const createStory = useCreateStory();
+  const isSharing = isUploading || createStory.isPending;
+
+  // Object URL for the preview, released whenever the crop changes
+  const previewUrl = useMemo(
+    () => (croppedImage ? URL.createObjectURL(croppedImage) : null),
+    [croppedImage]
+  );
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const clearImageToCrop = () => {
+    if (imageToCrop) URL.revokeObjectURL(imageToCrop);
+    setImageToCrop(null);
+  };
+
+  const reset = () => {
+    clearImageToCrop();
+    setCroppedImage(null);
+    setCaption('');
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      if (isSharing) return;
+      reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const validation = await validateImage(file);
+    if (!validation.valid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    setImageToCrop(createImagePreview(file));
+  };
+
+  const handleShare = async () => {
+    if (!croppedImage) return;
+
+    const uploaded = await upload(croppedImage, 'story.jpg');
+    if (!uploaded) return;
+
+    try {
+      await createStory.mutateAsync({
+        mediaUrl: uploaded.url,
+        caption: caption.trim() || undefined,
+      });
+      reset();
+      onOpenChange(false);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <>
+      {/* Hidden while cropping so only one dialog is on screen */}
+      <Dialog open={open && !imageToCrop} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Add to your story</DialogTitle>
+            <DialogDescription>
+              Stories disappear from the feed after 24 hours.
+            </DialogDescription>
+          </DialogHeader>
+
+          {previewUrl ? (
+            <div className="space-y-3">
+              <div className="relative mx-auto aspect-[9/16] w-48 overflow-hidden rounded-lg bg-muted">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={previewUrl}
+                  alt="Story preview"
+                  className="size-full object-cover"
+                />
+              </div>
+              <div className="space-y-1">
+                <Textarea
+                  value={caption}
+                  onChange={(event) => setCaption(event.target.value)}
+                  placeholder="Add a caption..."
+                  aria-label="Story caption"
+                  maxLength={STORY_CAPTION_MAX_LENGTH}
+                  className="min-h-16 resize-none"
+                  disabled={isSharing}
+                />
+                <p
+                  className={cn(
+                    'text-right text-xs text-muted-foreground',
+                    caption.length >= STORY_CAPTION_MAX_LENGTH &&
+                      'text-destructive'
+                  )}
+                >
+                  {caption.length}/{STORY_CAPTION_MAX_LENGTH}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              className="mx-auto flex aspect-[9/16] w-48 flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed text-sm text-muted-foreground transition-colors hover:border-primary hover:text-foreground"
+            >
+              <ImagePlus className="size-8" />
+              Choose a photo
+            </button>
+          )}
+
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            className="hidden"
+            onChange={handleFileSelect}
+            aria-label="Story photo"
+          />
+
+          {previewUrl && (
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => inputRef.current?.click()}
+                disabled={isSharing}
+              >
+                Change photo
+              </Button>
+              <Button type="button" onClick={handleShare} disabled={isSharing}>
+                {isSharing ? (
+                  <>
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                    Sharing...
+                  </>
+                ) : (
+                  'Share to story'
+                )}
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {imageToCrop && (
+        <ImageCropper
+          open
+          onOpenChange={(cropperOpen) => !cropperOpen && clearImageToCrop()}
+          imageSrc={imageToCrop}
+          aspectRatio="9:16"
+          title="Crop your story"
+          description="Stories are shown full screen in portrait."
+          onCropComplete={setCroppedImage}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,6 @@
+export { StoriesBar } from './stories-bar';
+export { StoryAvatar } from './story-avatar';
+export { StoryViewer } from './story-viewer';
+export { StoryProgress } from './story-progress';
+export { StoryViewersSheet } from './story-viewers-sheet';
+export { CreateStoryDialog } from './create-story-dialog';
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useCallback, useMemo } from 'react';
+import { Plus } from 'lucide-react';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { useStoryFeed } from '@/lib/api/hooks/use-stories';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+import { StoryAvatar } from './story-avatar';
+import { StoryViewer } from './story-viewer';
+import { CreateStoryDialog } from './create-story-dialog';
+
+// Horizontal list of active stories above the feed, your own first
+export function StoriesBar() {
+  const [viewerGroupIndex, setViewerGroupIndex] = useState<number | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const { data: currentUser } = useCurrentUser();
+  const { data: storyGroups, isLoading } = useStoryFeed();
+
+  const ownGroup = storyGroups?.find(
+    (group) => group.user.id === currentUser?.id
+  );
+  const groups = useMemo(
+    () => [
+      ...(ownGroup ? [ownGroup] : []),
+      ...(storyGroups ?? []).filter((group) => group !== ownGroup),
+    ],
+    [storyGroups, ownGroup]
+  );
+
+  const closeViewer = useCallback(() => setViewerGroupIndex(null), []);
+
+  if (!currentUser && !isLoading && groups.length === 0) return null;
+
+  return (
+    <Card className="gap-0 py-0">
+      <CardContent className="p-4">
+        <div className="-mx-1 flex gap-3 overflow-x-auto px-1 pb-1 [scrollbar-width:none]">
+          {currentUser &&
+            (ownGroup ? (
+              <StoryAvatar
+                user={currentUser}
+                hasUnviewed={ownGroup.hasUnviewed}
+                label="Your story"
+                onClick={() => setViewerGroupIndex(0)}
+              >
+                <AddStoryBadge onClick={() => setCreateOpen(true)} />
+              </StoryAvatar>
+            ) : (
+              <div className="flex w-16 shrink-0 flex-col items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => setCreateOpen(true)}
+                  aria-label="Add to your story"
+                  className="relative rounded-full p-1 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                >
+                  <UserAvatar
+                    user={currentUser}
+                    size="xl"
+                    className="h-14 w-14"
+                  />
+                  <span className="absolute bottom-0.5 right-0.5 flex size-5 items-center justify-center rounded-full border-2 border-background bg-primary text-primary-foreground">
+                    <Plus className="size-3" />
+                  </span>
+                </button>
+                <span className="w-full truncate text-center text-xs">
+                  Your story
+                </span>
+              </div>
+            ))}
+
+          {isLoading
+            ? Array.from({ length: 5 }).map((_, i) => (
+                <div
+                  key={i}
+                  className="flex w-16 shrink-0 flex-col items-center gap-1"
+                >
+                  <Skeleton className="size-[3.75rem] rounded-full" />
+                  <Skeleton className="h-3 w-12" />
+                </div>
+              ))
+            : groups.map((group, index) =>
+                group === ownGroup ? null : (
+                  <StoryAvatar
+                    key={group.user.id}
+                    user={group.user}
+                    hasUnviewed={group.hasUnviewed}
+                    onClick={() => setViewerGroupIndex(index)}
+                  />
+                )
+              )}
+        </div>
+      </CardContent>
+
+      {viewerGroupIndex !== null && groups.length > 0 && (
+        <StoryViewer
+          groups={groups}
+          initialGroupIndex={viewerGroupIndex}
+          onClose={closeViewer}
+        />
+      )}
+
+      <CreateStoryDialog open={createOpen} onOpenChange={setCreateOpen} />
+    </Card>
+  );
+}
+
+function AddStoryBadge({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-label="Add to your story"
+      className="absolute right-0 top-11 flex size-5 items-center justify-center rounded-full border-2 border-background bg-primary text-primary-foreground"
+    >
+      <Plus className="size-3" />
+    </button>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { cn } from '@/lib/utils';
+import type { User } from '@/types/auth';
+
+interface StoryAvatarProps {
+  user: User;
+  /** Gradient ring for unseen stories, muted ring once everything is seen */
+  hasUnviewed: boolean;
+  label?: string;
+  onClick: () => void;
+  children?: React.ReactNode;
+  className?: string;
+}
+
+export function StoryAvatar({
+  user,
+  hasUnviewed,
+  label = user.username,
+  onClick,
+  children,
+  className,
+}: StoryAvatarProps) {
+  return (
+    <div
+      className={cn(
+        'relative flex w-16 shrink-0 flex-col items-center gap-1',
+        className
+      )}
+    >
+      <button
+        type="button"
+        onClick={onClick}
+        aria-label={`View ${user.fullName}'s story${hasUnviewed ? ' (new)' : ''}`}
+        className={cn(
+          'rounded-full p-0.5 transition-transform hover:scale-105 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
+          hasUnviewed
+            ? 'bg-gradient-to-tr from-amber-400 via-rose-500 to-fuchsia-600'
+            : 'bg-muted-foreground/30'
+        )}
+      >
+        <span className="block rounded-full bg-background p-0.5">
+          <UserAvatar user={user} size="xl" className="h-14 w-14" />
+        </span>
+      </button>
+      {children}
+      <span className="w-full truncate text-center text-xs">{label}</span>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+
+interface StoryProgressProps {
+  count: number;
+  current: number;
+  /** Progress of the current story, 0-1 */
+  progress: number;
+  className?: string;
+}
+
+export function StoryProgress({
+  count,
+  current,
+  progress,
+  className,
+}: StoryProgressProps) {
+  return (
+    <div className={cn('flex gap-1', className)}>
+      {Array.from({ length: count }).map((_, index) => {
+        const fill = index < current ? 1 : index === current ? progress : 0;
+
+        return (
+          <div
+            key={index}
+            role="progressbar"
+            aria-label={`Story ${index + 1} of ${count}`}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(fill * 100)}
+            className="h-0.5 flex-1 overflow-hidden rounded-full bg-white/30"
+          >
+            <div
+              className="h-full origin-left bg-white"
+              style={{ transform: `scaleX(${fill})` }}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight, Eye, Trash2, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { ConfirmDialog } from '@/components/shared/confirm-dialog';
+import { useDeleteStory, useViewStory } from '@/lib/api/hooks/use-stories';
+import { useCurrentUser } from '@/lib/api/hooks/use-user';
+import { formatRelativeTime } from '@/lib/utils';
+import type { StoryGroup } from '@/types/story';
+import { StoryProgress } from './story-progress';
+import { StoryViewersSheet } from './story-viewers-sheet';
+
+export const STORY_DURATION = 5000; // 5 seconds per story
+const TICK = 50;
+// Presses shorter than this count as taps, longer ones just pause
+const TAP_MAX_DURATION = 250;
+const SWIPE_THRESHOLD = 50;
+
+interface Position {
+  groupIndex: number;
+  storyIndex: number;
+  elapsed: number;
+}
+
+type Step = 'next' | 'previous' | 'nextGroup' | 'previousGroup';
+
+// Open a user's stories at the first one not seen yet
+function startOfGroup(groups: StoryGroup[], groupIndex: number): Position {
+  const firstUnseen =
+    groups[groupIndex]?.stories.findIndex((story) => !story.hasViewed) ?? -1;
+  return { groupIndex, storyIndex: Math.max(firstUnseen, 0), elapsed: 0 };
+}
+
+// Where a step leads; null once we run past the last story
+function move(
+  position: Position,
+  groups: StoryGroup[],
+  step: Step
+): Position | null {
+  const { groupIndex, storyIndex } = position;
+  const storyCount = groups[groupIndex]?.stories.length ?? 0;
+
+  switch (step) {
+    case 'next':
+      if (storyIndex < storyCount - 1) {
+        return { groupIndex, storyIndex: storyIndex + 1, elapsed: 0 };
+      }
+      return move(position, groups, 'nextGroup');
+    case 'nextGroup':
+      return groupIndex < groups.length - 1
+        ? startOfGroup(groups, groupIndex + 1)
+        : null;
+    case 'previous':
+      if (storyIndex > 0) {
+        return { groupIndex, storyIndex: storyIndex - 1, elapsed: 0 };
+      }
+      return move(position, groups, 'previousGroup');
+    case 'previousGroup':
+      // On the very first story, going back restarts it
+      return groupIndex > 0
+        ? { groupIndex: groupIndex - 1, storyIndex: 0, elapsed: 0 }
+        : { ...position, elapsed: 0 };
+  }
+}
+
+interface StoryViewerProps {
+  groups: StoryGroup[];
+  initialGroupIndex: number;
+  onClose: () => void;
+}
+
+export function StoryViewer({
+  groups,
+  initialGroupIndex,
+  onClose,
+}: StoryViewerProps) {
+  const [position, setPosition] = useState<Position | null>(() =>
+    startOfGroup(groups, initialGroupIndex)
+  );
+  const [isHolding, setIsHolding] = useState(false);
+  const [viewersOpen, setViewersOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const pressRef = useRef<{ x: number; y: number; time: number } | null>(null);
+
+  const { data: currentUser } = useCurrentUser();
+  const { mutate: markViewed } = useViewStory();
+  const deleteStory = useDeleteStory();
+
+  const group = position ? groups[position.groupIndex] : undefined;
+  const story = position ? group?.stories[position.storyIndex] : undefined;
+  const isOwn = !!group && group.user.id === currentUser?.id;
+  const isPaused = isHolding || viewersOpen || deleteOpen;
+
+  const go = useCallback(
+    (step: Step) =>
+      setPosition((current) => current && move(current, groups, step)),
+    [groups]
+  );
+
+  // Ran out of stories
+  useEffect(() => {
+    if (!story) onClose();
+  }, [story, onClose]);
+
+  // Record a view once per story; your own don't count
+  const storyId = story?.id;
+  const needsView = !!story && !isOwn && !story.hasViewed;
+  useEffect(() => {
+    if (storyId && needsView) markViewed(storyId);
+  }, [storyId, needsView, markViewed]);
+
+  // Progress timer - moves on when the current story has run its course
+  useEffect(() => {
+    if (!storyId || isPaused) return;
+
+    const timer = setInterval(() => {
+      setPosition((current) => {
+        if (!current) return current;
+        const elapsed = current.elapsed + TICK;
+        return elapsed >= STORY_DURATION
+          ? move(current, groups, 'next')
+          : { ...current, elapsed };
+      });
+    }, TICK);
+
+    return () => clearInterval(timer);
+  }, [storyId, isPaused, groups]);
+
+  // Arrow key navigation (Escape is handled by the dialog)
+  useEffect(() => {
+    if (viewersOpen || deleteOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowLeft') go('previous');
+      if (event.key === 'ArrowRight') go('next');
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [viewersOpen, deleteOpen, go]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    pressRef.current = { x: event.clientX, y: event.clientY, time: Date.now() };
+    setIsHolding(true);
+  };
+
+  // Tap the left third to go back and anywhere else to go forward, swipe
+  // sideways to jump between users, swipe down to close
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const press = pressRef.current;
+    pressRef.current = null;
+    setIsHolding(false);
+    if (!press) return;
+
+    const dx = event.clientX - press.x;
+    const dy = event.clientY - press.y;
+
+    if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+      go(dx < 0 ? 'nextGroup' : 'previousGroup');
+    } else if (dy > SWIPE_THRESHOLD) {
+      onClose();
+    } else if (Date.now() - press.time < TAP_MAX_DURATION) {
+      const rect = event.currentTarget.getBoundingClientRect();
+      go(event.clientX - rect.left < rect.width / 3 ? 'previous' : 'next');
+    }
+  };
+
+  const handlePointerCancel = () => {
+    pressRef.current = null;
+    setIsHolding(false);
+  };
+
+  // Close right away so the viewer doesn't jump to whatever takes the story's place
+  const handleDelete = () => {
+    if (!story) return;
+    deleteStory.mutate(story.id);
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        showCloseButton={false}
+        className="h-[100dvh] max-w-none gap-0 rounded-none border-none bg-black p-0 sm:max-w-none"
+      >
+        <DialogTitle className="sr-only">
+          {group ? `${group.user.fullName}'s story` : 'Story'}
+        </DialogTitle>
+        <DialogDescription className="sr-only">
+          {group && position
+            ? `Story ${position.storyIndex + 1} of ${group.stories.length}`
+            : ''}
+        </DialogDescription>
+
+        {group && story && position && (
+          <div className="relative mx-auto flex h-full w-full max-w-md flex-col">
+            {/* Header */}
+            <div className="absolute inset-x-0 top-0 z-10 space-y-3 bg-gradient-to-b from-black/60 to-transparent p-3 pb-8">
+              <StoryProgress
+                count={group.stories.length}
+                current={position.storyIndex}
+                progress={position.elapsed / STORY_DURATION}
+              />
+              <div className="flex items-center gap-3 text-white">
+                <Link
+                  href={`/${group.user.username}`}
+                  onClick={onClose}
+                  className="flex min-w-0 items-center gap-2"
+                >
+                  <UserAvatar user={group.user} size="sm" />
+                  <span className="truncate text-sm font-semibold">
+                    {group.user.username}
+                  </span>
+                </Link>
+                <span className="shrink-0 text-xs text-white/70">
+                  {formatRelativeTime(story.createdAt)}
+                </span>
+
+                <div className="ml-auto flex items-center">
+                  {isOwn && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleteOpen(true)}
+                      className="text-white hover:bg-white/10 hover:text-white"
+                      aria-label="Delete story"
+                    >
+                      <Trash2 className="size-5" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={onClose}
+                    className="text-white hover:bg-white/10 hover:text-white"
+                    aria-label="Close"
+                  >
+                    <X className="size-6" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {/* Media - tap, hold and swipe target */}
+            <div
+              className="relative flex-1 touch-none select-none"
+              onPointerDown={handlePointerDown}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerCancel}
+              onPointerLeave={handlePointerCancel}
+              onContextMenu={(event) => event.preventDefault()}
+              data-paused={isPaused || undefined}
+            >
+              <Image
+                key={story.id}
+                src={story.mediaUrl}
+                alt={story.caption || `Story by ${group.user.username}`}
+                fill
+                sizes="(min-width: 448px) 448px, 100vw"
+                className="object-contain"
+                draggable={false}
+                priority
+              />
+            </div>
+
+            {/* Footer */}
+            {(story.caption || isOwn) && (
+              <div className="absolute inset-x-0 bottom-0 z-10 space-y-3 bg-gradient-to-t from-black/70 to-transparent p-4 pt-10 text-white">
+                {story.caption && (
+                  <p className="whitespace-pre-wrap break-words text-sm">
+                    {story.caption}
+                  </p>
+                )}
+                {isOwn && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setViewersOpen(true)}
+                    className="gap-2 px-2 text-white hover:bg-white/10 hover:text-white"
+                  >
+                    <Eye className="size-4" />
+                    {story.viewsCount.toLocaleString()} view
+                    {story.viewsCount !== 1 && 's'}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* Desktop navigation */}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => go('previous')}
+              className="absolute -left-14 top-1/2 hidden -translate-y-1/2 rounded-full bg-white/10 text-white hover:bg-white/20 hover:text-white md:flex"
+              aria-label="Previous story"
+            >
+              <ChevronLeft className="size-6" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => go('next')}
+              className="absolute -right-14 top-1/2 hidden -translate-y-1/2 rounded-full bg-white/10 text-white hover:bg-white/20 hover:text-white md:flex"
+              aria-label="Next story"
+            >
+              <ChevronRight className="size-6" />
+            </Button>
+
+            {isOwn && (
+              <>
+                <StoryViewersSheet
+                  story={story}
+                  open={viewersOpen}
+                  onOpenChange={setViewersOpen}
+                />
+                <ConfirmDialog
+                  open={deleteOpen}
+                  onOpenChange={setDeleteOpen}
+                  title="Delete story?"
+                  description="This story will be removed for everyone. This action cannot be undone."
+                  confirmText="Delete"
+                  variant="destructive"
+                  onConfirm={handleDelete}
+                />
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import Link from 'next/link';
+import { Eye } from 'lucide-react';
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { EmptyState } from '@/components/shared/empty-state';
+import { UserListSkeleton } from '@/components/shared/skeleton-list';
+import { useStoryViewers } from '@/lib/api/hooks/use-stories';
+import { formatRelativeTime } from '@/lib/utils';
+import type { Story } from '@/types/story';
+
+interface StoryViewersSheetProps {
+  story: Story;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function StoryViewersSheet({
+  story,
+  open,
+  onOpenChange,
+}: StoryViewersSheetProps) {
+  const { data: viewers, isLoading, isError } = useStoryViewers(story.id, open);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[70vh] rounded-t-2xl">
+        <SheetHeader>
+          <SheetTitle>Viewers</SheetTitle>
+          <SheetDescription>
+            {story.viewsCount.toLocaleString()} view
+            {story.viewsCount !== 1 && 's'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <UserListSkeleton count={3} className="px-4 pb-4" />
+        ) : isError || !viewers?.length ? (
+          <EmptyState
+            icon={<Eye className="h-full w-full" />}
+            title={isError ? "Couldn't load viewers" : 'No views yet'}
+            size="sm"
+          />
+        ) : (
+          <ScrollArea className="max-h-[50vh]">
+            <ul className="space-y-1 px-4 pb-4">
+              {viewers.map(({ user, viewedAt }) => (
+                <li key={user.id}>
+                  <Link
+                    href={`/${user.username}`}
+                    className="flex items-center gap-3 rounded-md p-2 hover:bg-muted"
+                  >
+                    <UserAvatar user={user} size="md" />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">
+                        {user.fullName}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        @{user.username}
+                      </p>
+                    </div>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {formatRelativeTime(viewedAt)}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
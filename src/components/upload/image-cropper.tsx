@@ -16,7 +16,7 @@ import {
 } from '@/components/ui/dialog';
 import { Slider } from '@/components/ui/slider';
 
-export type AspectRatio = '1:1' | '16:9' | '4:3' | '3:1' | '2:1' | 'free';
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:1' | '2:1' | 'free';
 export type CropShape = 'rect' | 'round';
 
 interface ImageCropperProps {
@@ -34,6 +34,7 @@ interface ImageCropperProps {
 const ASPECT_RATIO_VALUES: Record<AspectRatio, number | undefined> = {
   '1:1': 1,
   '16:9': 16 / 9,
+  '9:16': 9 / 16,
   '4:3': 4 / 3,
   '3:1': 3,
   '2:1': 2,
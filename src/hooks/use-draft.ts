@@ -0,0 +1,55 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+
+interface StoredDraft<T> {
+  data: T;
+  savedAt: number;
+}
+
+function readDraft<T>(key: string): StoredDraft<T> | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) {
+      return JSON.parse(stored) as StoredDraft<T>;
+    }
+  } catch {
+    // Ignore errors (e.g., corrupted JSON)
+  }
+  return null;
+}
+
+/**
+ * Keeps unsaved form input in localStorage so a closed or crashed tab doesn't
+ * lose it. `restoredDraft` is whatever was saved before this mount. It's read
+ * during the first render, so only render callers once `useMounted` is true.
+ */
+export function useDraft<T>(key: string) {
+  const [restoredDraft, setRestoredDraft] = useState<StoredDraft<T> | null>(
+    () => readDraft<T>(key)
+  );
+
+  const saveDraft = useCallback(
+    (data: T) => {
+      try {
+        const draft: StoredDraft<T> = { data, savedAt: Date.now() };
+        localStorage.setItem(key, JSON.stringify(draft));
+      } catch {
+        // Ignore errors (e.g., quota exceeded)
+      }
+    },
+    [key]
+  );
+
+  const clearDraft = useCallback(() => {
+    try {
+      localStorage.removeItem(key);
+    } catch {
+      // Ignore errors
+    }
+    setRestoredDraft(null);
+  }, [key]);
+
+  return { restoredDraft, saveDraft, clearDraft };
+}
@@ -496,3 +496,35 @@ export function useBatchImageUpload(options: UseBatchImageUploadOptions = {}) {
     urls: items.filter((i) => i.url).map((i) => i.url!),
   };
 }
+
+// Upload handler for MultiImageUpload's `onUpload`: uploads the files one by
+// one and resolves with their URLs, failing the whole batch if any upload fails
+export function useMultiImageUpload(options: UseImageUploadOptions = {}) {
+  const { upload } = useImageUpload(options);
+  const [pendingBatches, setPendingBatches] = useState(0);
+
+  const uploadFiles = useCallback(
+    async (files: File[]): Promise<string[]> => {
+      setPendingBatches((count) => count + 1);
+      try {
+        const urls: string[] = [];
+        for (const file of files) {
+          const response = await upload(file);
+          if (!response) {
+            throw new Error('Upload failed');
+          }
+          urls.push(response.url);
+        }
+        return urls;
+      } finally {
+        setPendingBatches((count) => count - 1);
+      }
+    },
+    [upload]
+  );
+
+  return {
+    uploadFiles,
+    isUploading: pendingBatches > 0,
+  };
+}
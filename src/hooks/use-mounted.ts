@@ -0,0 +1,18 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+const subscribe = () => () => {};
+
+/**
+ * False on the server and while hydrating, true afterwards. Gate anything that
+ * reads browser-only state (like localStorage) during render on it so the
+ * first client render matches the server's.
+ */
+export function useMounted() {
+  return useSyncExternalStore(
+    subscribe,
+    () => true,
+    () => false
+  );
+}
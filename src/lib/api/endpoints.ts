@@ -38,6 +38,12 @@ export const API_ENDPOINTS = {
     BLOCK: (userId: string) => `/users/${userId}/block`,
     UNBLOCK: (userId: string) => `/users/${userId}/unblock`,
     BLOCKED_USERS: '/users/me/blocked',
+    MUTE: (userId: string) => `/users/${userId}/mute`,
+    UNMUTE: (userId: string) => `/users/${userId}/unmute`,
+    MUTED_USERS: '/users/me/muted',
+    MUTE_HASHTAG: (tag: string) => `/hashtags/${tag}/mute`,
+    UNMUTE_HASHTAG: (tag: string) => `/hashtags/${tag}/unmute`,
+    MUTED_HASHTAGS: '/users/me/muted-hashtags',
   },
 
   // Posts
@@ -53,9 +59,13 @@ export const API_ENDPOINTS = {
     UNLIKE: (id: string) => `/posts/${id}/unlike`,
     BOOKMARK: (id: string) => `/posts/${id}/bookmark`,
     UNBOOKMARK: (id: string) => `/posts/${id}/unbookmark`,
+    REPOST: (id: string) => `/posts/${id}/repost`,
+    UNREPOST: (id: string) => `/posts/${id}/unrepost`,
+    NOT_INTERESTED: (id: string) => `/posts/${id}/not-interested`,
     BOOKMARKS: '/posts/bookmarks',
     HASHTAG: (tag: string) => `/posts/hashtag/${tag}`,
     TRENDING: '/posts/trending',
+    REVISIONS: (id: string) => `/posts/${id}/revisions`,
   },
 
   // Comments
@@ -98,6 +108,17 @@ export const API_ENDPOINTS = {
     FAVORITE: (id: string) => `/marketplace/listings/${id}/favorite`,
     CATEGORIES: '/marketplace/categories',
     CONTACT_SELLER: (id: string) => `/marketplace/listings/${id}/contact`,
+    STATUS: (id: string) => `/marketplace/listings/${id}/status`,
+    RENEW: (id: string) => `/marketplace/listings/${id}/renew`,
+    OFFERS: (id: string) => `/marketplace/listings/${id}/offers`,
+    RESPOND_TO_OFFER: (offerId: string) =>
+      `/marketplace/offers/${offerId}/respond`,
+    WITHDRAW_OFFER: (offerId: string) =>
+      `/marketplace/offers/${offerId}/withdraw`,
+    RATINGS: (id: string) => `/marketplace/listings/${id}/ratings`,
+    SAVED_SEARCHES: '/marketplace/saved-searches',
+    SAVED_SEARCH: (id: string) => `/marketplace/saved-searches/${id}`,
+    SAVED_SEARCH_SEEN: (id: string) => `/marketplace/saved-searches/${id}/seen`,
   },
 
   // Parts
@@ -111,6 +132,19 @@ export const API_ENDPOINTS = {
     COMPATIBILITY: '/parts/compatibility',
   },
 
+  // Garage
+  GARAGE: {
+    BIKES: '/garage/bikes',
+    BIKE: (id: string) => `/garage/bikes/${id}`,
+    BY_USER: (userId: string) => `/users/${userId}/bikes`,
+    MAINTENANCE: (bikeId: string) => `/garage/bikes/${bikeId}/maintenance`,
+    MAINTENANCE_ENTRY: (bikeId: string, entryId: string) =>
+      `/garage/bikes/${bikeId}/maintenance/${entryId}`,
+    REMINDERS: (bikeId: string) => `/garage/bikes/${bikeId}/reminders`,
+    REMINDER: (bikeId: string, reminderId: string) =>
+      `/garage/bikes/${bikeId}/reminders/${reminderId}`,
+  },
+
   // Forum
   FORUM: {
     CATEGORIES: '/forum/categories',
@@ -206,12 +240,16 @@ export const QUERY_KEYS = {
   userFollowers: (id: string) => ['user', id, 'followers'] as const,
   userFollowing: (id: string) => ['user', id, 'following'] as const,
   blockedUsers: ['user', 'blocked'] as const,
+  mutedUsers: ['user', 'muted'] as const,
+  mutedHashtags: ['user', 'muted-hashtags'] as const,
   userSuggestions: ['user', 'suggestions'] as const,
 
   // Posts
   posts: ['posts'] as const,
   feed: ['posts', 'feed'] as const,
+  newFeedPosts: (afterId: string) => ['posts', 'feed-new', afterId] as const,
   post: (id: string) => ['posts', id] as const,
+  postRevisions: (id: string) => ['posts', id, 'revisions'] as const,
   userPosts: (userId: string) => ['posts', 'user', userId] as const,
   bookmarks: ['posts', 'bookmarks'] as const,
   trending: ['posts', 'trending'] as const,
@@ -219,16 +257,28 @@ export const QUERY_KEYS = {
 
   // Comments
   comments: (postId: string) => ['posts', postId, 'comments'] as const,
+  commentReplies: (postId: string, commentId: string) =>
+    ['posts', postId, 'comments', commentId, 'replies'] as const,
 
   // Stories
   stories: ['stories'] as const,
   storyFeed: ['stories', 'feed'] as const,
   userStories: (userId: string) => ['stories', 'user', userId] as const,
+  storyViewers: (id: string) => ['stories', id, 'viewers'] as const,
 
   // Marketplace
   listings: ['marketplace', 'listings'] as const,
   listing: (id: string) => ['marketplace', 'listings', id] as const,
   myListings: ['marketplace', 'listings', 'me'] as const,
+  sellerListings: (userId: string) =>
+    ['marketplace', 'listings', 'seller', userId] as const,
+  userListings: (userId: string, status: string) =>
+    ['marketplace', 'listings', 'user', userId, status] as const,
+  listingOffers: (id: string) =>
+    ['marketplace', 'listings', id, 'offers'] as const,
+  listingRatings: (id: string) =>
+    ['marketplace', 'listings', id, 'ratings'] as const,
+  savedSearches: ['marketplace', 'saved-searches'] as const,
   favorites: ['marketplace', 'favorites'] as const,
   marketplaceCategories: ['marketplace', 'categories'] as const,
 
@@ -236,6 +286,17 @@ export const QUERY_KEYS = {
   parts: ['parts'] as const,
   part: (id: string) => ['parts', id] as const,
   partCategories: ['parts', 'categories'] as const,
+  partCompatibility: (level: string, selection: object) =>
+    ['parts', 'compatibility', level, selection] as const,
+
+  // Garage
+  myGarage: ['garage', 'me'] as const,
+  userGarages: ['garage', 'user'] as const,
+  userGarage: (userId: string) => ['garage', 'user', userId] as const,
+  bikeMaintenance: (bikeId: string) =>
+    ['garage', 'bike', bikeId, 'maintenance'] as const,
+  bikeReminders: (bikeId: string) =>
+    ['garage', 'bike', bikeId, 'reminders'] as const,
 
   // Forum
   forumCategories: ['forum', 'categories'] as const,
@@ -34,6 +34,134 @@ export {
   useBlockedUsers,
 } from './use-user';
 
+// Post hooks
+export {
+  useFeed,
+  usePost,
+  usePostRevisions,
+  useUserPosts,
+  useTrendingPosts,
+  useHashtagPosts,
+  useNewFeedPosts,
+  prependPostsToFeed,
+  removePostsFromFeed,
+  useCreatePost,
+  useUpdatePost,
+  useDeletePost,
+  useLikePost,
+  useBookmarkPost,
+  useRepost,
+  useNotInterested,
+  useBookmarks,
+  updateCachedPost,
+  removeCachedPost,
+  setCachedPost,
+  isPlainRepost,
+} from './use-posts';
+
+// Mute hooks
+export {
+  useMutedUsers,
+  useMutedHashtags,
+  useMuteUser,
+  useUnmuteUser,
+  useMuteHashtag,
+  useUnmuteHashtag,
+} from './use-mutes';
+
+// Comment hooks
+export {
+  useComments,
+  useCommentReplies,
+  useCreateComment,
+  useUpdateComment,
+  useDeleteComment,
+  useLikeComment,
+} from './use-comments';
+
+// Story hooks
+export {
+  useStoryFeed,
+  useStoryViewers,
+  useCreateStory,
+  useViewStory,
+  useDeleteStory,
+} from './use-stories';
+
+// Marketplace hooks
+export {
+  useListings,
+  useMarketplaceCategories,
+  useListing,
+  useCreateListing,
+  useUpdateListing,
+  useSellerListings,
+  useUserListings,
+  useFavoriteListing,
+  useFavorites,
+  useRemoveFavorite,
+  updateCachedListing,
+  setCachedListing,
+  useMyListings,
+  useUpdateListingStatus,
+  useRenewListing,
+  useDeleteListing,
+  useBulkListingAction,
+} from './use-marketplace';
+
+// Offer hooks
+export {
+  useListingOffers,
+  useMakeOffer,
+  useRespondToOffer,
+  useWithdrawOffer,
+} from './use-offers';
+
+// Rating hooks
+export { useListingRatings, useRateTransaction } from './use-ratings';
+
+// Saved search hooks
+export {
+  useSavedSearches,
+  useCreateSavedSearch,
+  useUpdateSavedSearch,
+  useDeleteSavedSearch,
+  useMarkSavedSearchSeen,
+} from './use-saved-searches';
+
+// Parts hooks
+export {
+  useParts,
+  usePartCategories,
+  usePart,
+  useFitmentOptions,
+} from './use-parts';
+
+// Garage hooks
+export {
+  useMyGarage,
+  useUserGarage,
+  useCreateBike,
+  useUpdateBike,
+  useDeleteBike,
+  useMaintenanceLog,
+  useAddMaintenanceEntry,
+  useDeleteMaintenanceEntry,
+  useMaintenanceReminders,
+  useCreateMaintenanceReminder,
+  useDeleteMaintenanceReminder,
+} from './use-garage';
+
+// Message hooks
+export {
+  useConversations,
+  useConversation,
+  useMessages,
+  useSendMessage,
+  useMarkConversationRead,
+  useContactSeller,
+} from './use-messages';
+
 // Generic API hooks
 export {
   createQueryHook,
@@ -9,18 +9,21 @@ import {
 import { api } from '../client';
 
 // Types for pagination
-interface PaginatedResponse<T> {
+// Cursor-paginated endpoints (e.g. the feed) also return `nextCursor`
+export interface PaginatedResponse<T> {
   items: T[];
   meta: {
     page: number;
     limit: number;
     total: number;
     totalPages: number;
+    nextCursor?: string | null;
   };
 }
 
-interface PaginationParams {
+export interface PaginationParams {
   page?: number;
+  cursor?: string;
   limit?: number;
   [key: string]: string | number | boolean | undefined;
 }
@@ -68,23 +71,30 @@ export function createMutationHook<TData, TVariables>(
 }
 
 // Factory for creating infinite query hooks
+// Supports both page-based and cursor-based pagination: when the response
+// meta carries `nextCursor`, the next page is requested by cursor instead.
 export function createInfiniteQueryHook<TData>(
   queryKey: QueryKey,
   fetcher: (params: PaginationParams) => Promise<PaginatedResponse<TData>>
 ) {
   return function useInfiniteCustomQuery(
-    params?: Omit<PaginationParams, 'page'>
+    params?: Omit<PaginationParams, 'page' | 'cursor'>
   ) {
     return useInfiniteQuery({
       queryKey: [...queryKey, params],
       queryFn: ({ pageParam }) =>
         fetcher({
           ...params,
-          page: pageParam as number,
+          ...(typeof pageParam === 'string'
+            ? { cursor: pageParam }
+            : { page: pageParam }),
           limit: (params?.limit as number) || 20,
         }),
-      initialPageParam: 1,
+      initialPageParam: 1 as number | string,
       getNextPageParam: (lastPage: PaginatedResponse<TData>) => {
+        if (lastPage.meta.nextCursor !== undefined) {
+          return lastPage.meta.nextCursor ?? undefined;
+        }
         if (lastPage.meta.page < lastPage.meta.totalPages) {
           return lastPage.meta.page + 1;
         }
@@ -186,38 +196,60 @@ export function useApiUpload<TData>(
 }
 
 // Hook for optimistic updates
-export function useOptimisticMutation<TData, TVariables>(
+// Every cached query under one of `queryKeys` is updated (and rolled back on
+// error) together, so the same entity can be patched in every list it's in.
+interface OptimisticMutationOptions {
+  // Refetch the affected queries once the mutation settles (default: true)
+  invalidate?: boolean;
+  onSuccess?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export function useOptimisticMutation<TData, TVariables, TCache = TData>(
   mutationFn: (variables: TVariables) => Promise<TData>,
-  queryKey: QueryKey,
-  optimisticUpdate: (old: TData | undefined, variables: TVariables) => TData
+  queryKeys: QueryKey[],
+  optimisticUpdate: (old: TCache, variables: TVariables) => TCache,
+  options: OptimisticMutationOptions = {}
 ) {
+  const { invalidate = true, onSuccess, onError } = options;
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn,
     onMutate: async (variables) => {
       // Cancel outgoing refetches
-      await queryClient.cancelQueries({ queryKey });
+      await Promise.all(
+        queryKeys.map((queryKey) => queryClient.cancelQueries({ queryKey }))
+      );
 
-      // Snapshot previous value
-      const previousData = queryClient.getQueryData<TData>(queryKey);
+      // Snapshot previous values
+      const previousData = queryKeys.flatMap((queryKey) =>
+        queryClient.getQueriesData<TCache>({ queryKey })
+      );
 
       // Optimistically update
-      queryClient.setQueryData<TData>(queryKey, (old) =>
-        optimisticUpdate(old, variables)
-      );
+      queryKeys.forEach((queryKey) => {
+        queryClient.setQueriesData<TCache>({ queryKey }, (old) =>
+          old === undefined ? old : optimisticUpdate(old, variables)
+        );
+      });
 
       return { previousData };
     },
-    onError: (_err, _variables, context) => {
+    onSuccess: () => onSuccess?.(),
+    onError: (error: Error, _variables, context) => {
       // Rollback on error
-      if (context?.previousData) {
-        queryClient.setQueryData(queryKey, context.previousData);
-      }
+      context?.previousData.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      onError?.(error);
     },
     onSettled: () => {
+      if (!invalidate) return;
       // Refetch after mutation
-      queryClient.invalidateQueries({ queryKey });
+      queryKeys.forEach((queryKey) => {
+        queryClient.invalidateQueries({ queryKey });
+      });
     },
   });
 }
@@ -0,0 +1,242 @@
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { parseApiError } from '../errors';
+import { useOptimisticMutation, type PaginatedResponse } from './use-api';
+import { setCachedPost } from './use-posts';
+import type { Comment, CreateCommentData } from '@/types/comment';
+
+type InfiniteComments = InfiniteData<PaginatedResponse<Comment>>;
+
+const getNextPageParam = (lastPage: PaginatedResponse<Comment>) =>
+  lastPage.meta.page < lastPage.meta.totalPages
+    ? lastPage.meta.page + 1
+    : undefined;
+
+// Top-level comments on a post
+export function useComments(postId: string | undefined) {
+  return useInfiniteQuery({
+    queryKey: QUERY_KEYS.comments(postId || ''),
+    queryFn: ({ pageParam }) =>
+      api.get<PaginatedResponse<Comment>>(
+        API_ENDPOINTS.COMMENTS.BY_POST(postId!),
+        {
+          page: pageParam,
+          limit: 20,
+        }
+      ),
+    initialPageParam: 1,
+    getNextPageParam,
+    enabled: !!postId,
+  });
+}
+
+// Replies to a top-level comment - only fetched once the thread is expanded
+export function useCommentReplies(
+  postId: string,
+  commentId: string,
+  enabled = true
+) {
+  return useInfiniteQuery({
+    queryKey: QUERY_KEYS.commentReplies(postId, commentId),
+    queryFn: ({ pageParam }) =>
+      api.get<PaginatedResponse<Comment>>(
+        API_ENDPOINTS.COMMENTS.REPLIES(postId, commentId),
+        { page: pageParam, limit: 10 }
+      ),
+    initialPageParam: 1,
+    getNextPageParam,
+    enabled: enabled && !!postId && !!commentId,
+  });
+}
+
+// Apply `update` to a comment in every cached page (top-level and replies).
+// Returning null removes the comment.
+function mapCachedComments(
+  queryClient: QueryClient,
+  postId: string,
+  update: (comment: Comment) => Comment | null
+) {
+  queryClient.setQueriesData<InfiniteComments>(
+    { queryKey: QUERY_KEYS.comments(postId) },
+    (old) => old && mapCommentPages(old, update)
+  );
+}
+
+function mapCommentPages(
+  data: InfiniteComments,
+  update: (comment: Comment) => Comment | null
+): InfiniteComments {
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      items: page.items.flatMap((comment) => {
+        const next = update(comment);
+        return next ? [next] : [];
+      }),
+    })),
+  };
+}
+
+// Create comment or reply
+export function useCreateComment(postId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateCommentData) =>
+      api.post<Comment>(API_ENDPOINTS.COMMENTS.CREATE(postId), data),
+    onSuccess: (comment) => {
+      if (comment.parentId) {
+        const parentId = comment.parentId;
+
+        // Show the reply at the end of an expanded thread
+        queryClient.setQueryData<InfiniteComments>(
+          QUERY_KEYS.commentReplies(postId, parentId),
+          (old) => {
+            if (!old) return old;
+            const pages = [...old.pages];
+            const lastPage = pages[pages.length - 1];
+            if (lastPage) {
+              pages[pages.length - 1] = {
+                ...lastPage,
+                items: [...lastPage.items, comment],
+              };
+            }
+            return { ...old, pages };
+          }
+        );
+        mapCachedComments(queryClient, postId, (cached) =>
+          cached.id === parentId
+            ? { ...cached, repliesCount: cached.repliesCount + 1 }
+            : cached
+        );
+      } else {
+        queryClient.setQueryData<InfiniteComments>(
+          QUERY_KEYS.comments(postId),
+          (old) => {
+            const [firstPage, ...restPages] = old?.pages ?? [];
+            if (!old || !firstPage) return old;
+            return {
+              ...old,
+              pages: [
+                { ...firstPage, items: [comment, ...firstPage.items] },
+                ...restPages,
+              ],
+            };
+          }
+        );
+      }
+
+      setCachedPost(queryClient, postId, (post) => ({
+        ...post,
+        commentsCount: post.commentsCount + 1,
+      }));
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Edit comment (author only)
+export function useUpdateComment(postId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      commentId,
+      content,
+    }: {
+      commentId: string;
+      content: string;
+    }) =>
+      api.patch<Comment>(API_ENDPOINTS.COMMENTS.UPDATE(postId, commentId), {
+        content,
+      }),
+    onSuccess: (comment) => {
+      mapCachedComments(queryClient, postId, (cached) =>
+        cached.id === comment.id ? { ...cached, ...comment } : cached
+      );
+      toast.success('Comment updated');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Delete comment (author only) - a top-level comment takes its replies with it
+export function useDeleteComment(postId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (comment: Comment) =>
+      api.delete(API_ENDPOINTS.COMMENTS.DELETE(postId, comment.id)),
+    onSuccess: (_, comment) => {
+      mapCachedComments(queryClient, postId, (cached) => {
+        if (cached.id === comment.id) return null;
+        if (cached.id === comment.parentId) {
+          return {
+            ...cached,
+            repliesCount: Math.max(0, cached.repliesCount - 1),
+          };
+        }
+        return cached;
+      });
+
+      if (!comment.parentId) {
+        queryClient.removeQueries({
+          queryKey: QUERY_KEYS.commentReplies(postId, comment.id),
+        });
+      }
+
+      const removedCount = comment.parentId ? 1 : 1 + comment.repliesCount;
+      setCachedPost(queryClient, postId, (post) => ({
+        ...post,
+        commentsCount: Math.max(0, post.commentsCount - removedCount),
+      }));
+      toast.success('Comment deleted');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Like/unlike a comment - pass the state the comment should end up in
+export function useLikeComment(postId: string) {
+  return useOptimisticMutation<
+    unknown,
+    { commentId: string; liked: boolean },
+    InfiniteComments
+  >(
+    ({ commentId, liked }) => {
+      const endpoint = API_ENDPOINTS.COMMENTS.LIKE(postId, commentId);
+      return liked ? api.post(endpoint, {}) : api.delete(endpoint);
+    },
+    [QUERY_KEYS.comments(postId)],
+    (old, { commentId, liked }) =>
+      mapCommentPages(old, (comment) =>
+        comment.id !== commentId || comment.isLiked === liked
+          ? comment
+          : {
+              ...comment,
+              isLiked: liked,
+              likesCount: Math.max(0, comment.likesCount + (liked ? 1 : -1)),
+            }
+      ),
+    {
+      invalidate: false,
+      onError: (error) => toast.error(parseApiError(error)),
+    }
+  );
+}
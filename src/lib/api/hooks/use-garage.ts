@@ -0,0 +1,189 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { parseApiError } from '../errors';
+import { useOptimisticMutation } from './use-api';
+import type {
+  Bike,
+  CreateBikeData,
+  CreateMaintenanceEntryData,
+  CreateMaintenanceReminderData,
+  MaintenanceEntry,
+  MaintenanceReminder,
+  UpdateBikeData,
+} from '@/types/garage';
+
+// The current user's bikes, including VINs
+export function useMyGarage(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: QUERY_KEYS.myGarage,
+    queryFn: () => api.get<Bike[]>(API_ENDPOINTS.GARAGE.BIKES),
+    enabled: options?.enabled ?? true,
+  });
+}
+
+// Anyone's bikes, as shown on their profile
+export function useUserGarage(userId: string | undefined) {
+  return useQuery({
+    queryKey: QUERY_KEYS.userGarage(userId || ''),
+    queryFn: () => api.get<Bike[]>(API_ENDPOINTS.GARAGE.BY_USER(userId!)),
+    enabled: !!userId,
+  });
+}
+
+export function useCreateBike() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateBikeData) =>
+      api.post<Bike>(API_ENDPOINTS.GARAGE.BIKES, data),
+    onSuccess: (bike) => {
+      queryClient.setQueryData<Bike[]>(
+        QUERY_KEYS.myGarage,
+        (old) => old && [...old, bike]
+      );
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.userGarages });
+      toast.success('Bike added to your garage');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+export function useUpdateBike() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateBikeData }) =>
+      api.patch<Bike>(API_ENDPOINTS.GARAGE.BIKE(id), data),
+    onSuccess: (bike) => {
+      queryClient.setQueryData<Bike[]>(QUERY_KEYS.myGarage, (old) =>
+        old?.map((cached) => (cached.id === bike.id ? bike : cached))
+      );
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.userGarages });
+      toast.success('Bike updated');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+export function useDeleteBike() {
+  return useOptimisticMutation(
+    (id: string) => api.delete(API_ENDPOINTS.GARAGE.BIKE(id)),
+    [QUERY_KEYS.myGarage, QUERY_KEYS.userGarages],
+    (old: Bike[], id) => old.filter((bike) => bike.id !== id),
+    {
+      onSuccess: () => {
+        toast.success('Bike removed from your garage');
+      },
+      onError: (error) => {
+        toast.error(parseApiError(error));
+      },
+    }
+  );
+}
+
+// A bike's maintenance log, newest first
+export function useMaintenanceLog(bikeId: string | undefined) {
+  return useQuery({
+    queryKey: QUERY_KEYS.bikeMaintenance(bikeId || ''),
+    queryFn: () =>
+      api.get<MaintenanceEntry[]>(API_ENDPOINTS.GARAGE.MAINTENANCE(bikeId!)),
+    enabled: !!bikeId,
+  });
+}
+
+export function useAddMaintenanceEntry(bikeId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateMaintenanceEntryData) =>
+      api.post<MaintenanceEntry>(
+        API_ENDPOINTS.GARAGE.MAINTENANCE(bikeId),
+        data
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.bikeMaintenance(bikeId),
+      });
+      // A newer odometer reading also moves the bike's mileage forward
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.myGarage });
+      toast.success('Added to the maintenance log');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+export function useDeleteMaintenanceEntry(bikeId: string) {
+  return useOptimisticMutation(
+    (entryId: string) =>
+      api.delete(API_ENDPOINTS.GARAGE.MAINTENANCE_ENTRY(bikeId, entryId)),
+    [QUERY_KEYS.bikeMaintenance(bikeId)],
+    (old: MaintenanceEntry[], entryId) =>
+      old.filter((entry) => entry.id !== entryId),
+    {
+      onSuccess: () => {
+        toast.success('Entry removed');
+      },
+      onError: (error) => {
+        toast.error(parseApiError(error));
+      },
+    }
+  );
+}
+
+export function useMaintenanceReminders(bikeId: string | undefined) {
+  return useQuery({
+    queryKey: QUERY_KEYS.bikeReminders(bikeId || ''),
+    queryFn: () =>
+      api.get<MaintenanceReminder[]>(API_ENDPOINTS.GARAGE.REMINDERS(bikeId!)),
+    enabled: !!bikeId,
+  });
+}
+
+export function useCreateMaintenanceReminder(bikeId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateMaintenanceReminderData) =>
+      api.post<MaintenanceReminder>(
+        API_ENDPOINTS.GARAGE.REMINDERS(bikeId),
+        data
+      ),
+    onSuccess: (reminder) => {
+      queryClient.setQueryData<MaintenanceReminder[]>(
+        QUERY_KEYS.bikeReminders(bikeId),
+        (old) => old && [...old, reminder]
+      );
+      toast.success('Reminder set');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+export function useDeleteMaintenanceReminder(bikeId: string) {
+  return useOptimisticMutation(
+    (reminderId: string) =>
+      api.delete(API_ENDPOINTS.GARAGE.REMINDER(bikeId, reminderId)),
+    [QUERY_KEYS.bikeReminders(bikeId)],
+    (old: MaintenanceReminder[], reminderId) =>
+      old.filter((reminder) => reminder.id !== reminderId),
+    {
+      onSuccess: () => {
+        toast.success('Reminder removed');
+      },
+      onError: (error) => {
+        toast.error(parseApiError(error));
+      },
+    }
+  );
+}
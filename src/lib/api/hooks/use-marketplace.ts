@@ -0,0 +1,391 @@
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+} from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { parseApiError } from '../errors';
+import { useOptimisticMutation, type PaginatedResponse } from './use-api';
+import type {
+  CreateListingData,
+  Favorite,
+  Listing,
+  ListingFilters,
+  ListingStatus,
+  MarketplaceCategory,
+  UpdateListingData,
+} from '@/types/marketplace';
+
+// Browse listings with filters (page paginated)
+export function useListings(filters: ListingFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: [...QUERY_KEYS.listings, filters],
+    queryFn: ({ pageParam }) =>
+      api.get<PaginatedResponse<Listing>>(API_ENDPOINTS.MARKETPLACE.LISTINGS, {
+        ...filters,
+        page: pageParam,
+        limit: 20,
+      }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.meta.page < lastPage.meta.totalPages
+        ? lastPage.meta.page + 1
+        : undefined,
+  });
+}
+
+// Marketplace categories rarely change
+export function useMarketplaceCategories() {
+  return useQuery({
+    queryKey: QUERY_KEYS.marketplaceCategories,
+    queryFn: () =>
+      api.get<MarketplaceCategory[]>(API_ENDPOINTS.MARKETPLACE.CATEGORIES),
+    staleTime: 60 * 60 * 1000, // 1 hour
+  });
+}
+
+// Single listing
+export function useListing(id: string | undefined) {
+  return useQuery({
+    queryKey: QUERY_KEYS.listing(id || ''),
+    queryFn: () => api.get<Listing>(API_ENDPOINTS.MARKETPLACE.BY_ID(id!)),
+    enabled: !!id,
+  });
+}
+
+// A seller's other listings, for the "More from this seller" strip
+export function useSellerListings(sellerId: string | undefined) {
+  return useQuery({
+    queryKey: QUERY_KEYS.sellerListings(sellerId || ''),
+    queryFn: () =>
+      api.get<PaginatedResponse<Listing>>(API_ENDPOINTS.MARKETPLACE.LISTINGS, {
+        sellerId,
+        limit: 12,
+      }),
+    select: (data) => data.items,
+    enabled: !!sellerId,
+  });
+}
+
+// A user's active or sold listings, for the Listings tab on their profile
+export function useUserListings(
+  userId: string | undefined,
+  status: Extract<ListingStatus, 'active' | 'sold'>
+) {
+  return useInfiniteQuery({
+    queryKey: QUERY_KEYS.userListings(userId || '', status),
+    queryFn: ({ pageParam }) =>
+      api.get<PaginatedResponse<Listing>>(API_ENDPOINTS.MARKETPLACE.LISTINGS, {
+        sellerId: userId,
+        status,
+        page: pageParam,
+        limit: 12,
+      }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.meta.page < lastPage.meta.totalPages
+        ? lastPage.meta.page + 1
+        : undefined,
+    enabled: !!userId,
+  });
+}
+
+// The current user's listings in every status, for the dashboard
+export function useMyListings() {
+  return useQuery({
+    queryKey: QUERY_KEYS.myListings,
+    queryFn: () => api.get<Listing[]>(API_ENDPOINTS.MARKETPLACE.MY_LISTINGS),
+  });
+}
+
+// Create listing mutation
+export function useCreateListing() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateListingData) =>
+      api.post<Listing>(API_ENDPOINTS.MARKETPLACE.CREATE, data),
+    onSuccess: (listing) => {
+      queryClient.setQueryData(QUERY_KEYS.listing(listing.id), listing);
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.listings });
+      toast.success('Listing published!');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Update listing mutation
+export function useUpdateListing() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateListingData }) =>
+      api.patch<Listing>(API_ENDPOINTS.MARKETPLACE.UPDATE(id), data),
+    onSuccess: (listing) => {
+      queryClient.setQueryData(QUERY_KEYS.listing(listing.id), listing);
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.listings });
+      toast.success('Listing updated');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+const LISTING_CACHE_KEYS = [QUERY_KEYS.listings, ['search']];
+
+function isListing(value: object): value is Listing {
+  return 'id' in value && 'seller' in value && 'viewsCount' in value;
+}
+
+// Apply `update` to every copy of a listing inside cached query data,
+// whatever the shape (single listing, lists, infinite pages, search results)
+export function updateCachedListing<T>(
+  data: T,
+  listingId: string,
+  update: (listing: Listing) => Listing
+): T {
+  if (Array.isArray(data)) {
+    let changed = false;
+    const items = data.map((item) => {
+      const next = updateCachedListing(item, listingId, update);
+      if (next !== item) changed = true;
+      return next;
+    });
+    return changed ? (items as T) : data;
+  }
+
+  if (!data || typeof data !== 'object') return data;
+
+  if (isListing(data)) {
+    return data.id === listingId ? (update(data) as T) : data;
+  }
+
+  let changed = false;
+  const entries = Object.entries(data).map(([key, value]) => {
+    const next = updateCachedListing(value, listingId, update);
+    if (next !== value) changed = true;
+    return [key, next] as const;
+  });
+  return changed ? (Object.fromEntries(entries) as T) : data;
+}
+
+// Favorite/unfavorite a listing - pass the state it should end up in
+export function useFavoriteListing() {
+  const queryClient = useQueryClient();
+
+  return useOptimisticMutation<
+    unknown,
+    { listingId: string; favorited: boolean },
+    unknown
+  >(
+    ({ listingId, favorited }) =>
+      favorited
+        ? api.post(API_ENDPOINTS.MARKETPLACE.FAVORITE(listingId), {})
+        : api.delete(API_ENDPOINTS.MARKETPLACE.FAVORITE(listingId)),
+    LISTING_CACHE_KEYS,
+    (old, { listingId, favorited }) =>
+      updateCachedListing(old, listingId, (listing) => ({
+        ...listing,
+        isFavorited: favorited,
+      })),
+    {
+      invalidate: false,
+      // Keep the favorites page as-is until it's visited again
+      onSuccess: () =>
+        queryClient.invalidateQueries({
+          queryKey: QUERY_KEYS.favorites,
+          refetchType: 'none',
+        }),
+      onError: (error) => toast.error(parseApiError(error)),
+    }
+  );
+}
+
+// Favorited listings, most recently favorited first
+export function useFavorites() {
+  return useQuery({
+    queryKey: QUERY_KEYS.favorites,
+    queryFn: () => api.get<Favorite[]>(API_ENDPOINTS.MARKETPLACE.FAVORITES),
+  });
+}
+
+// Unfavorite from the favorites page, which takes the listing off the page
+// right away. This also works for listings the seller has since deleted.
+export function useRemoveFavorite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (listingId: string) =>
+      api.delete(API_ENDPOINTS.MARKETPLACE.FAVORITE(listingId)),
+    onMutate: async (listingId) => {
+      await queryClient.cancelQueries({ queryKey: QUERY_KEYS.favorites });
+      const previousFavorites = queryClient.getQueryData<Favorite[]>(
+        QUERY_KEYS.favorites
+      );
+      queryClient.setQueryData<Favorite[]>(QUERY_KEYS.favorites, (old) =>
+        old?.filter((favorite) => favorite.listingId !== listingId)
+      );
+      return { previousFavorites };
+    },
+    onSuccess: (_, listingId) => {
+      LISTING_CACHE_KEYS.forEach((queryKey) => {
+        queryClient.setQueriesData<unknown>({ queryKey }, (old: unknown) =>
+          updateCachedListing(old, listingId, (listing) => ({
+            ...listing,
+            isFavorited: false,
+          }))
+        );
+      });
+      toast.success('Removed from favorites');
+    },
+    onError: (error: Error, _listingId, context) => {
+      // Rollback on error
+      queryClient.setQueryData(
+        QUERY_KEYS.favorites,
+        context?.previousFavorites
+      );
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Replace a listing everywhere it's cached with the server's copy
+export function setCachedListing(queryClient: QueryClient, listing: Listing) {
+  LISTING_CACHE_KEYS.forEach((queryKey) => {
+    queryClient.setQueriesData<unknown>({ queryKey }, (old: unknown) =>
+      updateCachedListing(old, listing.id, (cached) => ({
+        ...cached,
+        ...listing,
+      }))
+    );
+  });
+}
+
+// Move a listing to another status (owner only). Marking it sold can name
+// the buyer, which lets the two of them rate each other afterwards.
+export function useUpdateListingStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      status,
+      buyerId,
+    }: {
+      id: string;
+      status: ListingStatus;
+      buyerId?: string;
+    }) =>
+      api.patch<Listing>(API_ENDPOINTS.MARKETPLACE.STATUS(id), {
+        status,
+        buyerId,
+      }),
+    onSuccess: (listing) => {
+      setCachedListing(queryClient, listing);
+      toast.success(
+        listing.status === 'sold'
+          ? 'Marked as sold. Congrats!'
+          : `Listing is now ${listing.status}`
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Push an expiring or expired listing's expiry date back (owner only)
+export function useRenewListing() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      api.post<Listing>(API_ENDPOINTS.MARKETPLACE.RENEW(id), {}),
+    onSuccess: (listing) => {
+      setCachedListing(queryClient, listing);
+      toast.success('Listing renewed');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Delete listing mutation (owner only)
+export function useDeleteListing() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      api.delete(API_ENDPOINTS.MARKETPLACE.DELETE(id)),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({
+        queryKey: QUERY_KEYS.listing(id),
+        exact: true,
+      });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.listings });
+      toast.success('Listing deleted');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+export type BulkListingAction = ListingStatus | 'renew' | 'delete';
+
+function runListingAction(id: string, action: BulkListingAction) {
+  if (action === 'renew') {
+    return api.post(API_ENDPOINTS.MARKETPLACE.RENEW(id), {});
+  }
+  if (action === 'delete') {
+    return api.delete(API_ENDPOINTS.MARKETPLACE.DELETE(id));
+  }
+  return api.patch(API_ENDPOINTS.MARKETPLACE.STATUS(id), { status: action });
+}
+
+// Apply one action to several listings from the dashboard. Each listing is
+// its own request, so some can fail while the rest go through.
+export function useBulkListingAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      ids,
+      action,
+    }: {
+      ids: string[];
+      action: BulkListingAction;
+    }) => {
+      const results = await Promise.allSettled(
+        ids.map((id) => runListingAction(id, action))
+      );
+      const failed = results.filter((result) => result.status === 'rejected');
+      return { succeeded: ids.length - failed.length, failed: failed.length };
+    },
+    onSuccess: ({ succeeded, failed }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.listings });
+      if (succeeded > 0) {
+        toast.success(
+          `Updated ${succeeded} ${succeeded === 1 ? 'listing' : 'listings'}`
+        );
+      }
+      if (failed > 0) {
+        toast.error(
+          `${failed} ${failed === 1 ? 'listing' : 'listings'} couldn't be updated`
+        );
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
@@ -0,0 +1,164 @@
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+} from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { parseApiError } from '../errors';
+import type { PaginatedResponse } from './use-api';
+import type {
+  ContactSellerData,
+  Conversation,
+  Message,
+  SendMessageData,
+} from '@/types/message';
+
+type InfiniteConversations = InfiniteData<PaginatedResponse<Conversation>>;
+type InfiniteMessages = InfiniteData<PaginatedResponse<Message>>;
+
+const getNextPageParam = <T>(lastPage: PaginatedResponse<T>) =>
+  lastPage.meta.page < lastPage.meta.totalPages
+    ? lastPage.meta.page + 1
+    : undefined;
+
+// Inbox, most recently active first
+export function useConversations() {
+  return useInfiniteQuery({
+    queryKey: QUERY_KEYS.conversations,
+    queryFn: ({ pageParam }) =>
+      api.get<PaginatedResponse<Conversation>>(
+        API_ENDPOINTS.MESSAGES.CONVERSATIONS,
+        { page: pageParam, limit: 20 }
+      ),
+    initialPageParam: 1,
+    getNextPageParam,
+  });
+}
+
+// Single conversation
+export function useConversation(id: string | undefined) {
+  return useQuery({
+    queryKey: QUERY_KEYS.conversation(id || ''),
+    queryFn: () =>
+      api.get<Conversation>(API_ENDPOINTS.MESSAGES.CONVERSATION(id!)),
+    enabled: !!id,
+  });
+}
+
+// Messages in a conversation, newest first; later pages are older messages
+export function useMessages(conversationId: string | undefined) {
+  return useInfiniteQuery({
+    queryKey: QUERY_KEYS.messages(conversationId || ''),
+    queryFn: ({ pageParam }) =>
+      api.get<PaginatedResponse<Message>>(
+        API_ENDPOINTS.MESSAGES.MESSAGES(conversationId!),
+        { page: pageParam, limit: 30 }
+      ),
+    initialPageParam: 1,
+    getNextPageParam,
+    enabled: !!conversationId,
+  });
+}
+
+// Send a message in an existing conversation
+export function useSendMessage(conversationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SendMessageData) =>
+      api.post<Message>(API_ENDPOINTS.MESSAGES.SEND(conversationId), data),
+    onSuccess: (message) => {
+      queryClient.setQueryData<InfiniteMessages>(
+        QUERY_KEYS.messages(conversationId),
+        (old) => {
+          const [firstPage, ...restPages] = old?.pages ?? [];
+          if (!old || !firstPage) return old;
+          return {
+            ...old,
+            pages: [
+              { ...firstPage, items: [message, ...firstPage.items] },
+              ...restPages,
+            ],
+          };
+        }
+      );
+      queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.conversations,
+        exact: true,
+      });
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Clear a conversation's unread badge once it's been opened
+export function useMarkConversationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (conversationId: string) =>
+      api.post(API_ENDPOINTS.MESSAGES.MARK_READ(conversationId), {}),
+    onSuccess: (_, conversationId) => {
+      queryClient.setQueryData<InfiniteConversations>(
+        QUERY_KEYS.conversations,
+        (old) =>
+          old && {
+            ...old,
+            pages: old.pages.map((page) => ({
+              ...page,
+              items: page.items.map((conversation) =>
+                conversation.id === conversationId
+                  ? { ...conversation, unreadCount: 0 }
+                  : conversation
+              ),
+            })),
+          }
+      );
+    },
+  });
+}
+
+// Ask a seller about a listing. The server reuses any existing conversation
+// with the seller and attaches the listing to it, so the caller just opens
+// whichever conversation comes back.
+export function useContactSeller() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      listingId,
+      data,
+    }: {
+      listingId: string;
+      data: ContactSellerData;
+    }) =>
+      api.post<Conversation>(
+        API_ENDPOINTS.MARKETPLACE.CONTACT_SELLER(listingId),
+        data
+      ),
+    onSuccess: (conversation) => {
+      queryClient.setQueryData(
+        QUERY_KEYS.conversation(conversation.id),
+        conversation
+      );
+      queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.messages(conversation.id),
+      });
+      queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.conversations,
+        exact: true,
+      });
+      toast.success('Message sent');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
@@ -0,0 +1,140 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { parseApiError } from '../errors';
+import { removePostsFromFeed } from './use-posts';
+import { getPostHashtags } from '@/lib/post-content';
+import type { User } from '@/types/auth';
+
+// Muting hides someone's posts (or a hashtag) from your feed without them
+// knowing - unlike blocking, they can still see and interact with you
+
+// Get muted users
+export function useMutedUsers() {
+  return useQuery({
+    queryKey: QUERY_KEYS.mutedUsers,
+    queryFn: () => api.get<{ users: User[] }>(API_ENDPOINTS.SOCIAL.MUTED_USERS),
+  });
+}
+
+// Get muted hashtags (lowercase, without the #)
+export function useMutedHashtags() {
+  return useQuery({
+    queryKey: QUERY_KEYS.mutedHashtags,
+    queryFn: () =>
+      api.get<{ hashtags: string[] }>(API_ENDPOINTS.SOCIAL.MUTED_HASHTAGS),
+  });
+}
+
+// Mute user mutation - their posts leave the feed right away
+export function useMuteUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (user: User) =>
+      api.post<{ muted: boolean }>(API_ENDPOINTS.SOCIAL.MUTE(user.id), {}),
+    onMutate: async (user) => {
+      await queryClient.cancelQueries({ queryKey: QUERY_KEYS.feed });
+      const previousFeeds = removePostsFromFeed(
+        queryClient,
+        (post) => post.author.id === user.id
+      );
+      return { previousFeeds };
+    },
+    onError: (error: Error, _user, context) => {
+      // Rollback on error
+      context?.previousFeeds.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      toast.error(parseApiError(error));
+    },
+    onSuccess: (_, user) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.mutedUsers });
+      toast.success(`Muted @${user.username}`);
+    },
+  });
+}
+
+// Unmute user mutation - refetches the feed so their posts come back
+export function useUnmuteUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) =>
+      api.post<{ unmuted: boolean }>(API_ENDPOINTS.SOCIAL.UNMUTE(userId), {}),
+    onSuccess: (_, userId) => {
+      queryClient.setQueryData<{ users: User[] }>(
+        QUERY_KEYS.mutedUsers,
+        (old) =>
+          old && { users: old.users.filter((user) => user.id !== userId) }
+      );
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.mutedUsers });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.feed });
+      toast.success('User unmuted');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Mute hashtag mutation - posts using it leave the feed right away
+export function useMuteHashtag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (tag: string) =>
+      api.post<{ muted: boolean }>(
+        API_ENDPOINTS.SOCIAL.MUTE_HASHTAG(
+          encodeURIComponent(tag.toLowerCase())
+        ),
+        {}
+      ),
+    onMutate: async (tag) => {
+      await queryClient.cancelQueries({ queryKey: QUERY_KEYS.feed });
+      const previousFeeds = removePostsFromFeed(queryClient, (post) =>
+        getPostHashtags(post.content).includes(tag.toLowerCase())
+      );
+      return { previousFeeds };
+    },
+    onError: (error: Error, _tag, context) => {
+      // Rollback on error
+      context?.previousFeeds.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      toast.error(parseApiError(error));
+    },
+    onSuccess: (_, tag) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.mutedHashtags });
+      toast.success(`Muted #${tag.toLowerCase()}`);
+    },
+  });
+}
+
+// Unmute hashtag mutation
+export function useUnmuteHashtag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (tag: string) =>
+      api.post<{ unmuted: boolean }>(
+        API_ENDPOINTS.SOCIAL.UNMUTE_HASHTAG(encodeURIComponent(tag)),
+        {}
+      ),
+    onSuccess: (_, tag) => {
+      queryClient.setQueryData<{ hashtags: string[] }>(
+        QUERY_KEYS.mutedHashtags,
+        (old) =>
+          old && { hashtags: old.hashtags.filter((muted) => muted !== tag) }
+      );
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.mutedHashtags });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.feed });
+      toast.success(`Unmuted #${tag}`);
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
@@ -0,0 +1,118 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { parseApiError } from '../errors';
+import type {
+  CreateOfferData,
+  Offer,
+  OfferResponseData,
+} from '@/types/marketplace';
+
+const RESPONSE_TOASTS: Record<OfferResponseData['action'], string> = {
+  accept: 'Offer accepted. The listing is now reserved for the buyer.',
+  decline: 'Offer declined',
+  counter: 'Counter-offer sent',
+};
+
+// Offers on a listing. Sellers get every offer; buyers only get their own.
+export function useListingOffers(
+  listingId: string | undefined,
+  options?: { enabled?: boolean }
+) {
+  return useQuery({
+    queryKey: QUERY_KEYS.listingOffers(listingId || ''),
+    queryFn: () =>
+      api.get<Offer[]>(API_ENDPOINTS.MARKETPLACE.OFFERS(listingId!)),
+    enabled: !!listingId && (options?.enabled ?? true),
+  });
+}
+
+function useSetCachedOffer() {
+  const queryClient = useQueryClient();
+
+  return (offer: Offer) => {
+    queryClient.setQueryData<Offer[]>(
+      QUERY_KEYS.listingOffers(offer.listingId),
+      (old = []) =>
+        old.some((cached) => cached.id === offer.id)
+          ? old.map((cached) => (cached.id === offer.id ? offer : cached))
+          : [offer, ...old]
+    );
+  };
+}
+
+// Make an offer on a listing (buyer)
+export function useMakeOffer() {
+  const setCachedOffer = useSetCachedOffer();
+
+  return useMutation({
+    mutationFn: ({
+      listingId,
+      data,
+    }: {
+      listingId: string;
+      data: CreateOfferData;
+    }) => api.post<Offer>(API_ENDPOINTS.MARKETPLACE.OFFERS(listingId), data),
+    onSuccess: (offer) => {
+      setCachedOffer(offer);
+      toast.success("Offer sent. We'll let you know when the seller replies.");
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Accept, decline or counter an offer. Whoever the offer is waiting on can
+// respond: the seller to a buyer's offer, the buyer to a seller's counter.
+export function useRespondToOffer() {
+  const queryClient = useQueryClient();
+  const setCachedOffer = useSetCachedOffer();
+
+  return useMutation({
+    mutationFn: ({
+      offerId,
+      data,
+    }: {
+      offerId: string;
+      data: OfferResponseData;
+    }) =>
+      api.post<Offer>(
+        API_ENDPOINTS.MARKETPLACE.RESPOND_TO_OFFER(offerId),
+        data
+      ),
+    onSuccess: (offer, { data }) => {
+      setCachedOffer(offer);
+      // Accepting reserves the listing and closes the other offers on it
+      if (offer.status === 'accepted') {
+        queryClient.invalidateQueries({
+          queryKey: QUERY_KEYS.listing(offer.listingId),
+        });
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.myListings });
+      }
+      toast.success(RESPONSE_TOASTS[data.action]);
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Take back an offer that's still open (buyer)
+export function useWithdrawOffer() {
+  const setCachedOffer = useSetCachedOffer();
+
+  return useMutation({
+    mutationFn: (offerId: string) =>
+      api.post<Offer>(API_ENDPOINTS.MARKETPLACE.WITHDRAW_OFFER(offerId), {}),
+    onSuccess: (offer) => {
+      setCachedOffer(offer);
+      toast.success('Offer withdrawn');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
@@ -0,0 +1,75 @@
+import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import type { PaginatedResponse } from './use-api';
+import { getFitmentParents } from '@/lib/parts';
+import type {
+  FitmentLevel,
+  FitmentSelection,
+  Part,
+  PartCategory,
+  PartFilters,
+} from '@/types/part';
+
+// Browse the parts catalog (page paginated). Filtering by a category
+// includes everything in its subcategories.
+export function useParts(
+  filters: PartFilters = {},
+  options?: { enabled?: boolean }
+) {
+  return useInfiniteQuery({
+    queryKey: [...QUERY_KEYS.parts, filters],
+    queryFn: ({ pageParam }) =>
+      api.get<PaginatedResponse<Part>>(API_ENDPOINTS.PARTS.LIST, {
+        ...filters,
+        page: pageParam,
+        limit: 20,
+      }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.meta.page < lastPage.meta.totalPages
+        ? lastPage.meta.page + 1
+        : undefined,
+    enabled: options?.enabled ?? true,
+  });
+}
+
+// The whole category tree, flattened. Rarely changes.
+export function usePartCategories() {
+  return useQuery({
+    queryKey: QUERY_KEYS.partCategories,
+    queryFn: () => api.get<PartCategory[]>(API_ENDPOINTS.PARTS.CATEGORIES),
+    staleTime: 60 * 60 * 1000, // 1 hour
+  });
+}
+
+// Single part
+export function usePart(id: string | undefined) {
+  return useQuery({
+    queryKey: QUERY_KEYS.part(id || ''),
+    queryFn: () => api.get<Part>(API_ENDPOINTS.PARTS.BY_ID(id!)),
+    enabled: !!id,
+  });
+}
+
+// Choices for one step of the make → model → year → engine selector, given
+// the steps picked before it. Waits until those earlier steps are picked.
+// Years come back as numbers, everything else as strings.
+export function useFitmentOptions(
+  level: FitmentLevel,
+  selection: FitmentSelection
+) {
+  const parents = getFitmentParents(level, selection);
+
+  return useQuery({
+    queryKey: QUERY_KEYS.partCompatibility(level, parents ?? {}),
+    queryFn: () =>
+      api.get<(string | number)[]>(API_ENDPOINTS.PARTS.COMPATIBILITY, {
+        level,
+        ...parents,
+      }),
+    enabled: parents !== null,
+    staleTime: 60 * 60 * 1000, // 1 hour
+  });
+}
@@ -0,0 +1,607 @@
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { parseApiError } from '../errors';
+import {
+  createInfiniteQueryHook,
+  useOptimisticMutation,
+  type PaginatedResponse,
+} from './use-api';
+import type { User } from '@/types/auth';
+import type {
+  Post,
+  CreatePostData,
+  UpdatePostData,
+  PostRevision,
+} from '@/types/post';
+
+type InfinitePosts = InfiniteData<PaginatedResponse<Post>>;
+
+// Home feed (cursor paginated)
+export const useFeed = createInfiniteQueryHook<Post>(
+  QUERY_KEYS.feed,
+  (params) => api.get<PaginatedResponse<Post>>(API_ENDPOINTS.POSTS.FEED, params)
+);
+
+// Single post
+export function usePost(id: string | undefined) {
+  return useQuery({
+    queryKey: QUERY_KEYS.post(id || ''),
+    queryFn: () => api.get<Post>(API_ENDPOINTS.POSTS.BY_ID(id!)),
+    enabled: !!id,
+  });
+}
+
+// Previous versions of an edited post
+export function usePostRevisions(postId: string, enabled = true) {
+  return useQuery({
+    queryKey: QUERY_KEYS.postRevisions(postId),
+    queryFn: () =>
+      api.get<PostRevision[]>(API_ENDPOINTS.POSTS.REVISIONS(postId)),
+    enabled: enabled && !!postId,
+  });
+}
+
+// Posts by a single user (profile Posts tab)
+export function useUserPosts(userId: string | undefined) {
+  return useInfiniteQuery({
+    queryKey: QUERY_KEYS.userPosts(userId || ''),
+    queryFn: ({ pageParam }) =>
+      api.get<PaginatedResponse<Post>>(API_ENDPOINTS.POSTS.BY_USER(userId!), {
+        page: pageParam,
+        limit: 20,
+      }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.meta.page < lastPage.meta.totalPages
+        ? lastPage.meta.page + 1
+        : undefined,
+    enabled: !!userId,
+  });
+}
+
+// Most engaging recent posts (explore page)
+export const useTrendingPosts = createInfiniteQueryHook<Post>(
+  QUERY_KEYS.trending,
+  (params) =>
+    api.get<PaginatedResponse<Post>>(API_ENDPOINTS.POSTS.TRENDING, params)
+);
+
+// Posts tagged with a hashtag (without the leading #)
+export function useHashtagPosts(tag: string | undefined) {
+  return useInfiniteQuery({
+    queryKey: QUERY_KEYS.hashtag(tag || ''),
+    queryFn: ({ pageParam }) =>
+      api.get<PaginatedResponse<Post>>(
+        API_ENDPOINTS.POSTS.HASHTAG(encodeURIComponent(tag!)),
+        { page: pageParam, limit: 20 }
+      ),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.meta.page < lastPage.meta.totalPages
+        ? lastPage.meta.page + 1
+        : undefined,
+    enabled: !!tag,
+  });
+}
+
+// Poll for feed posts newer than the newest one currently loaded
+export function useNewFeedPosts(newestPostId: string | undefined) {
+  return useQuery({
+    queryKey: QUERY_KEYS.newFeedPosts(newestPostId || ''),
+    queryFn: () =>
+      api.get<PaginatedResponse<Post>>(API_ENDPOINTS.POSTS.FEED, {
+        after: newestPostId,
+        limit: 50,
+      }),
+    enabled: !!newestPostId,
+    refetchInterval: 30 * 1000, // 30 seconds
+    refetchIntervalInBackground: false,
+  });
+}
+
+// Insert posts at the top of every cached feed, skipping ones already there
+export function prependPostsToFeed(queryClient: QueryClient, posts: Post[]) {
+  queryClient.setQueriesData<InfinitePosts>(
+    { queryKey: QUERY_KEYS.feed },
+    (old) => {
+      const [firstPage, ...restPages] = old?.pages ?? [];
+      if (!old || !firstPage) return old;
+
+      const loadedIds = new Set(
+        old.pages.flatMap((page) => page.items.map((post) => post.id))
+      );
+      const newPosts = posts.filter((post) => !loadedIds.has(post.id));
+
+      if (newPosts.length === 0) return old;
+
+      return {
+        ...old,
+        pages: [
+          { ...firstPage, items: [...newPosts, ...firstPage.items] },
+          ...restPages,
+        ],
+      };
+    }
+  );
+}
+
+// Replace a post in every cached feed (e.g. swap an optimistic post for the saved one)
+function replaceFeedPost(queryClient: QueryClient, postId: string, post: Post) {
+  queryClient.setQueriesData<InfinitePosts>(
+    { queryKey: QUERY_KEYS.feed },
+    (old) =>
+      old && {
+        ...old,
+        pages: old.pages.map((page) => ({
+          ...page,
+          items: page.items.map((item) => (item.id === postId ? post : item)),
+        })),
+      }
+  );
+}
+
+// Drop posts from every cached feed, including reposts of matching posts.
+// Returns the previous feed data for rollback.
+export function removePostsFromFeed(
+  queryClient: QueryClient,
+  shouldRemove: (post: Post) => boolean
+) {
+  const previousFeeds = queryClient.getQueriesData<InfinitePosts>({
+    queryKey: QUERY_KEYS.feed,
+  });
+
+  queryClient.setQueriesData<InfinitePosts>(
+    { queryKey: QUERY_KEYS.feed },
+    (old) =>
+      old && {
+        ...old,
+        pages: old.pages.map((page) => ({
+          ...page,
+          items: page.items.filter(
+            (item) =>
+              !shouldRemove(item) &&
+              !(
+                isPlainRepost(item) &&
+                item.repostOf &&
+                shouldRemove(item.repostOf)
+              )
+          ),
+        })),
+      }
+  );
+
+  return previousFeeds;
+}
+
+// Create post mutation - shows the post at the top of the feed right away
+export function useCreatePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreatePostData) =>
+      api.post<Post>(API_ENDPOINTS.POSTS.CREATE, data),
+    onMutate: async (data) => {
+      await queryClient.cancelQueries({ queryKey: QUERY_KEYS.feed });
+
+      const previousFeeds = queryClient.getQueriesData<InfinitePosts>({
+        queryKey: QUERY_KEYS.feed,
+      });
+      const author = queryClient.getQueryData<User>(QUERY_KEYS.currentUser);
+      const optimisticId = `${OPTIMISTIC_ID_PREFIX}${Date.now()}`;
+
+      if (author) {
+        prependPostsToFeed(queryClient, [
+          {
+            id: optimisticId,
+            content: data.content,
+            images: data.images,
+            author,
+            likesCount: 0,
+            commentsCount: 0,
+            isLiked: false,
+            isBookmarked: false,
+            repostOfId: data.repostOfId,
+            repostOf: data.repostOfId
+              ? findCachedPost(queryClient, data.repostOfId)
+              : undefined,
+            createdAt: new Date().toISOString(),
+          },
+        ]);
+      }
+
+      return { previousFeeds, optimisticId };
+    },
+    onError: (error: Error, _data, context) => {
+      // Rollback on error
+      context?.previousFeeds.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      toast.error(parseApiError(error));
+    },
+    onSuccess: (post, _data, context) => {
+      if (context?.optimisticId) {
+        replaceFeedPost(queryClient, context.optimisticId, post);
+      }
+      prependPostsToFeed(queryClient, [post]);
+      if (post.repostOfId) {
+        setCachedPost(queryClient, post.repostOfId, (original) => ({
+          ...original,
+          repostsCount: (original.repostsCount ?? 0) + 1,
+        }));
+      }
+      queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.userPosts(post.author.id),
+      });
+      toast.success('Post published!');
+    },
+  });
+}
+
+// Every cache a post can appear in: feeds, single posts, user posts,
+// bookmarks and search results
+const POST_CACHE_KEYS = [QUERY_KEYS.posts, ['search']];
+
+function isPost(value: object): value is Post {
+  return 'id' in value && 'likesCount' in value && 'commentsCount' in value;
+}
+
+// A repost without text or photos of its own (as opposed to a quote post)
+export function isPlainRepost(post: Post) {
+  return !!post.repostOfId && !post.content && !post.images?.length;
+}
+
+const OPTIMISTIC_ID_PREFIX = 'optimistic-';
+
+// A post shown ahead of the server confirming it, so its id isn't real yet
+export function isOptimisticPost(post: Pick<Post, 'id'>) {
+  return post.id.startsWith(OPTIMISTIC_ID_PREFIX);
+}
+
+// First cached copy of a post, wherever it's cached
+function findCachedPost(
+  queryClient: QueryClient,
+  postId: string
+): Post | undefined {
+  let found: Post | undefined;
+  updateCachedPost(
+    POST_CACHE_KEYS.flatMap((queryKey) =>
+      queryClient.getQueriesData<unknown>({ queryKey }).map(([, data]) => data)
+    ),
+    postId,
+    (post) => {
+      found ??= post;
+      return post;
+    }
+  );
+  return found;
+}
+
+// Apply `update` to every copy of a post inside cached query data,
+// whatever the shape (single post, lists, infinite pages, search results)
+export function updateCachedPost<T>(
+  data: T,
+  postId: string,
+  update: (post: Post) => Post
+): T {
+  if (Array.isArray(data)) {
+    let changed = false;
+    const items = data.map((item) => {
+      const next = updateCachedPost(item, postId, update);
+      if (next !== item) changed = true;
+      return next;
+    });
+    return changed ? (items as T) : data;
+  }
+
+  if (!data || typeof data !== 'object') return data;
+
+  let changed = false;
+  const entries = Object.entries(data).map(([key, value]) => {
+    const next = updateCachedPost(value, postId, update);
+    if (next !== value) changed = true;
+    return [key, next] as const;
+  });
+  const result = changed ? (Object.fromEntries(entries) as T & object) : data;
+
+  return isPost(result) && result.id === postId
+    ? (update(result) as T)
+    : result;
+}
+
+// Update a post everywhere it's cached (e.g. keep commentsCount in sync)
+export function setCachedPost(
+  queryClient: QueryClient,
+  postId: string,
+  update: (post: Post) => Post
+) {
+  POST_CACHE_KEYS.forEach((queryKey) => {
+    queryClient.setQueriesData<unknown>({ queryKey }, (old: unknown) =>
+      updateCachedPost(old, postId, update)
+    );
+  });
+}
+
+// Drop every post matching `shouldRemove` from cached lists. Reposts and
+// quotes embedding one keep their `repostOf` field as null (a tombstone).
+function removeCachedPosts<T>(
+  data: T,
+  shouldRemove: (post: Post) => boolean
+): T {
+  const isRemoved = (value: unknown) =>
+    !!value &&
+    typeof value === 'object' &&
+    isPost(value) &&
+    shouldRemove(value);
+
+  if (Array.isArray(data)) {
+    let changed = false;
+    const items = data
+      .filter((item) => {
+        const removed = isRemoved(item);
+        if (removed) changed = true;
+        return !removed;
+      })
+      .map((item) => {
+        const next = removeCachedPosts(item, shouldRemove);
+        if (next !== item) changed = true;
+        return next;
+      });
+    return changed ? (items as T) : data;
+  }
+
+  if (!data || typeof data !== 'object') return data;
+
+  let changed = false;
+  const entries = Object.entries(data).map(([key, value]) => {
+    const next = isRemoved(value)
+      ? null
+      : removeCachedPosts(value, shouldRemove);
+    if (next !== value) changed = true;
+    return [key, next] as const;
+  });
+  return changed ? (Object.fromEntries(entries) as T) : data;
+}
+
+// Drop a post from every cached list it appears in
+export function removeCachedPost<T>(data: T, postId: string): T {
+  return removeCachedPosts(data, (post) => post.id === postId);
+}
+
+// Update post mutation (owner only)
+export function useUpdatePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdatePostData }) =>
+      api.patch<Post>(API_ENDPOINTS.POSTS.UPDATE(id), data),
+    onSuccess: (post) => {
+      setCachedPost(queryClient, post.id, (cached) => ({ ...cached, ...post }));
+      queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.postRevisions(post.id),
+      });
+      toast.success('Post updated');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Delete post mutation (owner only)
+export function useDeletePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(API_ENDPOINTS.POSTS.DELETE(id)),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: QUERY_KEYS.post(id) });
+      POST_CACHE_KEYS.forEach((queryKey) => {
+        queryClient.setQueriesData<unknown>({ queryKey }, (old: unknown) =>
+          removeCachedPost(old, id)
+        );
+      });
+      toast.success('Post deleted');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Like/unlike a post - pass the state the post should end up in
+export function useLikePost() {
+  return useOptimisticMutation<
+    unknown,
+    { postId: string; liked: boolean },
+    unknown
+  >(
+    ({ postId, liked }) =>
+      api.post(
+        liked
+          ? API_ENDPOINTS.POSTS.LIKE(postId)
+          : API_ENDPOINTS.POSTS.UNLIKE(postId),
+        {}
+      ),
+    POST_CACHE_KEYS,
+    (old, { postId, liked }) =>
+      updateCachedPost(old, postId, (post) =>
+        post.isLiked === liked
+          ? post
+          : {
+              ...post,
+              isLiked: liked,
+              likesCount: Math.max(0, post.likesCount + (liked ? 1 : -1)),
+            }
+      ),
+    {
+      invalidate: false,
+      onError: (error) => toast.error(parseApiError(error)),
+    }
+  );
+}
+
+// Bookmark/unbookmark a post - pass the state the post should end up in
+export function useBookmarkPost() {
+  const queryClient = useQueryClient();
+
+  return useOptimisticMutation<
+    unknown,
+    { postId: string; bookmarked: boolean },
+    unknown
+  >(
+    ({ postId, bookmarked }) =>
+      api.post(
+        bookmarked
+          ? API_ENDPOINTS.POSTS.BOOKMARK(postId)
+          : API_ENDPOINTS.POSTS.UNBOOKMARK(postId),
+        {}
+      ),
+    POST_CACHE_KEYS,
+    (old, { postId, bookmarked }) =>
+      updateCachedPost(old, postId, (post) => ({
+        ...post,
+        isBookmarked: bookmarked,
+      })),
+    {
+      invalidate: false,
+      // Keep the bookmarks page as-is until it's visited again
+      onSuccess: () =>
+        queryClient.invalidateQueries({
+          queryKey: QUERY_KEYS.bookmarks,
+          refetchType: 'none',
+        }),
+      onError: (error) => toast.error(parseApiError(error)),
+    }
+  );
+}
+
+// Repost/undo repost - pass the state the post should end up in. The new
+// repost shows up at the top of the feed; undoing takes it back out.
+export function useRepost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      postId,
+      reposted,
+    }: {
+      postId: string;
+      reposted: boolean;
+    }) =>
+      reposted
+        ? api.post<Post>(API_ENDPOINTS.POSTS.REPOST(postId), {})
+        : api.post<Post>(API_ENDPOINTS.POSTS.UNREPOST(postId), {}),
+    onMutate: async ({ postId, reposted }) => {
+      await Promise.all(
+        POST_CACHE_KEYS.map((queryKey) =>
+          queryClient.cancelQueries({ queryKey })
+        )
+      );
+
+      const previousData = POST_CACHE_KEYS.flatMap((queryKey) =>
+        queryClient.getQueriesData<unknown>({ queryKey })
+      );
+
+      setCachedPost(queryClient, postId, (post) =>
+        post.isReposted === reposted
+          ? post
+          : {
+              ...post,
+              isReposted: reposted,
+              repostsCount: Math.max(
+                0,
+                (post.repostsCount ?? 0) + (reposted ? 1 : -1)
+              ),
+            }
+      );
+
+      return { previousData };
+    },
+    onError: (error: Error, _vars, context) => {
+      // Rollback on error
+      context?.previousData.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      toast.error(parseApiError(error));
+    },
+    onSuccess: (repost, { postId, reposted }) => {
+      const currentUser = queryClient.getQueryData<User>(
+        QUERY_KEYS.currentUser
+      );
+
+      if (reposted) {
+        prependPostsToFeed(queryClient, [
+          {
+            ...repost,
+            repostOf: repost.repostOf ?? findCachedPost(queryClient, postId),
+          },
+        ]);
+        toast.success('Reposted');
+      } else {
+        POST_CACHE_KEYS.forEach((queryKey) => {
+          queryClient.setQueriesData<unknown>({ queryKey }, (old: unknown) =>
+            removeCachedPosts(
+              old,
+              (post) =>
+                isPlainRepost(post) &&
+                post.repostOfId === postId &&
+                post.author.id === currentUser?.id
+            )
+          );
+        });
+        toast.success('Repost removed');
+      }
+
+      if (currentUser) {
+        queryClient.invalidateQueries({
+          queryKey: QUERY_KEYS.userPosts(currentUser.id),
+        });
+      }
+    },
+  });
+}
+
+// Hide a post from the feed and tell the server to show fewer like it
+export function useNotInterested() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (postId: string) =>
+      api.post(API_ENDPOINTS.POSTS.NOT_INTERESTED(postId), {}),
+    onMutate: async (postId) => {
+      await queryClient.cancelQueries({ queryKey: QUERY_KEYS.feed });
+      const previousFeeds = removePostsFromFeed(
+        queryClient,
+        (post) => post.id === postId
+      );
+      return { previousFeeds };
+    },
+    onError: (error: Error, _postId, context) => {
+      // Rollback on error
+      context?.previousFeeds.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      toast.error(parseApiError(error));
+    },
+    onSuccess: () => {
+      toast.success("Got it. You'll see fewer posts like this");
+    },
+  });
+}
+
+// Saved posts
+export const useBookmarks = createInfiniteQueryHook<Post>(
+  QUERY_KEYS.bookmarks,
+  (params) =>
+    api.get<PaginatedResponse<Post>>(API_ENDPOINTS.POSTS.BOOKMARKS, params)
+);
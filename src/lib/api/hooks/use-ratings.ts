@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { parseApiError } from '../errors';
+import type { CreateRatingData, TransactionRating } from '@/types/marketplace';
+
+// Ratings the buyer and seller left each other on a sold listing
+export function useListingRatings(
+  listingId: string | undefined,
+  options?: { enabled?: boolean }
+) {
+  return useQuery({
+    queryKey: QUERY_KEYS.listingRatings(listingId || ''),
+    queryFn: () =>
+      api.get<TransactionRating[]>(
+        API_ENDPOINTS.MARKETPLACE.RATINGS(listingId!)
+      ),
+    enabled: !!listingId && (options?.enabled ?? true),
+  });
+}
+
+// Rate the other side of a sale. The server works out who's being rated from
+// the listing's seller and buyer, and only takes one rating from each.
+export function useRateTransaction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      listingId,
+      data,
+    }: {
+      listingId: string;
+      data: CreateRatingData;
+    }) =>
+      api.post<TransactionRating>(
+        API_ENDPOINTS.MARKETPLACE.RATINGS(listingId),
+        data
+      ),
+    onSuccess: (rating) => {
+      queryClient.setQueryData<TransactionRating[]>(
+        QUERY_KEYS.listingRatings(rating.listingId),
+        (old = []) => [...old, rating]
+      );
+      // The ratee's seller stats are embedded in their profile
+      queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.user(rating.ratee.id),
+      });
+      queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.userByUsername(rating.ratee.username),
+      });
+      toast.success('Thanks for your rating!');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
@@ -0,0 +1,104 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { parseApiError } from '../errors';
+import { useOptimisticMutation } from './use-api';
+import type {
+  CreateSavedSearchData,
+  SavedSearch,
+  UpdateSavedSearchData,
+} from '@/types/marketplace';
+
+// The current user's saved marketplace searches, with new-match counts
+export function useSavedSearches(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: QUERY_KEYS.savedSearches,
+    queryFn: () =>
+      api.get<SavedSearch[]>(API_ENDPOINTS.MARKETPLACE.SAVED_SEARCHES),
+    enabled: options?.enabled ?? true,
+  });
+}
+
+// Save the current listing search and its filters
+export function useCreateSavedSearch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateSavedSearchData) =>
+      api.post<SavedSearch>(API_ENDPOINTS.MARKETPLACE.SAVED_SEARCHES, data),
+    onSuccess: (savedSearch) => {
+      queryClient.setQueryData<SavedSearch[]>(
+        QUERY_KEYS.savedSearches,
+        (old) => old && [savedSearch, ...old]
+      );
+      toast.success(
+        savedSearch.notify
+          ? "Search saved. We'll let you know about new matches."
+          : 'Search saved'
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Rename a saved search or turn its new-match notifications on or off
+export function useUpdateSavedSearch() {
+  return useOptimisticMutation(
+    ({ id, data }: { id: string; data: UpdateSavedSearchData }) =>
+      api.patch<SavedSearch>(API_ENDPOINTS.MARKETPLACE.SAVED_SEARCH(id), data),
+    [QUERY_KEYS.savedSearches],
+    (old: SavedSearch[], { id, data }) =>
+      old.map((search) => (search.id === id ? { ...search, ...data } : search)),
+    {
+      onError: (error) => {
+        toast.error(parseApiError(error));
+      },
+    }
+  );
+}
+
+export function useDeleteSavedSearch() {
+  return useOptimisticMutation(
+    (id: string) => api.delete(API_ENDPOINTS.MARKETPLACE.SAVED_SEARCH(id)),
+    [QUERY_KEYS.savedSearches],
+    (old: SavedSearch[], id) => old.filter((search) => search.id !== id),
+    {
+      onSuccess: () => {
+        toast.success('Saved search deleted');
+      },
+      onError: (error) => {
+        toast.error(parseApiError(error));
+      },
+    }
+  );
+}
+
+// Reset a saved search's new-match count when its results are opened
+export function useMarkSavedSearchSeen() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      api.post<SavedSearch>(
+        API_ENDPOINTS.MARKETPLACE.SAVED_SEARCH_SEEN(id),
+        {}
+      ),
+    onMutate: (id) => {
+      queryClient.setQueryData<SavedSearch[]>(QUERY_KEYS.savedSearches, (old) =>
+        old?.map((search) =>
+          search.id === id
+            ? {
+                ...search,
+                newCount: 0,
+                lastViewedAt: new Date().toISOString(),
+              }
+            : search
+        )
+      );
+    },
+  });
+}
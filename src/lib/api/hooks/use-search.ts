@@ -2,7 +2,9 @@ import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
 
 import { api } from '../client';
 import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { looksLikePartNumber, normalizePartNumber } from '@/lib/parts';
 import type { User } from '@/types/auth';
+import type { Part } from '@/types/part';
 import type {
   Post,
   Listing,
@@ -15,14 +17,23 @@ interface GlobalSearchResponse {
   posts: Post[];
   listings: Listing[];
   threads: ForumThread[];
+  // Parts matching the part number, or one of its cross-references. Only
+  // returned when a part number is sent.
+  parts?: Part[];
 }
 
-// Global search - returns combined results from all categories
+// Global search - returns combined results from all categories. Queries that
+// look like a part number also look it up in the parts catalog.
 export function useGlobalSearch(query: string) {
   return useQuery({
     queryKey: QUERY_KEYS.search(query),
     queryFn: () =>
-      api.get<GlobalSearchResponse>(API_ENDPOINTS.SEARCH.ALL, { q: query }),
+      api.get<GlobalSearchResponse>(API_ENDPOINTS.SEARCH.ALL, {
+        q: query,
+        partNumber: looksLikePartNumber(query)
+          ? normalizePartNumber(query)
+          : undefined,
+      }),
     enabled: query.length >= 2,
     staleTime: 30 * 1000, // 30 seconds
   });
@@ -150,3 +161,30 @@ export function useSearchHashtags(query: string) {
     staleTime: 60 * 1000,
   });
 }
+
+// Most used hashtags right now (explore page)
+export function useTrendingHashtags(limit = 10) {
+  return useQuery({
+    queryKey: ['search', 'hashtags', 'trending', limit],
+    queryFn: () =>
+      api.get<{ hashtags: { tag: string; count: number }[] }>(
+        API_ENDPOINTS.SEARCH.HASHTAGS,
+        { trending: 'true', limit: String(limit) }
+      ),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// User search for @mention autocomplete
+export function useMentionSuggestions(query: string) {
+  return useQuery({
+    queryKey: ['search', 'mentions', query],
+    queryFn: () =>
+      api.get<SearchResultsWithPagination<User>>(API_ENDPOINTS.SEARCH.USERS, {
+        q: query,
+        limit: '5',
+      }),
+    enabled: query.length >= 1,
+    staleTime: 60 * 1000,
+  });
+}
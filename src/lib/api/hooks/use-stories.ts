@@ -0,0 +1,100 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { api } from '../client';
+import { API_ENDPOINTS, QUERY_KEYS } from '../endpoints';
+import { parseApiError } from '../errors';
+import type {
+  Story,
+  StoryGroup,
+  StoryView,
+  CreateStoryData,
+} from '@/types/story';
+
+// Active stories from the people you follow, grouped by author
+export function useStoryFeed() {
+  return useQuery({
+    queryKey: QUERY_KEYS.storyFeed,
+    queryFn: () => api.get<StoryGroup[]>(API_ENDPOINTS.STORIES.FEED),
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+// Who has seen a story (author only) - only fetched while the list is open
+export function useStoryViewers(storyId: string, enabled = true) {
+  return useQuery({
+    queryKey: QUERY_KEYS.storyViewers(storyId),
+    queryFn: () => api.get<StoryView[]>(API_ENDPOINTS.STORIES.VIEWERS(storyId)),
+    enabled: enabled && !!storyId,
+  });
+}
+
+// Create story mutation - `mediaUrl` is the already uploaded, cropped image
+export function useCreateStory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateStoryData) =>
+      api.post<Story>(API_ENDPOINTS.STORIES.CREATE, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.storyFeed });
+      toast.success('Story shared!');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
+
+// Mark a story as seen. The ring updates right away and stays updated even if
+// the request fails - a missed view isn't worth bothering the user about.
+export function useViewStory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (storyId: string) =>
+      api.post(API_ENDPOINTS.STORIES.VIEW(storyId), {}),
+    onMutate: (storyId) => {
+      queryClient.setQueryData<StoryGroup[]>(QUERY_KEYS.storyFeed, (old) =>
+        old?.map((group) => {
+          if (!group.stories.some((story) => story.id === storyId))
+            return group;
+
+          const stories = group.stories.map((story) =>
+            story.id === storyId ? { ...story, hasViewed: true } : story
+          );
+          return {
+            ...group,
+            stories,
+            hasUnviewed: stories.some((story) => !story.hasViewed),
+          };
+        })
+      );
+    },
+  });
+}
+
+// Delete story mutation (author only)
+export function useDeleteStory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (storyId: string) =>
+      api.delete(API_ENDPOINTS.STORIES.DELETE(storyId)),
+    onSuccess: (_, storyId) => {
+      queryClient.setQueryData<StoryGroup[]>(QUERY_KEYS.storyFeed, (old) =>
+        old
+          ?.map((group) => ({
+            ...group,
+            stories: group.stories.filter((story) => story.id !== storyId),
+          }))
+          .filter((group) => group.stories.length > 0)
+      );
+      queryClient.removeQueries({ queryKey: QUERY_KEYS.storyViewers(storyId) });
+      toast.success('Story deleted');
+    },
+    onError: (error: Error) => {
+      toast.error(parseApiError(error));
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import type { ListingCurrency } from '@/types/marketplace';
+
+export const DEFAULT_DISPLAY_CURRENCY: ListingCurrency = 'GEL';
+
+export const CURRENCY_LABELS: Record<ListingCurrency, string> = {
+  GEL: 'Georgian lari (₾)',
+  USD: 'US dollar ($)',
+  EUR: 'Euro (€)',
+};
+
+/**
+ * Exchange rates as units of each currency per one unit of `base`. Rates are
+ * only used for rough "≈" conversions, never for what a buyer actually pays.
+ */
+export interface ExchangeRateTable {
+  base: string;
+  rates: Record<string, number>;
+}
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+  base: 'USD',
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    GEL: 2.7,
+  },
+};
+
+let exchangeRates = DEFAULT_EXCHANGE_RATES;
+
+// Swap in another rate table, e.g. fresher rates fetched from an API
+export function setExchangeRates(table: ExchangeRateTable) {
+  exchangeRates = table;
+}
+
+export function getExchangeRates() {
+  return exchangeRates;
+}
+
+/**
+ * Converts an amount between currencies through the table's base currency.
+ * Returns null when either currency isn't in the table.
+ */
+export function convertCurrency(
+  amount: number,
+  from: string,
+  to: string,
+  table: ExchangeRateTable = exchangeRates
+): number | null {
+  if (from === to) return amount;
+  const fromRate = table.rates[from];
+  const toRate = table.rates[to];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+}
+
+// Whole units with the local symbol, e.g. "₾1,200" rather than "GEL 1,200"
+export function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    currencyDisplay: 'narrowSymbol',
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Approximate price in the viewer's display currency, e.g. "≈ ₾11,340".
+ * Null when the price is already in that currency or can't be converted.
+ */
+export function formatConvertedPrice(
+  amount: number,
+  from: string,
+  to: string,
+  table: ExchangeRateTable = exchangeRates
+): string | null {
+  if (from === to) return null;
+  const converted = convertCurrency(amount, from, to, table);
+  if (converted === null) return null;
+  return `≈ ${formatCurrency(converted, to)}`;
+}
@@ -0,0 +1,249 @@
+import {
+  addMonths,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+} from 'date-fns';
+
+import { formatPrice } from './marketplace';
+import { matchesFitment, serializePartFilters } from './parts';
+import type { ListingFormData } from './validations/listing';
+import type {
+  Bike,
+  MaintenanceEntry,
+  MaintenanceReminder,
+  MaintenanceType,
+} from '@/types/garage';
+import type { FitmentSelection, PartFitment } from '@/types/part';
+
+// Marketplace category a garage bike is listed under when sold
+export const BIKE_LISTING_CATEGORY = 'bikes';
+
+// "2019 Yamaha WR250F"
+export function getBikeName(bike: Pick<Bike, 'year' | 'make' | 'model'>) {
+  return `${bike.year} ${bike.make} ${bike.model}`;
+}
+
+export function formatMileage(km: number) {
+  return `${new Intl.NumberFormat('en-US').format(km)} km`;
+}
+
+export function getBikeFitment(bike: Bike): FitmentSelection {
+  return {
+    make: bike.make,
+    model: bike.model,
+    year: bike.year,
+    engine: bike.engine,
+  };
+}
+
+// Whether a fitment filter is set to exactly this bike
+export function isBikeSelected(bike: Bike, selection: FitmentSelection) {
+  return (
+    selection.make === bike.make &&
+    selection.model === bike.model &&
+    selection.year === bike.year &&
+    selection.engine === bike.engine
+  );
+}
+
+// The parts catalog narrowed to parts that fit the bike
+export function getBikePartsHref(bike: Bike) {
+  return `/parts?${serializePartFilters(getBikeFitment(bike)).toString()}`;
+}
+
+export function getSellBikeHref(bike: Bike) {
+  return `/marketplace/create?bike=${encodeURIComponent(bike.id)}`;
+}
+
+// Listing fields a garage bike can fill in. Price, condition and location
+// are left for the seller.
+export function getBikeListingValues(bike: Bike): Partial<ListingFormData> {
+  const details = [
+    bike.engine && `Engine: ${bike.engine}`,
+    `Mileage: ${formatMileage(bike.mileage)}`,
+  ].filter(Boolean);
+
+  return {
+    category: BIKE_LISTING_CATEGORY,
+    title: getBikeName(bike),
+    description: details.join('\n'),
+    images: bike.photos,
+  };
+}
+
+// The first of the user's bikes a part is listed as fitting
+export function findFittingBike(bikes: Bike[], fitment: PartFitment[]) {
+  return bikes.find((bike) =>
+    fitment.some((row) => matchesFitment(row, getBikeFitment(bike)))
+  );
+}
+
+export const MAINTENANCE_TYPE_LABELS: Record<MaintenanceType, string> = {
+  'oil-change': 'Oil change',
+  chain: 'Chain & sprockets',
+  tires: 'Tires',
+  brakes: 'Brakes',
+  'air-filter': 'Air filter',
+  coolant: 'Coolant',
+  valves: 'Valve check',
+  other: 'Other',
+};
+
+// Reminders count as "due soon" inside these margins
+const REMINDER_SOON_KM = 500;
+const REMINDER_SOON_DAYS = 14;
+
+export type ReminderState = 'untracked' | 'ok' | 'soon' | 'due';
+
+export const REMINDER_STATE_LABELS: Record<ReminderState, string> = {
+  untracked: 'Not logged yet',
+  ok: 'On track',
+  soon: 'Due soon',
+  due: 'Due now',
+};
+
+export const REMINDER_STATE_COLORS: Record<ReminderState, string> = {
+  untracked: 'bg-muted text-muted-foreground',
+  ok: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
+  soon: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100',
+  due: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100',
+};
+
+export interface ReminderStatus {
+  state: ReminderState;
+  // Odometer reading the job is next due at
+  dueOdometer: number | null;
+  // Day the job is next due, YYYY-MM-DD
+  dueDate: string | null;
+}
+
+// Most recent log entry of a type, by date and then odometer
+export function getLastMaintenance(
+  entries: MaintenanceEntry[],
+  type: MaintenanceType
+) {
+  return entries
+    .filter((entry) => entry.type === type)
+    .reduce<
+      MaintenanceEntry | undefined
+    >((latest, entry) => (!latest || entry.date > latest.date || (entry.date === latest.date && entry.odometer > latest.odometer) ? entry : latest), undefined);
+}
+
+/**
+ * Where a reminder stands against the bike's mileage and today's date. The
+ * interval counts from the last time the job was logged; until it has been
+ * logged once there's nothing to count from.
+ */
+export function getReminderStatus(
+  reminder: MaintenanceReminder,
+  entries: MaintenanceEntry[],
+  bike: Pick<Bike, 'mileage'>,
+  now: Date = new Date()
+): ReminderStatus {
+  const last = getLastMaintenance(entries, reminder.type);
+  if (!last) return { state: 'untracked', dueOdometer: null, dueDate: null };
+
+  const dueOdometer =
+    reminder.intervalKm !== null ? last.odometer + reminder.intervalKm : null;
+  const dueDate =
+    reminder.intervalMonths !== null
+      ? addMonths(parseISO(last.date), reminder.intervalMonths)
+      : null;
+
+  const kmLeft = dueOdometer !== null ? dueOdometer - bike.mileage : null;
+  const daysLeft =
+    dueDate !== null ? differenceInCalendarDays(dueDate, now) : null;
+
+  let state: ReminderState = 'ok';
+  if (
+    (kmLeft !== null && kmLeft <= 0) ||
+    (daysLeft !== null && daysLeft <= 0)
+  ) {
+    state = 'due';
+  } else if (
+    (kmLeft !== null && kmLeft <= REMINDER_SOON_KM) ||
+    (daysLeft !== null && daysLeft <= REMINDER_SOON_DAYS)
+  ) {
+    state = 'soon';
+  }
+
+  return {
+    state,
+    dueOdometer,
+    dueDate: dueDate && format(dueDate, 'yyyy-MM-dd'),
+  };
+}
+
+// "Every 5,000 km or 12 months"
+export function describeReminderInterval(
+  reminder: Pick<MaintenanceReminder, 'intervalKm' | 'intervalMonths'>
+) {
+  const parts = [
+    reminder.intervalKm !== null && formatMileage(reminder.intervalKm),
+    reminder.intervalMonths !== null &&
+      `${reminder.intervalMonths} ${reminder.intervalMonths === 1 ? 'month' : 'months'}`,
+  ].filter(Boolean);
+
+  return `Every ${parts.join(' or ')}`;
+}
+
+// Quote a CSV field when it holds a delimiter, quote or line break. Fields
+// that spreadsheets would run as a formula get a leading apostrophe.
+function escapeCsvField(value: string) {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * The maintenance log as CSV, oldest first, for handing to a buyer. Receipts
+ * are listed as links since the images stay on our servers.
+ */
+export function maintenanceLogToCsv(entries: MaintenanceEntry[]) {
+  const header = [
+    'Date',
+    'Type',
+    'Odometer (km)',
+    'Cost',
+    'Currency',
+    'Notes',
+    'Receipts',
+  ];
+  const rows = [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.odometer - b.odometer)
+    .map((entry) => [
+      entry.date,
+      MAINTENANCE_TYPE_LABELS[entry.type],
+      String(entry.odometer),
+      entry.cost !== null ? String(entry.cost) : '',
+      entry.cost !== null ? entry.currency : '',
+      entry.notes ?? '',
+      entry.receipts.join(' '),
+    ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\r\n');
+}
+
+// "2019-yamaha-wr250f-maintenance.csv"
+export function getMaintenanceCsvFilename(bike: Bike) {
+  const slug = getBikeName(bike)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug}-maintenance.csv`;
+}
+
+// Total spent across entries, per currency: "₾320 · $45"
+export function formatMaintenanceCosts(entries: MaintenanceEntry[]) {
+  const totals = new Map<string, number>();
+  entries.forEach((entry) => {
+    if (entry.cost === null) return;
+    totals.set(entry.currency, (totals.get(entry.currency) ?? 0) + entry.cost);
+  });
+
+  return [...totals]
+    .map(([currency, total]) => formatPrice(total, currency))
+    .join(' · ');
+}
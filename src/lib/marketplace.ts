@@ -0,0 +1,318 @@
+import { formatCurrency } from './currency';
+import type {
+  Favorite,
+  Listing,
+  ListingCondition,
+  ListingFilters,
+  ListingSort,
+  ListingStatus,
+  Offer,
+  OfferStatus,
+  RatingRole,
+  SavedSearch,
+  SavedSearchFilters,
+} from '@/types/marketplace';
+import type { User } from '@/types/auth';
+
+export const LISTING_CONDITIONS: { value: ListingCondition; label: string }[] =
+  [
+    { value: 'new', label: 'New' },
+    { value: 'like-new', label: 'Like New' },
+    { value: 'good', label: 'Good' },
+    { value: 'fair', label: 'Fair' },
+    { value: 'poor', label: 'Poor' },
+  ];
+
+export const CONDITION_LABELS = Object.fromEntries(
+  LISTING_CONDITIONS.map(({ value, label }) => [value, label])
+) as Record<ListingCondition, string>;
+
+export const CONDITION_COLORS: Record<ListingCondition, string> = {
+  new: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
+  'like-new': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100',
+  good: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100',
+  fair: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-100',
+  poor: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100',
+};
+
+// In the order they're grouped on the My listings dashboard
+export const LISTING_STATUSES: { value: ListingStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'reserved', label: 'Reserved' },
+  { value: 'draft', label: 'Draft' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'sold', label: 'Sold' },
+];
+
+export const STATUS_LABELS = Object.fromEntries(
+  LISTING_STATUSES.map(({ value, label }) => [value, label])
+) as Record<ListingStatus, string>;
+
+export const STATUS_COLORS: Record<ListingStatus, string> = {
+  active: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
+  reserved: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100',
+  sold: 'bg-slate-200 text-slate-800 dark:bg-slate-800 dark:text-slate-100',
+  expired: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100',
+  draft: 'bg-muted text-muted-foreground',
+};
+
+// Statuses a seller can move a listing to by hand. Expired listings come
+// back through renewing and drafts through publishing, not from here.
+const STATUS_TRANSITIONS: Record<ListingStatus, ListingStatus[]> = {
+  active: ['reserved', 'sold'],
+  reserved: ['active', 'sold'],
+  sold: ['active'],
+  expired: [],
+  draft: [],
+};
+
+export const STATUS_ACTION_LABELS: Partial<Record<ListingStatus, string>> = {
+  active: 'Mark as available',
+  reserved: 'Mark as reserved',
+  sold: 'Mark as sold',
+};
+
+export function canChangeStatus(listing: Listing, status: ListingStatus) {
+  return STATUS_TRANSITIONS[listing.status].includes(status);
+}
+
+// How close to expiry an active listing has to be before it can be renewed
+export const RENEW_WINDOW_DAYS = 7;
+
+export function canRenewListing(listing: Listing, now = Date.now()) {
+  if (listing.status === 'expired') return true;
+  if (listing.status !== 'active' || !listing.expiresAt) return false;
+  const msLeft = new Date(listing.expiresAt).getTime() - now;
+  return msLeft < RENEW_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+}
+
+// How much cheaper a favorited listing is now than when it was favorited.
+// Zero when the price hasn't dropped or can't be compared.
+export function getPriceDrop(favorite: Favorite) {
+  const { listing } = favorite;
+  if (!listing || listing.currency !== favorite.currency) return 0;
+  return Math.max(favorite.priceAtFavorite - listing.price, 0);
+}
+
+// Why a favorited listing can no longer be bought, if it can't
+export function getFavoriteUnavailableReason(favorite: Favorite) {
+  if (!favorite.listing) return 'Removed by seller';
+  if (favorite.listing.status === 'sold') return 'Sold';
+  if (favorite.listing.status === 'expired') return 'No longer listed';
+  return null;
+}
+
+/**
+ * Orders favorites for the favorites grid: price drops first, then the rest
+ * of the available listings, then sold or removed ones. Keeps the incoming
+ * order within each group.
+ */
+export function sortFavorites(favorites: Favorite[]) {
+  const rank = (favorite: Favorite) =>
+    getFavoriteUnavailableReason(favorite)
+      ? 2
+      : getPriceDrop(favorite) > 0
+        ? 0
+        : 1;
+  return [...favorites].sort((a, b) => rank(a) - rank(b));
+}
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  pending: 'Pending',
+  countered: 'Countered',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+  withdrawn: 'Withdrawn',
+};
+
+export const OFFER_STATUS_COLORS: Record<OfferStatus, string> = {
+  pending: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100',
+  countered:
+    'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100',
+  accepted: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
+  declined: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100',
+  expired: 'bg-muted text-muted-foreground',
+  withdrawn: 'bg-muted text-muted-foreground',
+};
+
+// Open offers are still waiting on someone. The server expires them on a
+// schedule, so an offer can be past its deadline before its status catches up.
+export function isOfferOpen(offer: Offer, now = Date.now()) {
+  if (offer.status !== 'pending' && offer.status !== 'countered') return false;
+  return new Date(offer.expiresAt).getTime() > now;
+}
+
+// Whether it's this user's turn to accept, decline or counter
+export function canRespondToOffer(
+  offer: Offer,
+  userId: string | undefined,
+  sellerId: string,
+  now = Date.now()
+) {
+  if (!userId || !isOfferOpen(offer, now)) return false;
+  return offer.awaiting === 'seller'
+    ? userId === sellerId
+    : userId === offer.buyer.id;
+}
+
+// Quick-pick amounts below the asking price, rounded to whole units
+export const OFFER_DISCOUNTS = [5, 10, 15];
+
+export function getSuggestedOffers(price: number) {
+  return OFFER_DISCOUNTS.map((discount) => ({
+    discount,
+    amount: Math.round(price * (1 - discount / 100)),
+  })).filter(({ amount }) => amount > 0);
+}
+
+// People who made offers on a listing, to pick the buyer from when it's
+// marked sold. Whoever had an offer accepted comes first.
+export function getOfferBuyers(offers: Offer[]) {
+  const buyers = new Map<string, User>();
+  [...offers]
+    .sort(
+      (a, b) =>
+        Number(b.status === 'accepted') - Number(a.status === 'accepted')
+    )
+    .forEach((offer) => {
+      if (!buyers.has(offer.buyer.id)) buyers.set(offer.buyer.id, offer.buyer);
+    });
+  return [...buyers.values()];
+}
+
+// Which side of a sale the user was on, if they can rate the other side
+export function getRatingRole(
+  listing: Listing,
+  userId: string | undefined
+): RatingRole | null {
+  if (!userId || listing.status !== 'sold' || !listing.buyer) return null;
+  if (userId === listing.seller.id) return 'seller';
+  if (userId === listing.buyer.id) return 'buyer';
+  return null;
+}
+
+export function formatRating(rating: number) {
+  return rating.toFixed(1);
+}
+
+export function formatResponseTime(hours: number) {
+  if (hours < 1) return 'within an hour';
+  if (hours < 24) {
+    const rounded = Math.round(hours);
+    return `within ${rounded} ${rounded === 1 ? 'hour' : 'hours'}`;
+  }
+  const days = Math.round(hours / 24);
+  return `within ${days} ${days === 1 ? 'day' : 'days'}`;
+}
+
+export const LISTING_SORTS: { value: ListingSort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'price-asc', label: 'Price: low to high' },
+  { value: 'price-desc', label: 'Price: high to low' },
+  { value: 'popular', label: 'Most viewed' },
+];
+
+export const DEFAULT_LISTING_SORT: ListingSort = 'newest';
+
+export function formatPrice(price: number, currency: string): string {
+  return formatCurrency(price, currency);
+}
+
+function parsePrice(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+function isOneOf<T extends string>(
+  value: string | null,
+  options: { value: T }[]
+): value is T {
+  return options.some((option) => option.value === value);
+}
+
+/**
+ * Reads browse filters from URL search params, dropping anything invalid so
+ * a hand-edited or stale URL never reaches the API.
+ */
+export function parseListingFilters(
+  params: Pick<URLSearchParams, 'get'>
+): ListingFilters {
+  const condition = params.get('condition');
+  const sort = params.get('sort');
+
+  return {
+    q: params.get('q')?.trim() || undefined,
+    category: params.get('category') || undefined,
+    condition: isOneOf(condition, LISTING_CONDITIONS) ? condition : undefined,
+    minPrice: parsePrice(params.get('minPrice')),
+    maxPrice: parsePrice(params.get('maxPrice')),
+    location: params.get('location')?.trim() || undefined,
+    sort: isOneOf(sort, LISTING_SORTS) ? sort : undefined,
+  };
+}
+
+/**
+ * Writes browse filters to URL search params. Empty values and the default
+ * sort are left out so the URL stays short.
+ */
+export function serializeListingFilters(
+  filters: ListingFilters
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.q) params.set('q', filters.q);
+  if (filters.category) params.set('category', filters.category);
+  if (filters.condition) params.set('condition', filters.condition);
+  if (filters.minPrice !== undefined) {
+    params.set('minPrice', String(filters.minPrice));
+  }
+  if (filters.maxPrice !== undefined) {
+    params.set('maxPrice', String(filters.maxPrice));
+  }
+  if (filters.location) params.set('location', filters.location);
+  if (filters.sort && filters.sort !== DEFAULT_LISTING_SORT) {
+    params.set('sort', filters.sort);
+  }
+
+  return params;
+}
+
+// Link that re-runs a saved search on the search page's Marketplace tab
+export function getSavedSearchHref(
+  search: Pick<SavedSearch, 'query' | 'filters'>
+) {
+  const params = serializeListingFilters({
+    q: search.query,
+    ...search.filters,
+  });
+  params.set('type', 'listings');
+  return `/search?${params.toString()}`;
+}
+
+/**
+ * Short summary of a saved search's filters, e.g. "Bikes · Like New ·
+ * 1000 - 3000". Prices are unitless like the filters themselves.
+ */
+export function describeSavedSearchFilters(
+  filters: SavedSearchFilters,
+  categoryNames: Record<string, string> = {}
+) {
+  const parts: string[] = [];
+  const { minPrice, maxPrice } = filters;
+
+  if (filters.category) {
+    parts.push(categoryNames[filters.category] ?? filters.category);
+  }
+  if (filters.condition) parts.push(CONDITION_LABELS[filters.condition]);
+  if (minPrice !== undefined && maxPrice !== undefined) {
+    parts.push(`${minPrice} - ${maxPrice}`);
+  } else if (minPrice !== undefined) {
+    parts.push(`From ${minPrice}`);
+  } else if (maxPrice !== undefined) {
+    parts.push(`Up to ${maxPrice}`);
+  }
+
+  return parts.join(' · ');
+}
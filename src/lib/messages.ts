@@ -0,0 +1,25 @@
+import type { User } from '@/types/auth';
+import type { Listing } from '@/types/marketplace';
+import type { Conversation, ListingContext } from '@/types/message';
+
+// The person on the other side of a one-to-one conversation
+export function getOtherParticipant(
+  conversation: Conversation,
+  currentUserId: string | undefined
+): User | undefined {
+  return (
+    conversation.participants.find((user) => user.id !== currentUserId) ??
+    conversation.participants[0]
+  );
+}
+
+export function toListingContext(listing: Listing): ListingContext {
+  return {
+    id: listing.id,
+    title: listing.title,
+    price: listing.price,
+    currency: listing.currency,
+    image: listing.images[0] ?? null,
+    status: listing.status,
+  };
+}
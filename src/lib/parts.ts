@@ -0,0 +1,252 @@
+import type {
+  FitmentLevel,
+  FitmentSelection,
+  PartCategory,
+  PartCategoryNode,
+  PartCondition,
+  PartFilters,
+  PartFitment,
+} from '@/types/part';
+
+export const PART_CONDITIONS: { value: PartCondition; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'used', label: 'Used' },
+  { value: 'refurbished', label: 'Refurbished' },
+];
+
+export const PART_CONDITION_LABELS = Object.fromEntries(
+  PART_CONDITIONS.map(({ value, label }) => [value, label])
+) as Record<PartCondition, string>;
+
+export const PART_CONDITION_COLORS: Record<PartCondition, string> = {
+  new: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
+  used: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100',
+  refurbished: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100',
+};
+
+/**
+ * Links the flat category list into a tree. Categories whose parent is
+ * missing from the list are treated as top-level so nothing disappears.
+ * Keeps the incoming order among siblings.
+ */
+export function buildCategoryTree(
+  categories: PartCategory[]
+): PartCategoryNode[] {
+  const nodes = new Map<string, PartCategoryNode>(
+    categories.map((category) => [category.id, { ...category, children: [] }])
+  );
+  const roots: PartCategoryNode[] = [];
+
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * The chain of categories from the top level down to `slug`, for
+ * breadcrumbs. Empty when the slug isn't a known category.
+ */
+export function getCategoryPath(
+  categories: PartCategory[],
+  slug: string | undefined
+): PartCategory[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: PartCategory[] = [];
+  let current = categories.find((category) => category.slug === slug);
+
+  // The visited check guards against a cycle in bad data
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+export const FITMENT_LEVELS: { value: FitmentLevel; label: string }[] = [
+  { value: 'make', label: 'Make' },
+  { value: 'model', label: 'Model' },
+  { value: 'year', label: 'Year' },
+  { value: 'engine', label: 'Engine' },
+];
+
+/**
+ * The part of a selection that the options for `level` depend on, or null
+ * while an earlier level is still unpicked (models need a make, and so on).
+ */
+export function getFitmentParents(
+  level: FitmentLevel,
+  selection: FitmentSelection
+): FitmentSelection | null {
+  const parents: FitmentSelection = {};
+
+  for (const { value } of FITMENT_LEVELS) {
+    if (value === level) return parents;
+    if (selection[value] === undefined) return null;
+    Object.assign(parents, { [value]: selection[value] });
+  }
+
+  return parents;
+}
+
+// Picks a value for one level and clears every level after it, since a new
+// make invalidates the model, a new model the year, and so on
+export function setFitmentLevel(
+  selection: FitmentSelection,
+  level: FitmentLevel,
+  value: string | number | undefined
+): FitmentSelection {
+  const index = FITMENT_LEVELS.findIndex((item) => item.value === level);
+  const next: FitmentSelection = {};
+
+  FITMENT_LEVELS.slice(0, index).forEach(({ value: earlier }) => {
+    Object.assign(next, { [earlier]: selection[earlier] });
+  });
+  Object.assign(next, { [level]: value });
+
+  return next;
+}
+
+function pickFitment(filters: PartFilters): FitmentSelection {
+  return {
+    make: filters.make,
+    model: filters.model,
+    year: filters.year,
+    engine: filters.engine,
+  };
+}
+
+export function hasFitment(selection: FitmentSelection) {
+  return !!selection.make;
+}
+
+// "2019 Yamaha WR250F (250cc)"
+export function describeFitment(selection: FitmentSelection) {
+  const bike = [selection.year, selection.make, selection.model]
+    .filter(Boolean)
+    .join(' ');
+  return selection.engine ? `${bike} (${selection.engine})` : bike;
+}
+
+export function formatYearRange(
+  fitment: Pick<PartFitment, 'yearFrom' | 'yearTo'>
+) {
+  return fitment.yearFrom === fitment.yearTo
+    ? String(fitment.yearFrom)
+    : `${fitment.yearFrom}–${fitment.yearTo}`;
+}
+
+// Whether a fitment row covers the selected bike. Levels left unpicked match
+// anything, and rows without an engine fit every engine variant.
+export function matchesFitment(
+  fitment: PartFitment,
+  selection: FitmentSelection
+) {
+  if (selection.make && fitment.make !== selection.make) return false;
+  if (selection.model && fitment.model !== selection.model) return false;
+  if (
+    selection.year !== undefined &&
+    (selection.year < fitment.yearFrom || selection.year > fitment.yearTo)
+  ) {
+    return false;
+  }
+  if (
+    selection.engine &&
+    fitment.engine &&
+    fitment.engine !== selection.engine
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Part numbers get written with and without separators: "5TJ-14451-00",
+ * "5tj 14451 00" and "5TJ1445100" are the same part. Strips dashes and
+ * whitespace and upper-cases the rest so they compare equal.
+ */
+export function normalizePartNumber(value: string) {
+  return value.replace(/[\s-]+/g, '').toUpperCase();
+}
+
+// Letters and digits, optionally split into groups by dashes or spaces
+const PART_NUMBER_PATTERN = /^[a-z0-9]+(?:[\s-]+[a-z0-9]+)*$/i;
+
+/**
+ * Whether a search looks like a part number rather than words or a model
+ * name: groups of letters and digits, 5-20 characters without the
+ * separators, with more digits than letters and no all-letter group.
+ * "HF204" and "15410-MFJ-D01" do; "CRF450R" and "Yamaha WR250F" don't.
+ */
+export function looksLikePartNumber(query: string) {
+  const value = query.trim();
+  if (!PART_NUMBER_PATTERN.test(value)) return false;
+  if (value.split(/\s+/).some((word) => /^[a-z]+$/i.test(word))) return false;
+
+  const normalized = normalizePartNumber(value);
+  const digits = normalized.replace(/\D/g, '').length;
+  return (
+    normalized.length >= 5 &&
+    normalized.length <= 20 &&
+    digits > normalized.length - digits
+  );
+}
+
+// Catalog link listing every part with the number or an equivalent
+export function getPartNumberHref(partNumber: string) {
+  return `/parts?${serializePartFilters({ partNumber: normalizePartNumber(partNumber) }).toString()}`;
+}
+
+function parseYear(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const year = Number(value);
+  return Number.isInteger(year) && year > 1900 ? year : undefined;
+}
+
+/**
+ * Reads catalog filters from URL search params: the search text, part
+ * number, category and fitment. Fitment levels after a missing one are
+ * dropped.
+ */
+export function parsePartFilters(
+  params: Pick<URLSearchParams, 'get'>
+): PartFilters {
+  const fitment: FitmentSelection = {
+    make: params.get('make') || undefined,
+    model: params.get('model') || undefined,
+    year: parseYear(params.get('year')),
+    engine: params.get('engine') || undefined,
+  };
+  const complete = FITMENT_LEVELS.filter(
+    ({ value }) => getFitmentParents(value, fitment) !== null
+  ).map(({ value }) => value);
+
+  return {
+    q: params.get('q')?.trim() || undefined,
+    partNumber:
+      normalizePartNumber(params.get('partNumber') ?? '') || undefined,
+    category: params.get('category') || undefined,
+    ...Object.fromEntries(complete.map((level) => [level, fitment[level]])),
+  };
+}
+
+export function serializePartFilters(filters: PartFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const fitment = pickFitment(filters);
+
+  if (filters.q) params.set('q', filters.q);
+  if (filters.partNumber) params.set('partNumber', filters.partNumber);
+  if (filters.category) params.set('category', filters.category);
+  FITMENT_LEVELS.forEach(({ value }) => {
+    if (fitment[value] !== undefined) params.set(value, String(fitment[value]));
+  });
+
+  return params;
+}
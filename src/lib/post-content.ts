@@ -0,0 +1,97 @@
+/**
+ * Splits post text into plain text, #hashtags, @mentions and links so it can
+ * be rendered as React nodes without ever injecting HTML.
+ */
+
+export type PostContentToken =
+  | { type: 'text'; value: string }
+  | { type: 'hashtag'; value: string; tag: string }
+  | { type: 'mention'; value: string; username: string }
+  | { type: 'url'; value: string; href: string };
+
+// URLs first so a "#fragment" or "@user" inside a link stays part of the link.
+// Hashtags and mentions must start the text or follow whitespace/punctuation,
+// which keeps email addresses like a@b.com from turning into mentions.
+const TOKEN_PATTERN =
+  /(https?:\/\/[^\s<]+[^\s<.,:;"')\]!?]|www\.[^\s<]+[^\s<.,:;"')\]!?])|(^|[^\w&/])#(\w+)|(^|[^\w/])@(\w+)/g;
+
+export function parsePostContent(content: string): PostContentToken[] {
+  const tokens: PostContentToken[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const previous = tokens[tokens.length - 1];
+    if (previous?.type === 'text') {
+      previous.value += value;
+    } else {
+      tokens.push({ type: 'text', value });
+    }
+  };
+
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const [full, url, hashtagPrefix, tag, mentionPrefix, username] = match;
+    const index = match.index ?? 0;
+
+    pushText(content.slice(lastIndex, index));
+
+    if (url) {
+      tokens.push({
+        type: 'url',
+        value: url,
+        href: url.startsWith('www.') ? `https://${url}` : url,
+      });
+    } else if (tag) {
+      pushText(hashtagPrefix ?? '');
+      tokens.push({ type: 'hashtag', value: `#${tag}`, tag });
+    } else if (username) {
+      pushText(mentionPrefix ?? '');
+      tokens.push({ type: 'mention', value: `@${username}`, username });
+    }
+
+    lastIndex = index + full.length;
+  }
+
+  pushText(content.slice(lastIndex));
+
+  return tokens;
+}
+
+/**
+ * Shortens post text without cutting a hashtag, mention or link in half.
+ */
+export function truncatePostContent(
+  content: string,
+  maxLength: number
+): string {
+  if (content.length <= maxLength) return content;
+
+  let length = 0;
+  let result = '';
+
+  for (const token of parsePostContent(content)) {
+    if (length + token.value.length <= maxLength) {
+      result += token.value;
+      length += token.value.length;
+      continue;
+    }
+
+    // Only plain text can be cut mid-way
+    if (token.type === 'text') {
+      result += token.value.slice(0, maxLength - length);
+    }
+    break;
+  }
+
+  return `${result.trimEnd()}...`;
+}
+
+/**
+ * Lowercased, de-duplicated hashtags in post text (without the #).
+ */
+export function getPostHashtags(content: string): string[] {
+  const tags = parsePostContent(content).flatMap((token) =>
+    token.type === 'hashtag' ? [token.tag.toLowerCase()] : []
+  );
+  return [...new Set(tags)];
+}
@@ -98,6 +98,26 @@ export function formatFileSize(bytes: number) {
   return `${size.toFixed(1)} ${units[unitIndex]}`;
 }
 
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export function downloadFile(
+  filename: string,
+  content: string,
+  type: string = 'text/plain'
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  // Firefox only follows links that are in the document
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 /**
  * Generate a random string of specified length
  */
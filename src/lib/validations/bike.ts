@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+export const BIKE_MAX_PHOTOS = 6;
+export const BIKE_MIN_YEAR = 1900;
+
+// 17 characters, never I, O or Q (they look like 1 and 0)
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const optionalText = (max: number, label: string) =>
+  z
+    .string()
+    .trim()
+    .max(max, `${label} must be less than ${max} characters`)
+    .optional();
+
+export const bikeSchema = z.object({
+  make: z.string().trim().min(1, 'Enter the make').max(50),
+  model: z.string().trim().min(1, 'Enter the model').max(50),
+  year: z
+    .number({
+      required_error: 'Enter the model year',
+      invalid_type_error: 'Enter the model year',
+    })
+    .int('Enter a whole year')
+    .min(BIKE_MIN_YEAR, 'Enter a valid year')
+    .max(new Date().getFullYear() + 1, 'Enter a valid year'),
+  engine: optionalText(50, 'Engine'),
+  nickname: optionalText(50, 'Nickname'),
+  vin: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine((vin) => vin === '' || VIN_PATTERN.test(vin), {
+      message: 'VIN must be 17 letters and numbers (no I, O or Q)',
+    })
+    .optional(),
+  mileage: z
+    .number({
+      required_error: 'Enter the mileage',
+      invalid_type_error: 'Enter the mileage',
+    })
+    .int('Enter whole kilometres')
+    .min(0, "Mileage can't be negative"),
+  photos: z
+    .array(z.string().url('Invalid image URL'))
+    .max(BIKE_MAX_PHOTOS, `You can add up to ${BIKE_MAX_PHOTOS} photos`),
+});
+
+export type BikeFormData = z.infer<typeof bikeSchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const COMMENT_MAX_LENGTH = 1000;
+
+export const commentSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Comment cannot be empty')
+    .max(
+      COMMENT_MAX_LENGTH,
+      `Comment must be less than ${COMMENT_MAX_LENGTH} characters`
+    ),
+});
+
+export type CommentFormData = z.infer<typeof commentSchema>;
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+export const LISTING_TITLE_MAX_LENGTH = 100;
+export const LISTING_DESCRIPTION_MAX_LENGTH = 2000;
+export const LISTING_MAX_IMAGES = 10;
+export const LISTING_MAX_PRICE = 1_000_000;
+export const LISTING_CURRENCIES = ['GEL', 'USD', 'EUR'] as const;
+
+export const listingSchema = z.object({
+  category: z.string().min(1, 'Pick a category'),
+  title: z
+    .string()
+    .trim()
+    .min(3, 'Title must be at least 3 characters')
+    .max(
+      LISTING_TITLE_MAX_LENGTH,
+      `Title must be less than ${LISTING_TITLE_MAX_LENGTH} characters`
+    ),
+  description: z
+    .string()
+    .trim()
+    .min(10, 'Tell buyers a bit more (at least 10 characters)')
+    .max(
+      LISTING_DESCRIPTION_MAX_LENGTH,
+      `Description must be less than ${LISTING_DESCRIPTION_MAX_LENGTH} characters`
+    ),
+  price: z
+    .number({
+      required_error: 'Enter a price',
+      invalid_type_error: 'Enter a price',
+    })
+    .min(0, "Price can't be negative")
+    .max(LISTING_MAX_PRICE, 'Price is too high'),
+  currency: z.enum(LISTING_CURRENCIES),
+  condition: z.enum(['new', 'like-new', 'good', 'fair', 'poor'], {
+    errorMap: () => ({ message: 'Pick a condition' }),
+  }),
+  images: z
+    .array(z.string().url('Invalid image URL'))
+    .min(1, 'Add at least one photo')
+    .max(LISTING_MAX_IMAGES, `You can add up to ${LISTING_MAX_IMAGES} photos`),
+  location: z
+    .string()
+    .trim()
+    .min(2, 'Enter a city or region')
+    .max(100, 'Location must be less than 100 characters'),
+});
+
+export type ListingFormData = z.infer<typeof listingSchema>;
+
+// Fields checked before leaving each step of the listing wizard
+export const LISTING_STEP_FIELDS = {
+  category: ['category'],
+  details: ['title', 'description', 'price', 'currency', 'condition'],
+  photos: ['images'],
+  location: ['location'],
+  preview: [],
+} as const satisfies Record<string, readonly (keyof ListingFormData)[]>;
+
+export type ListingStep = keyof typeof LISTING_STEP_FIELDS;
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+
+import { LISTING_CURRENCIES } from './listing';
+
+export const MAINTENANCE_TYPES = [
+  'oil-change',
+  'chain',
+  'tires',
+  'brakes',
+  'air-filter',
+  'coolant',
+  'valves',
+  'other',
+] as const;
+
+export const MAINTENANCE_MAX_RECEIPTS = 5;
+export const MAINTENANCE_NOTES_MAX_LENGTH = 500;
+export const REMINDER_MAX_MONTHS = 60;
+
+// Today as YYYY-MM-DD in the user's timezone, the format date inputs use
+export function getTodayDate() {
+  const now = new Date();
+  now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+  return now.toISOString().slice(0, 10);
+}
+
+const maintenanceType = z.enum(MAINTENANCE_TYPES, {
+  errorMap: () => ({ message: 'Pick what was done' }),
+});
+
+export const maintenanceEntrySchema = z.object({
+  type: maintenanceType,
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Pick a date')
+    .refine((date) => date <= getTodayDate(), "Date can't be in the future"),
+  odometer: z
+    .number({
+      required_error: 'Enter the odometer reading',
+      invalid_type_error: 'Enter the odometer reading',
+    })
+    .int('Enter whole kilometres')
+    .min(0, "Odometer can't be negative"),
+  cost: z.number().min(0, "Cost can't be negative").optional(),
+  currency: z.enum(LISTING_CURRENCIES),
+  notes: z
+    .string()
+    .trim()
+    .max(
+      MAINTENANCE_NOTES_MAX_LENGTH,
+      `Notes must be less than ${MAINTENANCE_NOTES_MAX_LENGTH} characters`
+    )
+    .optional(),
+  receipts: z
+    .array(z.string().url('Invalid image URL'))
+    .max(
+      MAINTENANCE_MAX_RECEIPTS,
+      `You can attach up to ${MAINTENANCE_MAX_RECEIPTS} receipts`
+    ),
+});
+
+export type MaintenanceEntryFormData = z.infer<typeof maintenanceEntrySchema>;
+
+export const maintenanceReminderSchema = z
+  .object({
+    type: maintenanceType,
+    intervalKm: z
+      .number()
+      .int('Enter whole kilometres')
+      .positive('Enter a distance above 0')
+      .optional(),
+    intervalMonths: z
+      .number()
+      .int('Enter whole months')
+      .positive('Enter at least 1 month')
+      .max(REMINDER_MAX_MONTHS, `Enter at most ${REMINDER_MAX_MONTHS} months`)
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.intervalKm !== undefined || data.intervalMonths !== undefined,
+    {
+      message: 'Set a distance, a time interval or both',
+      path: ['intervalKm'],
+    }
+  );
+
+export type MaintenanceReminderFormData = z.infer<
+  typeof maintenanceReminderSchema
+>;
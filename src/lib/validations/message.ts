@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+export const MESSAGE_MAX_LENGTH = 2000;
+
+export const messageSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Message cannot be empty')
+    .max(
+      MESSAGE_MAX_LENGTH,
+      `Message must be less than ${MESSAGE_MAX_LENGTH} characters`
+    ),
+});
+
+export type MessageFormData = z.infer<typeof messageSchema>;
+
+// Quick questions offered when contacting a seller about a listing
+export const SELLER_QUESTIONS = [
+  'Is this still available?',
+  "What's the lowest price you'd accept?",
+  'Can I come and see it?',
+  'Is there any damage not shown in the photos?',
+] as const;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+import { LISTING_MAX_PRICE } from './listing';
+
+export const OFFER_MESSAGE_MAX_LENGTH = 500;
+
+// How long the other side has to respond before an offer lapses
+export const OFFER_EXPIRY_OPTIONS = [
+  { value: 24, label: '24 hours' },
+  { value: 48, label: '2 days' },
+  { value: 72, label: '3 days' },
+] as const;
+
+export const DEFAULT_OFFER_EXPIRY_HOURS = 48;
+
+export const offerSchema = z.object({
+  amount: z
+    .number({
+      required_error: 'Enter an amount',
+      invalid_type_error: 'Enter an amount',
+    })
+    .positive('Offer must be more than zero')
+    .max(LISTING_MAX_PRICE, 'Offer is too high'),
+  message: z
+    .string()
+    .trim()
+    .max(
+      OFFER_MESSAGE_MAX_LENGTH,
+      `Message must be less than ${OFFER_MESSAGE_MAX_LENGTH} characters`
+    )
+    .optional(),
+  expiresInHours: z.number().int().positive(),
+});
+
+export type OfferFormData = z.infer<typeof offerSchema>;
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+export const POST_MAX_LENGTH = 2000;
+export const POST_MAX_IMAGES = 10;
+
+export const createPostSchema = z
+  .object({
+    content: z
+      .string()
+      .max(
+        POST_MAX_LENGTH,
+        `Post must be less than ${POST_MAX_LENGTH} characters`
+      ),
+    images: z
+      .array(z.string().url('Invalid image URL'))
+      .max(POST_MAX_IMAGES, `You can attach up to ${POST_MAX_IMAGES} photos`),
+  })
+  .refine((data) => data.content.trim().length > 0 || data.images.length > 0, {
+    message: 'Write something or add a photo',
+    path: ['content'],
+  });
+
+export type CreatePostFormData = z.infer<typeof createPostSchema>;
+
+// Quote posts always carry your own text; the original is attached separately
+export const quotePostSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Add your thoughts')
+    .max(
+      POST_MAX_LENGTH,
+      `Post must be less than ${POST_MAX_LENGTH} characters`
+    ),
+});
+
+export type QuotePostFormData = z.infer<typeof quotePostSchema>;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const RATING_REVIEW_MAX_LENGTH = 280;
+
+export const ratingSchema = z.object({
+  score: z
+    .number({ required_error: 'Pick a rating' })
+    .int()
+    .min(1, 'Pick a rating')
+    .max(5),
+  review: z
+    .string()
+    .trim()
+    .max(
+      RATING_REVIEW_MAX_LENGTH,
+      `Review must be less than ${RATING_REVIEW_MAX_LENGTH} characters`
+    )
+    .optional(),
+});
+
+export type RatingFormData = z.infer<typeof ratingSchema>;
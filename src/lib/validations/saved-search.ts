@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+export const SAVED_SEARCH_NAME_MAX_LENGTH = 60;
+
+export const savedSearchSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Give this search a name')
+    .max(
+      SAVED_SEARCH_NAME_MAX_LENGTH,
+      `Name must be less than ${SAVED_SEARCH_NAME_MAX_LENGTH} characters`
+    ),
+  notify: z.boolean(),
+});
+
+export type SavedSearchFormData = z.infer<typeof savedSearchSchema>;
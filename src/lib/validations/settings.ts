@@ -1,10 +1,13 @@
 import { z } from 'zod';
 
+import { LISTING_CURRENCIES } from './listing';
+
 // Account settings
 export const accountSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
   phone: z.string().optional(),
   language: z.string(),
+  displayCurrency: z.enum(LISTING_CURRENCIES),
 });
 
 export type AccountFormData = z.infer<typeof accountSchema>;
@@ -30,6 +33,8 @@ export const notificationSchema = z.object({
   newMessage: z.boolean(),
   threadReply: z.boolean(),
   listingInquiry: z.boolean(),
+  listingOffer: z.boolean(),
+  maintenanceReminder: z.boolean(),
 });
 
 export type NotificationFormData = z.infer<typeof notificationSchema>;
@@ -10,9 +10,14 @@ const protectedPrefixRoutes = [
   '/settings',
   '/messages',
   '/marketplace/create',
+  '/marketplace/my-listings',
+  '/marketplace/favorites',
   '/forum/create',
 ];
 
+// Routes that require authentication (dynamic segments)
+const protectedPatternRoutes = [/^\/marketplace\/[^/]+\/edit$/];
+
 // Routes that should redirect authenticated users
 const authRoutes = ['/login', '/register', '/forgot-password', '/verify'];
 
@@ -72,7 +77,8 @@ export default withAuth(
         // Check if route requires authentication
         const requiresAuth =
           protectedExactRoutes.includes(pathname) ||
-          protectedPrefixRoutes.some((route) => pathname.startsWith(route));
+          protectedPrefixRoutes.some((route) => pathname.startsWith(route)) ||
+          protectedPatternRoutes.some((route) => route.test(pathname));
 
         if (requiresAuth) {
           return !!token;
@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
+import { DEFAULT_DISPLAY_CURRENCY } from '@/lib/currency';
+import type { ListingCurrency } from '@/types/marketplace';
+
 interface UIState {
   // Sidebar
   sidebarCollapsed: boolean;
@@ -36,6 +39,11 @@ interface UIState {
   createPostOpen: boolean;
   setCreatePostOpen: (open: boolean) => void;
   toggleCreatePost: () => void;
+
+  // Marketplace prices in other currencies also show an approximate amount
+  // in this one
+  displayCurrency: ListingCurrency;
+  setDisplayCurrency: (currency: ListingCurrency) => void;
 }
 
 export const useUIStore = create<UIState>()(
@@ -79,11 +87,16 @@ export const useUIStore = create<UIState>()(
       setCreatePostOpen: (open) => set({ createPostOpen: open }),
       toggleCreatePost: () =>
         set((state) => ({ createPostOpen: !state.createPostOpen })),
+
+      // Display currency
+      displayCurrency: DEFAULT_DISPLAY_CURRENCY,
+      setDisplayCurrency: (currency) => set({ displayCurrency: currency }),
     }),
     {
       name: 'ui-storage',
       partialize: (state) => ({
         sidebarCollapsed: state.sidebarCollapsed,
+        displayCurrency: state.displayCurrency,
       }),
     }
   )
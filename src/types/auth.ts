@@ -14,10 +14,21 @@ export interface User {
   followersCount?: number;
   followingCount?: number;
   postsCount?: number;
+  sellerStats?: SellerStats;
   createdAt: string;
   updatedAt?: string;
 }
 
+// Marketplace reputation, built from ratings left after completed sales
+export interface SellerStats {
+  // Average score out of 5, null until the first rating
+  rating: number | null;
+  ratingsCount: number;
+  completedSales: number;
+  // Median hours to reply to a buyer's first message, null without enough data
+  responseTimeHours: number | null;
+}
+
 export interface UpdateProfileData {
   fullName?: string;
   username?: string;
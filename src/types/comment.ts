@@ -0,0 +1,20 @@
+import type { User } from './auth';
+
+// Comment on a post; replies point at their top-level comment via `parentId`
+export interface Comment {
+  id: string;
+  postId: string;
+  parentId?: string | null;
+  content: string;
+  author: User;
+  likesCount: number;
+  repliesCount: number;
+  isLiked?: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateCommentData {
+  content: string;
+  parentId?: string;
+}
@@ -0,0 +1,85 @@
+// A motorcycle in a user's garage
+export interface Bike {
+  id: string;
+  make: string;
+  model: string;
+  year: number;
+  // Engine variant, for models sold with more than one
+  engine?: string;
+  nickname?: string;
+  // Only returned to the bike's owner
+  vin?: string | null;
+  // Odometer reading in km
+  mileage: number;
+  photos: string[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateBikeData {
+  make: string;
+  model: string;
+  year: number;
+  engine?: string;
+  nickname?: string;
+  vin?: string;
+  mileage: number;
+  photos: string[];
+}
+
+export type UpdateBikeData = Partial<CreateBikeData>;
+
+export type MaintenanceType =
+  | 'oil-change'
+  | 'chain'
+  | 'tires'
+  | 'brakes'
+  | 'air-filter'
+  | 'coolant'
+  | 'valves'
+  | 'other';
+
+// One job in a bike's maintenance log
+export interface MaintenanceEntry {
+  id: string;
+  bikeId: string;
+  type: MaintenanceType;
+  // Day the work was done, YYYY-MM-DD
+  date: string;
+  // Odometer reading in km at the time
+  odometer: number;
+  cost: number | null;
+  currency: string;
+  notes?: string;
+  // Photos of receipts and invoices
+  receipts: string[];
+  createdAt: string;
+}
+
+export interface CreateMaintenanceEntryData {
+  type: MaintenanceType;
+  date: string;
+  odometer: number;
+  cost?: number;
+  currency: string;
+  notes?: string;
+  receipts: string[];
+}
+
+// Repeats a maintenance job every so many km and/or months, counted from the
+// last log entry of the same type. The server sends a notification when it
+// comes due.
+export interface MaintenanceReminder {
+  id: string;
+  bikeId: string;
+  type: MaintenanceType;
+  intervalKm: number | null;
+  intervalMonths: number | null;
+  createdAt: string;
+}
+
+export interface CreateMaintenanceReminderData {
+  type: MaintenanceType;
+  intervalKm?: number;
+  intervalMonths?: number;
+}
@@ -0,0 +1,187 @@
+import type { User } from './auth';
+
+export type ListingCondition = 'new' | 'like-new' | 'good' | 'fair' | 'poor';
+
+export type ListingStatus =
+  | 'active'
+  | 'reserved'
+  | 'sold'
+  | 'expired'
+  | 'draft';
+
+// Marketplace listing type
+export interface Listing {
+  id: string;
+  title: string;
+  description: string;
+  price: number;
+  currency: string;
+  images: string[];
+  condition: ListingCondition;
+  // Category slug
+  category: string;
+  location?: string;
+  seller: User;
+  status: ListingStatus;
+  isFavorited?: boolean;
+  viewsCount: number;
+  // Active listings expire unless renewed
+  expiresAt?: string;
+  soldAt?: string;
+  // Who the seller marked as the buyer, if they sold it to someone on here
+  buyer?: User | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type ListingCurrency = 'GEL' | 'USD' | 'EUR';
+
+export interface CreateListingData {
+  category: string;
+  title: string;
+  description: string;
+  price: number;
+  currency: ListingCurrency;
+  condition: ListingCondition;
+  images: string[];
+  location: string;
+}
+
+export type UpdateListingData = CreateListingData;
+
+export type OfferStatus =
+  | 'pending'
+  | 'countered'
+  | 'accepted'
+  | 'declined'
+  | 'expired'
+  | 'withdrawn';
+
+export type OfferEventType =
+  | 'offered'
+  | 'countered'
+  | 'accepted'
+  | 'declined'
+  | 'expired'
+  | 'withdrawn';
+
+// One step in an offer's back-and-forth, oldest first in `Offer.history`
+export interface OfferEvent {
+  id: string;
+  type: OfferEventType;
+  // Missing for steps the server takes on its own, like expiry
+  actor?: User | null;
+  amount?: number;
+  message?: string;
+  createdAt: string;
+}
+
+// A buyer's offer on a listing, including any counter-offers
+export interface Offer {
+  id: string;
+  listingId: string;
+  buyer: User;
+  // The amount currently on the table - the latest offer or counter
+  amount: number;
+  currency: string;
+  status: OfferStatus;
+  // Who has to respond next: the seller after an offer, the buyer after a counter
+  awaiting: 'buyer' | 'seller';
+  expiresAt: string;
+  history: OfferEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateOfferData {
+  amount: number;
+  message?: string;
+  expiresInHours: number;
+}
+
+export type OfferResponseData =
+  | { action: 'accept' | 'decline' }
+  | ({ action: 'counter' } & CreateOfferData);
+
+export type RatingRole = 'buyer' | 'seller';
+
+// One side's rating of the other after a sale. `role` is the rater's side of
+// the sale, so a 'buyer' rating is the buyer rating the seller.
+export interface TransactionRating {
+  id: string;
+  listingId: string;
+  rater: User;
+  ratee: User;
+  role: RatingRole;
+  score: number;
+  review?: string;
+  createdAt: string;
+}
+
+export interface CreateRatingData {
+  score: number;
+  review?: string;
+}
+
+// A favorited listing, with a snapshot taken when it was favorited so price
+// drops can be spotted and deleted listings can still be shown
+export interface Favorite {
+  listingId: string;
+  // Null once the seller has deleted the listing
+  listing: Listing | null;
+  title: string;
+  image?: string;
+  priceAtFavorite: number;
+  currency: string;
+  favoritedAt: string;
+}
+
+export interface MarketplaceCategory {
+  id: string;
+  name: string;
+  slug: string;
+  listingsCount?: number;
+}
+
+export type ListingSort = 'newest' | 'price-asc' | 'price-desc' | 'popular';
+
+// Browse filters - every field maps to a URL search param of the same name
+export interface ListingFilters {
+  q?: string;
+  category?: string;
+  condition?: ListingCondition;
+  minPrice?: number;
+  maxPrice?: number;
+  location?: string;
+  sort?: ListingSort;
+}
+
+// The listing search filters a saved search re-runs
+export type SavedSearchFilters = Pick<
+  ListingFilters,
+  'category' | 'condition' | 'minPrice' | 'maxPrice'
+>;
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SavedSearchFilters;
+  // Opted in to notifications when new listings match
+  notify: boolean;
+  // Listings that matched since the user last opened this search
+  newCount: number;
+  lastViewedAt: string;
+  createdAt: string;
+}
+
+export interface CreateSavedSearchData {
+  name: string;
+  query: string;
+  filters: SavedSearchFilters;
+  notify: boolean;
+}
+
+export type UpdateSavedSearchData = Partial<
+  Pick<SavedSearch, 'name' | 'notify'>
+>;
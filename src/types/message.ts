@@ -0,0 +1,44 @@
+import type { User } from './auth';
+import type { ListingStatus } from './marketplace';
+
+// Snapshot of the listing a marketplace inquiry is about. Stored with the
+// conversation so it still renders after the listing is edited or deleted.
+export interface ListingContext {
+  id: string;
+  title: string;
+  price: number;
+  currency: string;
+  image?: string | null;
+  status: ListingStatus;
+}
+
+export interface Message {
+  id: string;
+  conversationId: string;
+  sender: User;
+  content: string;
+  // Set on the first message of each inquiry, so a seller can tell listings
+  // apart when one buyer asks about several in the same conversation
+  listing?: ListingContext | null;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  participants: User[];
+  lastMessage?: Message | null;
+  unreadCount: number;
+  // The listing the latest inquiry in this conversation is about
+  listing?: ListingContext | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SendMessageData {
+  content: string;
+}
+
+export interface ContactSellerData {
+  message: string;
+}
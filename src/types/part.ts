@@ -0,0 +1,84 @@
+import type { User } from './auth';
+
+export type PartCondition = 'new' | 'used' | 'refurbished';
+
+// A spare part for sale in the parts catalog
+export interface Part {
+  id: string;
+  name: string;
+  brand?: string;
+  // Manufacturer (OEM) part number, as printed by the manufacturer
+  partNumber?: string;
+  description: string;
+  price: number;
+  currency: string;
+  condition: PartCondition;
+  images: string[];
+  // Slug of the most specific category, e.g. 'piston-rings'
+  category: string;
+  seller: User;
+  location?: string;
+  // Bikes the part is known to fit. Only included on the single part response.
+  fitment?: PartFitment[];
+  // Equivalent part numbers from other brands. Only included on the single
+  // part response.
+  crossReferences?: PartCrossReference[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// Whether a number is the bike manufacturer's own or a replacement brand's
+export type PartNumberSource = 'oem' | 'aftermarket';
+
+// A part number that can be used in place of a part's own
+export interface PartCrossReference {
+  brand: string;
+  partNumber: string;
+  source: PartNumberSource;
+}
+
+// One row of a part's fitment table: a model over a range of model years,
+// optionally limited to one engine variant
+export interface PartFitment {
+  make: string;
+  model: string;
+  yearFrom: number;
+  yearTo: number;
+  engine?: string;
+}
+
+// The steps of the make → model → year → engine selector, in order
+export type FitmentLevel = 'make' | 'model' | 'year' | 'engine';
+
+// A (possibly partial) bike picked in the fitment selector
+export interface FitmentSelection {
+  make?: string;
+  model?: string;
+  year?: number;
+  engine?: string;
+}
+
+// Categories come back as a flat list; `parentId` links them into a tree
+// (engine → pistons → rings). Top-level categories have no parent.
+export interface PartCategory {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  partsCount?: number;
+}
+
+export interface PartCategoryNode extends PartCategory {
+  children: PartCategoryNode[];
+}
+
+// Fitment fields narrow the catalog to parts compatible with that bike
+export interface PartFilters extends FitmentSelection {
+  q?: string;
+  // Normalized (see normalizePartNumber). Matches a part's own number and
+  // its cross-references.
+  partNumber?: string;
+  // Includes parts in the category's subcategories
+  category?: string;
+  sellerId?: string;
+}
@@ -0,0 +1,38 @@
+import type { User } from './auth';
+
+// Post shown in the feed, on profiles and in search results
+export interface Post {
+  id: string;
+  content: string;
+  images?: string[];
+  author: User;
+  likesCount: number;
+  commentsCount: number;
+  repostsCount?: number;
+  isLiked?: boolean;
+  isBookmarked?: boolean;
+  isReposted?: boolean;
+  // Reposts and quote posts point at the original; `repostOf` is null once
+  // the original has been deleted (rendered as a tombstone)
+  repostOfId?: string;
+  repostOf?: Post | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreatePostData {
+  content: string;
+  images: string[];
+  // Set when quote-posting
+  repostOfId?: string;
+}
+
+export type UpdatePostData = CreatePostData;
+
+// Earlier version of an edited post
+export interface PostRevision {
+  id: string;
+  content: string;
+  images?: string[];
+  createdAt: string;
+}
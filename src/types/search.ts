@@ -1,36 +1,8 @@
 import type { User } from './auth';
+import type { Post } from './post';
+import type { Listing } from './marketplace';
 
-// Post type for search results
-export interface Post {
-  id: string;
-  content: string;
-  images?: string[];
-  author: User;
-  likesCount: number;
-  commentsCount: number;
-  isLiked?: boolean;
-  isBookmarked?: boolean;
-  createdAt: string;
-  updatedAt?: string;
-}
-
-// Marketplace listing type
-export interface Listing {
-  id: string;
-  title: string;
-  description: string;
-  price: number;
-  currency: string;
-  images: string[];
-  condition: 'new' | 'like-new' | 'good' | 'fair' | 'poor';
-  category: string;
-  location?: string;
-  seller: User;
-  isFavorited?: boolean;
-  viewsCount: number;
-  createdAt: string;
-  updatedAt?: string;
-}
+export type { Post, Listing };
 
 // Forum thread type
 export interface ForumThread {
@@ -0,0 +1,30 @@
+import type { User } from './auth';
+
+// Single image story; expires 24h after it's posted
+export interface Story {
+  id: string;
+  mediaUrl: string;
+  caption?: string;
+  viewsCount: number;
+  hasViewed: boolean;
+  expiresAt: string;
+  createdAt: string;
+}
+
+// Active stories of one user, as shown in the stories bar
+export interface StoryGroup {
+  user: User;
+  hasUnviewed: boolean;
+  stories: Story[];
+}
+
+export interface CreateStoryData {
+  mediaUrl: string;
+  caption?: string;
+}
+
+// Someone who has seen one of your stories
+export interface StoryView {
+  user: User;
+  viewedAt: string;
+}